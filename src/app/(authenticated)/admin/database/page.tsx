@@ -5,6 +5,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from '@/lib/firebase/config';
+import { getRoleFromClaims, hasPermission } from '@/lib/auth/permissions';
 import { useProvinces } from '@/hooks/ReferenceData/useProvinces';
 import { useCommunes } from '@/hooks/ReferenceData/useCommunes';
 import { useMarques } from '@/hooks/ReferenceData/useMarques';
@@ -15,7 +16,19 @@ import { useGerants } from '@/hooks/ReferenceData/useGerants';
 import { useGerantCRUD } from '@/hooks/ReferenceData/useGerantCRUD';
 import { useProprietaires } from '@/hooks/ReferenceData/useProprietaires';
 import { useProprietaireCRUD } from '@/hooks/ReferenceData/useProprietaireCRUD';
-import { Province, Commune, Marque, Gerant, Proprietaire, ProprietairePhysique, ProprietaireMorale } from '@/types/station';
+import { useProduits } from '@/hooks/ReferenceData/useProduits';
+import { usePointsControle } from '@/hooks/ReferenceData/usePointsControle';
+import { usePointControleCRUD } from '@/hooks/ReferenceData/usePointControleCRUD';
+import { useProduitCRUD } from '@/hooks/ReferenceData/useProduitCRUD';
+import { useLimites } from '@/hooks/ReferenceData/useLimites';
+import { useLimiteCRUD } from '@/hooks/ReferenceData/useLimiteCRUD';
+import { useReferenceUsage, useProduitUsage } from '@/hooks/ReferenceData/useReferenceUsage';
+import { useMergeReferences, MergeableKind } from '@/hooks/ReferenceData/useMergeReferences';
+import { useDuplicateGroups } from '@/hooks/useDuplicateGroups';
+import { guessNameProperty, LimiteFeature, matchFeatures, parseGeoJson, propertyKeys } from '@/utils/limites';
+import { rebuildStationViews } from '@/lib/firebase/stationViews';
+import { Province, Commune, Marque, Gerant, Proprietaire, ProprietairePhysique, ProprietaireMorale, Produit, SeuilParametre, PointControle, Limite } from '@/types/station';
+import { ANALYSE_PARAMETRES, getParametre, getSeuils } from '@/utils/analyseParametres';
 import {
   Tabs,
   TabsContent,
@@ -58,16 +71,93 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
+type DeleteReferenceDialogProps = {
+  entityLabel: string;
+  usageLabel: string;
+  usageCount: number;
+  options: { id: string; name: string }[];
+  onConfirm: (reassignTo?: string) => void;
+};
+
+// Delete button and confirmation. When the entity is still referenced, the user
+// has to pick another entity to move the references to before deleting.
+const DeleteReferenceDialog = ({ entityLabel, usageLabel, usageCount, options, onConfirm }: DeleteReferenceDialogProps) => {
+  const [reassignTo, setReassignTo] = useState('');
+  const inUse = usageCount > 0;
+
+  return (
+    <AlertDialog onOpenChange={(isOpen) => !isOpen && setReassignTo('')}>
+      <AlertDialogTrigger asChild>
+        <Button variant="destructive">Delete</Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+        </AlertDialogHeader>
+        <AlertDialogDescription>
+          {inUse
+            ? `This ${entityLabel} is used by ${usageCount} ${usageLabel}. Choose the ${entityLabel} they should be moved to before deleting it.`
+            : `This action cannot be undone. Are you sure you want to delete this ${entityLabel}?`}
+        </AlertDialogDescription>
+        {inUse && (
+          <Select value={reassignTo} onValueChange={setReassignTo}>
+            <SelectTrigger>
+              <SelectValue placeholder={`Select a ${entityLabel}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((o) => (
+                <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={inUse && !reassignTo}
+            onClick={() => onConfirm(inUse ? reassignTo : undefined)}
+          >
+            {inUse ? 'Reassign and Delete' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+// Empty means unknown: the region then gets no value for the per capita map indicator
+const parsePopulation = (value: string): number | null => {
+  const population = Number(value.replace(/\s/g, ''));
+  return value.trim() && Number.isFinite(population) && population > 0 ? Math.round(population) : null;
+};
+
+const PopulationInput = ({ id, value, onChange }: { id: string; value: string; onChange: (value: string) => void }) => (
+  <div>
+    <Label htmlFor={id}>Population</Label>
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="Number of inhabitants (optional)"
+    />
+  </div>
+);
+
 const ProvincesPanel = () => {
   const { provinces, loading: fetchLoading, refetch } = useProvinces();
   const { createProvince, updateProvince, deleteProvince, loading: crudLoading, error } = useProvinceCRUD();
+  const { usage, refetch: refetchUsage } = useReferenceUsage('province', provinces.map((p) => p.ProvinceID));
   const [open, setOpen] = useState(false);
   const [editingProvince, setEditingProvince] = useState<Province | null>(null);
   const [nomProvince, setNomProvince] = useState('');
+  const [population, setPopulation] = useState('');
 
   const handleOpen = (province: Province | null = null) => {
     setEditingProvince(province);
     setNomProvince(province?.NomProvince || '');
+    setPopulation(province?.Population?.toString() || '');
     setOpen(true);
   };
 
@@ -78,23 +168,26 @@ const ProvincesPanel = () => {
       return;
     }
     try {
+      const data = { NomProvince: nomProvince, Population: parsePopulation(population) };
       if (editingProvince) {
-        await updateProvince(editingProvince.ProvinceID, { NomProvince: nomProvince });
+        await updateProvince(editingProvince.ProvinceID, data);
       } else {
-        await createProvince({ NomProvince: nomProvince });
+        await createProvince(data);
       }
       refetch();
       setOpen(false);
       setNomProvince('');
+      setPopulation('');
     } catch (err) {
       console.error(err);
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (id: string, reassignTo?: string) => {
     try {
-      await deleteProvince(id);
+      await deleteProvince(id, reassignTo);
       refetch();
+      refetchUsage();
     } catch (err) {
       console.error(err);
     }
@@ -113,6 +206,8 @@ const ProvincesPanel = () => {
         <TableHeader>
           <TableRow>
             <TableHead>Name</TableHead>
+            <TableHead>Population</TableHead>
+            <TableHead>Communes</TableHead>
             <TableHead>Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -120,25 +215,17 @@ const ProvincesPanel = () => {
           {provinces.map((p) => (
             <TableRow key={p.ProvinceID}>
               <TableCell>{p.NomProvince}</TableCell>
+              <TableCell>{p.Population?.toLocaleString() ?? '-'}</TableCell>
+              <TableCell>{usage[p.ProvinceID] || 0}</TableCell>
               <TableCell className="flex space-x-2">
                 <Button variant="outline" onClick={() => handleOpen(p)}>Edit</Button>
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="destructive">Delete</Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                    </AlertDialogHeader>
-                    <AlertDialogDescription>
-                      This action cannot be undone. Are you sure you want to delete this province?
-                    </AlertDialogDescription>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction onClick={() => handleDelete(p.ProvinceID)}>Delete</AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                <DeleteReferenceDialog
+                  entityLabel="province"
+                  usageLabel="commune(s)"
+                  usageCount={usage[p.ProvinceID] || 0}
+                  options={provinces.filter((o) => o.ProvinceID !== p.ProvinceID).map((o) => ({ id: o.ProvinceID, name: o.NomProvince }))}
+                  onConfirm={(reassignTo) => handleDelete(p.ProvinceID, reassignTo)}
+                />
               </TableCell>
             </TableRow>
           ))}
@@ -159,6 +246,7 @@ const ProvincesPanel = () => {
                 placeholder="Enter province name"
               />
             </div>
+            <PopulationInput id="provincePopulation" value={population} onChange={setPopulation} />
             <Button type="submit" disabled={crudLoading || !nomProvince.trim()}>
               {crudLoading ? 'Saving...' : 'Save'}
             </Button>
@@ -173,10 +261,12 @@ const CommunesPanel = () => {
   const { provinces, loading: provincesLoading } = useProvinces();
   const { communes, loading: fetchLoading, refetch } = useCommunes();
   const { createCommune, updateCommune, deleteCommune, loading: crudLoading, error } = useCommuneCRUD();
+  const { usage, refetch: refetchUsage } = useReferenceUsage('commune', communes.map((c) => c.CommuneID));
   const [open, setOpen] = useState(false);
   const [editingCommune, setEditingCommune] = useState<Commune | null>(null);
   const [nomCommune, setNomCommune] = useState('');
   const [provinceId, setProvinceId] = useState('');
+  const [population, setPopulation] = useState('');
   const [selectedProvinceFilter, setSelectedProvinceFilter] = useState<string>('');
 
   // Add useEffect to set initial province
@@ -196,6 +286,7 @@ const CommunesPanel = () => {
     setEditingCommune(commune);
     setNomCommune(commune?.NomCommune || '');
     setProvinceId(commune?.ProvinceID || '');
+    setPopulation(commune?.Population?.toString() || '');
     setOpen(true);
   };
 
@@ -206,24 +297,27 @@ const CommunesPanel = () => {
       return;
     }
     try {
+      const data = { NomCommune: nomCommune, ProvinceID: provinceId, Population: parsePopulation(population) };
       if (editingCommune) {
-        await updateCommune(editingCommune.CommuneID, { NomCommune: nomCommune, ProvinceID: provinceId });
+        await updateCommune(editingCommune.CommuneID, data);
       } else {
-        await createCommune({ NomCommune: nomCommune, ProvinceID: provinceId });
+        await createCommune(data);
       }
       refetch();
       setOpen(false);
       setNomCommune('');
       setProvinceId('');
+      setPopulation('');
     } catch (err) {
       console.error(err);
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (id: string, reassignTo?: string) => {
     try {
-      await deleteCommune(id);
+      await deleteCommune(id, reassignTo);
       refetch();
+      refetchUsage();
     } catch (err) {
       console.error(err);
     }
@@ -260,6 +354,8 @@ const CommunesPanel = () => {
           <TableRow>
             <TableHead>Name</TableHead>
             <TableHead>Province</TableHead>
+            <TableHead>Population</TableHead>
+            <TableHead>Stations</TableHead>
             <TableHead>Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -269,25 +365,17 @@ const CommunesPanel = () => {
             <TableRow key={c.CommuneID}>
               <TableCell>{c.NomCommune}</TableCell>
               <TableCell>{provinces.find((p) => p.ProvinceID === c.ProvinceID)?.NomProvince || 'Unknown'}</TableCell>
+              <TableCell>{c.Population?.toLocaleString() ?? '-'}</TableCell>
+              <TableCell>{usage[c.CommuneID] || 0}</TableCell>
               <TableCell className="flex space-x-2">
                 <Button variant="outline" onClick={() => handleOpen(c)}>Edit</Button>
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="destructive">Delete</Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                    </AlertDialogHeader>
-                    <AlertDialogDescription>
-                      This action cannot be undone. Are you sure you want to delete this commune?
-                    </AlertDialogDescription>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction onClick={() => handleDelete(c.CommuneID)}>Delete</AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                <DeleteReferenceDialog
+                  entityLabel="commune"
+                  usageLabel="station(s)"
+                  usageCount={usage[c.CommuneID] || 0}
+                  options={communes.filter((o) => o.CommuneID !== c.CommuneID).map((o) => ({ id: o.CommuneID, name: o.NomCommune }))}
+                  onConfirm={(reassignTo) => handleDelete(c.CommuneID, reassignTo)}
+                />
               </TableCell>
             </TableRow>
           ))}
@@ -323,6 +411,7 @@ const CommunesPanel = () => {
                 </SelectContent>
               </Select>
             </div>
+            <PopulationInput id="communePopulation" value={population} onChange={setPopulation} />
             <Button type="submit" disabled={crudLoading || !nomCommune.trim() || !provinceId}>
               {crudLoading ? 'Saving...' : 'Save'}
             </Button>
@@ -336,6 +425,7 @@ const CommunesPanel = () => {
 const MarquesPanel = () => {
   const { marques, loading: fetchLoading, refetch } = useMarques();
   const { createMarque, updateMarque, deleteMarque, loading: crudLoading, error } = useMarqueCRUD();
+  const { usage, refetch: refetchUsage } = useReferenceUsage('marque', marques.map((m) => m.MarqueID));
   const [open, setOpen] = useState(false);
   const [editingMarque, setEditingMarque] = useState<Marque | null>(null);
   const [marqueName, setMarqueName] = useState('');
@@ -369,10 +459,11 @@ const MarquesPanel = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (id: string, reassignTo?: string) => {
     try {
-      await deleteMarque(id);
+      await deleteMarque(id, reassignTo);
       refetch();
+      refetchUsage();
     } catch (err) {
       console.error(err);
     }
@@ -392,6 +483,7 @@ const MarquesPanel = () => {
           <TableRow>
             <TableHead>Marque</TableHead>
             <TableHead>Raison Sociale</TableHead>
+            <TableHead>Stations</TableHead>
             <TableHead>Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -400,25 +492,16 @@ const MarquesPanel = () => {
             <TableRow key={m.MarqueID}>
               <TableCell>{m.Marque}</TableCell>
               <TableCell>{m.RaisonSociale}</TableCell>
+              <TableCell>{usage[m.MarqueID] || 0}</TableCell>
               <TableCell className="flex space-x-2">
                 <Button variant="outline" onClick={() => handleOpen(m)}>Edit</Button>
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="destructive">Delete</Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                    </AlertDialogHeader>
-                    <AlertDialogDescription>
-                      This action cannot be undone. Are you sure you want to delete this marque?
-                    </AlertDialogDescription>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction onClick={() => handleDelete(m.MarqueID)}>Delete</AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                <DeleteReferenceDialog
+                  entityLabel="marque"
+                  usageLabel="station(s)"
+                  usageCount={usage[m.MarqueID] || 0}
+                  options={marques.filter((o) => o.MarqueID !== m.MarqueID).map((o) => ({ id: o.MarqueID, name: o.Marque }))}
+                  onConfirm={(reassignTo) => handleDelete(m.MarqueID, reassignTo)}
+                />
               </TableCell>
             </TableRow>
           ))}
@@ -461,6 +544,7 @@ const MarquesPanel = () => {
 const GerantsPanel = () => {
   const { gerants, loading: fetchLoading, error: fetchError, refetch } = useGerants();
   const { createGerant, updateGerant, deleteGerant, loading: crudLoading, error } = useGerantCRUD();
+  const { usage, refetch: refetchUsage } = useReferenceUsage('gerant', gerants.map((g) => g.GerantID));
   const [open, setOpen] = useState(false);
   const [editingGerant, setEditingGerant] = useState<Gerant | null>(null);
   const [formData, setFormData] = useState({
@@ -506,10 +590,11 @@ const GerantsPanel = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (id: string, reassignTo?: string) => {
     try {
-      await deleteGerant(id);
+      await deleteGerant(id, reassignTo);
       refetch();
+      refetchUsage();
     } catch (err) {
       console.error(err);
     }
@@ -531,6 +616,7 @@ const GerantsPanel = () => {
             <TableHead>Nom</TableHead>
             <TableHead>Prénom</TableHead>
             <TableHead>Téléphone</TableHead>
+            <TableHead>Stations</TableHead>
             <TableHead>Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -541,25 +627,16 @@ const GerantsPanel = () => {
               <TableCell>{g.NomGerant}</TableCell>
               <TableCell>{g.PrenomGerant}</TableCell>
               <TableCell>{g.Telephone}</TableCell>
+              <TableCell>{usage[g.GerantID] || 0}</TableCell>
               <TableCell className="flex space-x-2">
                 <Button variant="outline" onClick={() => handleOpen(g)}>Edit</Button>
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="destructive">Delete</Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                    </AlertDialogHeader>
-                    <AlertDialogDescription>
-                      This action cannot be undone. Are you sure you want to delete this gérant?
-                    </AlertDialogDescription>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction onClick={() => handleDelete(g.GerantID)}>Delete</AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                <DeleteReferenceDialog
+                  entityLabel="gérant"
+                  usageLabel="station(s)"
+                  usageCount={usage[g.GerantID] || 0}
+                  options={gerants.filter((o) => o.GerantID !== g.GerantID).map((o) => ({ id: o.GerantID, name: `${o.PrenomGerant} ${o.NomGerant} (${o.CINGerant})` }))}
+                  onConfirm={(reassignTo) => handleDelete(g.GerantID, reassignTo)}
+                />
               </TableCell>
             </TableRow>
           ))}
@@ -620,11 +697,17 @@ const GerantsPanel = () => {
   );
 };
 
+const getProprietaireLabel = (p: Proprietaire & { details: ProprietairePhysique | ProprietaireMorale | null }) =>
+  p.TypeProprietaire === 'Physique'
+    ? `${(p.details as ProprietairePhysique)?.PrenomProprietaire || ''} ${(p.details as ProprietairePhysique)?.NomProprietaire || ''}`.trim()
+    : (p.details as ProprietaireMorale)?.NomEntreprise || '';
+
 // Revised ProprietairesPanel component in src/app/(authenticated)/admin/database/page.tsx
 
 const ProprietairesPanel = () => {
   const { proprietaires, loading: fetchLoading, error: fetchError, refetch } = useProprietaires();
   const { createProprietaire, updateProprietaire, deleteProprietaire, loading: crudLoading, error } = useProprietaireCRUD();
+  const { usage, refetch: refetchUsage } = useReferenceUsage('proprietaire', proprietaires.map((p) => p.ProprietaireID));
   const [open, setOpen] = useState(false);
   const [editingProprietaire, setEditingProprietaire] = useState<(Proprietaire & { details: ProprietairePhysique | ProprietaireMorale | null }) | null>(null);
   
@@ -728,10 +811,11 @@ const ProprietairesPanel = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (id: string, reassignTo?: string) => {
     try {
-      await deleteProprietaire(id);
+      await deleteProprietaire(id, reassignTo);
       refetch();
+      refetchUsage();
     } catch (err) {
       console.error(err);
     }
@@ -769,6 +853,7 @@ const ProprietairesPanel = () => {
           <TableRow>
             <TableHead>Type</TableHead>
             <TableHead>Nom</TableHead>
+            <TableHead>Stations</TableHead>
             <TableHead>Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -781,25 +866,16 @@ const ProprietairesPanel = () => {
                   ? `${(p.details as ProprietairePhysique)?.PrenomProprietaire || ''} ${(p.details as ProprietairePhysique)?.NomProprietaire || ''}`
                   : (p.details as ProprietaireMorale)?.NomEntreprise || ''}
               </TableCell>
+              <TableCell>{usage[p.ProprietaireID] || 0}</TableCell>
               <TableCell className="flex space-x-2">
                 <Button variant="outline" onClick={() => handleOpen(p)}>Edit</Button>
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="destructive">Delete</Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                    </AlertDialogHeader>
-                    <AlertDialogDescription>
-                      This action cannot be undone. Are you sure you want to delete this propriétaire?
-                    </AlertDialogDescription>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction onClick={() => handleDelete(p.ProprietaireID)}>Delete</AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                <DeleteReferenceDialog
+                  entityLabel="propriétaire"
+                  usageLabel="station(s)"
+                  usageCount={usage[p.ProprietaireID] || 0}
+                  options={proprietaires.filter((o) => o.ProprietaireID !== p.ProprietaireID).map((o) => ({ id: o.ProprietaireID, name: getProprietaireLabel(o) }))}
+                  onConfirm={(reassignTo) => handleDelete(p.ProprietaireID, reassignTo)}
+                />
               </TableCell>
             </TableRow>
           ))}
@@ -874,6 +950,698 @@ const ProprietairesPanel = () => {
   );
 };
 
+type DuplicateRecord = {
+  id: string;
+  name: string;
+  exactKey?: string;
+  details: { label: string; value: string }[];
+};
+
+const DUPLICATE_KINDS: { value: MergeableKind; label: string }[] = [
+  { value: 'marque', label: 'Marques' },
+  { value: 'gerant', label: 'Gérants' },
+  { value: 'proprietaire', label: 'Propriétaires' },
+];
+
+const DuplicatesPanel = () => {
+  const [kind, setKind] = useState<MergeableKind>('marque');
+  const { marques, loading: marquesLoading, refetch: refetchMarques } = useMarques();
+  const { gerants, loading: gerantsLoading, refetch: refetchGerants } = useGerants();
+  const { proprietaires, loading: proprietairesLoading, refetch: refetchProprietaires } = useProprietaires();
+  const { mergeRecords, loading: mergeLoading, error } = useMergeReferences();
+  // Surviving record picked for each group, keyed by the IDs of the group
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+
+  const records = useMemo<DuplicateRecord[]>(() => {
+    if (kind === 'marque') {
+      return marques.map((m) => ({
+        id: m.MarqueID,
+        name: m.Marque,
+        details: [{ label: 'Raison Sociale', value: m.RaisonSociale }],
+      }));
+    }
+    if (kind === 'gerant') {
+      return gerants.map((g) => ({
+        id: g.GerantID,
+        name: `${g.PrenomGerant} ${g.NomGerant}`.trim(),
+        exactKey: g.CINGerant,
+        details: [
+          { label: 'CIN', value: g.CINGerant },
+          { label: 'Téléphone', value: g.Telephone || '' },
+        ],
+      }));
+    }
+    return proprietaires.map((p) => ({
+      id: p.ProprietaireID,
+      name: getProprietaireLabel(p),
+      details: [{ label: 'Type', value: p.TypeProprietaire }],
+    }));
+  }, [kind, marques, gerants, proprietaires]);
+  const { usage, refetch: refetchUsage } = useReferenceUsage(kind, records.map((r) => r.id));
+
+  const { groups, loading: groupsLoading } = useDuplicateGroups(records);
+
+  // Default survivor: the most used record of the group
+  const getSurvivor = (group: DuplicateRecord[]) => {
+    const key = group.map((r) => r.id).join('|');
+    return survivors[key]
+      || [...group].sort((a, b) => (usage[b.id] || 0) - (usage[a.id] || 0))[0].id;
+  };
+
+  const handleMerge = async (group: DuplicateRecord[]) => {
+    const survivorId = getSurvivor(group);
+    try {
+      await mergeRecords(kind, survivorId, group.map((r) => r.id).filter((id) => id !== survivorId));
+      if (kind === 'marque') refetchMarques();
+      if (kind === 'gerant') refetchGerants();
+      if (kind === 'proprietaire') refetchProprietaires();
+      refetchUsage();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  if (marquesLoading || gerantsLoading || proprietairesLoading) return <p>Loading records...</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">Likely Duplicates</h2>
+        <Select value={kind} onValueChange={(value) => setKind(value as MergeableKind)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DUPLICATE_KINDS.map((k) => (
+              <SelectItem key={k.value} value={k.value}>{k.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {error && <p className="text-red-500">{error}</p>}
+      {groupsLoading && <p>Looking for duplicates...</p>}
+      {!groupsLoading && groups.length === 0 && <p>No likely duplicates found.</p>}
+      {groups.map((group) => {
+        const key = group.map((r) => r.id).join('|');
+        const survivorId = getSurvivor(group);
+        const survivor = group.find((r) => r.id === survivorId);
+        const moved = group.filter((r) => r.id !== survivorId).reduce((sum, r) => sum + (usage[r.id] || 0), 0);
+        return (
+          <div key={key} className="border rounded-lg p-4 space-y-3">
+            <div className="flex gap-4 overflow-x-auto">
+              {group.map((r) => (
+                <label
+                  key={r.id}
+                  className={`min-w-[220px] border rounded-md p-3 cursor-pointer ${r.id === survivorId ? 'border-blue-500 bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name={key}
+                      checked={r.id === survivorId}
+                      onChange={() => setSurvivors((prev) => ({ ...prev, [key]: r.id }))}
+                    />
+                    <span className="font-semibold">{r.name || '-'}</span>
+                  </div>
+                  {r.details.map((d) => (
+                    <div key={d.label} className="text-sm text-gray-600">{d.label}: {d.value || '-'}</div>
+                  ))}
+                  <div className="text-sm text-gray-600">Stations: {usage[r.id] || 0}</div>
+                </label>
+              ))}
+            </div>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="default" disabled={mergeLoading}>Merge into selected</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Confirm Merge</AlertDialogTitle>
+                </AlertDialogHeader>
+                <AlertDialogDescription>
+                  {moved} station(s) will be moved to &quot;{survivor?.name}&quot; and the {group.length - 1} other record(s) will be deleted.
+                </AlertDialogDescription>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => handleMerge(group)}>Merge</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ProduitsPanel = () => {
+  const { produits, isDefaultList, loading: fetchLoading, refetch } = useProduits();
+  const { createProduit, updateProduit, deleteProduit, loading: crudLoading, error } = useProduitCRUD();
+  const { usage, refetch: refetchUsage } = useProduitUsage();
+  const [open, setOpen] = useState(false);
+  const [editingProduit, setEditingProduit] = useState<Produit | null>(null);
+  const [produitName, setProduitName] = useState('');
+  const [ordre, setOrdre] = useState('');
+  const [seuils, setSeuils] = useState<Record<string, { Min: string; Max: string }>>({});
+
+  const handleOpen = (produit: Produit | null = null) => {
+    setEditingProduit(produit);
+    setProduitName(produit?.NomProduit || '');
+    setOrdre(String(produit ? produit.Ordre : produits.length));
+    setSeuils(Object.fromEntries(getSeuils(produit ?? undefined).map((s) => [
+      s.Parametre,
+      { Min: s.Min === null ? '' : String(s.Min), Max: s.Max === null ? '' : String(s.Max) },
+    ])));
+    setOpen(true);
+  };
+
+  const updateSeuil = (parametre: string, bound: 'Min' | 'Max', value: string) => {
+    setSeuils((prev) => ({ ...prev, [parametre]: { ...(prev[parametre] ?? { Min: '', Max: '' }), [bound]: value } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!produitName.trim()) {
+      alert('Please provide a produit name.');
+      return;
+    }
+    const parsedSeuils: SeuilParametre[] = [];
+    for (const [Parametre, { Min, Max }] of Object.entries(seuils)) {
+      if (!Min.trim() && !Max.trim()) continue;
+      const min = Min.trim() ? Number(Min.replace(',', '.')) : null;
+      const max = Max.trim() ? Number(Max.replace(',', '.')) : null;
+      if (Number.isNaN(min) || Number.isNaN(max) || (min !== null && max !== null && min > max)) {
+        alert(`Invalid limits for ${getParametre(Parametre).label}.`);
+        return;
+      }
+      parsedSeuils.push({ Parametre, Min: min, Max: max });
+    }
+    const data = { NomProduit: produitName, Ordre: Number(ordre) || 0, Seuils: parsedSeuils };
+    try {
+      if (editingProduit) {
+        await updateProduit(editingProduit.ProduitID, data);
+      } else {
+        await createProduit(data);
+      }
+      refetch();
+      refetchUsage();
+      setOpen(false);
+      setProduitName('');
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (produit: Produit, reassignTo?: string) => {
+    try {
+      await deleteProduit(produit.ProduitID, usage[produit.NomProduit] || 0, reassignTo);
+      refetch();
+      refetchUsage();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  if (fetchLoading) return <p>Loading produits...</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">Produits</h2>
+        <Button variant="default" onClick={() => handleOpen()}>Create New Produit</Button>
+      </div>
+      {isDefaultList && (
+        <p className="text-sm text-gray-500">
+          No produit has been saved yet, the built-in list is shown. Creating a produit saves it along with this list.
+        </p>
+      )}
+      {error && <p className="text-red-500">{error}</p>}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Order</TableHead>
+            <TableHead>Produit</TableHead>
+            <TableHead>Thresholds</TableHead>
+            <TableHead>Capacités / Analyses</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {produits.map((p) => (
+            <TableRow key={p.NomProduit}>
+              <TableCell>{p.Ordre}</TableCell>
+              <TableCell>{p.NomProduit}</TableCell>
+              <TableCell className="text-sm text-gray-600">
+                {getSeuils(p).length === 0
+                  ? '-'
+                  : getSeuils(p).map((s) => getParametre(s.Parametre).label).join(', ')}
+              </TableCell>
+              <TableCell>{usage[p.NomProduit] || 0}</TableCell>
+              <TableCell className="flex space-x-2">
+                {!isDefaultList && (
+                  <>
+                    <Button variant="outline" onClick={() => handleOpen(p)}>Edit</Button>
+                    <DeleteReferenceDialog
+                      entityLabel="produit"
+                      usageLabel="capacité(s) or analyse(s)"
+                      usageCount={usage[p.NomProduit] || 0}
+                      options={produits.filter((o) => o.ProduitID !== p.ProduitID).map((o) => ({ id: o.NomProduit, name: o.NomProduit }))}
+                      onConfirm={(reassignTo) => handleDelete(p, reassignTo)}
+                    />
+                  </>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingProduit ? 'Edit Produit' : 'Create Produit'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="produitName">Produit Name</Label>
+              <Input
+                id="produitName"
+                value={produitName}
+                onChange={(e) => setProduitName(e.target.value)}
+                placeholder="Ex: GPL"
+              />
+              {editingProduit && produitName.trim() !== editingProduit.NomProduit && (usage[editingProduit.NomProduit] || 0) > 0 && (
+                <p className="mt-1 text-sm text-gray-500">
+                  {usage[editingProduit.NomProduit]} capacité(s) or analyse(s) will be renamed too.
+                </p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="produitOrdre">Display Order</Label>
+              <Input
+                id="produitOrdre"
+                type="number"
+                value={ordre}
+                onChange={(e) => setOrdre(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Analysis Thresholds</Label>
+              <p className="text-sm text-gray-500 mb-2">Leave both bounds empty for parameters that are not checked.</p>
+              <div className="max-h-64 overflow-y-auto space-y-2">
+                {ANALYSE_PARAMETRES.map((param) => (
+                  <div key={param.key} className="grid grid-cols-3 gap-2 items-center">
+                    <span className="text-sm">{param.label}{param.unite && ` (${param.unite})`}</span>
+                    <Input
+                      aria-label={`${param.label} min`}
+                      placeholder="Min"
+                      inputMode="decimal"
+                      value={seuils[param.key]?.Min ?? ''}
+                      onChange={(e) => updateSeuil(param.key, 'Min', e.target.value)}
+                    />
+                    <Input
+                      aria-label={`${param.label} max`}
+                      placeholder="Max"
+                      inputMode="decimal"
+                      value={seuils[param.key]?.Max ?? ''}
+                      onChange={(e) => updateSeuil(param.key, 'Max', e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <Button type="submit" disabled={crudLoading || !produitName.trim()}>
+              {crudLoading ? 'Saving...' : 'Save'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+const ChecklistPanel = () => {
+  const { points, isDefaultList, loading: fetchLoading, refetch } = usePointsControle();
+  const { createPoint, updatePoint, deletePoint, loading: crudLoading, error } = usePointControleCRUD();
+  const [open, setOpen] = useState(false);
+  const [editingPoint, setEditingPoint] = useState<PointControle | null>(null);
+  const [libelle, setLibelle] = useState('');
+  const [ordre, setOrdre] = useState('');
+
+  const handleOpen = (point: PointControle | null = null) => {
+    setEditingPoint(point);
+    setLibelle(point?.Libelle || '');
+    setOrdre(String(point ? point.Ordre : points.length));
+    setOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!libelle.trim()) {
+      alert('Please provide a label.');
+      return;
+    }
+    const data = { Libelle: libelle, Ordre: Number(ordre) || 0 };
+    try {
+      if (editingPoint) {
+        await updatePoint(editingPoint.PointControleID, data);
+      } else {
+        await createPoint(data);
+      }
+      refetch();
+      setOpen(false);
+      setLibelle('');
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (point: PointControle) => {
+    if (!confirm(`Remove "${point.Libelle}" from the checklist? Past inspections keep their results.`)) return;
+    try {
+      await deletePoint(point.PointControleID);
+      refetch();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  if (fetchLoading) return <p>Loading checklist...</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">Inspection Checklist</h2>
+        <Button variant="default" onClick={() => handleOpen()}>Create New Point</Button>
+      </div>
+      {isDefaultList && (
+        <p className="text-sm text-gray-500">
+          No point has been saved yet, the built-in checklist is shown. Creating a point saves it along with this list.
+        </p>
+      )}
+      {error && <p className="text-red-500">{error}</p>}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Order</TableHead>
+            <TableHead>Point</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {points.map((p) => (
+            <TableRow key={p.Libelle}>
+              <TableCell>{p.Ordre}</TableCell>
+              <TableCell>{p.Libelle}</TableCell>
+              <TableCell className="flex space-x-2">
+                {!isDefaultList && (
+                  <>
+                    <Button variant="outline" onClick={() => handleOpen(p)}>Edit</Button>
+                    <Button variant="destructive" onClick={() => handleDelete(p)} disabled={crudLoading}>Delete</Button>
+                  </>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPoint ? 'Edit Point' : 'Create Point'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="pointLibelle">Label</Label>
+              <Input
+                id="pointLibelle"
+                value={libelle}
+                onChange={(e) => setLibelle(e.target.value)}
+                placeholder="Ex: Extincteurs présents et vérifiés"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pointOrdre">Display Order</Label>
+              <Input
+                id="pointOrdre"
+                type="number"
+                value={ordre}
+                onChange={(e) => setOrdre(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={crudLoading || !libelle.trim()}>
+              {crudLoading ? 'Saving...' : 'Save'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+// Projections derived from the stations, which can be rebuilt from scratch
+const LIMITE_NIVEAUX: { value: Limite['Niveau']; label: string }[] = [
+  { value: 'province', label: 'Provinces' },
+  { value: 'commune', label: 'Communes' },
+];
+
+const BoundariesPanel = () => {
+  const [niveau, setNiveau] = useState<Limite['Niveau']>('province');
+  const { provinces, loading: provincesLoading } = useProvinces();
+  const { communes, loading: communesLoading } = useCommunes();
+  const { limites, loading: limitesLoading, refetch } = useLimites();
+  const { saveLimites, deleteLimite, loading: crudLoading, error } = useLimiteCRUD();
+  const [features, setFeatures] = useState<LimiteFeature[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [nameProperty, setNameProperty] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const regions = useMemo(
+    () => niveau === 'province'
+      ? provinces.map((p) => ({ id: p.ProvinceID, name: p.NomProvince }))
+      : communes.map((c) => ({ id: c.CommuneID, name: c.NomCommune })),
+    [niveau, provinces, communes]
+  );
+
+  const outlined = useMemo(
+    () => new Map(limites.filter((l) => l.Niveau === niveau).map((l) => [l.RefID, l])),
+    [limites, niveau]
+  );
+
+  const preview = useMemo(
+    () => (features.length > 0 && nameProperty ? matchFeatures(features, nameProperty, regions) : null),
+    [features, nameProperty, regions]
+  );
+
+  const reset = () => {
+    setFeatures([]);
+    setFileName('');
+    setNameProperty('');
+    setParseError(null);
+  };
+
+  const handleNiveauChange = (value: Limite['Niveau']) => {
+    setNiveau(value);
+    setResult(null);
+    reset();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    reset();
+    setResult(null);
+    try {
+      const parsed = parseGeoJson(await file.text());
+      if (parsed.length === 0) throw new Error('The file has no Polygon or MultiPolygon feature.');
+      setFeatures(parsed);
+      setFileName(file.name);
+      setNameProperty(guessNameProperty(parsed, regions));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setParseError(`Failed to read ${file.name}: ${message}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    try {
+      const saved = await saveLimites(niveau, preview.matched);
+      setResult(`${saved} outline(s) saved.`);
+      reset();
+      refetch();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (limite: Limite) => {
+    try {
+      await deleteLimite(limite);
+      refetch();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  if (provincesLoading || communesLoading || limitesLoading) return <p>Loading boundaries...</p>;
+
+  const replaced = preview ? preview.matched.filter((m) => outlined.has(m.RefID)).length : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">Boundaries</h2>
+        <Select value={niveau} onValueChange={(value) => handleNiveauChange(value as Limite['Niveau'])}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LIMITE_NIVEAUX.map((n) => (
+              <SelectItem key={n.value} value={n.value}>{n.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border rounded-md p-4 space-y-3">
+        <p className="text-sm text-gray-500">
+          Outlines drawn on the dashboard map, colored by the chosen indicator. Import a GeoJSON file of
+          Polygon or MultiPolygon features and pick the property holding the {niveau} name (or its ID); names are
+          matched without case or accents. Regions already outlined are replaced.
+        </p>
+        <div className="flex items-center gap-3">
+          <label className="inline-flex items-center px-4 py-2 rounded-md border text-sm font-medium cursor-pointer hover:bg-gray-50">
+            Choose a GeoJSON file
+            <input type="file" accept=".geojson,.json,application/geo+json,application/json" className="hidden" onChange={handleFileChange} />
+          </label>
+          {fileName && <span className="text-sm text-gray-700">{fileName} ({features.length} feature(s))</span>}
+        </div>
+        {parseError && <p className="text-red-500">{parseError}</p>}
+        {features.length > 0 && (
+          <div className="flex items-center gap-3">
+            <Label>Name property</Label>
+            <Select value={nameProperty} onValueChange={setNameProperty}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue placeholder="Select a property" />
+              </SelectTrigger>
+              <SelectContent>
+                {propertyKeys(features).map((key) => (
+                  <SelectItem key={key} value={key}>{key}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {preview && (
+          <div className="space-y-2 text-sm">
+            <p>
+              {preview.matched.length} of {regions.length} {niveau}(s) matched
+              {replaced > 0 && `, ${replaced} already outlined will be replaced`}.
+            </p>
+            {preview.unmatched.length > 0 && (
+              <p className="text-amber-700">
+                Not matched ({preview.unmatched.length}): {preview.unmatched.slice(0, 20).join(', ')}
+                {preview.unmatched.length > 20 && '…'}
+              </p>
+            )}
+            <Button variant="default" onClick={handleImport} disabled={crudLoading || preview.matched.length === 0}>
+              {crudLoading ? 'Importing...' : `Import ${preview.matched.length} outline(s)`}
+            </Button>
+          </div>
+        )}
+        {error && <p className="text-red-500">{error}</p>}
+        {result && <p className="text-green-600">{result}</p>}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{niveau === 'province' ? 'Province' : 'Commune'}</TableHead>
+            <TableHead>Outline</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {regions.map((r) => {
+            const limite = outlined.get(r.id);
+            return (
+              <TableRow key={r.id}>
+                <TableCell>{r.name}</TableCell>
+                <TableCell>{limite ? 'Yes' : <span className="text-gray-400">No</span>}</TableCell>
+                <TableCell>
+                  {limite && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" disabled={crudLoading}>Delete</Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                        </AlertDialogHeader>
+                        <AlertDialogDescription>
+                          The outline of &quot;{r.name}&quot; will no longer be drawn on the dashboard map.
+                        </AlertDialogDescription>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleDelete(limite)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+const MaintenancePanel = () => {
+  const [rebuilding, setRebuilding] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRebuild = async () => {
+    if (!confirm('Rebuild the station projections? Every station is read again, this can take a while.')) return;
+    setRebuilding(true);
+    setResult(null);
+    setError(null);
+    try {
+      const count = await rebuildStationViews();
+      setResult(`${count} station view(s) rebuilt.`);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to rebuild projections: ${message}`);
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-bold">Maintenance</h2>
+      <div className="border rounded-md p-4 space-y-2">
+        <h3 className="font-medium">Station projections</h3>
+        <p className="text-sm text-gray-500">
+          The stations table reads a flattened copy of each station (stations_view), with the marque, commune,
+          gérant and owner names, capacity totals and latest analyse and autorisation dates already joined.
+          The station forms and the reference data screens keep it up to date. Rebuild it after changes made
+          outside the application, or if the table shows outdated rows.
+        </p>
+        {error && <p className="text-red-500">{error}</p>}
+        {result && <p className="text-green-600">{result}</p>}
+        <Button variant="outline" onClick={handleRebuild} disabled={rebuilding}>
+          {rebuilding ? 'Rebuilding...' : 'Rebuild projections'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 export default function DatabaseAdminPage() {
   const router = useRouter();
   const [authorized, setAuthorized] = useState<boolean | null>(null);
@@ -886,7 +1654,7 @@ export default function DatabaseAdminPage() {
       }
 
       const idTokenResult = await user.getIdTokenResult();
-      if (!idTokenResult.claims?.admin) {
+      if (!hasPermission(getRoleFromClaims(idTokenResult.claims), 'reference:manage')) {
         router.replace('/');
         return;
       }
@@ -908,9 +1676,14 @@ export default function DatabaseAdminPage() {
         <TabsList>
           <TabsTrigger value="provinces">Provinces</TabsTrigger>
           <TabsTrigger value="communes">Communes</TabsTrigger>
+          <TabsTrigger value="boundaries">Boundaries</TabsTrigger>
           <TabsTrigger value="marques">Marques</TabsTrigger>
           <TabsTrigger value="gerants">Gérants</TabsTrigger>
           <TabsTrigger value="proprietaires">Propriétaires</TabsTrigger>
+          <TabsTrigger value="produits">Produits</TabsTrigger>
+          <TabsTrigger value="checklist">Checklist</TabsTrigger>
+          <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+          <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
         </TabsList>
         <TabsContent value="provinces">
           <ProvincesPanel />
@@ -918,6 +1691,9 @@ export default function DatabaseAdminPage() {
         <TabsContent value="communes">
           <CommunesPanel />
         </TabsContent>
+        <TabsContent value="boundaries">
+          <BoundariesPanel />
+        </TabsContent>
         <TabsContent value="marques">
           <MarquesPanel />
         </TabsContent>
@@ -927,6 +1703,18 @@ export default function DatabaseAdminPage() {
         <TabsContent value="proprietaires">
           <ProprietairesPanel />
         </TabsContent>
+        <TabsContent value="produits">
+          <ProduitsPanel />
+        </TabsContent>
+        <TabsContent value="checklist">
+          <ChecklistPanel />
+        </TabsContent>
+        <TabsContent value="duplicates">
+          <DuplicatesPanel />
+        </TabsContent>
+        <TabsContent value="maintenance">
+          <MaintenancePanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
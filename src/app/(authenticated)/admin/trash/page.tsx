@@ -0,0 +1,151 @@
+// src/app/(authenticated)/admin/trash/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth } from '@/lib/firebase/config';
+import { getRoleFromClaims, hasPermission } from '@/lib/auth/permissions';
+import { useStationTrash } from '@/hooks/stations/useStationTrash';
+import { getPurgeDate, isPurgeable, TRASH_RETENTION_DAYS } from '@/utils/trash';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/Button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+const TrashPanel = () => {
+  const { stations, loading, error, restoreStation, purgeStation } = useStationTrash();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = async (stationId: string, action: (id: string) => Promise<void>) => {
+    setBusyId(stationId);
+    try {
+      await action(stationId);
+    } catch {
+      // error is surfaced by the hook
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Deleted stations are kept for {TRASH_RETENTION_DAYS} days with their autorisations, capacités and analyses.
+        After that they can be purged permanently.
+      </p>
+      {error && <p className="text-red-500">{error}</p>}
+      {loading && <p>Loading deleted stations...</p>}
+      {!loading && stations.length === 0 && <p>The recycle bin is empty.</p>}
+      {stations.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Station</TableHead>
+              <TableHead>Deleted on</TableHead>
+              <TableHead>Deleted by</TableHead>
+              <TableHead>Purge from</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stations.map((station) => {
+              const deletedAt = station.DeletedAt ?? null;
+              const purgeable = isPurgeable(deletedAt);
+              return (
+                <TableRow key={station.StationID}>
+                  <TableCell>{station.Code || '-'}</TableCell>
+                  <TableCell>{station.NomStation}</TableCell>
+                  <TableCell>{deletedAt ? deletedAt.toLocaleString('fr-FR') : '-'}</TableCell>
+                  <TableCell>{station.DeletedBy || '-'}</TableCell>
+                  <TableCell>{deletedAt ? getPurgeDate(deletedAt).toLocaleDateString('fr-FR') : '-'}</TableCell>
+                  <TableCell className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => run(station.StationID, restoreStation)}
+                      disabled={busyId === station.StationID}
+                    >
+                      Restore
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" disabled={!purgeable || busyId === station.StationID}>
+                          Purge
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Confirm Purge</AlertDialogTitle>
+                        </AlertDialogHeader>
+                        <AlertDialogDescription>
+                          {station.NomStation} and all of its autorisations, capacités and analyses will be deleted permanently.
+                          This cannot be undone.
+                        </AlertDialogDescription>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => run(station.StationID, purgeStation)}>Purge</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default function TrashAdminPage() {
+  const router = useRouter();
+  const [authorized, setAuthorized] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        router.replace('/login');
+        return;
+      }
+
+      const idTokenResult = await user.getIdTokenResult();
+      if (!hasPermission(getRoleFromClaims(idTokenResult.claims), 'station:delete')) {
+        router.replace('/');
+        return;
+      }
+
+      setAuthorized(true);
+    });
+
+    return unsubscribe;
+  }, [router]);
+
+  if (authorized === null) {
+    return <p>Vérification des autorisations...</p>;
+  }
+
+  return (
+    <div className="container mx-auto p-4">
+      <h1 className="text-2xl font-bold mb-4">Recycle Bin</h1>
+      <TrashPanel />
+    </div>
+  );
+}
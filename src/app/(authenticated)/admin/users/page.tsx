@@ -0,0 +1,294 @@
+// src/app/(authenticated)/admin/users/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth } from '@/lib/firebase/config';
+import { getRoleFromClaims, hasPermission, Role, ROLES, ROLE_LABELS } from '@/lib/auth/permissions';
+import { useAuth } from '@/lib/auth/hooks';
+import { useAdminUsers } from '@/hooks/useAdminUsers';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+function formatSignIn(value: string | null): string {
+  if (!value) return 'Never';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? 'Never' : date.toLocaleString('fr-FR');
+}
+
+const UsersPanel = () => {
+  const { currentUser, refreshRole } = useAuth();
+  const { users, loading, error, createUser, updateUser, resetAccess } = useAdminUsers();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [resetLink, setResetLink] = useState<{ email: string | null; link: string } | null>(null);
+  const [formData, setFormData] = useState<{ email: string; displayName: string; role: Role }>({
+    email: '',
+    displayName: '',
+    role: 'lecteur',
+  });
+
+  const handleOpen = () => {
+    setFormData({ email: '', displayName: '', role: 'lecteur' });
+    setOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const result = await createUser({
+        email: formData.email.trim(),
+        displayName: formData.displayName.trim() || undefined,
+        role: formData.role,
+      });
+      setOpen(false);
+      setResetLink({ email: result.user.email, link: result.resetLink });
+    } catch {
+      // error is surfaced by the hook
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (uid: string, role: Role) => {
+    try {
+      await updateUser(uid, { role });
+      if (uid === currentUser?.uid) await refreshRole();
+    } catch {
+      // error is surfaced by the hook
+    }
+  };
+
+  const handleToggleDisabled = async (uid: string, disabled: boolean) => {
+    try {
+      await updateUser(uid, { disabled });
+    } catch {
+      // error is surfaced by the hook
+    }
+  };
+
+  const handleReset = async (uid: string, email: string | null) => {
+    try {
+      const result = await resetAccess(uid);
+      setResetLink({ email, link: result.resetLink });
+    } catch {
+      // error is surfaced by the hook
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">Users</h2>
+        <Button variant="default" onClick={handleOpen}>Invite User</Button>
+      </div>
+      {error && <p className="text-red-500">{error}</p>}
+      {loading && <p>Loading users...</p>}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Email</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Last sign-in</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {users.map((u) => {
+            const isSelf = u.uid === currentUser?.uid;
+            return (
+              <TableRow key={u.uid}>
+                <TableCell>{u.email || '-'}</TableCell>
+                <TableCell>{u.displayName || '-'}</TableCell>
+                <TableCell>
+                  <Select
+                    value={u.role}
+                    onValueChange={(value) => handleRoleChange(u.uid, value as Role)}
+                    disabled={isSelf}
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${u.disabled ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+                    {u.disabled ? 'Disabled' : 'Active'}
+                  </span>
+                </TableCell>
+                <TableCell>{formatSignIn(u.lastSignInTime)}</TableCell>
+                <TableCell className="flex space-x-2">
+                  <Button variant="outline" onClick={() => handleReset(u.uid, u.email)} disabled={!u.email}>
+                    Reset access
+                  </Button>
+                  {u.disabled ? (
+                    <Button variant="outline" onClick={() => handleToggleDisabled(u.uid, false)}>Enable</Button>
+                  ) : (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" disabled={isSelf}>Disable</Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Confirm</AlertDialogTitle>
+                        </AlertDialogHeader>
+                        <AlertDialogDescription>
+                          {u.email} will be signed out and will no longer be able to log in.
+                        </AlertDialogDescription>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleToggleDisabled(u.uid, true)}>Disable</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="Enter email"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="displayName">Name</Label>
+              <Input
+                id="displayName"
+                value={formData.displayName}
+                onChange={(e) => setFormData(prev => ({ ...prev, displayName: e.target.value }))}
+                placeholder="Enter name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="role">Role</Label>
+              <Select
+                value={formData.role}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, role: value as Role }))}
+              >
+                <SelectTrigger id="role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Invite'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resetLink} onOpenChange={(isOpen) => !isOpen && setResetLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Password link</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            Send this link to {resetLink?.email} so they can choose a password.
+          </p>
+          <Input readOnly value={resetLink?.link || ''} onFocus={(e) => e.target.select()} />
+          <Button onClick={() => resetLink && navigator.clipboard.writeText(resetLink.link)}>
+            Copy link
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default function UsersAdminPage() {
+  const router = useRouter();
+  const [authorized, setAuthorized] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        router.replace('/login');
+        return;
+      }
+
+      const idTokenResult = await user.getIdTokenResult();
+      if (!hasPermission(getRoleFromClaims(idTokenResult.claims), 'user:manage')) {
+        router.replace('/');
+        return;
+      }
+
+      setAuthorized(true);
+    });
+
+    return unsubscribe;
+  }, [router]);
+
+  if (authorized === null) {
+    return <p>Vérification des autorisations...</p>;
+  }
+
+  return (
+    <div className="container mx-auto p-4">
+      <h1 className="text-2xl font-bold mb-4">User Management</h1>
+      <UsersPanel />
+    </div>
+  );
+}
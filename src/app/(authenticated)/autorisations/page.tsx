@@ -0,0 +1,140 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useStations } from '@/hooks/stations/useStations';
+import { Autorisation } from '@/types/station';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { Modal } from '@/components/ui/Modal';
+import RenewAutorisationForm from '@/components/stations/RenewAutorisationForm';
+import { useAuth } from '@/lib/auth/hooks';
+import { APP_CONSTANTS } from '@/lib/constants';
+import { formatDate } from '@/utils/format';
+import { getExpiringAutorisations } from '@/utils/autorisations';
+
+export default function AutorisationsPage() {
+  const { stations, loading, error, refetch } = useStations();
+  const { can } = useAuth();
+  const [withinDays, setWithinDays] = useState(String(APP_CONSTANTS.AUTORISATIONS.RENEWAL_WARNING_DAYS));
+  const [renewing, setRenewing] = useState<Autorisation | null>(null);
+
+  const expiring = useMemo(() => {
+    const days = parseInt(withinDays, 10);
+    return getExpiringAutorisations(stations, isNaN(days) ? APP_CONSTANTS.AUTORISATIONS.RENEWAL_WARNING_DAYS : days);
+  }, [stations, withinDays]);
+
+  const handleRenewalSaved = async () => {
+    setRenewing(null);
+    await refetch();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <ErrorMessage message={error} onRetry={refetch} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Autorisations à renouveler</h1>
+        <p className="text-sm text-gray-600">Autorisations expirées ou arrivant à échéance.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-end gap-4">
+            <CardTitle>{expiring.length} autorisation(s)</CardTitle>
+            <div className="w-48">
+              <Input
+                label="Échéance dans (jours)"
+                type="number"
+                min={0}
+                value={withinDays}
+                onChange={(e) => setWithinDays(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {expiring.length === 0 ? (
+            <div className="text-gray-500 text-center py-4">Aucune autorisation n&apos;arrive à échéance sur cette période</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Station</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Type</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">N°</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Expiration</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Échéance</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {expiring.map(({ station, autorisation, daysLeft }) => (
+                    <tr key={autorisation.AutorisationID} className={daysLeft < 0 ? 'bg-red-50' : undefined}>
+                      <td className="px-4 py-2">
+                        <Link href={`/stations/${station.station.StationID}`} className="text-blue-600 hover:underline">
+                          {station.station.NomStation}
+                        </Link>
+                        <div className="text-xs text-gray-500">{station.commune.NomCommune}</div>
+                      </td>
+                      <td className="px-4 py-2">{autorisation.TypeAutorisation}</td>
+                      <td className="px-4 py-2">{autorisation.NumeroAutorisation}</td>
+                      <td className="px-4 py-2">{formatDate(autorisation.DateExpiration ?? null)}</td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                            daysLeft < 0 ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'
+                          }`}
+                        >
+                          {daysLeft < 0 ? `expirée depuis ${-daysLeft} j` : daysLeft === 0 ? "expire aujourd'hui" : `dans ${daysLeft} j`}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {can('station:update') && (
+                          <button
+                            type="button"
+                            onClick={() => setRenewing(autorisation)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            Renouveler
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={!!renewing} onClose={() => setRenewing(null)}>
+        {renewing && (
+          <RenewAutorisationForm
+            autorisation={renewing}
+            onSaved={handleRenewalSaved}
+            onCancel={() => setRenewing(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useStations } from '@/hooks/stations/useStations';
+import { useCampagnes } from '@/hooks/useStationData/useCampagnes';
+import { useCampagneCRUD } from '@/hooks/useStationData/useCampagneCRUD';
+import { StationCampagne } from '@/types/station';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { useAuth } from '@/lib/auth/hooks';
+import { formatDate, formatDateForInput, parseDateString } from '@/utils/format';
+import { exportCampagneSchedule, getCampagneAvancement, scheduleCampagne } from '@/utils/campagnes';
+
+const PRIORITE_STYLES: Record<StationCampagne['Priorite'], string> = {
+  'jamais analysée': 'bg-purple-100 text-purple-800',
+  'antécédent négatif': 'bg-red-100 text-red-800',
+  'routine': 'bg-gray-100 text-gray-700',
+};
+
+export default function CampagneDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const { stations, loading: stationsLoading, error: stationsError } = useStations();
+  const { campagnes, loading: campagnesLoading, error: campagnesError, refetch } = useCampagnes();
+  const { updateCampagne, deleteCampagne, loading: saving, error: saveError } = useCampagneCRUD();
+  const { can } = useAuth();
+  const canManage = can('campagne:manage');
+
+  const [editingDate, setEditingDate] = useState<{ stationId: string; value: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const campagne = campagnes.find((c) => c.CampagneID === id);
+  const avancement = useMemo(() => (campagne ? getCampagneAvancement(campagne, stations) : null), [campagne, stations]);
+  const rows = useMemo(
+    () => [...(avancement?.stations ?? [])].sort(
+      (a, b) => (a.planned.DatePrevue?.getTime() ?? Infinity) - (b.planned.DatePrevue?.getTime() ?? Infinity)
+    ),
+    [avancement]
+  );
+
+  if (stationsLoading || campagnesLoading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (stationsError || campagnesError || !campagne || !avancement) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <ErrorMessage message={stationsError || campagnesError || 'Campagne introuvable'} />
+      </div>
+    );
+  }
+
+  const saveStations = async (planned: StationCampagne[]) => {
+    try {
+      await updateCampagne(campagne.CampagneID, { Stations: planned });
+      await refetch();
+    } catch (err) {
+      console.error('Failed to update campagne:', err);
+    }
+  };
+
+  const handleDateSave = async (stationId: string) => {
+    const date = editingDate && parseDateString(editingDate.value);
+    if (!date) return;
+    await saveStations(campagne.Stations.map((s) => (s.StationID === stationId ? { ...s, DatePrevue: date } : s)));
+    setEditingDate(null);
+  };
+
+  const handleRemove = async (stationId: string) => {
+    if (!confirm('Retirer cette station de la campagne ?')) return;
+    await saveStations(campagne.Stations.filter((s) => s.StationID !== stationId));
+  };
+
+  // Spreads the visits still to do from today (or the campaign start) to the campaign end
+  const handleReschedule = async () => {
+    if (!campagne.DateFin) return;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const debut = campagne.DateDebut && campagne.DateDebut > today ? campagne.DateDebut : today;
+    const remaining = avancement.stations.filter((r) => !r.termine).map((r) => r.planned);
+    const scheduled = new Map(scheduleCampagne(remaining, stations, debut, campagne.DateFin).map((s) => [s.StationID, s]));
+    await saveStations(campagne.Stations.map((s) => scheduled.get(s.StationID) ?? s));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await exportCampagneSchedule(campagne, avancement);
+    } catch (err) {
+      console.error('Failed to export campagne:', err);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteCampagne(campagne.CampagneID);
+      router.push('/campagnes');
+    } catch (err) {
+      console.error('Failed to delete campagne:', err);
+    } finally {
+      setConfirmDelete(false);
+    }
+  };
+
+  const today = new Date();
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <Link href="/campagnes" className="text-sm text-blue-600 hover:underline">← Campagnes</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{campagne.Nom}</h1>
+          <p className="text-sm text-gray-600">
+            {campagne.Annee} · du {formatDate(campagne.DateDebut)} au {formatDate(campagne.DateFin)} · {campagne.Produits.join(', ')}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={exporting}>
+            {exporting ? 'Export...' : 'Exporter le planning'}
+          </Button>
+          {canManage && (
+            <>
+              <Button variant="outline" onClick={handleReschedule} disabled={saving || !campagne.DateFin}>
+                Replanifier
+              </Button>
+              <Button variant="destructive" onClick={() => setConfirmDelete(true)} disabled={saving}>
+                Supprimer
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {saveError && <ErrorMessage message={saveError} />}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-500">Stations réalisées</p>
+            <p className="text-2xl font-semibold">{avancement.stationsTerminees} / {campagne.Stations.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-500">Prélèvements</p>
+            <p className="text-2xl font-semibold">{avancement.prelevementsRealises} / {avancement.prelevementsPrevus}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-500">Avancement</p>
+            <p className="text-2xl font-semibold">{avancement.pourcentage} %</p>
+            <div className="h-2 mt-2 rounded-full bg-gray-200">
+              <div className="h-2 rounded-full bg-blue-600" style={{ width: `${avancement.pourcentage}%` }} />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-500">Stations avec résultat négatif</p>
+            <p className={`text-2xl font-semibold ${avancement.negatifs > 0 ? 'text-red-600' : ''}`}>{avancement.negatifs}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Planning des prélèvements</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <div className="text-gray-500 text-center py-4">Aucune station dans cette campagne</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Date prévue</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Station</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Province</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Priorité</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Prélèvements</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.map(({ planned, station, produitsAttendus, produitsRealises, termine, negatif }) => {
+                    const late = !termine && !!planned.DatePrevue && planned.DatePrevue < today;
+                    return (
+                      <tr key={planned.StationID} className={termine ? 'bg-green-50' : late ? 'bg-red-50' : undefined}>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {editingDate?.stationId === planned.StationID ? (
+                            <div className="flex items-center gap-2">
+                              <input
+                                value={editingDate.value}
+                                onChange={(e) => setEditingDate({ ...editingDate, value: e.target.value })}
+                                placeholder="JJ/MM/AAAA"
+                                className="border border-gray-300 rounded-md px-2 py-1 w-28"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => handleDateSave(planned.StationID)}
+                                disabled={saving || !parseDateString(editingDate.value)}
+                                className="text-blue-600 hover:underline disabled:text-gray-400"
+                              >
+                                OK
+                              </button>
+                              <button type="button" onClick={() => setEditingDate(null)} className="text-gray-600 hover:underline">
+                                Annuler
+                              </button>
+                            </div>
+                          ) : (
+                            <>
+                              <span className={late ? 'text-red-600 font-medium' : undefined}>{formatDate(planned.DatePrevue)}</span>
+                              {canManage && !termine && (
+                                <button
+                                  type="button"
+                                  onClick={() => setEditingDate({ stationId: planned.StationID, value: formatDateForInput(planned.DatePrevue) })}
+                                  className="ml-2 text-blue-600 hover:underline"
+                                >
+                                  Modifier
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          {station ? (
+                            <Link href={`/stations/${planned.StationID}`} className="text-blue-600 hover:underline">
+                              {station.station.NomStation}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-400">Station supprimée</span>
+                          )}
+                          {station && <div className="text-xs text-gray-500">{station.marque.Marque} · {station.commune.NomCommune}</div>}
+                        </td>
+                        <td className="px-4 py-2">{station?.province.NomProvince ?? '-'}</td>
+                        <td className="px-4 py-2">
+                          <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${PRIORITE_STYLES[planned.Priorite]}`}>
+                            {planned.Priorite}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2">
+                          {produitsAttendus.map((p) => (
+                            <span
+                              key={p}
+                              className={`mr-1 inline-flex px-2 py-0.5 text-xs rounded-full ${
+                                produitsRealises.includes(p) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                              }`}
+                            >
+                              {p}
+                            </span>
+                          ))}
+                          {negatif && <span className="text-xs text-red-600 font-medium">négatif</span>}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {canManage && produitsRealises.length === 0 && (
+                            <button
+                              type="button"
+                              onClick={() => handleRemove(planned.StationID)}
+                              disabled={saving}
+                              className="text-red-600 hover:underline"
+                            >
+                              Retirer
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Supprimer la campagne"
+        message={`Supprimer la campagne "${campagne.Nom}" ? Les analyses déjà saisies sont conservées mais ne lui seront plus rattachées.`}
+        confirmText="Supprimer"
+        cancelText="Annuler"
+        isLoading={saving}
+        variant="danger"
+      />
+    </div>
+  );
+}
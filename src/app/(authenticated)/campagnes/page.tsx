@@ -0,0 +1,119 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useStations } from '@/hooks/stations/useStations';
+import { useCampagnes } from '@/hooks/useStationData/useCampagnes';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { Modal } from '@/components/ui/Modal';
+import CampagneForm from '@/components/campagnes/CampagneForm';
+import { useAuth } from '@/lib/auth/hooks';
+import { formatDate } from '@/utils/format';
+import { getCampagneAvancement } from '@/utils/campagnes';
+
+export default function CampagnesPage() {
+  const router = useRouter();
+  const { stations, loading: stationsLoading, error: stationsError, refetch: refetchStations } = useStations();
+  const { campagnes, loading: campagnesLoading, error: campagnesError, refetch } = useCampagnes();
+  const { can } = useAuth();
+  const [creating, setCreating] = useState(false);
+
+  const rows = useMemo(
+    () => campagnes.map((campagne) => ({ campagne, avancement: getCampagneAvancement(campagne, stations) })),
+    [campagnes, stations]
+  );
+
+  const handleSaved = (campagneId: string) => {
+    setCreating(false);
+    router.push(`/campagnes/${campagneId}`);
+  };
+
+  if (stationsLoading || campagnesLoading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (stationsError || campagnesError) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <ErrorMessage
+          message={stationsError || campagnesError || ''}
+          onRetry={() => Promise.all([refetchStations(), refetch()])}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Campagnes d&apos;analyses</h1>
+          <p className="text-sm text-gray-600">Planification des prélèvements et suivi de leur réalisation.</p>
+        </div>
+        {can('campagne:manage') && <Button onClick={() => setCreating(true)}>Nouvelle campagne</Button>}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{campagnes.length} campagne(s)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <div className="text-gray-500 text-center py-4">Aucune campagne planifiée</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Campagne</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Année</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Période</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Stations</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Avancement</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Négatifs</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.map(({ campagne, avancement }) => (
+                    <tr key={campagne.CampagneID}>
+                      <td className="px-4 py-2">
+                        <Link href={`/campagnes/${campagne.CampagneID}`} className="text-blue-600 hover:underline">
+                          {campagne.Nom}
+                        </Link>
+                        <div className="text-xs text-gray-500">{campagne.Produits.join(', ')}</div>
+                      </td>
+                      <td className="px-4 py-2">{campagne.Annee}</td>
+                      <td className="px-4 py-2">{formatDate(campagne.DateDebut)} – {formatDate(campagne.DateFin)}</td>
+                      <td className="px-4 py-2">{avancement.stationsTerminees} / {campagne.Stations.length}</td>
+                      <td className="px-4 py-2 w-48">
+                        <div className="h-2 rounded-full bg-gray-200">
+                          <div className="h-2 rounded-full bg-blue-600" style={{ width: `${avancement.pourcentage}%` }} />
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {avancement.prelevementsRealises} / {avancement.prelevementsPrevus} prélèvements ({avancement.pourcentage} %)
+                        </div>
+                      </td>
+                      <td className={`px-4 py-2 ${avancement.negatifs > 0 ? 'text-red-600 font-medium' : ''}`}>{avancement.negatifs}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal isOpen={creating} onClose={() => setCreating(false)} size="xl">
+        {creating && <CampagneForm stations={stations} onSaved={handleSaved} onCancel={() => setCreating(false)} />}
+      </Modal>
+    </div>
+  );
+}
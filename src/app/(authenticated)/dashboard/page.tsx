@@ -1,23 +1,76 @@
 // src/app/(authenticated)/dashboard/page.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useStations } from '@/hooks/stations/useStations';
-import { StationWithDetails } from '@/types/station';
+import { useAllStatusChanges } from '@/hooks/stations/useStationStatusHistory';
+import { useLimites } from '@/hooks/ReferenceData/useLimites';
+import { useProvinces } from '@/hooks/ReferenceData/useProvinces';
+import { useCommunes } from '@/hooks/ReferenceData/useCommunes';
+import { useAnalysesIndex } from '@/hooks/useStationData/useAnalysesIndex';
+import { Limite, StationWithDetails } from '@/types/station';
+import { computeRegionValues, IndicateurCarte, INDICATEURS_CARTE } from '@/utils/choropleth';
 
 // Import dashboard components
-import StationFilters from '@/components/dashboard/StationFilters';
+import StationFilters, { RegionSelection } from '@/components/dashboard/StationFilters';
 import StationsByBrandChart from '@/components/dashboard/StationsByBrandChart';
+import StationsByStatusChart from '@/components/dashboard/StationsByStatusChart';
 import StatsCards from '@/components/dashboard/StatsCards';
-import MapPreview from '@/components/dashboard/MapPreview';
+import MapPreview, { MapRegions } from '@/components/dashboard/MapPreview';
+import OpenDossiers from '@/components/dashboard/OpenDossiers';
 
 // Import from the UI barrel file
-import { Card, CardHeader, CardContent, CardTitle, LoadingSpinner, ErrorMessage } from '@/components/ui';
+import { Card, CardHeader, CardContent, CardTitle, LoadingSpinner, ErrorMessage, Checkbox } from '@/components/ui';
 
 export default function DashboardPage() {
-  const { stations, loading, error } = useStations();
+  const [live, setLive] = useState(false);
+  const { stations, loading, error } = useStations({ live });
+  const { changes: statusChanges, loading: statusLoading } = useAllStatusChanges();
   const [filteredStations, setFilteredStations] = useState<StationWithDetails[]>([]);
 
+  // Outlines drawn on the map, and the province or commune last clicked there
+  const [regionNiveau, setRegionNiveau] = useState<Limite['Niveau'] | ''>('');
+  const [indicateur, setIndicateur] = useState<IndicateurCarte>('stations');
+  const [regionSelection, setRegionSelection] = useState<RegionSelection | null>(null);
+  const { limites } = useLimites();
+  const { provinces } = useProvinces();
+  const { communes } = useCommunes();
+  const stationIds = useMemo(() => stations.map((s) => s.station.StationID), [stations]);
+  // Analyses are only loaded for the indicator that needs them
+  const { analyses } = useAnalysesIndex(regionNiveau && indicateur === 'negatives' ? stationIds : []);
+
+  const regionLimites = useMemo(() => limites.filter((l) => l.Niveau === regionNiveau), [limites, regionNiveau]);
+
+  const regions = useMemo<MapRegions | null>(() => {
+    if (!regionNiveau) return null;
+    const references = regionNiveau === 'province'
+      ? provinces.map((p) => ({ id: p.ProvinceID, name: p.NomProvince, population: p.Population }))
+      : communes.map((c) => ({ id: c.CommuneID, name: c.NomCommune, population: c.Population }));
+    return {
+      limites: regionLimites,
+      values: computeRegionValues(
+        regionNiveau,
+        indicateur,
+        filteredStations,
+        analyses,
+        new Map(references.map((r) => [r.id, r.population]))
+      ),
+      names: new Map(references.map((r) => [r.id, r.name])),
+      indicateur,
+    };
+  }, [regionNiveau, regionLimites, indicateur, filteredStations, analyses, provinces, communes]);
+
+  const handleRegionClick = useCallback((refId: string) => {
+    if (regionNiveau === 'province') {
+      const province = provinces.find((p) => p.ProvinceID === refId);
+      if (province) setRegionSelection({ province: province.NomProvince });
+      return;
+    }
+    const commune = communes.find((c) => c.CommuneID === refId);
+    const province = provinces.find((p) => p.ProvinceID === commune?.ProvinceID);
+    if (commune && province) setRegionSelection({ province: province.NomProvince, commune: commune.NomCommune });
+  }, [regionNiveau, provinces, communes]);
+
   useEffect(() => {
     // Initialize filteredStations with all stations when stations are loaded
     if (!loading && stations.length > 0) {
@@ -44,9 +97,14 @@ export default function DashboardPage() {
   return (
     <div className="p-6 space-y-6">
       {/* Header Section */}
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Stations-service Dashboard</h1>
-        <p className="text-sm text-gray-600 mt-1">Vue d'ensemble avec des filtres interactifs.</p>
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stations-service Dashboard</h1>
+          <p className="text-sm text-gray-600 mt-1">Vue d'ensemble avec des filtres interactifs.</p>
+        </div>
+        <Checkbox id="dashboard-live" checked={live} onCheckedChange={setLive}>
+          Temps réel
+        </Checkbox>
       </div>
 
       {/* Main Content Grid */}
@@ -62,6 +120,7 @@ export default function DashboardPage() {
                 <StationFilters 
                   stations={stations} 
                   onFilterChange={setFilteredStations} 
+                  regionSelection={regionSelection}
                 />
               </div>
             </CardContent>
@@ -82,6 +141,16 @@ export default function DashboardPage() {
             </div>
           </div>
 
+          {/* Open Cases Card */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Dossiers de non-conformité ouverts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OpenDossiers stations={filteredStations} />
+            </CardContent>
+          </Card>
+
           {/* Chart Card */}
           <Card>
             <CardHeader>
@@ -92,15 +161,58 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
 
+          {/* Status Trend Card */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Évolution des statuts (12 derniers mois)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {statusLoading ? (
+                <LoadingSpinner />
+              ) : (
+                <StationsByStatusChart stations={filteredStations} changes={statusChanges} />
+              )}
+            </CardContent>
+          </Card>
+
           {/* Map Card */}
           <Card>
             <CardHeader>
-              <CardTitle>Carte des stations</CardTitle>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle>Carte des stations</CardTitle>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={regionNiveau}
+                    onChange={(e) => setRegionNiveau(e.target.value as Limite['Niveau'] | '')}
+                    className="px-3 py-1.5 border rounded text-sm"
+                  >
+                    <option value="">Sans découpage</option>
+                    <option value="province">Provinces</option>
+                    <option value="commune">Communes</option>
+                  </select>
+                  {regionNiveau && (
+                    <select
+                      value={indicateur}
+                      onChange={(e) => setIndicateur(e.target.value as IndicateurCarte)}
+                      className="px-3 py-1.5 border rounded text-sm"
+                    >
+                      {Object.entries(INDICATEURS_CARTE).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+              {regionNiveau && regionLimites.length === 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Aucune limite importée pour ce niveau, importez-les dans Database &gt; Boundaries.
+                </p>
+              )}
             </CardHeader>
             <CardContent>
               <div className="h-[500px] rounded-lg overflow-hidden">
                 {process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ? (
-                  <MapPreview stations={filteredStations} />
+                  <MapPreview stations={filteredStations} regions={regions} onRegionClick={handleRegionClick} />
                 ) : (
                   <div className="h-full flex items-center justify-center text-gray-500 bg-gray-100">
                     Clé API Google Maps manquante.
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth/provider';
 import AuthenticatedLayout from '@/components/layout/AuthenticatedLayout';
 import MapsProvider from '@/lib/maps/MapsProvider';
+import { OutboxProvider } from '@/lib/offline/OutboxProvider';
 
 export default function ProtectedLayout({ children }: { children: React.ReactNode }) {
   const { currentUser, loading } = useAuth();
@@ -28,8 +29,10 @@ export default function ProtectedLayout({ children }: { children: React.ReactNod
   if (!currentUser) return null;
 
   return (
-    <AuthenticatedLayout>
-      <MapsProvider>{children}</MapsProvider>
-    </AuthenticatedLayout>
+    <OutboxProvider>
+      <AuthenticatedLayout>
+        <MapsProvider>{children}</MapsProvider>
+      </AuthenticatedLayout>
+    </OutboxProvider>
   );
 }
\ No newline at end of file
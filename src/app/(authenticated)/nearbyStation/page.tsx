@@ -10,13 +10,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { FileSpreadsheet } from 'lucide-react';
 // import ExcelJS from 'exceljs'; // Removed top-level import
 import { saveAs } from 'file-saver';
-import proj4 from 'proj4';
 import { formatDate } from '@/utils/format'; // Import formatDate function
-import { getProprietaireName } from '@/utils/format';
-
-// Define projections for ESPG:26191 (Merchich) and WGS84
-proj4.defs('EPSG:26191', '+proj=lcc +lat_1=33.3 +lat_0=33.3 +lon_0=-5.4 +k_0=0.999625769 +x_0=500000 +y_0=300000 +ellps=clrk80ign +towgs84=31,146,47,0,0,0,0 +units=m +no_defs');
-proj4.defs('EPSG:4326', '+proj=longlat +datum=WGS84 +no_defs');
+import { getCapacite } from '@/utils/stationSearch';
+import { isInLambertZone, LAMBERT_ZONES, LambertZone, lambertToWgs84, lambertZoneLabel, wgs84ToLambert } from '@/utils/lambert';
 
 // Helper function to format number with thousand separator (space) and optional decimals
 const formatNumberWithSpaces = (value: number, decimals: number = 0): string => {
@@ -42,7 +38,7 @@ async function loadExcel() {
 }
 
 export default function NearbyStationsPage() {
-  const [coordinateSystem, setCoordinateSystem] = useState<'geographic' | 'lambert'>('geographic');
+  const [coordinateSystem, setCoordinateSystem] = useState<'geographic' | LambertZone>('geographic');
   const [latitude, setLatitude] = useState<string>('');
   const [longitude, setLongitude] = useState<string>('');
   const [xCoord, setXCoord] = useState<string>('');
@@ -90,46 +86,42 @@ export default function NearbyStationsPage() {
           ? station.distance.toFixed(2)
           : 'N/A';
 
-        // Find Gasoil and SSP capacities
-        const capaciteGasoil = station.capacites.find(c => c.TypeCarburant === 'Gasoil')?.CapaciteLitres || 0;
-        const capaciteSSP = station.capacites.find(c => c.TypeCarburant === 'SSP')?.CapaciteLitres || 0;
+        // Gasoil and SSP capacities
+        const capaciteGasoil = getCapacite(station, 'Gasoil');
+        const capaciteSSP = getCapacite(station, 'SSP');
 
         // Compute Lambert coordinates
         let lambert = 'Coordonnées invalides';
-        const lat = station.station.Latitude;
-        const lon = station.station.Longitude;
+        const lat = station.Latitude;
+        const lon = station.Longitude;
         if (typeof lat === 'number' && typeof lon === 'number' && !isNaN(lat) && !isNaN(lon)) {
-          try {
-            const [x, y] = proj4('EPSG:4326', 'EPSG:26191', [lon, lat]);
-            if (!isNaN(x) && !isNaN(y)) {
-              const formattedX = formatNumberWithSpaces(x, 2);
-              const formattedY = formatNumberWithSpaces(y, 2);
-              lambert = `X: ${formattedX}\nY: ${formattedY}`;
-            }
-          } catch (error) {
-            console.error('Conversion error for station:', station.station.Code, error);
+          const point = wgs84ToLambert(lat, lon);
+          if (point) {
+            const formattedX = formatNumberWithSpaces(point.x, 2);
+            const formattedY = formatNumberWithSpaces(point.y, 2);
+            lambert = `X: ${formattedX}\nY: ${formattedY}\n${lambertZoneLabel(point.zone)}`;
           }
         }
 
         worksheet.addRow({
-          code: station.station.Code || '-',
-          marque: station.marque?.Marque || '-',
-          type: station.station.Type || '-',
-          latitude: station.station.Latitude || '-',
-          longitude: station.station.Longitude || '-',
+          code: station.Code || '-',
+          marque: station.Marque || '-',
+          type: station.Type || '-',
+          latitude: station.Latitude || '-',
+          longitude: station.Longitude || '-',
           lambert: lambert,
-          province: station.province.NomProvince || '-',
-          commune: station.commune.NomCommune || '-',
-          Proprietaire: getProprietaireName(station) || '',
-          gerant: station.gerant?.fullName || `${station.gerant?.PrenomGerant || ''} ${station.gerant?.NomGerant || ''}`.trim() || '-',
-          DateCreation: station.creationAutorisation?.DateAutorisation
-            ? new Date(station.creationAutorisation.DateAutorisation).toLocaleDateString()
+          province: station.NomProvince || '-',
+          commune: station.NomCommune || '-',
+          Proprietaire: station.Proprietaire || '',
+          gerant: station.Gerant || '-',
+          DateCreation: station.DateCreation
+            ? new Date(station.DateCreation).toLocaleDateString()
             : '',
           distance: distanceValue,
-          nombreVolucompteur: station.station.NombreVolucompteur || 0,
+          nombreVolucompteur: station.NombreVolucompteur || 0,
           capaciteGasoil: capaciteGasoil || '-',
           capaciteSSP: capaciteSSP || '-',
-          statut: station.station.Statut || '-',
+          statut: station.Statut || '-',
         });
       });
 
@@ -192,45 +184,33 @@ export default function NearbyStationsPage() {
         setHasSearched(false);
         return;
       }
-      if (x < 0 || x > 920000) {
-        setXError('La coordonnée X doit être comprise entre 0 et 920000.');
-        setHasSearched(false);
-        return;
-      }
       if (isNaN(y)) {
         setYError('Veuillez entrer une coordonnée Y valide.');
         setHasSearched(false);
         return;
       }
-      if (y < 0 || y > 591000) {
-        setYError('La coordonnée Y doit être comprise entre 0 et 591000.');
+      if (!isInLambertZone(x, y, coordinateSystem)) {
+        setXError(`Ces coordonnées ne tombent pas au Maroc dans la ${lambertZoneLabel(coordinateSystem)}.`);
         setHasSearched(false);
         return;
       }
 
-      try {
-        const [lon, latConverted] = proj4('EPSG:26191', 'EPSG:4326', [x, y]);
-        if (isNaN(latConverted) || isNaN(lon)) {
-          setXError('Erreur lors de la conversion des coordonnées.');
-          setHasSearched(false);
-          return;
-        }
-        lat = latConverted;
-        lng = lon;
-        setLatitude(lat.toFixed(6));
-        setLongitude(lng.toFixed(6));
-      } catch (error) {
-        console.error('Conversion error:', error);
+      const point = lambertToWgs84(x, y, coordinateSystem);
+      if (!point) {
         setXError('Erreur lors de la conversion des coordonnées.');
         setHasSearched(false);
         return;
       }
+      lat = point.lat;
+      lng = point.lng;
+      setLatitude(lat.toFixed(6));
+      setLongitude(lng.toFixed(6));
     }
 
     fetchNearbyStations(lat, lng);
   };
 
-  const handleCoordinateSystemChange = (value: 'geographic' | 'lambert') => {
+  const handleCoordinateSystemChange = (value: 'geographic' | LambertZone) => {
     setCoordinateSystem(value);
     setLatitude('');
     setLongitude('');
@@ -295,12 +275,16 @@ export default function NearbyStationsPage() {
               value={coordinateSystem} 
               onValueChange={handleCoordinateSystemChange}
             >
-              <SelectTrigger id="coordinate-system" className="w-full sm:w-[300px]">
+              <SelectTrigger id="coordinate-system" className="w-full sm:w-[460px]">
                 <SelectValue placeholder="Sélectionnez le système de coordonnées" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="geographic">Coordonnées géographiques</SelectItem>
-                <SelectItem value="lambert">Coordonnée lamberts (ESPG:26191 - Merchich - Meter)</SelectItem>
+                {LAMBERT_ZONES.map(zone => (
+                  <SelectItem key={zone.code} value={zone.code}>
+                    Coordonnées Lambert {zone.label} ({zone.code} - Merchich - Mètre)
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -312,7 +296,7 @@ export default function NearbyStationsPage() {
                   <label className="block text-sm font-medium mb-1">X (Easting)</label>
                   <Input
                     type="text"
-                    placeholder="X (84 026 ... 350 738)"
+                    placeholder="X (mètres)"
                     value={xCoord ? formatNumberWithSpaces(Number(xCoord)) : ''}
                     onChange={handleXCoordChange}
                     className={`w-full ${xError ? 'border-red-500' : ''}`}
@@ -323,7 +307,7 @@ export default function NearbyStationsPage() {
                   <label className="block text-sm font-medium mb-1">Y (Northing)</label>
                   <Input
                     type="text"
-                    placeholder="Y (21 241 ... 255 390)"
+                    placeholder="Y (mètres)"
                     value={yCoord ? formatNumberWithSpaces(Number(yCoord)) : ''}
                     onChange={handleYCoordChange}
                     className={`w-full ${yError ? 'border-red-500' : ''}`}
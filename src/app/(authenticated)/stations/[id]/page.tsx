@@ -1,9 +1,9 @@
 'use client';
 
 import { useParams, useRouter } from 'next/navigation';
-import { useEffect, useState, useMemo } from 'react';
-import { StationWithDetails, Analyse } from '@/types/station';
-import { useStations } from '@/hooks/stations/useStations';
+import { useEffect, useState, useMemo, useRef } from 'react';
+import { StationWithDetails, Analyse, Autorisation, Inspection } from '@/types/station';
+import { useStationDetails } from '@/hooks/stations/useStationDetails';
 import { Card, CardHeader, CardContent, CardTitle, Button, LoadingSpinner, ErrorMessage } from '@/components/ui';
 import dynamic from 'next/dynamic';
 import { formatDate, getProprietaireName } from '@/utils/format';
@@ -13,34 +13,73 @@ import { useAnalysesIndex } from '@/hooks/useStationData/useAnalysesIndex';
 import AnalyseTable from '@/components/stations/AnalyseTable';
 import AnalyseForm from '@/components/stations/AnalyseForm';
 import { useArchiveStation } from '@/hooks/stations/useArchiveStation';
+import StationHistory from '@/components/stations/StationHistory';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/lib/auth/hooks';
+import { useStationStatusHistory } from '@/hooks/stations/useStationStatusHistory';
+import StationStatusTimeline from '@/components/stations/StationStatusTimeline';
+import StatusChangeForm from '@/components/stations/StatusChangeForm';
+import RenewAutorisationForm from '@/components/stations/RenewAutorisationForm';
+import AttachmentsPanel from '@/components/stations/AttachmentsPanel';
+import InspectionTable from '@/components/stations/InspectionTable';
+import InspectionForm from '@/components/stations/InspectionForm';
+import { useInspections } from '@/hooks/useStationData/useInspections';
+import DossierList from '@/components/stations/DossierList';
+import { useDossiers } from '@/hooks/useStationData/useDossiers';
+import { isOpenDossier } from '@/utils/dossiers';
+import { useOutbox } from '@/lib/offline/OutboxProvider';
+import SyncStatusBadge from '@/components/stations/SyncStatusBadge';
+import { useAutorisationRenewals } from '@/hooks/stations/useAutorisationRenewals';
+import { daysUntil } from '@/utils/autorisations';
+import { APP_CONSTANTS } from '@/lib/constants';
 
 const GoogleMap = dynamic(() => import('@/components/dashboard/MapPreview'), { ssr: false });
 
 export default function StationDetailPage() {
   const { id } = useParams<{ id: string }>();
   const router = useRouter();
-  const { stations, loading: stationsLoading, error: stationsError, refetch } = useStations();
+  const { station: details, loading: stationsLoading, error: stationsError, refetch } = useStationDetails(id);
   const { analyses, loading: analysesLoading, error: analysesError, refetch: refetchAnalyses } = useAnalysesIndex(id);
   const { archiveStation, unarchiveStation, loading: archiveLoading } = useArchiveStation();
+  const { changes: statusChanges, loading: statusLoading, error: statusError, refetch: refetchStatus } = useStationStatusHistory(id);
+  const { renewals, refetch: refetchRenewals } = useAutorisationRenewals(id);
+  const { inspections, loading: inspectionsLoading, error: inspectionsError, refetch: refetchInspections } = useInspections(id);
+  const { dossiers, loading: dossiersLoading, error: dossiersError, refetch: refetchDossiers } = useDossiers(id);
+  const { can } = useAuth();
+  const { mutations, stationStates, analyseStates, queuedAnalyses } = useOutbox();
 
-  const [station, setStation] = useState<StationWithDetails | null>(null);
   const [showStationForm, setShowStationForm] = useState(false);
   const [editingStation, setEditingStation] = useState<StationWithDetails | undefined>(undefined);
   const [showAnalyseForm, setShowAnalyseForm] = useState(false);
   const [analyseFormMode, setAnalyseFormMode] = useState<'create' | 'edit'>('create');
   const [editingAnalyse, setEditingAnalyse] = useState<Analyse | undefined>(undefined);
+  const [showStatusForm, setShowStatusForm] = useState(false);
+  const [renewingAutorisation, setRenewingAutorisation] = useState<Autorisation | null>(null);
+  const [showInspectionForm, setShowInspectionForm] = useState(false);
+  const [editingInspection, setEditingInspection] = useState<Inspection | undefined>(undefined);
 
   const stationAnalyses = analyses || [];
+  const stationQueuedAnalyses = useMemo(
+    () => queuedAnalyses.filter((a) => a.StationID === id),
+    [queuedAnalyses, id]
+  );
+
+  // Reload once queued edits of this station have been sent
+  const queuedCount = mutations.filter((m) => m.stationId === id).length;
+  const previousQueuedCount = useRef(queuedCount);
+  useEffect(() => {
+    if (queuedCount < previousQueuedCount.current) {
+      refetch();
+      refetchAnalyses();
+    }
+    previousQueuedCount.current = queuedCount;
+  }, [queuedCount, refetch, refetchAnalyses]);
 
   // Memoize initialAnalyses to prevent new array creation on each render
   const initialAnalyses = useMemo(() => (editingAnalyse ? [editingAnalyse] : []), [editingAnalyse]);
 
-  useEffect(() => {
-    if (stations.length > 0) {
-      const found = stations.find((s) => s.station.StationID === id);
-      setStation(found || null);
-    }
-  }, [stations, id]);
+  // Stations in the corbeille are only reachable from the admin recycle bin
+  const station = details && !details.station.DeletedAt ? details : null;
 
   const handleEditStation = () => {
     setEditingStation(station || undefined);
@@ -50,7 +89,17 @@ export default function StationDetailPage() {
   const handleStationFormSaved = async () => {
     setShowStationForm(false);
     setEditingStation(undefined);
-    await refetch();
+    await Promise.all([refetch(), refetchStatus()]);
+  };
+
+  const handleStatusFormSaved = async () => {
+    setShowStatusForm(false);
+    await Promise.all([refetch(), refetchStatus()]);
+  };
+
+  const handleRenewalSaved = async () => {
+    setRenewingAutorisation(null);
+    await Promise.all([refetch(), refetchRenewals()]);
   };
 
   const handleCreateAnalyse = () => {
@@ -68,7 +117,7 @@ export default function StationDetailPage() {
   const handleAnalyseFormSaved = async () => {
     setShowAnalyseForm(false);
     setEditingAnalyse(undefined);
-    await refetchAnalyses();
+    await Promise.all([refetchAnalyses(), refetchDossiers()]);
   };
 
   const handleAnalyseFormCancel = () => {
@@ -76,6 +125,26 @@ export default function StationDetailPage() {
     setEditingAnalyse(undefined);
   };
 
+  const handleInspectionFormOpen = (inspection?: Inspection) => {
+    setEditingInspection(inspection);
+    setShowInspectionForm(true);
+  };
+
+  const handleInspectionFormClose = () => {
+    setShowInspectionForm(false);
+    setEditingInspection(undefined);
+  };
+
+  const handleInspectionFormSaved = async () => {
+    handleInspectionFormClose();
+    await Promise.all([refetchInspections(), refetchDossiers()]);
+  };
+
+  // Decisions on a dossier can change the station status
+  const handleDossierChanged = async () => {
+    await Promise.all([refetchDossiers(), refetch(), refetchStatus()]);
+  };
+
   const handleArchive = async () => {
     if (!station || archiveLoading) return;
 
@@ -92,7 +161,7 @@ export default function StationDetailPage() {
       } else {
         await archiveStation(station.station.StationID);
       }
-      await refetch();
+      await Promise.all([refetch(), refetchStatus()]);
     } catch (error) {
       console.error('Failed to change station status:', error);
     }
@@ -128,6 +197,7 @@ export default function StationDetailPage() {
   }
 
   const isArchived = station.station.Statut === 'archivé';
+  const openDossiers = dossiers.filter(isOpenDossier).length;
 
   return (
     <div className="p-6 space-y-6 text-gray-900">
@@ -139,131 +209,271 @@ export default function StationDetailPage() {
               Archivé
             </span>
           )}
+          {stationStates.has(station.station.StationID) && (
+            <div className="mt-2">
+              <SyncStatusBadge status={stationStates.get(station.station.StationID)} />
+            </div>
+          )}
         </div>
         <div className="space-x-2">
-          <Button onClick={handleEditStation} disabled={isArchived}>
-            Modifier la station
-          </Button>
-          <Button
-            onClick={handleArchive}
-            variant={isArchived ? 'default' : 'danger'}
-            disabled={archiveLoading}
-          >
-            {archiveLoading ? (isArchived ? 'Déarchivage...' : 'Archivage...') : (isArchived ? 'Déarchiver' : 'Archiver')}
-          </Button>
+          {can('station:update') && (
+            <Button onClick={handleEditStation} disabled={isArchived}>
+              Modifier la station
+            </Button>
+          )}
+          {can('station:archive') && (
+            <Button
+              onClick={handleArchive}
+              variant={isArchived ? 'default' : 'danger'}
+              disabled={archiveLoading}
+            >
+              {archiveLoading ? (isArchived ? 'Déarchivage...' : 'Archivage...') : (isArchived ? 'Déarchiver' : 'Archiver')}
+            </Button>
+          )}
         </div>
       </div>
 
-      {/* Informations générales */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Informations générales</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-4 text-sm">
-            <div><strong>Code:</strong> {station.station.Code || 'N/A'}</div>
-            <div><strong>Nom de la station:</strong> {station.station.NomStation}</div>
-            <div><strong>Statut:</strong> <span className="capitalize">{station.station.Statut || 'N/A'}</span></div>
-            <div><strong>Marque:</strong> {station.marque.Marque}</div>
-            <div><strong>Raison Sociale:</strong> {station.marque.RaisonSociale || 'N/A'}</div>
-            <div><strong>Type:</strong> <span className="capitalize">{station.station.Type}</span></div>
-            <div><strong>Propriétaire:</strong> {getProprietaireName(station)}</div>
-            <div className="col-span-2"><strong>Gérant:</strong> {station.gerant.fullName} (CIN: {station.gerant.CINGerant || 'N/A'}, Tél: {station.gerant.Telephone || 'N/A'})</div>
-            <div><strong>Type de Gérance:</strong> <span className="capitalize">{station.station.TypeGerance}</span></div>
-            <div className="col-span-3 border-t pt-4 mt-2"><strong>Adresse:</strong> {station.station.Adresse}</div>
-            <div><strong>Province:</strong> {station.province.NomProvince}</div>
-            <div><strong>Commune:</strong> {station.commune.NomCommune}</div>
-            <div><strong>Latitude:</strong> {station.station.Latitude}</div>
-            <div><strong>Longitude:</strong> {station.station.Longitude}</div>
-            <div><strong>Commentaire:</strong> {station.station.Commentaires || 'N/A'}</div>
-            <div><strong>Nombre Volucompteur:</strong> {station.station.NombreVolucompteur ?? 'N/A'}</div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Autorisations */}
-      {(station.autorisations?.length > 0 || station.creationAutorisation || station.miseEnServiceAutorisation) && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Autorisations</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ul className="list-disc pl-6 text-sm">
-              {station.creationAutorisation && (
-                <li>
-                  Création – N° {station.creationAutorisation.NumeroAutorisation} (du {formatDate(station.creationAutorisation.DateAutorisation)})
-                </li>
+      <Tabs defaultValue="details" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="details">Détails</TabsTrigger>
+          <TabsTrigger value="inspections">Inspections</TabsTrigger>
+          <TabsTrigger value="dossiers">
+            Dossiers{openDossiers > 0 && <span className="ml-1 px-1.5 rounded-full bg-red-100 text-red-800 text-xs">{openDossiers}</span>}
+          </TabsTrigger>
+          <TabsTrigger value="historique">Historique</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="space-y-6">
+          {/* Informations générales */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Informations générales</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-4 text-sm">
+                <div><strong>Code:</strong> {station.station.Code || 'N/A'}</div>
+                <div><strong>Nom de la station:</strong> {station.station.NomStation}</div>
+                <div><strong>Statut:</strong> <span className="capitalize">{station.station.Statut || 'N/A'}</span></div>
+                <div><strong>Marque:</strong> {station.marque.Marque}</div>
+                <div><strong>Raison Sociale:</strong> {station.marque.RaisonSociale || 'N/A'}</div>
+                <div><strong>Type:</strong> <span className="capitalize">{station.station.Type}</span></div>
+                <div><strong>Propriétaire:</strong> {getProprietaireName(station)}</div>
+                <div className="col-span-2"><strong>Gérant:</strong> {station.gerant.fullName} (CIN: {station.gerant.CINGerant || 'N/A'}, Tél: {station.gerant.Telephone || 'N/A'})</div>
+                <div><strong>Type de Gérance:</strong> <span className="capitalize">{station.station.TypeGerance}</span></div>
+                <div className="col-span-3 border-t pt-4 mt-2"><strong>Adresse:</strong> {station.station.Adresse}</div>
+                <div><strong>Province:</strong> {station.province.NomProvince}</div>
+                <div><strong>Commune:</strong> {station.commune.NomCommune}</div>
+                <div><strong>Latitude:</strong> {station.station.Latitude}</div>
+                <div><strong>Longitude:</strong> {station.station.Longitude}</div>
+                <div><strong>Commentaire:</strong> {station.station.Commentaires || 'N/A'}</div>
+                <div><strong>Nombre Volucompteur:</strong> {station.station.NombreVolucompteur ?? 'N/A'}</div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Cycle de vie */}
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Cycle de vie du statut</CardTitle>
+                {can('station:update') && (
+                  <Button onClick={() => setShowStatusForm(true)}>
+                    Changer le statut
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {statusLoading && <LoadingSpinner />}
+              {statusError && <ErrorMessage message={statusError} />}
+              {!statusLoading && !statusError && <StationStatusTimeline changes={statusChanges} />}
+            </CardContent>
+          </Card>
+
+          {/* Autorisations */}
+          {(station.autorisations?.length > 0 || station.creationAutorisation || station.miseEnServiceAutorisation) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Autorisations</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="list-disc pl-6 text-sm space-y-1">
+                  {[station.creationAutorisation, station.miseEnServiceAutorisation]
+                    .filter((a): a is Autorisation => !!a)
+                    .concat(station.autorisations.filter(a => a.TypeAutorisation !== 'création' && a.TypeAutorisation !== 'mise en service'))
+                    .map((a) => (
+                      <li key={a.AutorisationID}>
+                        {a.TypeAutorisation === 'création' ? 'Création' : a.TypeAutorisation === 'mise en service' ? 'Mise en service' : a.TypeAutorisation}
+                        {' '}– N° {a.NumeroAutorisation} (du {formatDate(a.DateAutorisation)})
+                        {a.DateExpiration && (
+                          <span className={daysUntil(a.DateExpiration) < 0 ? 'text-red-600' : daysUntil(a.DateExpiration) <= APP_CONSTANTS.AUTORISATIONS.RENEWAL_WARNING_DAYS ? 'text-orange-600' : 'text-gray-600'}>
+                            {' '}· {daysUntil(a.DateExpiration) < 0 ? 'expirée depuis le' : 'expire le'} {formatDate(a.DateExpiration)}
+                          </span>
+                        )}
+                        {can('station:update') && (
+                          <button
+                            type="button"
+                            onClick={() => setRenewingAutorisation(a)}
+                            className="ml-2 text-blue-600 hover:underline"
+                          >
+                            Renouveler
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                </ul>
+                {renewals.length > 0 && (
+                  <div className="mt-4">
+                    <h3 className="text-sm font-medium text-gray-900 mb-1">Renouvellements</h3>
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      {renewals.map((r) => (
+                        <li key={r.RenouvellementID}>
+                          {formatDate(r.DateRenouvellement)} – N° {r.NumeroAutorisation} :{' '}
+                          {r.AncienneDateExpiration ? formatDate(r.AncienneDateExpiration) : 'sans échéance'} → {formatDate(r.NouvelleDateExpiration)}
+                          {r.Commentaire && ` (${r.Commentaire})`}
+                          <span className="text-xs text-gray-500"> · par {r.userEmail || r.uid || 'inconnu'}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Pièces jointes */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Pièces jointes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AttachmentsPanel
+                stationId={id}
+                autorisations={station.autorisations}
+                canEdit={can('station:update') && !isArchived}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Capacités */}
+          {station.capacites?.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Capacités de stockage</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="list-disc pl-6 text-sm">
+                  {station.capacites.map((c) => (
+                    <li key={c.CapaciteID}>
+                      {c.IdentifiantCuve && <span className="font-medium">{c.IdentifiantCuve} · </span>}
+                      {c.TypeCarburant} – {c.CapaciteLitres.toLocaleString('fr-FR')} tonnes
+                      {c.Materiau && ` · ${c.Materiau}`}
+                      {c.DateInstallation && ` · installée le ${formatDate(c.DateInstallation)}`}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Localisation */}
+          {(station.station.Latitude || station.station.Longitude) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Localisation</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div style={{ height: '400px', width: '100%' }}>
+                  <GoogleMap stations={[station]} />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Analyses */}
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Analyses</CardTitle>
+                {can('analyse:create') && (
+                  <Button onClick={handleCreateAnalyse} disabled={isArchived}>
+                    Ajouter une analyse
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {analysesLoading && <LoadingSpinner />}
+              {analysesError && <ErrorMessage message={analysesError} />}
+              {!analysesLoading && !analysesError && (
+                <AnalyseTable
+                  analyses={stationAnalyses}
+                  syncStates={analyseStates}
+                  queuedAnalyses={stationQueuedAnalyses}
+                  onEdit={can('analyse:update') ? handleEditAnalyse : undefined}
+                  canEditAttachments={can('analyse:update') && !isArchived}
+                />
               )}
-              {station.miseEnServiceAutorisation && (
-                <li>
-                  Mise en service – N° {station.miseEnServiceAutorisation.NumeroAutorisation} (du {formatDate(station.miseEnServiceAutorisation.DateAutorisation)})
-                </li>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="inspections">
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Inspections</CardTitle>
+                {can('inspection:create') && (
+                  <Button onClick={() => handleInspectionFormOpen()} disabled={isArchived}>
+                    Nouvelle inspection
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {inspectionsLoading && <LoadingSpinner />}
+              {inspectionsError && <ErrorMessage message={inspectionsError} />}
+              {!inspectionsLoading && !inspectionsError && (
+                <InspectionTable
+                  inspections={inspections}
+                  onEdit={can('inspection:update') ? handleInspectionFormOpen : undefined}
+                />
               )}
-              {station.autorisations
-                .filter(a => a.TypeAutorisation !== 'création' && a.TypeAutorisation !== 'mise en service')
-                .map((a) => (
-                  <li key={a.AutorisationID}>
-                    {a.TypeAutorisation} – N° {a.NumeroAutorisation} (du {formatDate(a.DateAutorisation)})
-                  </li>
-                ))}
-            </ul>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Capacités */}
-      {station.capacites?.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Capacités de stockage</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ul className="list-disc pl-6 text-sm">
-              {station.capacites.map((c) => (
-                <li key={c.CapaciteID}>
-                  {c.TypeCarburant} – {c.CapaciteLitres.toLocaleString('fr-FR')} tonnes
-                </li>
-              ))}
-            </ul>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Localisation */}
-      {(station.station.Latitude || station.station.Longitude) && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Localisation</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div style={{ height: '400px', width: '100%' }}>
-              <GoogleMap stations={[station]} />
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Analyses */}
-      <Card>
-        <CardHeader>
-          <div className="flex justify-between items-center">
-            <CardTitle>Analyses</CardTitle>
-            <Button onClick={handleCreateAnalyse} disabled={isArchived}>
-              Ajouter une analyse
-            </Button>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {analysesLoading && <LoadingSpinner />}
-          {analysesError && <ErrorMessage message={analysesError} />}
-          {!analysesLoading && !analysesError && (
-            <AnalyseTable
-              analyses={stationAnalyses}
-              onEdit={handleEditAnalyse}
-            />
-          )}
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="dossiers">
+          <Card>
+            <CardHeader>
+              <CardTitle>Dossiers de non-conformité</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {dossiersLoading && <LoadingSpinner />}
+              {dossiersError && <ErrorMessage message={dossiersError} />}
+              {!dossiersLoading && !dossiersError && (
+                <DossierList
+                  dossiers={dossiers}
+                  currentStatut={station.station.Statut}
+                  canManage={can('dossier:manage') && !isArchived}
+                  onChanged={handleDossierChanged}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="historique">
+          <Card>
+            <CardHeader>
+              <CardTitle>Historique des modifications</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <StationHistory stationId={id} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
 
       <Modal isOpen={showStationForm} onClose={() => setShowStationForm(false)} size="lg">
         <StationForm
@@ -274,6 +484,37 @@ export default function StationDetailPage() {
         />
       </Modal>
 
+      <Modal isOpen={showStatusForm} onClose={() => setShowStatusForm(false)}>
+        <StatusChangeForm
+          stationId={id}
+          currentStatut={station.station.Statut}
+          hasMiseEnService={!!station.miseEnServiceAutorisation}
+          onSaved={handleStatusFormSaved}
+          onCancel={() => setShowStatusForm(false)}
+        />
+      </Modal>
+
+      <Modal isOpen={!!renewingAutorisation} onClose={() => setRenewingAutorisation(null)}>
+        {renewingAutorisation && (
+          <RenewAutorisationForm
+            autorisation={renewingAutorisation}
+            onSaved={handleRenewalSaved}
+            onCancel={() => setRenewingAutorisation(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal isOpen={showInspectionForm} onClose={handleInspectionFormClose} size="lg">
+        {showInspectionForm && (
+          <InspectionForm
+            stationId={id}
+            inspection={editingInspection}
+            onSaved={handleInspectionFormSaved}
+            onCancel={handleInspectionFormClose}
+          />
+        )}
+      </Modal>
+
       <Modal isOpen={showAnalyseForm} onClose={handleAnalyseFormCancel}>
         <AnalyseForm
           mode={analyseFormMode}
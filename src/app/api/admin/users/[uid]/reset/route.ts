@@ -0,0 +1,36 @@
+// src/app/api/admin/users/[uid]/reset/route.ts
+import { NextResponse } from 'next/server';
+import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { verifyPermission } from '@/lib/auth/serverAuth';
+import { resetUserAccess } from '@/lib/firebase/adminUsers';
+
+type RouteContext = { params: Promise<{ uid: string }> };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const rate = rateLimit(request, 10, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'user:manage');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { uid: targetUid } = await params;
+
+  try {
+    const result = await resetUserAccess(targetUid);
+    return NextResponse.json(result);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'auth/user-not-found') {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    console.error('Error resetting user access:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset user access' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+// src/app/api/admin/users/[uid]/route.ts
+import { NextResponse } from 'next/server';
+import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { verifyPermission } from '@/lib/auth/serverAuth';
+import { updateAdminUser } from '@/lib/firebase/adminUsers';
+import { updateUserSchema } from '@/lib/validations/userValidation';
+
+type RouteContext = { params: Promise<{ uid: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const rate = rateLimit(request, 20, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'user:manage');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { uid: targetUid } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = updateUserSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Validation failed' }, { status: 400 });
+  }
+
+  // Prevent an administrator from locking themselves out
+  if (targetUid === uid && (parsed.data.disabled === true || (parsed.data.role && parsed.data.role !== 'administrateur'))) {
+    return NextResponse.json({ error: 'Vous ne pouvez pas retirer vos propres droits' }, { status: 400 });
+  }
+
+  try {
+    const user = await updateAdminUser(targetUid, parsed.data);
+    return NextResponse.json({ user });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'auth/user-not-found') {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+// src/app/api/admin/users/route.ts
+import { NextResponse } from 'next/server';
+import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { verifyPermission } from '@/lib/auth/serverAuth';
+import { listAdminUsers, createAdminUser } from '@/lib/firebase/adminUsers';
+import { createUserSchema } from '@/lib/validations/userValidation';
+
+export async function GET(request: Request) {
+  const rate = rateLimit(request, 30, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'user:manage');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const users = await listAdminUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json(
+      { error: 'Failed to list users' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const rate = rateLimit(request, 10, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'user:manage');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = createUserSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Validation failed' }, { status: 400 });
+  }
+
+  try {
+    const result = await createAdminUser(parsed.data);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'auth/email-already-exists') {
+      return NextResponse.json({ error: 'Un compte existe déjà avec cet email' }, { status: 409 });
+    }
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+// src/app/api/attachments/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { verifyAuthTokenWithClaims, verifyPermission } from '@/lib/auth/serverAuth';
+import { getRoleFromClaims, hasPermission } from '@/lib/auth/permissions';
+import { deleteAttachment, getAttachment, readAttachmentFile } from '@/lib/firebase/adminAttachments';
+import { attachmentPermission } from '@/utils/attachments';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Streams the file. `?download=1` asks the browser to save it instead of displaying it.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const rate = rateLimit(request, 60, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'station:read');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const attachment = await getAttachment(id);
+    const data = attachment && (await readAttachmentFile(attachment));
+    if (!attachment || !data) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const download = new URL(request.url).searchParams.get('download') === '1';
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.TypeMime,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename*=UTF-8''${encodeURIComponent(attachment.NomFichier)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to read attachment' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const rate = rateLimit(request, 20, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const decodedToken = await verifyAuthTokenWithClaims(request);
+  if (!decodedToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const attachment = await getAttachment(id);
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+    const target = { stationId: attachment.StationID, analyseId: attachment.AnalyseID };
+    if (!hasPermission(getRoleFromClaims(decodedToken), attachmentPermission(target))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await deleteAttachment(attachment, { uid: decodedToken.uid, email: decodedToken.email ?? null });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete attachment' },
+      { status: 500 }
+    );
+  }
+}
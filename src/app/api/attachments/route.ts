@@ -0,0 +1,135 @@
+// src/app/api/attachments/route.ts
+import { NextResponse } from 'next/server';
+import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { adminDb, verifyAuthTokenWithClaims, verifyPermission } from '@/lib/auth/serverAuth';
+import { getRoleFromClaims, hasPermission } from '@/lib/auth/permissions';
+import { checkAttachmentTarget, createAttachment, deleteStationAttachments, listAttachments } from '@/lib/firebase/adminAttachments';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { attachmentPermission } from '@/utils/attachments';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+export async function GET(request: Request) {
+  const rate = rateLimit(request, 60, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'station:read');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const stationId = searchParams.get('stationId');
+  if (!stationId) {
+    return NextResponse.json({ error: 'stationId is required' }, { status: 400 });
+  }
+
+  try {
+    const attachments = await listAttachments({
+      stationId,
+      autorisationId: searchParams.get('autorisationId'),
+      analyseId: searchParams.get('analyseId'),
+    });
+    return NextResponse.json({ attachments });
+  } catch (error) {
+    console.error('Error listing attachments:', error);
+    return NextResponse.json(
+      { error: 'Failed to list attachments' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const rate = rateLimit(request, 20, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const decodedToken = await verifyAuthTokenWithClaims(request);
+  if (!decodedToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Invalid multipart body' }, { status: 400 });
+  }
+
+  const file = form.get('file');
+  const target = {
+    stationId: String(form.get('stationId') || ''),
+    autorisationId: form.get('autorisationId') ? String(form.get('autorisationId')) : null,
+    analyseId: form.get('analyseId') ? String(form.get('analyseId')) : null,
+  };
+  if (!target.stationId || !(file instanceof File)) {
+    return NextResponse.json({ error: 'stationId and file are required' }, { status: 400 });
+  }
+  if (!hasPermission(getRoleFromClaims(decodedToken), attachmentPermission(target))) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  if (!APP_CONSTANTS.ATTACHMENTS.ACCEPTED_TYPES.includes(file.type)) {
+    return NextResponse.json({ error: `Type de fichier non accepté : ${file.type || 'inconnu'}` }, { status: 400 });
+  }
+  if (file.size > APP_CONSTANTS.ATTACHMENTS.MAX_SIZE_MB * 1024 * 1024) {
+    return NextResponse.json({ error: `Fichier trop volumineux (max ${APP_CONSTANTS.ATTACHMENTS.MAX_SIZE_MB} Mo)` }, { status: 413 });
+  }
+
+  try {
+    const targetError = await checkAttachmentTarget(target);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 404 });
+    }
+
+    const attachment = await createAttachment(
+      target,
+      { name: file.name, type: file.type, data: Buffer.from(await file.arrayBuffer()) },
+      { uid: decodedToken.uid, email: decodedToken.email ?? null }
+    );
+    return NextResponse.json({ attachment }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Deletes all the attachments of a station in the corbeille, before it is purged.
+ */
+export async function DELETE(request: Request) {
+  const rate = rateLimit(request, 20, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'station:delete');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const stationId = new URL(request.url).searchParams.get('stationId');
+  if (!stationId) {
+    return NextResponse.json({ error: 'stationId is required' }, { status: 400 });
+  }
+
+  try {
+    const station = await adminDb.collection(COLLECTIONS.STATIONS).doc(stationId).get();
+    if (station.exists && !station.get('DeletedAt')) {
+      return NextResponse.json({ error: 'Only the attachments of a deleted station can be removed at once' }, { status: 409 });
+    }
+    const deleted = await deleteStationAttachments(stationId, { uid, email: null });
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error('Error deleting station attachments:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete station attachments' },
+      { status: 500 }
+    );
+  }
+}
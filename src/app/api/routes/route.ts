@@ -1,7 +1,7 @@
 // src/app/api/routes/route.ts
 import { NextResponse } from 'next/server';
 import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
-import { verifyAuthToken } from '@/lib/auth/serverAuth';
+import { verifyPermission } from '@/lib/auth/serverAuth';
 
 // --- CONFIGURATION ---
 const MAX_DESTINATIONS = 25;
@@ -25,10 +25,13 @@ export async function POST(request: Request) {
     return rateLimitResponse(rate.remaining, rate.resetInMs);
   }
 
-  const uid = await verifyAuthToken(request);
+  const { uid, allowed } = await verifyPermission(request, 'station:read');
   if (!uid) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
 
   try {
     cleanupCache();
@@ -0,0 +1,138 @@
+// src/app/api/stations/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { verifyPermission } from '@/lib/auth/serverAuth';
+import { getStationWithDetails, updateStationAdmin, deleteStationAdmin, findTakenAutorisationNumbersAdmin, findUnknownProduitsAdmin } from '@/lib/firebase/adminStations';
+import { stationSchema, mapZodErrorsToFormErrors } from '@/lib/validations/stationValidation';
+import { stationWithDetailsToFormData } from '@/utils/stationFormUtils';
+import { getStatusTransitionError } from '@/utils/stationStatus';
+import { takenAutorisationNumbersMessage } from '@/utils/autorisations';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const rate = rateLimit(request, 60, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'station:read');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const station = await getStationWithDetails(id);
+    if (!station) {
+      return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+    }
+    return NextResponse.json({ station });
+  } catch (error) {
+    console.error('Error fetching station:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch station' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const rate = rateLimit(request, 20, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'station:update');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const existing = await getStationWithDetails(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+    }
+
+    // Partial update: the patch is applied over the current form values, then the whole is validated
+    const parsed = stationSchema.safeParse({ ...stationWithDetailsToFormData(existing), ...body });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', errors: mapZodErrorsToFormErrors(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const hasMiseEnService = parsed.data.autorisations.some(
+      (a) => a.TypeAutorisation === 'mise en service' && a.NumeroAutorisation.trim()
+    );
+    const transitionError = getStatusTransitionError(existing.station.Statut, parsed.data.Statut, { hasMiseEnService });
+    if (transitionError) {
+      return NextResponse.json({ error: transitionError }, { status: 400 });
+    }
+
+    const unknownProduits = await findUnknownProduitsAdmin(parsed.data, existing.capacites.map((c) => c.TypeCarburant));
+    if (unknownProduits.length > 0) {
+      return NextResponse.json({ error: `Unknown produit(s): ${unknownProduits.join(', ')}` }, { status: 400 });
+    }
+
+    const takenNumbers = await findTakenAutorisationNumbersAdmin(parsed.data, id);
+    if (takenNumbers.length > 0) {
+      return NextResponse.json({ error: takenAutorisationNumbersMessage(takenNumbers) }, { status: 409 });
+    }
+
+    await updateStationAdmin(id, parsed.data, uid);
+    const station = await getStationWithDetails(id);
+    return NextResponse.json({ station });
+  } catch (error) {
+    console.error('Error updating station:', error);
+    return NextResponse.json(
+      { error: 'Failed to update station' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const rate = rateLimit(request, 20, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'station:delete');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteStationAdmin(id, uid);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting station:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete station' },
+      { status: 500 }
+    );
+  }
+}
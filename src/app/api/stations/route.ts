@@ -0,0 +1,81 @@
+// src/app/api/stations/route.ts
+import { NextResponse } from 'next/server';
+import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { verifyPermission } from '@/lib/auth/serverAuth';
+import { listStationsWithDetails, createStationAdmin, getStationWithDetails, findTakenAutorisationNumbersAdmin, findUnknownProduitsAdmin } from '@/lib/firebase/adminStations';
+import { stationSchema, mapZodErrorsToFormErrors } from '@/lib/validations/stationValidation';
+import { takenAutorisationNumbersMessage } from '@/utils/autorisations';
+
+export async function GET(request: Request) {
+  const rate = rateLimit(request, 30, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'station:read');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const stations = await listStationsWithDetails();
+    return NextResponse.json({ stations });
+  } catch (error) {
+    console.error('Error fetching stations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const rate = rateLimit(request, 20, 60 * 1000);
+  if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
+
+  const { uid, allowed } = await verifyPermission(request, 'station:create');
+  if (!uid) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = stationSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Validation failed', errors: mapZodErrorsToFormErrors(parsed.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const unknownProduits = await findUnknownProduitsAdmin(parsed.data);
+    if (unknownProduits.length > 0) {
+      return NextResponse.json({ error: `Unknown produit(s): ${unknownProduits.join(', ')}` }, { status: 400 });
+    }
+
+    const takenNumbers = await findTakenAutorisationNumbersAdmin(parsed.data);
+    if (takenNumbers.length > 0) {
+      return NextResponse.json({ error: takenAutorisationNumbersMessage(takenNumbers) }, { status: 409 });
+    }
+
+    const stationId = await createStationAdmin(parsed.data, uid);
+    const station = await getStationWithDetails(stationId);
+    return NextResponse.json({ station }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating station:', error);
+    return NextResponse.json(
+      { error: 'Failed to create station' },
+      { status: 500 }
+    );
+  }
+}
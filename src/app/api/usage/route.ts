@@ -2,16 +2,19 @@
 import { NextResponse } from 'next/server';
 import { getApiUsage } from '@/lib/firebase/apiUsage';
 import { rateLimit, rateLimitResponse } from '@/lib/rateLimit';
-import { verifyAuthToken } from '@/lib/auth/serverAuth';
+import { verifyPermission } from '@/lib/auth/serverAuth';
 
 export async function GET(request: Request) {
   const rate = rateLimit(request, 40, 60 * 1000);
   if (!rate.allowed) return rateLimitResponse(rate.remaining, rate.resetInMs);
 
-  const uid = await verifyAuthToken(request);
+  const { uid, allowed } = await verifyPermission(request, 'station:read');
   if (!uid) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
+  if (!allowed) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
 
   try {
     const usage = await getApiUsage();
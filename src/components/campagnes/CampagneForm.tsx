@@ -0,0 +1,205 @@
+// src/components/campagnes/CampagneForm.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { CampagneAnalyse, StationWithDetails } from '@/types/station';
+import { useCampagneCRUD } from '@/hooks/useStationData/useCampagneCRUD';
+import { useProvinces } from '@/hooks/ReferenceData/useProvinces';
+import { useMarques } from '@/hooks/ReferenceData/useMarques';
+import { useProduits } from '@/hooks/ReferenceData/useProduits';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { formatDateForInput, parseDateString } from '@/utils/format';
+import { PRIORITES_CAMPAGNE, getQuota, proposeCampagneStations, scheduleCampagne } from '@/utils/campagnes';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+interface CampagneFormProps {
+  stations: StationWithDetails[];
+  onSaved?: (campagneId: string) => void;
+  onCancel?: () => void;
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export default function CampagneForm({ stations, onSaved, onCancel }: CampagneFormProps) {
+  const { createCampagne, loading, error } = useCampagneCRUD();
+  const { provinces } = useProvinces();
+  const { marques } = useMarques();
+  const { produitNames } = useProduits();
+
+  const year = new Date().getFullYear();
+  const [nom, setNom] = useState(`Campagne ${year}`);
+  const [annee, setAnnee] = useState(String(year));
+  const [dateDebut, setDateDebut] = useState(formatDateForInput(new Date()));
+  const [dateFin, setDateFin] = useState(`15/12/${year}`);
+  const [provinceIds, setProvinceIds] = useState<string[]>([]);
+  const [marqueIds, setMarqueIds] = useState<string[]>([]);
+  const [quotas, setQuotas] = useState<Record<string, string>>({});
+  // Null follows the produit list until a produit is unticked
+  const [produitsChoisis, setProduitsChoisis] = useState<string[] | null>(null);
+  const produits = produitsChoisis ?? produitNames;
+
+  const parsedAnnee = parseInt(annee, 10);
+  const parsedDebut = parseDateString(dateDebut);
+  const parsedFin = parseDateString(dateFin);
+  const errors = {
+    nom: !nom.trim() ? 'Nom requis' : undefined,
+    annee: isNaN(parsedAnnee) || parsedAnnee < 2000 ? 'Année invalide' : undefined,
+    dateDebut: !parsedDebut ? 'Date invalide (JJ/MM/AAAA)' : undefined,
+    dateFin: !parsedFin
+      ? 'Date invalide (JJ/MM/AAAA)'
+      : parsedDebut && parsedFin < parsedDebut ? 'La fin doit suivre le début' : undefined,
+    produits: produits.length === 0 ? 'Choisissez au moins un produit' : undefined,
+  };
+
+  const quotaValues = useMemo(() => {
+    const values: Record<string, number> = {};
+    Object.entries(quotas).forEach(([provinceId, raw]) => {
+      const n = parseInt(raw, 10);
+      if (!isNaN(n) && n >= 0) values[provinceId] = n;
+    });
+    return values;
+  }, [quotas]);
+
+  const criteres = useMemo(
+    () => ({ ProvinceIDs: provinceIds, MarqueIDs: marqueIds, Quotas: quotaValues, Produits: produits }),
+    [provinceIds, marqueIds, quotaValues, produits]
+  );
+  const proposition = useMemo(() => proposeCampagneStations(stations, criteres), [stations, criteres]);
+  const parPriorite = PRIORITES_CAMPAGNE.map((p) => ({ priorite: p, count: proposition.filter((s) => s.Priorite === p).length }));
+
+  // Quotas apply to the targeted provinces, or to every province when none is targeted
+  const quotaProvinces = provinceIds.length > 0 ? provinces.filter((p) => provinceIds.includes(p.ProvinceID)) : provinces;
+
+  const isValid = Object.values(errors).every((e) => !e) && proposition.length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid || !parsedDebut || !parsedFin) return;
+    const data: Omit<CampagneAnalyse, 'CampagneID' | 'DateCreation'> = {
+      Nom: nom,
+      Annee: parsedAnnee,
+      ProvinceIDs: provinceIds,
+      MarqueIDs: marqueIds,
+      Quotas: Object.fromEntries(quotaProvinces.map((p) => [p.ProvinceID, getQuota(criteres, p.ProvinceID)])),
+      Produits: produits,
+      DateDebut: parsedDebut,
+      DateFin: parsedFin,
+      Stations: scheduleCampagne(proposition, stations, parsedDebut, parsedFin),
+    };
+    try {
+      const campagneId = await createCampagne(data);
+      onSaved?.(campagneId);
+    } catch (err) {
+      console.error('Failed to create campagne:', err);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-gray-900">
+      <h2 className="text-lg font-medium text-gray-900">Nouvelle campagne d&apos;analyses</h2>
+      {error && <ErrorMessage message={error} />}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="md:col-span-2">
+          <Input label="Nom" value={nom} onChange={(e) => setNom(e.target.value)} error={errors.nom} required />
+        </div>
+        <Input label="Année" type="number" value={annee} onChange={(e) => setAnnee(e.target.value)} error={errors.annee} required />
+        <div />
+        <Input
+          label="Début (dd/mm/yyyy)"
+          value={dateDebut}
+          onChange={(e) => setDateDebut(e.target.value)}
+          placeholder="JJ/MM/AAAA"
+          error={errors.dateDebut}
+          required
+        />
+        <Input
+          label="Fin (dd/mm/yyyy)"
+          value={dateFin}
+          onChange={(e) => setDateFin(e.target.value)}
+          placeholder="JJ/MM/AAAA"
+          error={errors.dateFin}
+          required
+        />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Produits à analyser</h3>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {produitNames.map((p) => (
+            <label key={p} className="flex items-center gap-1">
+              <input type="checkbox" checked={produits.includes(p)} onChange={() => setProduitsChoisis(toggle(produits, p))} />
+              {p}
+            </label>
+          ))}
+        </div>
+        {errors.produits && <span className="text-red-500 text-sm">{errors.produits}</span>}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Marques ciblées <span className="text-gray-500 font-normal">(aucune = toutes)</span></h3>
+        <div className="flex flex-wrap gap-4 text-sm max-h-32 overflow-y-auto">
+          {marques.map((m) => (
+            <label key={m.MarqueID} className="flex items-center gap-1">
+              <input type="checkbox" checked={marqueIds.includes(m.MarqueID)} onChange={() => setMarqueIds(toggle(marqueIds, m.MarqueID))} />
+              {m.Marque}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">
+          Provinces ciblées et quotas <span className="text-gray-500 font-normal">(aucune = toutes, {APP_CONSTANTS.CAMPAGNES.QUOTA_DEFAUT} stations par défaut)</span>
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm max-h-60 overflow-y-auto">
+          {provinces.map((p) => {
+            const targeted = provinceIds.includes(p.ProvinceID);
+            const withQuota = provinceIds.length === 0 || targeted;
+            return (
+              <div key={p.ProvinceID} className="flex items-center justify-between gap-2 border rounded-md px-2 py-1">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={targeted} onChange={() => setProvinceIds(toggle(provinceIds, p.ProvinceID))} />
+                  {p.NomProvince}
+                </label>
+                {withQuota && (
+                  <input
+                    type="number"
+                    min={0}
+                    value={quotas[p.ProvinceID] ?? ''}
+                    onChange={(e) => setQuotas((prev) => ({ ...prev, [p.ProvinceID]: e.target.value }))}
+                    placeholder={String(APP_CONSTANTS.CAMPAGNES.QUOTA_DEFAUT)}
+                    className="border border-gray-300 rounded-md px-2 py-0.5 w-20"
+                    aria-label={`Quota ${p.NomProvince}`}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="rounded-md bg-gray-50 p-3 text-sm">
+        <p className="font-medium">{proposition.length} station(s) proposée(s)</p>
+        <p className="text-gray-600">
+          {parPriorite.map(({ priorite, count }) => `${count} ${priorite}`).join(' · ')}
+        </p>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Annuler
+          </Button>
+        )}
+        <Button type="submit" disabled={loading || !isValid}>
+          {loading ? 'Enregistrement...' : 'Créer la campagne'}
+        </Button>
+      </div>
+    </form>
+  );
+}
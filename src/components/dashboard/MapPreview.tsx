@@ -1,18 +1,36 @@
 // src/components/dashboard/MapPreview.tsx
 import React, { useMemo, useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleMap, MarkerF, InfoWindow } from '@react-google-maps/api';
+import { GoogleMap, MarkerF, InfoWindow, MarkerClustererF, MarkerClustererProps } from '@react-google-maps/api';
 import Link from 'next/link';
-import { StationWithDetails } from '@/types/station';
+import { Limite, StationWithDetails } from '@/types/station';
 import { getProprietaireName } from '@/utils/format';
 import { useApiUsage } from '@/hooks/useApiUsage';
 import { Button } from '@/components/ui';
+import { choroplethBreaks, choroplethColor, CHOROPLETH_COLORS, formatIndicateur, IndicateurCarte, INDICATEURS_CARTE } from '@/utils/choropleth';
+import RegionLayer from './RegionLayer';
+
+// Province or commune outlines colored by an indicator, drawn under the markers
+export type MapRegions = {
+  limites: Limite[];
+  values: Map<string, number>; // By RefID
+  names: Map<string, string>;
+  indicateur: IndicateurCarte;
+};
 
 interface MapPreviewProps {
   stations: StationWithDetails[];
+  regions?: MapRegions | null;
+  onRegionClick?: (refId: string) => void;
 }
 
+type Clusterer = Parameters<MarkerClustererProps['children']>[0];
+
 const mapContainerStyle = { width: '100%', height: '100%', borderRadius: '8px' };
 
+// Markers are only created for stations inside the visible area, widened by this
+// fraction on each side so that panning a little does not show an empty border
+const VIEWPORT_MARGIN = 0.25;
+
 function safeFullName(first?: string, last?: string) {
   return `${first || ''} ${last || ''}`.trim() || 'N/A';
 }
@@ -59,6 +77,37 @@ function getColorForMarque(marque: string): string {
   return colorPalette[index];
 }
 
+// Cluster icons for fewer than 10, 100 and more stations, in the default calculator's order
+function clusterIcon(size: number, color: string) {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 40 40">`
+    + `<circle cx="20" cy="20" r="18" fill="${color}" fill-opacity="0.85" stroke="#ffffff" stroke-width="3"/></svg>`;
+  return {
+    url: `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(svg)}`,
+    width: size,
+    height: size,
+    textColor: '#ffffff',
+    textSize: size < 40 ? 11 : 13,
+    fontWeight: 'bold',
+  };
+}
+
+const clustererOptions = {
+  averageCenter: true,
+  gridSize: 60,
+  maxZoom: 15,
+  styles: [clusterIcon(32, '#2563eb'), clusterIcon(40, '#d97706'), clusterIcon(48, '#dc2626'), clusterIcon(56, '#7f1d1d')],
+};
+
+function inViewport(bounds: google.maps.LatLngBounds | null, lat: number, lng: number): boolean {
+  if (!bounds) return true;
+  const ne = bounds.getNorthEast();
+  const sw = bounds.getSouthWest();
+  const latMargin = (ne.lat() - sw.lat()) * VIEWPORT_MARGIN;
+  const lngMargin = (ne.lng() - sw.lng()) * VIEWPORT_MARGIN;
+  return lat >= sw.lat() - latMargin && lat <= ne.lat() + latMargin
+    && lng >= sw.lng() - lngMargin && lng <= ne.lng() + lngMargin;
+}
+
 function getMarkerIcon(marque: string): google.maps.Symbol {
   const color = getColorForMarque(marque);
   return {
@@ -71,11 +120,15 @@ function getMarkerIcon(marque: string): google.maps.Symbol {
   };
 }
 
-export default function MapPreview({ stations }: MapPreviewProps) {
+export default function MapPreview({ stations, regions, onRegionClick }: MapPreviewProps) {
   const { usage } = useApiUsage();
   const [mapType, setMapType] = useState<'roadmap' | 'satellite'>('roadmap');
   const [selected, setSelected] = useState<StationWithDetails | null>(null);
+  const [bounds, setBounds] = useState<google.maps.LatLngBounds | null>(null);
+  const [showLegend, setShowLegend] = useState(false);
+  const [hoveredRegion, setHoveredRegion] = useState<string | null>(null);
   const mapRef = useRef<google.maps.Map | null>(null);
+  const [clusterer, setClusterer] = useState<Clusterer | null>(null);
   const center = useMemo(() => ({ lat: 31.7917, lng: -7.0926 }), []);
 
   const mapOptions = useMemo(() => ({
@@ -102,6 +155,49 @@ export default function MapPreview({ stations }: MapPreviewProps) {
     mapRef.current = map;
   }, []);
 
+  // Updated once the map stops moving, not on every frame of a pan or zoom
+  const onIdle = useCallback(() => {
+    setBounds(mapRef.current?.getBounds() ?? null);
+  }, []);
+
+  const located = useMemo(
+    () => stations.filter((s) => s.station.Latitude && s.station.Longitude),
+    [stations]
+  );
+
+  const visible = useMemo(
+    () => located.filter((s) => inViewport(bounds, s.station.Latitude, s.station.Longitude)),
+    [located, bounds]
+  );
+
+  // Marques of the loaded stations with their color, most represented first
+  const legend = useMemo(() => {
+    const counts = new Map<string, number>();
+    located.forEach((s) => {
+      const marque = s.marque.Marque || 'Sans marque';
+      counts.set(marque, (counts.get(marque) ?? 0) + 1);
+    });
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([marque, count]) => ({ marque, count, color: getColorForMarque(marque) }));
+  }, [located]);
+
+  useEffect(() => {
+    setHoveredRegion(null);
+  }, [regions?.limites]);
+
+  const breaks = useMemo(() => (regions ? choroplethBreaks(regions.values) : []), [regions]);
+  const regionColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    regions?.limites.forEach((l) => colors.set(l.RefID, choroplethColor(regions.values.get(l.RefID), breaks)));
+    return colors;
+  }, [regions, breaks]);
+
+  // Markers are added without redrawing the clusters each time, which is done once here
+  useEffect(() => {
+    clusterer?.repaint();
+  }, [clusterer, visible]);
+
   useEffect(() => {
     if (!mapRef.current || !window.google) return;
 
@@ -162,25 +258,92 @@ export default function MapPreview({ stations }: MapPreviewProps) {
         >
           Satellite
         </Button>
+        <Button
+          onClick={() => setShowLegend((v) => !v)}
+          variant={showLegend ? 'default' : 'secondary'}
+          className="text-xs px-3 py-1"
+        >
+          Légende
+        </Button>
       </div>
+      {showLegend && legend.length > 0 && (
+        <div className="absolute bottom-6 left-4 z-10 max-h-[60%] overflow-y-auto bg-white/95 rounded-md shadow px-3 py-2 text-xs">
+          <ul className="space-y-1">
+            {legend.map((item) => (
+              <li key={item.marque} className="flex items-center gap-2">
+                <span
+                  className="inline-block w-3 h-3 rounded-full border border-white shadow"
+                  style={{ backgroundColor: item.color }}
+                />
+                <span className="text-gray-800">{item.marque}</span>
+                <span className="text-gray-500 ml-auto pl-2">{item.count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {regions && (
+        <div className="absolute bottom-6 right-14 z-10 bg-white/95 rounded-md shadow px-3 py-2 text-xs space-y-1">
+          <div className="font-semibold text-gray-800">{INDICATEURS_CARTE[regions.indicateur]}</div>
+          {hoveredRegion ? (
+            <div className="text-gray-700">
+              {regions.names.get(hoveredRegion) ?? '-'} :{' '}
+              <strong>{formatIndicateur(regions.values.get(hoveredRegion), regions.indicateur)}</strong>
+            </div>
+          ) : (
+            <ul className="space-y-0.5">
+              {CHOROPLETH_COLORS.map((color, i) => (
+                <li key={color} className="flex items-center gap-2">
+                  <span className="inline-block w-4 h-3 rounded-sm" style={{ backgroundColor: color }} />
+                  <span className="text-gray-700">
+                    {i === 0 ? '≤' : '>'} {formatIndicateur(i === 0 ? breaks[0] : breaks[i - 1], regions.indicateur)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
       <GoogleMap
         mapContainerStyle={mapContainerStyle}
         zoom={6}
         center={center}
         onLoad={onLoad}
+        onIdle={onIdle}
         options={mapOptions}
       >
-        {stations.map((s) =>
-          s.station.Latitude && s.station.Longitude ? (
-            <MarkerF
-              key={s.station.StationID}
-              position={{ lat: s.station.Latitude, lng: s.station.Longitude }}
-              onClick={() => setSelected(s)}
-              icon={getMarkerIcon(s.marque.Marque)}
-            />
-          ) : null
+        {regions && (
+          <RegionLayer
+            limites={regions.limites}
+            colors={regionColors}
+            onClick={onRegionClick}
+            onHover={setHoveredRegion}
+          />
         )}
 
+        {/* Clicking a cluster zooms in on the stations it groups */}
+        <MarkerClustererF
+          options={clustererOptions}
+          onLoad={setClusterer}
+          onUnmount={() => setClusterer(null)}
+        >
+          {(instance) => (
+            <>
+              {visible.map((s) => (
+                <MarkerF
+                  key={s.station.StationID}
+                  position={{ lat: s.station.Latitude, lng: s.station.Longitude }}
+                  onClick={() => setSelected(s)}
+                  icon={getMarkerIcon(s.marque.Marque || 'Sans marque')}
+                  title={s.station.NomStation}
+                  clusterer={instance}
+                  noClustererRedraw
+                />
+              ))}
+            </>
+          )}
+        </MarkerClustererF>
+
         {selected && selected.station.Latitude && selected.station.Longitude && (
           <InfoWindow
             position={{ lat: selected.station.Latitude, lng: selected.station.Longitude }}
@@ -0,0 +1,77 @@
+// src/components/dashboard/OpenDossiers.tsx
+'use client';
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { StationWithDetails } from '@/types/station';
+import { useDossiers } from '@/hooks/useStationData/useDossiers';
+import { LoadingSpinner, ErrorMessage } from '@/components/ui';
+import { ETAT_DOSSIER_STYLES } from '@/components/stations/DossierList';
+import { formatDate } from '@/utils/format';
+import { isDossierOverdue } from '@/utils/dossiers';
+
+interface OpenDossiersProps {
+  stations: StationWithDetails[]; // Only the cases of these stations are listed
+}
+
+export default function OpenDossiers({ stations }: OpenDossiersProps) {
+  const { dossiers, loading, error } = useDossiers();
+
+  const rows = useMemo(() => {
+    const byId = new Map(stations.map((s) => [s.station.StationID, s]));
+    return dossiers
+      .filter((d) => byId.has(d.StationID))
+      .map((d) => ({ dossier: d, station: byId.get(d.StationID)! }))
+      // Closest deadline first, overdue cases on top
+      .sort((a, b) => (a.dossier.DateEcheance?.getTime() ?? Infinity) - (b.dossier.DateEcheance?.getTime() ?? Infinity));
+  }, [dossiers, stations]);
+
+  if (loading) return <LoadingSpinner />;
+  if (error) return <ErrorMessage message={error} />;
+  if (rows.length === 0) {
+    return <div className="text-gray-500 text-center py-4">Aucun dossier ouvert</div>;
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-[400px]">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Station</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Motif</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">État</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Échéance</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dernière décision</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map(({ dossier, station }) => {
+            const lastSuite = dossier.Suites[dossier.Suites.length - 1];
+            const overdue = isDossierOverdue(dossier);
+            return (
+              <tr key={dossier.DossierID} className="hover:bg-gray-50">
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <Link href={`/stations/${station.station.StationID}`} className="text-blue-600 hover:underline">
+                    {station.station.NomStation}
+                  </Link>
+                </td>
+                <td className="px-4 py-2 text-gray-700">{dossier.Motif}</td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ETAT_DOSSIER_STYLES[dossier.Etat]}`}>
+                    {dossier.Etat}
+                  </span>
+                </td>
+                <td className={`px-4 py-2 whitespace-nowrap ${overdue ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                  {formatDate(dossier.DateEcheance)}{overdue && ' (dépassée)'}
+                </td>
+                <td className="px-4 py-2 text-gray-500">
+                  {lastSuite ? `${lastSuite.Type} du ${formatDate(lastSuite.DateDecision)}` : '-'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
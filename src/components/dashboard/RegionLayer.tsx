@@ -0,0 +1,71 @@
+// src/components/dashboard/RegionLayer.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useGoogleMap } from '@react-google-maps/api';
+import { Limite } from '@/types/station';
+import { parseLimiteGeometry } from '@/utils/limites';
+import { NO_VALUE_COLOR } from '@/utils/choropleth';
+
+interface RegionLayerProps {
+  limites: Limite[];
+  colors: Map<string, string>; // Fill color by RefID
+  onClick?: (refId: string) => void;
+  onHover?: (refId: string | null) => void;
+}
+
+/**
+ * Province or commune outlines drawn under the markers of the enclosing GoogleMap.
+ * Features are rebuilt only when the outlines change, a new indicator only restyles them.
+ */
+export default function RegionLayer({ limites, colors, onClick, onHover }: RegionLayerProps) {
+  const map = useGoogleMap();
+  const [layer, setLayer] = useState<google.maps.Data | null>(null);
+  const callbacks = useRef({ onClick, onHover });
+
+  useEffect(() => {
+    callbacks.current = { onClick, onHover };
+  }, [onClick, onHover]);
+
+  useEffect(() => {
+    if (!map) return;
+    const data = new google.maps.Data({ map });
+    limites.forEach((limite) => {
+      const geometry = parseLimiteGeometry(limite);
+      if (geometry) data.addGeoJson({ type: 'Feature', id: limite.RefID, properties: {}, geometry });
+    });
+
+    const listeners = [
+      data.addListener('click', (e: google.maps.Data.MouseEvent) => {
+        callbacks.current.onClick?.(String(e.feature.getId()));
+      }),
+      data.addListener('mouseover', (e: google.maps.Data.MouseEvent) => {
+        data.overrideStyle(e.feature, { strokeWeight: 3 });
+        callbacks.current.onHover?.(String(e.feature.getId()));
+      }),
+      data.addListener('mouseout', () => {
+        data.revertStyle();
+        callbacks.current.onHover?.(null);
+      }),
+    ];
+    setLayer(data);
+
+    return () => {
+      listeners.forEach((listener) => listener.remove());
+      data.setMap(null);
+      setLayer(null);
+    };
+  }, [map, limites]);
+
+  useEffect(() => {
+    layer?.setStyle((feature) => ({
+      fillColor: colors.get(String(feature.getId())) ?? NO_VALUE_COLOR,
+      fillOpacity: 0.55,
+      strokeColor: '#374151',
+      strokeWeight: 1,
+      zIndex: 0,
+    }));
+  }, [layer, colors]);
+
+  return null;
+}
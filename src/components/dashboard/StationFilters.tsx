@@ -1,15 +1,25 @@
 // src/components/dashboard/StationFilters.tsx
 'use client';
 
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { StationWithDetails } from '@/types/station';
 import { useAnalysesIndex } from '@/hooks/useStationData/useAnalysesIndex';
 import { Card, Checkbox, CardHeader, CardContent, CardTitle } from '@/components/ui';
 import { MultiSelectYearDropdown } from '@/components/stations/AnalyseFilter';
+import { useProduits } from '@/hooks/ReferenceData/useProduits';
+import { useInspections } from '@/hooks/useStationData/useInspections';
+
+// A province, or a commune of it, picked outside the filters (on the map)
+export type RegionSelection = {
+  province: string; // NomProvince
+  commune?: string; // NomCommune
+};
 
 interface StationFiltersProps {
   stations: StationWithDetails[];
   onFilterChange: (filteredStations: StationWithDetails[]) => void;
+  // Replaces the province and commune selection each time a new object is passed
+  regionSelection?: RegionSelection | null;
 }
 
 const areAllSelected = (selected: string[], all: string[]) => {
@@ -24,7 +34,7 @@ const generateYearRange = (start: number, end: number): number[] => {
   return years.reverse(); // Most recent first
 };
 
-export default function StationFilters({ stations, onFilterChange }: StationFiltersProps) {
+export default function StationFilters({ stations, onFilterChange, regionSelection }: StationFiltersProps) {
   // ----- Filter State -----
   const [selectedProvinces, setSelectedProvinces] = useState<string[]>([]);
   const [selectedStatuses, setSelectedStatuses] = useState<string[]>(['en activité']);
@@ -32,6 +42,10 @@ export default function StationFilters({ stations, onFilterChange }: StationFilt
   const [selectedMarques, setSelectedMarques] = useState<string[]>([]);
   const [analysisStatus, setAnalysisStatus] = useState<'all' | 'analysed' | 'not-analysed'>('all');
   const [analysisYear, setAnalysisYear] = useState<number[]>([]);
+  const [analysisProduit, setAnalysisProduit] = useState(''); // Empty means any produit
+  const { produitNames } = useProduits();
+  const [inspectionStatus, setInspectionStatus] = useState<'all' | 'inspected' | 'not-inspected'>('all');
+  const [inspectionYear, setInspectionYear] = useState<number[]>([]);
 
   // ----- Memoized Filter Options -----
   const provinces = useMemo(() => Array.from(new Set(stations.map(s => s.province.NomProvince.trim()))).sort(), [stations]);
@@ -41,7 +55,13 @@ export default function StationFilters({ stations, onFilterChange }: StationFilt
   const stationIds = useMemo(() => stations.map(s => s.station.StationID), [stations]);
   
   // Fetch all analyses
-  const { analyses, years, loading: analysesLoading } = useAnalysesIndex(stationIds);
+  const { analyses: allAnalyses, years, loading: analysesLoading } = useAnalysesIndex(stationIds);
+  const analyses = useMemo(
+    () => (analysisProduit ? allAnalyses.filter(a => a.ProduitAnalyse === analysisProduit) : allAnalyses),
+    [allAnalyses, analysisProduit]
+  );
+
+  const { inspections, years: inspectionYears, loading: inspectionsLoading } = useInspections(stationIds);
 
   const communes = useMemo(() => {
     if (selectedProvinces.length !== 1) return [];
@@ -66,12 +86,23 @@ export default function StationFilters({ stations, onFilterChange }: StationFilt
     if (marques.length > 0) setSelectedMarques(marques);
   }, [marques]);
 
+  // Commune picked along with its province, kept until the province's communes are listed
+  const pendingCommune = useRef<string | null>(null);
+
   useEffect(() => {
     if (!isCommuneFilterDisabled && communes.length > 0) {
-      setSelectedCommunes(communes);
+      const commune = pendingCommune.current;
+      pendingCommune.current = null;
+      setSelectedCommunes(commune && communes.includes(commune) ? [commune] : communes);
     }
   }, [communes, isCommuneFilterDisabled]);
 
+  useEffect(() => {
+    if (!regionSelection) return;
+    pendingCommune.current = regionSelection.commune?.trim() ?? null;
+    setSelectedProvinces([regionSelection.province.trim()]);
+  }, [regionSelection]);
+
   // ----- Filter Toggling Logic -----
   const toggleSelection = (setter: React.Dispatch<React.SetStateAction<string[]>>, item: string, checked: boolean) => {
     setter(prev => checked ? [...prev, item] : prev.filter(p => p !== item));
@@ -118,6 +149,28 @@ export default function StationFilters({ stations, onFilterChange }: StationFilt
     }
   };
 
+  // ----- Inspection Filter Logic -----
+  const inspectionYearOptions = useMemo(() => {
+    if (inspectionStatus === 'inspected' && inspectionYears.length > 0) return inspectionYears;
+    return inspectionStatus === 'all' ? [] : generateYearRange(2020, new Date().getFullYear());
+  }, [inspectionStatus, inspectionYears]);
+
+  const handleInspectionStatusChange = (newStatus: 'all' | 'inspected' | 'not-inspected') => {
+    setInspectionStatus(newStatus);
+    // Current year by default, like the analysis filter
+    setInspectionYear(newStatus === 'all' ? [] : [new Date().getFullYear()]);
+  };
+
+  // Stations with at least one inspection in one of the selected years (any year when none is selected)
+  const inspectedStationIds = useMemo(() => {
+    const ids = new Set<string>();
+    inspections.forEach((i) => {
+      const year = i.DateInspection?.getFullYear();
+      if (inspectionYear.length === 0 || (year !== undefined && inspectionYear.includes(year))) ids.add(i.StationID);
+    });
+    return ids;
+  }, [inspections, inspectionYear]);
+
   // Helper function to check if a station has analyses in specific years
   const stationHasAnalysesInYears = useCallback((station: StationWithDetails, selectedYears: number[]) => {
     if (selectedYears.length === 0) return true;
@@ -192,8 +245,12 @@ export default function StationFilters({ stations, onFilterChange }: StationFilt
       });
     }
 
+    if (!inspectionsLoading && inspectionStatus !== 'all') {
+      result = result.filter(s => inspectedStationIds.has(s.station.StationID) === (inspectionStatus === 'inspected'));
+    }
+
     return result;
-  }, [stations, selectedProvinces, selectedCommunes, selectedMarques, isCommuneFilterDisabled, selectedStatuses, analysesLoading, analysisStatus, analysisYear, analyses, stationHasAnalysesInYears, stationHasNoAnalysesInYears]);
+  }, [stations, selectedProvinces, selectedCommunes, selectedMarques, isCommuneFilterDisabled, selectedStatuses, analysesLoading, analysisStatus, analysisYear, analyses, stationHasAnalysesInYears, stationHasNoAnalysesInYears, inspectionsLoading, inspectionStatus, inspectedStationIds]);
 
   // ----- Inform Parent of Changes -----
   useEffect(() => {
@@ -384,6 +441,20 @@ export default function StationFilters({ stations, onFilterChange }: StationFilt
                 <option value="not-analysed">Stations Non Analysées</option>
               </select>
 
+              {analysisStatus !== 'all' && (
+                <select
+                  value={analysisProduit}
+                  onChange={(e) => setAnalysisProduit(e.target.value)}
+                  className="w-[150px] px-3 py-1.5 border rounded text-sm"
+                  disabled={analysesLoading}
+                >
+                  <option value="">Tous produits</option>
+                  {produitNames.map((p) => (
+                    <option key={p} value={p}>{p}</option>
+                  ))}
+                </select>
+              )}
+
               {analysisStatus !== 'all' && (
                 <MultiSelectYearDropdown
                   selectedYears={analysisYear}
@@ -409,6 +480,52 @@ export default function StationFilters({ stations, onFilterChange }: StationFilt
           </div>
         </CardContent>
       </Card>
+
+      <Card className="col-span-2">
+        <CardHeader>
+          <CardTitle>Inspection</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">Inspections :</span>
+              <select
+                value={inspectionStatus}
+                onChange={(e) => {
+                  handleInspectionStatusChange(e.target.value as 'all' | 'inspected' | 'not-inspected');
+                }}
+                className="w-[200px] px-3 py-1.5 border rounded text-sm"
+                disabled={inspectionsLoading}
+              >
+                <option value="all">Toutes les stations</option>
+                <option value="inspected">Stations Inspectées</option>
+                <option value="not-inspected">Stations Non Inspectées</option>
+              </select>
+
+              {inspectionStatus !== 'all' && (
+                <MultiSelectYearDropdown
+                  selectedYears={inspectionYear}
+                  onYearsChange={(years) => {
+                    if (years.length === 0) {
+                      setInspectionStatus('all');
+                      setInspectionYear([]);
+                    } else {
+                      setInspectionYear(years);
+                    }
+                  }}
+                  yearOptions={inspectionYearOptions}
+                  disabled={inspectionsLoading}
+                  className="w-[200px]"
+                />
+              )}
+            </div>
+
+            {inspectionsLoading && (
+              <div className="text-sm text-gray-500">Chargement des inspections...</div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
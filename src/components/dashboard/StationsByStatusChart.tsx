@@ -0,0 +1,48 @@
+// src/components/dashboard/StationsByStatusChart.tsx
+'use client';
+
+import React, { useMemo } from 'react';
+import { StationStatut, StationWithDetails, StatusChange } from '@/types/station';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { countStatusesByMonth, STATION_STATUTS } from '@/utils/stationStatus';
+
+interface StationsByStatusChartProps {
+  stations: StationWithDetails[];
+  changes: StatusChange[];
+  months?: number;
+}
+
+const STATUT_COLORS: Record<StationStatut, string> = {
+  'en projet': '#EAB308',
+  'en activité': '#22C55E',
+  'en arrêt': '#EF4444',
+  'archivé': '#9CA3AF',
+};
+
+export default function StationsByStatusChart({ stations, changes, months = 12 }: StationsByStatusChartProps) {
+  const chartData = useMemo(() => {
+    const stationIds = new Set(stations.map((s) => s.station.StationID));
+    return countStatusesByMonth(
+      stations.map((s) => s.station),
+      changes.filter((c) => stationIds.has(c.StationID)),
+      months
+    );
+  }, [stations, changes, months]);
+
+  return (
+    <div className="h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="month" />
+          <YAxis allowDecimals={false} />
+          <Tooltip />
+          <Legend />
+          {STATION_STATUTS.map((statut) => (
+            <Line key={statut} type="monotone" dataKey={statut} stroke={STATUT_COLORS[statut]} dot={false} />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
 import React, { useMemo } from 'react';
 import { Card, CardContent } from '@/components/ui/Card';
 import { StationWithDetails } from '@/types/station';
+import { useProduits } from '@/hooks/ReferenceData/useProduits';
 
 interface StatsCardProps {
   label: string;
@@ -31,20 +32,18 @@ interface StatsCardsProps {
 }
 
 export function StatsCards({ stations, mode = 'count' }: StatsCardsProps) {
-  const { total, totalGasoil, totalSSP } = useMemo(() => {
-    let total = stations.length;
-    let serviceCount = 0; // Kept for potential future use, but not displayed
-    let totalGasoil = 0;
-    let totalSSP = 0;
+  const { produitNames } = useProduits();
+  const { total, totalsByProduit } = useMemo(() => {
+    const total = stations.length;
+    const totalsByProduit = new Map<string, number>(produitNames.map((p) => [p, 0]));
 
     for (const s of stations) {
       for (const cap of s.capacites) {
-        if (cap.TypeCarburant === 'Gasoil') totalGasoil += cap.CapaciteLitres || 0; //
-        if (cap.TypeCarburant === 'SSP') totalSSP += cap.CapaciteLitres || 0; //
+        totalsByProduit.set(cap.TypeCarburant, (totalsByProduit.get(cap.TypeCarburant) || 0) + (cap.CapaciteLitres || 0));
       }
     }
-    return { total, serviceCount, totalGasoil, totalSSP };
-  }, [stations]);
+    return { total, totalsByProduit };
+  }, [stations, produitNames]);
 
   if (mode === 'count') {
     return (
@@ -62,14 +61,12 @@ export function StatsCards({ stations, mode = 'count' }: StatsCardsProps) {
       <CardContent className="pt-6">
         <div className="text-sm text-gray-500">Capacités de stockage</div>
         <div className="mt-2 space-y-1">
-          <div className="text-lg font-semibold text-gray-900">
-            <span className="font-medium text-gray-600">SSP: </span>
-            {formatCapacity(totalSSP)}
-          </div>
-          <div className="text-lg font-semibold text-gray-900">
-            <span className="font-medium text-gray-600">Gasoil: </span>
-            {formatCapacity(totalGasoil)}
-          </div>
+          {[...totalsByProduit].map(([produit, capacity]) => (
+            <div key={produit} className="text-lg font-semibold text-gray-900">
+              <span className="font-medium text-gray-600">{produit}: </span>
+              {formatCapacity(capacity)}
+            </div>
+          ))}
         </div>
       </CardContent>
     </Card>
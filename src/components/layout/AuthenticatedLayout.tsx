@@ -4,6 +4,7 @@
 import { useAuth } from '@/lib/auth/provider';
 import Navbar from './Navbar';
 import Sidebar from './Sidebar';
+import PendingSyncDialog from './PendingSyncDialog';
 import { useState } from 'react';
 
 export default function AuthenticatedLayout({
@@ -28,6 +29,8 @@ export default function AuthenticatedLayout({
           {children}
         </main>
       </div>
+
+      <PendingSyncDialog />
     </div>
   );
 }
\ No newline at end of file
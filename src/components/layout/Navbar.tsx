@@ -4,6 +4,7 @@
 import { User } from 'firebase/auth';
 import { Button } from '@/components/ui/Button';
 import { useApiUsage } from '@/hooks/useApiUsage';
+import { useOutbox } from '@/lib/offline/OutboxProvider';
 
 interface NavbarProps {
   user: User | null;
@@ -13,6 +14,7 @@ interface NavbarProps {
 
 export default function Navbar({ user, onLogout, onMenuClick }: NavbarProps) {
   const { usage, loading } = useApiUsage();
+  const { online, mutations } = useOutbox();
 
   const getUsageColor = (percentage: number) => {
     if (percentage > 50) return 'text-green-600';
@@ -36,6 +38,18 @@ export default function Navbar({ user, onLogout, onMenuClick }: NavbarProps) {
         </div>
         
         <div className="flex items-center space-x-6">
+          {/* Offline state and writes waiting to be sent */}
+          {(!online || mutations.length > 0) && (
+            <div className="flex flex-col items-end text-xs">
+              {!online && <span className="font-semibold text-red-600">Hors ligne</span>}
+              {mutations.length > 0 && (
+                <span className="text-yellow-700">
+                  {mutations.length} modification{mutations.length > 1 ? 's' : ''} en attente de synchronisation
+                </span>
+              )}
+            </div>
+          )}
+
           {/* API Usage Display */}
           <div className="flex flex-col items-end space-y-1">
             <span className="text-gray-600 text-sm">{user?.email}</span>
@@ -0,0 +1,107 @@
+// src/components/layout/PendingSyncDialog.tsx
+'use client';
+
+import { useState } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { useOutbox } from '@/lib/offline/OutboxProvider';
+import { formatDate } from '@/utils/format';
+
+/**
+ * Asks what to do with a write made offline that could not be sent: kept over the
+ * changes someone else made in the meantime, or dropped. Closing the dialog only
+ * hides it until the next visit; the row keeps showing the conflict.
+ */
+export default function PendingSyncDialog() {
+  const { mutations, keepMine, discard, retry } = useOutbox();
+  const [dismissed, setDismissed] = useState<Set<string>>(() => new Set());
+  const [busy, setBusy] = useState(false);
+
+  const mutation = mutations.find((m) => m.status !== 'pending' && !dismissed.has(m.id));
+  if (!mutation) return null;
+
+  const run = async (action: (id: string) => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action(mutation.id);
+    } catch (err) {
+      console.error('Failed to resolve queued mutation:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const close = () => setDismissed((prev) => new Set(prev).add(mutation.id));
+  const savedOn = formatDate(mutation.createdAt);
+
+  if (mutation.status === 'failed') {
+    return (
+      <Modal isOpen onClose={close} title="Échec de synchronisation" size="md">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            La modification « {mutation.label} » enregistrée hors ligne le {savedOn} a été refusée :
+          </p>
+          <p className="text-sm text-red-600">{mutation.lastError}</p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => run(discard)} disabled={busy}>
+              Abandonner
+            </Button>
+            <Button onClick={() => run(retry)} disabled={busy}>
+              Réessayer
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    );
+  }
+
+  const conflict = mutation.conflict;
+  return (
+    <Modal isOpen onClose={close} title="Conflit de synchronisation" size="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          La modification « {mutation.label} » enregistrée hors ligne le {savedOn} n&apos;a pas été envoyée :{' '}
+          {conflict?.deleted
+            ? 'la fiche a été supprimée depuis.'
+            : 'la fiche a été modifiée par un autre utilisateur entre-temps.'}
+        </p>
+
+        {conflict && conflict.fields.length > 0 && (
+          <div className="overflow-x-auto border rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Champ</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Avant</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Ma version</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Version actuelle</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {conflict.fields.map((f) => (
+                  <tr key={f.field}>
+                    <td className="px-3 py-2 font-medium text-gray-900">{f.field}</td>
+                    <td className="px-3 py-2 text-gray-500">{f.base || '-'}</td>
+                    <td className={`px-3 py-2 ${f.mine !== f.base ? 'text-blue-700' : 'text-gray-500'}`}>{f.mine || '-'}</td>
+                    <td className="px-3 py-2 text-amber-700">{f.theirs || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => run(discard)} disabled={busy}>
+            {conflict?.deleted ? 'Abandonner ma modification' : 'Garder la version actuelle'}
+          </Button>
+          {!conflict?.deleted && (
+            <Button onClick={() => run(keepMine)} disabled={busy}>
+              Garder ma version
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
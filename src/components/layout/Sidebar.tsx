@@ -4,6 +4,8 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { Button } from '@/components/ui/Button'; // Assuming this is the path to the updated Button
+import { useAuth } from '@/lib/auth/hooks';
+import { Permission } from '@/lib/auth/permissions';
 
 interface SidebarProps {
   open: boolean;
@@ -12,11 +14,17 @@ interface SidebarProps {
 
 export default function Sidebar({ open, setOpen }: SidebarProps) {
   const pathname = usePathname();
+  const { can } = useAuth();
   
-  const navigation = [
-    { name: 'Dashboard', href: '/dashboard', icon: '📊' },
-    { name: 'Gas Stations', href: '/stations', icon: '📋' },
-    { name: 'Nearby Station', href: '/nearbyStation', icon: '🗺️' },
+  const navigation: { name: string; href: string; icon: string; permission: Permission }[] = [
+    { name: 'Dashboard', href: '/dashboard', icon: '📊', permission: 'station:read' },
+    { name: 'Gas Stations', href: '/stations', icon: '📋', permission: 'station:read' },
+    { name: 'Nearby Station', href: '/nearbyStation', icon: '🗺️', permission: 'station:read' },
+    { name: 'Autorisations', href: '/autorisations', icon: '📅', permission: 'station:read' },
+    { name: 'Campagnes', href: '/campagnes', icon: '🧪', permission: 'station:read' },
+    { name: 'Database', href: '/admin/database', icon: '🗄️', permission: 'reference:manage' },
+    { name: 'Users', href: '/admin/users', icon: '👥', permission: 'user:manage' },
+    { name: 'Recycle Bin', href: '/admin/trash', icon: '🗑️', permission: 'station:delete' },
   ];
 
   return (
@@ -48,7 +56,7 @@ export default function Sidebar({ open, setOpen }: SidebarProps) {
         </div>
         
         <nav className="mt-8">
-          {navigation.map((item) => (
+          {navigation.filter((item) => can(item.permission)).map((item) => (
             <Link
               key={item.name}
               href={item.href}
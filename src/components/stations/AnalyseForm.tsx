@@ -1,12 +1,18 @@
 'use client';
 
-import React, { useCallback } from 'react';
-import { Analyse } from '@/types/station';
+import React, { useMemo } from 'react';
+import { Analyse, CampagneAnalyse } from '@/types/station';
 import { useAnalyseForm } from '@/hooks/useStationData/useAnalyseForm';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { formatDateForInput } from '@/utils/format';
+import { useAuth } from '@/lib/auth/hooks';
+import { useProduits } from '@/hooks/ReferenceData/useProduits';
+import { ANALYSE_PARAMETRES, formatSeuil, getParametre, getSeuils } from '@/utils/analyseParametres';
+import { useCampagnes } from '@/hooks/useStationData/useCampagnes';
+import { getCampagnesForStation } from '@/utils/campagnes';
 
 export interface AnalyseFormProps {
   mode: 'create' | 'edit';
@@ -18,15 +24,53 @@ export interface AnalyseFormProps {
   onCancel?: () => void;
 }
 
-export function AnalyseForm({ mode, stationId, stationCode, initialAnalyses = [], onSaved, onCancel }: AnalyseFormProps) {
-  const { forms, addForm, removeForm, updateField, submit, deleteAnalyse, loading, submitting, errors, error } = useAnalyseForm(
+// The campaigns are loaded first, new analyses go by default to this year's campaign planning the station
+export function AnalyseForm(props: AnalyseFormProps) {
+  const { campagnes, loading } = useCampagnes();
+  const stationCampagnes = useMemo(() => getCampagnesForStation(campagnes, props.stationId), [campagnes, props.stationId]);
+  if (loading) return <LoadingSpinner />;
+
+  const defaultCampagneId = stationCampagnes.find((c) => c.Annee === new Date().getFullYear())?.CampagneID;
+  return <AnalyseFormFields {...props} stationCampagnes={stationCampagnes} defaultCampagneId={defaultCampagneId} />;
+}
+
+function AnalyseFormFields({
+  mode,
+  stationId,
+  stationCode,
+  initialAnalyses = [],
+  onSaved,
+  onCancel,
+  stationCampagnes,
+  defaultCampagneId,
+}: AnalyseFormProps & { stationCampagnes: CampagneAnalyse[]; defaultCampagneId?: string }) {
+  const { forms, addForm, removeForm, updateField, updateMesure, getMesures, getComputedVerdict, submit, deleteAnalyse, loading, submitting, errors, error } = useAnalyseForm(
     mode,
     stationId,
-    initialAnalyses
+    initialAnalyses,
+    defaultCampagneId
   );
+  const { produits, produitNames } = useProduits();
+  const mesuresByForm = forms.map(getMesures);
+  const computedVerdicts = forms.map(getComputedVerdict);
+
+  // Parameters with a limit for the produit, plus any other one already measured
+  const getParametresFor = (produit: string, measured: string[]) => {
+    const seuils = getSeuils(produits.find((p) => p.NomProduit === produit));
+    const keys = [...seuils.map((s) => s.Parametre), ...measured.filter((k) => !seuils.some((s) => s.Parametre === k))];
+    return (keys.length > 0 ? keys : ANALYSE_PARAMETRES.map((p) => p.key)).map((key) => ({
+      parametre: getParametre(key),
+      seuil: seuils.find((s) => s.Parametre === key),
+    }));
+  };
+
+  const { can } = useAuth();
+  const canSave = can(mode === 'edit' ? 'analyse:update' : 'analyse:create');
+  const canDelete = can('analyse:delete');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!canSave) return;
     try {
       const success = await submit();
       if (success) {
@@ -39,7 +83,7 @@ export function AnalyseForm({ mode, stationId, stationCode, initialAnalyses = []
   };
 
   const handleDelete = async () => {
-    if (mode === 'edit' && initialAnalyses[0]?.AnalyseID) {
+    if (mode === 'edit' && canDelete && initialAnalyses[0]?.AnalyseID) {
       if (confirm("Êtes-vous sûr de vouloir supprimer cette analyse ?")) {
         try {
           const success = await deleteAnalyse(initialAnalyses[0].AnalyseID);
@@ -53,9 +97,10 @@ export function AnalyseForm({ mode, stationId, stationCode, initialAnalyses = []
     }
   };
 
+  // At most one analyse per produit in a session
   const handleAddAnalyse = () => {
-    if (forms.length < 2) {
-      addForm();
+    if (forms.length < produitNames.length) {
+      addForm(produitNames.find((p) => !forms.some((f) => f.ProduitAnalyse === p)));
     }
   };
 
@@ -79,12 +124,16 @@ export function AnalyseForm({ mode, stationId, stationCode, initialAnalyses = []
               <label className="text-sm font-medium text-gray-900 mb-1">Produit Analysé</label>
               <select
                 value={form.ProduitAnalyse}
-                onChange={(e) => updateField(index, 'ProduitAnalyse', e.target.value as 'Gasoil' | 'SSP')}
+                onChange={(e) => updateField(index, 'ProduitAnalyse', e.target.value)}
                 className="border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
-                <option value="Gasoil">Gasoil</option>
-                <option value="SSP">SSP</option>
+                {(produitNames.includes(form.ProduitAnalyse) ? produitNames : [...produitNames, form.ProduitAnalyse]).map((p) => (
+                  <option key={p} value={p}>{p}</option>
+                ))}
               </select>
+              {errors.forms?.[index]?.ProduitAnalyse && (
+                <span className="text-red-500 text-sm">{errors.forms[index].ProduitAnalyse}</span>
+              )}
             </div>
 
             {/* Date Analyse */}
@@ -122,20 +171,90 @@ export function AnalyseForm({ mode, stationId, stationCode, initialAnalyses = []
 
             {/* Resultat Analyse */}
             <div className="flex flex-col">
-              <label className="text-sm font-medium text-gray-900 mb-1">Résultat d'Analyse</label>
+              <label className="text-sm font-medium text-gray-900 mb-1">Résultat d&apos;Analyse</label>
+              {computedVerdicts[index] && !form.ResultatForce ? (
+                <span className={`px-3 py-2 rounded-md text-sm font-semibold ${
+                  computedVerdicts[index] === 'Positif' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                }`}>
+                  {computedVerdicts[index]} (calculé)
+                </span>
+              ) : (
+                <select
+                  value={form.ResultatAnalyse}
+                  onChange={(e) => updateField(index, 'ResultatAnalyse', e.target.value as 'Positif' | 'Négatif')}
+                  className="border border-gray-300 rounded-md px-3 py-2"
+                  required
+                >
+                  <option value="">-- Sélectionner --</option>
+                  <option value="Positif">Positif</option>
+                  <option value="Négatif">Négatif</option>
+                </select>
+              )}
+              {errors.forms?.[index]?.ResultatAnalyse && (
+                <span className="text-red-500 text-sm">{errors.forms[index].ResultatAnalyse}</span>
+              )}
+              {computedVerdicts[index] && (
+                <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.ResultatForce}
+                    onChange={(e) => updateField(index, 'ResultatForce', e.target.checked)}
+                  />
+                  Forcer le résultat
+                </label>
+              )}
+            </div>
+          </div>
+
+          {stationCampagnes.length > 0 && (
+            <div className="flex flex-col">
+              <label className="text-sm font-medium text-gray-900 mb-1">Campagne</label>
               <select
-                value={form.ResultatAnalyse}
-                onChange={(e) => updateField(index, 'ResultatAnalyse', e.target.value as 'Positif' | 'Négatif')}
+                value={form.CampagneID}
+                onChange={(e) => updateField(index, 'CampagneID', e.target.value)}
                 className="border border-gray-300 rounded-md px-3 py-2"
-                required
               >
-                <option value="">-- Sélectionner --</option>
-                <option value="Positif">Positif</option>
-                <option value="Négatif">Négatif</option>
+                <option value="">Hors campagne</option>
+                {stationCampagnes.map((c) => (
+                  <option key={c.CampagneID} value={c.CampagneID}>{c.Nom} ({c.Annee})</option>
+                ))}
               </select>
-              {errors.forms?.[index]?.ResultatAnalyse && (
-                <span className="text-red-500 text-sm">{errors.forms[index].ResultatAnalyse}</span>
-              )}
+            </div>
+          )}
+
+          {form.ResultatForce && computedVerdicts[index] && (
+            <Input
+              label="Motif du forçage"
+              value={form.MotifForcage}
+              onChange={(e) => updateField(index, 'MotifForcage', e.target.value)}
+              error={errors.forms?.[index]?.MotifForcage}
+              placeholder="Ex: Contre-expertise du laboratoire"
+              required
+            />
+          )}
+
+          {/* Paramètres mesurés */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Paramètres mesurés</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {getParametresFor(form.ProduitAnalyse, Object.keys(form.Mesures)).map(({ parametre, seuil }) => {
+                const mesure = mesuresByForm[index].find((m) => m.Parametre === parametre.key);
+                return (
+                  <Input
+                    key={parametre.key}
+                    label={`${parametre.label}${parametre.unite ? ` (${parametre.unite})` : ''}`}
+                    type="text"
+                    inputMode="decimal"
+                    value={form.Mesures[parametre.key] ?? ''}
+                    onChange={(e) => updateMesure(index, parametre.key, e.target.value)}
+                    placeholder={seuil ? formatSeuil(seuil) : 'Sans seuil'}
+                    error={
+                      errors.forms?.[index]?.Mesures?.[parametre.key] ??
+                      (mesure && !mesure.Conforme ? `Hors seuil (${formatSeuil(mesure, parametre.unite)})` : undefined)
+                    }
+                  />
+                );
+              })}
             </div>
           </div>
 
@@ -151,7 +270,7 @@ export function AnalyseForm({ mode, stationId, stationCode, initialAnalyses = []
         </fieldset>
       ))}
 
-      {forms.length < 2 && mode === 'create' && (
+      {forms.length < produitNames.length && mode === 'create' && (
         <Button type="button" variant="secondary" onClick={handleAddAnalyse}>
           Ajouter une analyse
         </Button>
@@ -159,11 +278,11 @@ export function AnalyseForm({ mode, stationId, stationCode, initialAnalyses = []
 
       {/* Form Actions */}
       <div className="flex items-center gap-3">
-        <Button type="submit" disabled={submitting || loading}>
+        <Button type="submit" disabled={submitting || loading || !canSave}>
           {mode === 'edit' ? "Modifier l'Analyse" : forms.length > 1 ? "Créer les Analyses" : "Créer l'Analyse"}
         </Button>
 
-        {mode === 'edit' && initialAnalyses[0]?.AnalyseID && (
+        {mode === 'edit' && canDelete && initialAnalyses[0]?.AnalyseID && (
           <Button type="button" variant="destructive" onClick={handleDelete}>
             Supprimer l'Analyse
           </Button>
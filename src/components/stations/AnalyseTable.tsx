@@ -1,9 +1,14 @@
 // src/components/stations/AnalyseTable.tsx
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Analyse } from '@/types/station';
+import { Modal } from '@/components/ui/Modal';
+import AttachmentsPanel from './AttachmentsPanel';
 import { formatDate } from '@/utils/format';
+import { formatSeuil, getParametre } from '@/utils/analyseParametres';
+import { OutboxStatus } from '@/types/outbox';
+import SyncStatusBadge from './SyncStatusBadge';
 
 interface AnalyseTableProps {
   analyses: Analyse[];
@@ -11,9 +16,25 @@ interface AnalyseTableProps {
   error?: string | null;
   onEdit?: (analyse: Analyse) => void;
   onRefresh?: () => void;
+  // Lets the user add and remove lab reports, listing them only needs read access
+  canEditAttachments?: boolean;
+  // Offline outbox: edits not sent yet by analyse, and analyses created offline
+  syncStates?: Map<string, OutboxStatus>;
+  queuedAnalyses?: (Analyse & { status: OutboxStatus })[];
 }
 
-export default function AnalyseTable({ analyses, loading, error, onEdit, onRefresh }: AnalyseTableProps) {
+export default function AnalyseTable({
+  analyses,
+  loading,
+  error,
+  onEdit,
+  onRefresh,
+  canEditAttachments,
+  syncStates,
+  queuedAnalyses = [],
+}: AnalyseTableProps) {
+  const [attachmentsFor, setAttachmentsFor] = useState<Analyse | null>(null);
+
   if (loading) {
     return <div className="text-center py-4">Chargement des analyses...</div>;
   }
@@ -22,7 +43,11 @@ export default function AnalyseTable({ analyses, loading, error, onEdit, onRefre
     return <div className="text-red-500 text-center py-4">{error}</div>;
   }
 
-  if (!analyses.length) {
+  const queuedIds = new Set(queuedAnalyses.map((a) => a.AnalyseID));
+  // An analyse already written but still in the outbox is shown once, as queued
+  const rows: Analyse[] = [...queuedAnalyses, ...analyses.filter((a) => !queuedIds.has(a.AnalyseID))];
+
+  if (!rows.length) {
     return <div className="text-gray-500 text-center py-4">Aucune analyse trouvée</div>;
   }
 
@@ -43,54 +68,121 @@ export default function AnalyseTable({ analyses, loading, error, onEdit, onRefre
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Résultat
             </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Paramètres
+            </th>
             <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
               Actions
             </th>
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
-          {analyses.map((analyse) => (
-            <tr key={analyse.AnalyseID} className="hover:bg-gray-50">
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                {analyse.CodeAnalyse}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {formatDate(analyse.DateAnalyse)}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap">
-                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                  analyse.ProduitAnalyse === 'Gasoil' 
-                    ? 'bg-blue-100 text-blue-800' 
-                    : 'bg-green-100 text-green-800'
-                }`}>
-                  {analyse.ProduitAnalyse}
-                </span>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap">
-                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                  analyse.ResultatAnalyse === 'Positif' 
-                    ? 'bg-green-100 text-green-800' 
-                    : analyse.ResultatAnalyse === 'Négatif'
-                    ? 'bg-red-100 text-red-800'
-                    : 'bg-yellow-100 text-yellow-800'
-                }`}>
-                  {analyse.ResultatAnalyse}
-                </span>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                {onEdit && (
-                  <button
-                    onClick={() => onEdit(analyse)}
-                    className="text-blue-600 hover:text-blue-900"
-                  >
-                    Modifier
-                  </button>
-                )}
-              </td>
-            </tr>
-          ))}
+          {rows.map((analyse) => {
+            const queued = queuedIds.has(analyse.AnalyseID);
+            const syncStatus = queued
+              ? queuedAnalyses.find((a) => a.AnalyseID === analyse.AnalyseID)?.status
+              : syncStates?.get(analyse.AnalyseID);
+            return (
+              <tr key={analyse.AnalyseID} className={syncStatus ? 'bg-gray-50' : 'hover:bg-gray-50'}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {analyse.CodeAnalyse}
+                  {syncStatus && (
+                    <div className="mt-1">
+                      <SyncStatusBadge status={syncStatus} />
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {formatDate(analyse.DateAnalyse)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                    analyse.ProduitAnalyse === 'Gasoil' 
+                      ? 'bg-blue-100 text-blue-800' 
+                      : 'bg-green-100 text-green-800'
+                  }`}>
+                    {analyse.ProduitAnalyse}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                    analyse.ResultatAnalyse === 'Positif' 
+                      ? 'bg-green-100 text-green-800' 
+                      : analyse.ResultatAnalyse === 'Négatif'
+                      ? 'bg-red-100 text-red-800'
+                      : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {analyse.ResultatAnalyse}
+                  </span>
+                  {analyse.ResultatForce && (
+                    <span
+                      className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                      title={analyse.MotifForcage}
+                    >
+                      forcé
+                    </span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {!analyse.Mesures?.length ? (
+                    '-'
+                  ) : analyse.Mesures.every((m) => m.Conforme) ? (
+                    <span>{analyse.Mesures.length} conforme(s)</span>
+                  ) : (
+                    <ul className="space-y-1">
+                      {analyse.Mesures.filter((m) => !m.Conforme).map((m) => {
+                        const parametre = getParametre(m.Parametre);
+                        return (
+                          <li key={m.Parametre} className="text-red-600">
+                            {parametre.label}: {m.Valeur} {parametre.unite}
+                            <span className="text-gray-500"> ({formatSeuil(m, parametre.unite)})</span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                  {/* Not in the database yet: nothing to attach reports to or edit */}
+                  {!queued && (
+                    <>
+                      <button
+                        onClick={() => setAttachmentsFor(analyse)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Rapports
+                      </button>
+                      {onEdit && (
+                        <button
+                          onClick={() => onEdit(analyse)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          Modifier
+                        </button>
+                      )}
+                    </>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
         </tbody>
       </table>
+
+      <Modal
+        isOpen={!!attachmentsFor}
+        onClose={() => setAttachmentsFor(null)}
+        title={attachmentsFor ? `Rapports de l'analyse ${attachmentsFor.CodeAnalyse}` : undefined}
+        size="lg"
+      >
+        {attachmentsFor && (
+          <AttachmentsPanel
+            stationId={attachmentsFor.StationID}
+            analyseId={attachmentsFor.AnalyseID}
+            canEdit={canEditAttachments}
+          />
+        )}
+      </Modal>
     </div>
   );
 }
\ No newline at end of file
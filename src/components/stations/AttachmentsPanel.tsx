@@ -0,0 +1,195 @@
+// src/components/stations/AttachmentsPanel.tsx
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Attachment } from '@/types/attachment';
+import { Autorisation } from '@/types/station';
+import { useAttachments } from '@/hooks/useStationData/useAttachments';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { formatDate } from '@/utils/format';
+import { formatFileSize } from '@/utils/attachments';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+interface AttachmentsPanelProps {
+  stationId: string;
+  // When set, only the files of this analyse are shown and uploads are linked to it
+  analyseId?: string;
+  // Autorisations a station-wide upload can be linked to
+  autorisations?: Autorisation[];
+  canEdit?: boolean;
+}
+
+export default function AttachmentsPanel({ stationId, analyseId, autorisations = [], canEdit }: AttachmentsPanelProps) {
+  const { attachments, loading, uploading, error, upload, removeAttachment, getObjectUrl } = useAttachments({ stationId, analyseId });
+  const [linkedAutorisation, setLinkedAutorisation] = useState('');
+  const [preview, setPreview] = useState<{ attachment: Attachment; url: string } | null>(null);
+  const [deleting, setDeleting] = useState<Attachment | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Object URLs hold the whole file in memory until revoked
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url);
+    };
+  }, [preview]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!APP_CONSTANTS.ATTACHMENTS.ACCEPTED_TYPES.includes(file.type)) {
+      setFileError('Seuls les fichiers PDF, JPEG et PNG sont acceptés');
+      return;
+    }
+    if (file.size > APP_CONSTANTS.ATTACHMENTS.MAX_SIZE_MB * 1024 * 1024) {
+      setFileError(`Le fichier dépasse ${APP_CONSTANTS.ATTACHMENTS.MAX_SIZE_MB} Mo`);
+      return;
+    }
+    setFileError(null);
+    try {
+      await upload(file, { autorisationId: linkedAutorisation || null });
+    } catch (err) {
+      console.error('Failed to upload attachment:', err);
+    }
+  };
+
+  const handlePreview = async (attachment: Attachment) => {
+    try {
+      setPreview({ attachment, url: await getObjectUrl(attachment) });
+    } catch (err) {
+      console.error('Failed to open attachment:', err);
+      setFileError(`Impossible d'ouvrir ${attachment.NomFichier}`);
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const url = await getObjectUrl(attachment);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.NomFichier;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to download attachment:', err);
+      setFileError(`Impossible de télécharger ${attachment.NomFichier}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await removeAttachment(deleting.AttachmentID);
+    } catch (err) {
+      console.error('Failed to delete attachment:', err);
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const linkLabel = (attachment: Attachment) => {
+    if (attachment.AnalyseID) return 'Analyse';
+    if (attachment.AutorisationID) {
+      const autorisation = autorisations.find((a) => a.AutorisationID === attachment.AutorisationID);
+      return autorisation ? `Autorisation N° ${autorisation.NumeroAutorisation}` : 'Autorisation';
+    }
+    return 'Station';
+  };
+
+  return (
+    <div className="space-y-3 text-gray-900">
+      {error && <ErrorMessage message={error} />}
+      {fileError && <ErrorMessage message={fileError} />}
+
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2">
+          {!analyseId && autorisations.length > 0 && (
+            <select
+              value={linkedAutorisation}
+              onChange={(e) => setLinkedAutorisation(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">Lier à la station</option>
+              {autorisations.map((a) => (
+                <option key={a.AutorisationID} value={a.AutorisationID}>
+                  Autorisation {a.TypeAutorisation} – N° {a.NumeroAutorisation}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            ref={fileInput}
+            type="file"
+            accept={APP_CONSTANTS.ATTACHMENTS.ACCEPTED_TYPES.join(',')}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button type="button" variant="outline" onClick={() => fileInput.current?.click()} disabled={uploading}>
+            {uploading ? 'Envoi...' : 'Ajouter un fichier'}
+          </Button>
+          <span className="text-xs text-gray-500">PDF, JPEG ou PNG, {APP_CONSTANTS.ATTACHMENTS.MAX_SIZE_MB} Mo max.</span>
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">Aucune pièce jointe</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 text-sm">
+          {attachments.map((a) => (
+            <li key={a.AttachmentID} className="flex items-center justify-between py-2 gap-4">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{a.NomFichier}</p>
+                <p className="text-xs text-gray-500">
+                  {linkLabel(a)} · {formatFileSize(a.Taille)} · {formatDate(a.DateAjout)}
+                  {a.userEmail && ` · par ${a.userEmail}`}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-3">
+                <button type="button" onClick={() => handlePreview(a)} className="text-blue-600 hover:underline">
+                  Aperçu
+                </button>
+                <button type="button" onClick={() => handleDownload(a)} className="text-blue-600 hover:underline">
+                  Télécharger
+                </button>
+                {canEdit && (
+                  <button type="button" onClick={() => setDeleting(a)} className="text-red-600 hover:underline">
+                    Supprimer
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal isOpen={!!preview} onClose={() => setPreview(null)} title={preview?.attachment.NomFichier} size="xl">
+        {preview && (preview.attachment.TypeMime === 'application/pdf' ? (
+          <iframe src={preview.url} title={preview.attachment.NomFichier} className="w-full h-[70vh]" />
+        ) : (
+          <div className="relative w-full h-[70vh]">
+            <Image src={preview.url} alt={preview.attachment.NomFichier} fill unoptimized className="object-contain" />
+          </div>
+        ))}
+      </Modal>
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title="Supprimer la pièce jointe"
+        message={`Supprimer définitivement ${deleting?.NomFichier ?? ''} ?`}
+        confirmText="Supprimer"
+        cancelText="Annuler"
+      />
+    </div>
+  );
+}
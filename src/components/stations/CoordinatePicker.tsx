@@ -0,0 +1,218 @@
+// src/components/stations/CoordinatePicker.tsx
+'use client';
+
+import { useMemo, useState } from 'react';
+import { GoogleMap, MarkerF } from '@react-google-maps/api';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useApiUsage } from '@/hooks/useApiUsage';
+import { incrementApiUsage } from '@/lib/firebase/apiUsage';
+import { containsPoint, LimiteGeometry } from '@/utils/limites';
+import {
+  detectLambertZone,
+  isInLambertZone,
+  LAMBERT_ZONES,
+  LambertZone,
+  lambertToWgs84,
+  lambertZoneLabel,
+  wgs84ToLambert,
+} from '@/utils/lambert';
+
+interface CoordinatePickerProps {
+  latitude: string;
+  longitude: string;
+  onChange: (latitude: string, longitude: string) => void;
+  onAddressFound?: (address: string) => void;
+  expectedArea?: LimiteGeometry | null; // Outline of the selected region, to tell Lambert zones apart
+}
+
+const MOROCCO_CENTER = { lat: 31.7917, lng: -7.0926 };
+const mapContainerStyle = { width: '100%', height: '100%', borderRadius: '8px' };
+const mapOptions = { streetViewControl: false, mapTypeControl: true, fullscreenControl: false };
+
+// Six decimals is about ten centimeters
+const formatCoordinate = (value: number) => value.toFixed(6);
+
+// 0,0 is what empty imports leave behind, it is treated as no position
+function parsePoint(latitude: string, longitude: string): { lat: number; lng: number } | null {
+  const lat = parseFloat(latitude);
+  const lng = parseFloat(longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || (lat === 0 && lng === 0)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/**
+ * Places the station on a map: the marker can be dragged or moved with a click, and the
+ * position can be typed in Lambert coordinates of any zone. The address found at the
+ * marker can be copied to the form.
+ */
+export default function CoordinatePicker({ latitude, longitude, onChange, onAddressFound, expectedArea }: CoordinatePickerProps) {
+  const { usage } = useApiUsage();
+  const [lambertX, setLambertX] = useState('');
+  const [lambertY, setLambertY] = useState('');
+  const [lambertZone, setLambertZone] = useState<LambertZone | 'auto'>('auto');
+  const [convertedFrom, setConvertedFrom] = useState<LambertZone | null>(null);
+  const [lambertError, setLambertError] = useState<string | null>(null);
+  const [address, setAddress] = useState<string | null>(null);
+  const [geocoding, setGeocoding] = useState(false);
+  const [geocodeError, setGeocodeError] = useState<string | null>(null);
+
+  const point = useMemo(() => parsePoint(latitude, longitude), [latitude, longitude]);
+  const lambert = useMemo(() => (point ? wgs84ToLambert(point.lat, point.lng) : null), [point]);
+
+  const movePoint = (lat: number, lng: number) => {
+    setConvertedFrom(null);
+    setAddress(null);
+    setGeocodeError(null);
+    onChange(formatCoordinate(lat), formatCoordinate(lng));
+  };
+
+  const onMapClick = (e: google.maps.MapMouseEvent) => {
+    if (e.latLng) movePoint(e.latLng.lat(), e.latLng.lng());
+  };
+
+  const convertLambert = () => {
+    const x = parseFloat(lambertX.replace(',', '.'));
+    const y = parseFloat(lambertY.replace(',', '.'));
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      setLambertError('Coordonnées Lambert invalides.');
+      return;
+    }
+    const zone =
+      lambertZone === 'auto'
+        ? detectLambertZone(x, y, expectedArea ? (p) => containsPoint(expectedArea, p.lat, p.lng) : undefined)
+        : lambertZone;
+    if (!zone || !isInLambertZone(x, y, zone)) {
+      setLambertError(
+        zone
+          ? `Ces coordonnées ne tombent pas au Maroc dans la ${lambertZoneLabel(zone)}.`
+          : 'Ces coordonnées ne correspondent à aucune zone Lambert.'
+      );
+      return;
+    }
+    const converted = lambertToWgs84(x, y, zone);
+    if (!converted) {
+      setLambertError('Erreur lors de la conversion des coordonnées.');
+      return;
+    }
+    setLambertError(null);
+    movePoint(converted.lat, converted.lng);
+    setConvertedFrom(zone);
+  };
+
+  const findAddress = async () => {
+    if (!point) return;
+    setGeocoding(true);
+    setGeocodeError(null);
+    try {
+      const { results } = await new google.maps.Geocoder().geocode({ location: point });
+      // Geocoding is billed with the map, under the same daily quota
+      await incrementApiUsage('maps_js_api');
+      if (results.length === 0) {
+        setGeocodeError('Aucune adresse trouvée à cet emplacement.');
+        return;
+      }
+      setAddress(results[0].formatted_address);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setGeocodeError(`Recherche de l'adresse impossible : ${message}`);
+    } finally {
+      setGeocoding(false);
+    }
+  };
+
+  const canUseMap =
+    !!process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY && typeof google !== 'undefined' && !(usage?.maps.exceeded ?? false);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+        <Input
+          label="X Lambert (m)"
+          name="LambertX"
+          value={lambertX}
+          onChange={(e) => setLambertX(e.target.value)}
+          placeholder={lambert ? lambert.x.toFixed(2) : 'Ex: 420000'}
+        />
+        <Input
+          label="Y Lambert (m)"
+          name="LambertY"
+          value={lambertY}
+          onChange={(e) => setLambertY(e.target.value)}
+          placeholder={lambert ? lambert.y.toFixed(2) : 'Ex: 380000'}
+        />
+        <label className="text-sm font-medium text-gray-700">
+          Zone Lambert
+          <select
+            value={lambertZone}
+            onChange={(e) => setLambertZone(e.target.value as LambertZone | 'auto')}
+            className="mt-1 block w-full h-9 rounded-md border border-gray-300 bg-white px-2 text-sm"
+          >
+            <option value="auto">Détection automatique</option>
+            {LAMBERT_ZONES.map((zone) => (
+              <option key={zone.code} value={zone.code}>
+                {zone.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button type="button" variant="outline" onClick={convertLambert} disabled={!lambertX || !lambertY}>
+          Convertir
+        </Button>
+      </div>
+      {lambertError && <p className="text-xs text-red-600">{lambertError}</p>}
+      {lambert && (
+        <p className="text-xs text-gray-500">
+          {lambertZoneLabel(lambert.zone)} : X {lambert.x.toFixed(2)} m, Y {lambert.y.toFixed(2)} m
+          {convertedFrom && convertedFrom !== lambert.zone && ` (saisi en ${lambertZoneLabel(convertedFrom)})`}
+        </p>
+      )}
+
+      {canUseMap ? (
+        <>
+          <div className="h-64">
+            <GoogleMap
+              mapContainerStyle={mapContainerStyle}
+              zoom={point ? 15 : 5}
+              center={point ?? MOROCCO_CENTER}
+              onClick={onMapClick}
+              options={mapOptions}
+            >
+              {point && (
+                <MarkerF
+                  position={point}
+                  draggable
+                  onDragEnd={(e) => e.latLng && movePoint(e.latLng.lat(), e.latLng.lng())}
+                />
+              )}
+            </GoogleMap>
+          </div>
+          <p className="text-xs text-gray-500">
+            Cliquez sur la carte ou déplacez le marqueur pour positionner la station.
+          </p>
+          {point && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Button type="button" variant="outline" size="sm" onClick={findAddress} disabled={geocoding}>
+                {geocoding ? 'Recherche…' : "Rechercher l'adresse"}
+              </Button>
+              {address && (
+                <>
+                  <span className="text-gray-700">{address}</span>
+                  {onAddressFound && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => onAddressFound(address)}>
+                      Utiliser comme adresse
+                    </Button>
+                  )}
+                </>
+              )}
+              {geocodeError && <span className="text-xs text-red-600">{geocodeError}</span>}
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">La carte n&apos;est pas disponible, saisissez les coordonnées.</p>
+      )}
+    </div>
+  );
+}
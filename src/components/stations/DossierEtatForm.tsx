@@ -0,0 +1,99 @@
+// src/components/stations/DossierEtatForm.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { DossierNonConformite, EtatDossier, StationStatut } from '@/types/station';
+import { useDossierCRUD } from '@/hooks/useStationData/useDossierCRUD';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { DOSSIER_TRANSITIONS } from '@/utils/dossiers';
+import { STATUS_TRANSITIONS } from '@/utils/stationStatus';
+
+interface DossierEtatFormProps {
+  dossier: DossierNonConformite;
+  currentStatut: StationStatut;
+  onSaved?: () => void;
+  onCancel?: () => void;
+}
+
+export default function DossierEtatForm({ dossier, currentStatut, onSaved, onCancel }: DossierEtatFormProps) {
+  const { changeEtat, loading, error } = useDossierCRUD();
+  const targets = DOSSIER_TRANSITIONS[dossier.Etat];
+  const [etat, setEtat] = useState<EtatDossier>(targets[targets.length - 1]);
+  const [conclusion, setConclusion] = useState('');
+  // Closing after a temporary closure usually reopens the station
+  const [statutStation, setStatutStation] = useState<StationStatut | ''>(
+    currentStatut === 'en arrêt' && dossier.Suites.some((s) => s.StatutStation === 'en arrêt') ? 'en activité' : ''
+  );
+
+  const statutOptions = STATUS_TRANSITIONS[currentStatut].filter((s) => s !== 'archivé');
+  const isValid = etat !== 'clôturé' || !!conclusion.trim();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    try {
+      await changeEtat(dossier, etat, { conclusion, statutStation: statutStation || null });
+      onSaved?.();
+    } catch (err) {
+      console.error('Failed to change dossier state:', err);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-gray-900">
+      <h2 className="text-lg font-medium text-gray-900">Changer l&apos;état du dossier</h2>
+      <p className="text-sm text-gray-600">État actuel : <span className="font-medium">{dossier.Etat}</span></p>
+      {error && <ErrorMessage message={error} />}
+
+      <div className="flex flex-col">
+        <label className="text-sm font-medium text-gray-900 mb-1">Nouvel état</label>
+        <select
+          value={etat}
+          onChange={(e) => setEtat(e.target.value as EtatDossier)}
+          className="border border-gray-300 rounded-md px-3 py-2"
+        >
+          {targets.map((t) => (
+            <option key={t} value={t}>{t === 'en cours' && dossier.Etat === 'clôturé' ? 'rouvrir (en cours)' : t}</option>
+          ))}
+        </select>
+      </div>
+
+      {etat === 'clôturé' && (
+        <Textarea
+          label="Conclusion"
+          value={conclusion}
+          onChange={(e) => setConclusion(e.target.value)}
+          placeholder="Ex: Re-prélèvement conforme, amende réglée"
+          required
+        />
+      )}
+
+      <div className="flex flex-col">
+        <label className="text-sm font-medium text-gray-900 mb-1">Statut de la station</label>
+        <select
+          value={statutStation}
+          onChange={(e) => setStatutStation(e.target.value as StationStatut | '')}
+          className="border border-gray-300 rounded-md px-3 py-2"
+        >
+          <option value="">Inchangé ({currentStatut})</option>
+          {statutOptions.map((s) => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Annuler
+          </Button>
+        )}
+        <Button type="submit" disabled={loading || !isValid}>
+          {loading ? 'Enregistrement...' : 'Valider'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,187 @@
+// src/components/stations/DossierList.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { DossierNonConformite, EtatDossier, StationStatut } from '@/types/station';
+import { useDossierCRUD } from '@/hooks/useStationData/useDossierCRUD';
+import { Modal } from '@/components/ui/Modal';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { formatDate, formatDateForInput, parseDateString } from '@/utils/format';
+import { isDossierOverdue } from '@/utils/dossiers';
+import SuiteDossierForm from './SuiteDossierForm';
+import DossierEtatForm from './DossierEtatForm';
+
+interface DossierListProps {
+  dossiers: DossierNonConformite[];
+  currentStatut: StationStatut;
+  canManage?: boolean;
+  onChanged?: () => void;
+}
+
+export const ETAT_DOSSIER_STYLES: Record<EtatDossier, string> = {
+  'ouvert': 'bg-red-100 text-red-800',
+  'en cours': 'bg-orange-100 text-orange-800',
+  'clôturé': 'bg-gray-100 text-gray-700',
+};
+
+export default function DossierList({ dossiers, currentStatut, canManage, onChanged }: DossierListProps) {
+  const { setSuiteRealisee, updateEcheance, error } = useDossierCRUD();
+  const [addingSuiteTo, setAddingSuiteTo] = useState<DossierNonConformite | null>(null);
+  const [changingEtatOf, setChangingEtatOf] = useState<DossierNonConformite | null>(null);
+  const [editingEcheance, setEditingEcheance] = useState<{ dossierId: string; value: string } | null>(null);
+
+  if (!dossiers.length) {
+    return <div className="text-gray-500 text-center py-4">Aucun dossier de non-conformité</div>;
+  }
+
+  const handleSaved = () => {
+    setAddingSuiteTo(null);
+    setChangingEtatOf(null);
+    onChanged?.();
+  };
+
+  const handleToggleSuite = async (dossier: DossierNonConformite, suiteId: string, realisee: boolean) => {
+    try {
+      await setSuiteRealisee(dossier, suiteId, realisee);
+      onChanged?.();
+    } catch (err) {
+      console.error('Failed to update suite:', err);
+    }
+  };
+
+  const handleEcheanceSave = async (dossier: DossierNonConformite) => {
+    const date = editingEcheance && parseDateString(editingEcheance.value);
+    if (!date) return;
+    try {
+      await updateEcheance(dossier, date);
+      setEditingEcheance(null);
+      onChanged?.();
+    } catch (err) {
+      console.error('Failed to update dossier deadline:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <ErrorMessage message={error} />}
+      {dossiers.map((dossier) => {
+        const overdue = isDossierOverdue(dossier);
+        return (
+          <div key={dossier.DossierID} className="border rounded-md p-4 space-y-2 text-sm">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <p className="font-medium text-gray-900">{dossier.Motif}</p>
+                <p className="text-gray-500">
+                  {dossier.Origine === 'analyse' ? 'Analyse négative' : 'Inspection'} · ouvert le {formatDate(dossier.DateOuverture)}
+                  {dossier.DateCloture && ` · clôturé le ${formatDate(dossier.DateCloture)}`}
+                </p>
+              </div>
+              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ETAT_DOSSIER_STYLES[dossier.Etat]}`}>
+                {dossier.Etat}
+              </span>
+            </div>
+
+            {dossier.Etat !== 'clôturé' && (
+              <div className="flex items-center gap-2">
+                <span className={overdue ? 'text-red-600 font-medium' : 'text-gray-700'}>
+                  Échéance : {formatDate(dossier.DateEcheance)}{overdue && ' (dépassée)'}
+                </span>
+                {canManage && editingEcheance?.dossierId !== dossier.DossierID && (
+                  <button
+                    type="button"
+                    onClick={() => setEditingEcheance({ dossierId: dossier.DossierID, value: formatDateForInput(dossier.DateEcheance) })}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Modifier
+                  </button>
+                )}
+                {editingEcheance?.dossierId === dossier.DossierID && (
+                  <>
+                    <input
+                      value={editingEcheance.value}
+                      onChange={(e) => setEditingEcheance({ ...editingEcheance, value: e.target.value })}
+                      placeholder="JJ/MM/AAAA"
+                      className="border border-gray-300 rounded-md px-2 py-1 w-32"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleEcheanceSave(dossier)}
+                      disabled={!parseDateString(editingEcheance.value)}
+                      className="text-blue-600 hover:underline disabled:text-gray-400"
+                    >
+                      Enregistrer
+                    </button>
+                    <button type="button" onClick={() => setEditingEcheance(null)} className="text-gray-600 hover:underline">
+                      Annuler
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {dossier.Suites.length > 0 && (
+              <ul className="pl-4 list-disc space-y-1">
+                {dossier.Suites.map((s) => (
+                  <li key={s.SuiteID} className={s.Realisee ? 'text-gray-400' : 'text-gray-700'}>
+                    <span className="font-medium">{s.Type}</span> du {formatDate(s.DateDecision)}
+                    {s.Montant !== null && ` · ${s.Montant.toLocaleString('fr-FR')} MAD`}
+                    {s.DateEcheance && ` · échéance ${formatDate(s.DateEcheance)}`}
+                    {s.StatutStation && ` · station passée « ${s.StatutStation} »`}
+                    {s.Commentaire && ` (${s.Commentaire})`}
+                    {canManage && dossier.Etat !== 'clôturé' && (
+                      <label className="ml-2 inline-flex items-center gap-1 text-xs text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={s.Realisee}
+                          onChange={(e) => handleToggleSuite(dossier, s.SuiteID, e.target.checked)}
+                        />
+                        réalisée
+                      </label>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {dossier.Conclusion && <p className="text-gray-700">Conclusion : {dossier.Conclusion}</p>}
+
+            {canManage && (
+              <div className="flex gap-4">
+                {dossier.Etat !== 'clôturé' && (
+                  <button type="button" onClick={() => setAddingSuiteTo(dossier)} className="text-blue-600 hover:underline">
+                    Ajouter une décision
+                  </button>
+                )}
+                <button type="button" onClick={() => setChangingEtatOf(dossier)} className="text-blue-600 hover:underline">
+                  {dossier.Etat === 'clôturé' ? 'Rouvrir' : "Changer l'état"}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <Modal isOpen={!!addingSuiteTo} onClose={() => setAddingSuiteTo(null)}>
+        {addingSuiteTo && (
+          <SuiteDossierForm
+            dossier={addingSuiteTo}
+            currentStatut={currentStatut}
+            onSaved={handleSaved}
+            onCancel={() => setAddingSuiteTo(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal isOpen={!!changingEtatOf} onClose={() => setChangingEtatOf(null)}>
+        {changingEtatOf && (
+          <DossierEtatForm
+            dossier={changingEtatOf}
+            currentStatut={currentStatut}
+            onSaved={handleSaved}
+            onCancel={() => setChangingEtatOf(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+// src/components/stations/ImportStationsWizard.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, Download } from 'lucide-react';
+import { useImportStations } from '@/hooks/stations/useImportStations';
+import { useStations } from '@/hooks/stations/useStations';
+import { exportImportErrorReport, StationImportRow } from '@/utils/stationExcel';
+import { Button } from '@/components/ui/Button';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+
+interface ImportStationsWizardProps {
+  onImported?: () => void;
+  onCancel?: () => void;
+}
+
+const ACTION_LABELS: Record<StationImportRow['action'], { label: string; className: string }> = {
+  create: { label: 'Création', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Mise à jour', className: 'bg-blue-100 text-blue-800' },
+  error: { label: 'Erreur', className: 'bg-red-100 text-red-800' },
+};
+
+export function ImportStationsWizard({ onImported, onCancel }: ImportStationsWizardProps) {
+  // Matching rows to existing stations needs the full list, loaded only once the wizard is opened.
+  // Stations in the recycle bin keep their code, so they are part of it.
+  const { stations, loading: stationsLoading } = useStations({ includeDeleted: true });
+  const { rows, analyse, commit, reset, analysing, committing, progress, result, error } = useImportStations(stations);
+  const [fileName, setFileName] = useState('');
+  const [showOnlyErrors, setShowOnlyErrors] = useState(false);
+
+  const counts = useMemo(() => ({
+    create: rows.filter(r => r.action === 'create').length,
+    update: rows.filter(r => r.action === 'update').length,
+    error: rows.filter(r => r.action === 'error').length,
+  }), [rows]);
+
+  const visibleRows = showOnlyErrors ? rows.filter(r => r.action === 'error') : rows;
+  const validCount = counts.create + counts.update;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setShowOnlyErrors(false);
+    await analyse(file);
+    e.target.value = '';
+  };
+
+  const handleDownloadReport = () => {
+    const base = fileName.replace(/\.xlsx$/i, '') || 'import';
+    exportImportErrorReport(rows, `${base}_erreurs`);
+  };
+
+  const handleCommit = async () => {
+    if (!confirm(`Importer ${validCount} station${validCount !== 1 ? 's' : ''} ? Les lignes en erreur seront ignorées.`)) return;
+    await commit();
+    onImported?.();
+  };
+
+  const handleRestart = () => {
+    reset();
+    setFileName('');
+  };
+
+  // Step 3: summary once the import has been committed
+  if (result) {
+    return (
+      <div className="space-y-4 text-gray-900">
+        <h4 className="text-lg font-semibold">Import terminé</h4>
+        <ul className="text-sm space-y-1">
+          <li>{result.created} station(s) créée(s)</li>
+          <li>{result.updated} station(s) mise(s) à jour</li>
+          <li>{counts.error} ligne(s) ignorée(s) pour erreurs de validation</li>
+        </ul>
+        {result.failed.length > 0 && (
+          <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+            <p className="font-medium mb-1">{result.failed.length} ligne(s) n&apos;ont pas pu être enregistrées :</p>
+            <ul className="list-disc pl-5">
+              {result.failed.map(f => (
+                <li key={f.rowNumber}>Ligne {f.rowNumber} : {f.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex gap-3">
+          <Button onClick={handleRestart} variant="secondary">Importer un autre fichier</Button>
+          <Button onClick={onCancel}>Fermer</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-gray-900">
+      {/* Step 1: file selection */}
+      <div className="bg-gray-50 border rounded-lg p-4 space-y-2">
+        <p className="text-sm text-gray-600">
+          Sélectionnez un fichier .xlsx au même format que l&apos;export du tableau (colonnes Code, Marque, Raison Sociale, Propriétaire, Gérant, CIN…).
+          Les lignes dont le Code correspond à une station existante seront mises à jour, les autres seront créées.
+        </p>
+        <label className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-[#217346] hover:bg-[#1a5c38] text-white text-sm font-medium cursor-pointer">
+          <FileSpreadsheet className="w-4 h-4" />
+          {stationsLoading ? 'Chargement des stations...' : analysing ? 'Analyse en cours...' : 'Choisir un fichier'}
+          <input
+            type="file"
+            accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            onChange={handleFileChange}
+            disabled={stationsLoading || analysing || committing}
+          />
+        </label>
+        {fileName && <span className="ml-3 text-sm text-gray-700">{fileName}</span>}
+      </div>
+
+      {error && <ErrorMessage message={error} />}
+
+      {/* Step 2: dry-run preview */}
+      {rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="px-2 py-1 rounded-full bg-green-100 text-green-800">{counts.create} à créer</span>
+            <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800">{counts.update} à mettre à jour</span>
+            <span className="px-2 py-1 rounded-full bg-red-100 text-red-800">{counts.error} en erreur</span>
+            <label className="flex items-center gap-2 ml-auto">
+              <input
+                type="checkbox"
+                checked={showOnlyErrors}
+                onChange={(e) => setShowOnlyErrors(e.target.checked)}
+                className="h-4 w-4"
+              />
+              Afficher uniquement les erreurs
+            </label>
+          </div>
+
+          <div className="max-h-[50vh] overflow-auto border rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ligne</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Code</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Nom Station</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Marque</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Commune</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Détails</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleRows.map(row => (
+                  <tr key={row.rowNumber} className={row.action === 'error' ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-2">{row.rowNumber}</td>
+                    <td className="px-3 py-2">{row.code ?? '-'}</td>
+                    <td className="px-3 py-2">{row.formData.NomStation || '-'}</td>
+                    <td className="px-3 py-2">{row.formData.Marque || '-'}</td>
+                    <td className="px-3 py-2">{row.formData.Commune || '-'}</td>
+                    <td className="px-3 py-2">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ACTION_LABELS[row.action].className}`}>
+                        {ACTION_LABELS[row.action].label}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-red-700">
+                      {row.errors.length > 0
+                        ? row.errors.map((e, i) => <div key={i}>{e}</div>)
+                        : row.action === 'create' && row.code !== null
+                          ? <span className="text-gray-500">Nouveau code attribué à l&apos;enregistrement</span>
+                          : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Button onClick={handleCommit} disabled={committing || validCount === 0}>
+              {committing
+                ? `Import en cours... (${progress}/${validCount})`
+                : `Importer ${validCount} station${validCount !== 1 ? 's' : ''}`}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleDownloadReport}
+              disabled={counts.error === 0 || committing}
+              className="flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Télécharger le rapport d&apos;erreurs
+            </Button>
+            <Button variant="secondary" onClick={onCancel} disabled={committing} className="ml-auto">
+              Annuler
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ImportStationsWizard;
@@ -0,0 +1,249 @@
+// src/components/stations/InspectionForm.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { ActionCorrective, GraviteInspection, Inspection, ResultatPointControle } from '@/types/station';
+import { useInspectionCRUD } from '@/hooks/useStationData/useInspectionCRUD';
+import { usePointsControle } from '@/hooks/ReferenceData/usePointsControle';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { formatDateForInput, parseDateString } from '@/utils/format';
+import { useAuth } from '@/lib/auth/hooks';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+interface InspectionFormProps {
+  stationId: string;
+  inspection?: Inspection; // Edit mode when given
+  onSaved?: () => void;
+  onCancel?: () => void;
+}
+
+type ActionRow = { Description: string; DateEcheance: string; Realisee: boolean };
+
+export default function InspectionForm({ stationId, inspection, onSaved, onCancel }: InspectionFormProps) {
+  const { createInspection, updateInspection, deleteInspection, loading, error } = useInspectionCRUD();
+  const { points } = usePointsControle();
+  const { currentUser, can } = useAuth();
+
+  const [dateInspection, setDateInspection] = useState(formatDateForInput(inspection?.DateInspection ?? new Date()));
+  const [inspecteur, setInspecteur] = useState(inspection?.Inspecteur ?? currentUser?.displayName ?? currentUser?.email ?? '');
+  // An edited inspection keeps the points it was done with; null follows the current checklist
+  const [checklist, setChecklist] = useState<ResultatPointControle[] | null>(inspection?.Checklist ?? null);
+  const [constats, setConstats] = useState(inspection?.Constats ?? '');
+  const [gravite, setGravite] = useState<GraviteInspection>(inspection?.Gravite ?? 'aucune');
+  const [actions, setActions] = useState<ActionRow[]>(
+    (inspection?.ActionsCorrectives ?? []).map((a) => ({ ...a, DateEcheance: formatDateForInput(a.DateEcheance) }))
+  );
+  const [submitted, setSubmitted] = useState(false);
+
+  const items = checklist ?? points.map((p) => ({ Libelle: p.Libelle, Conforme: null, Commentaire: '' }));
+
+  const parsedDate = parseDateString(dateInspection);
+  const dateError = !parsedDate ? 'Date invalide (JJ/MM/AAAA)' : parsedDate > new Date() ? 'La date ne peut pas être dans le futur' : undefined;
+  const hasNonConforme = items.some((p) => p.Conforme === false);
+  const graviteError = hasNonConforme && gravite === 'aucune'
+    ? 'Indiquez la gravité des non-conformités relevées'
+    : undefined;
+  const actionErrors = actions.map((a) => ({
+    Description: !a.Description.trim() ? 'Description requise' : undefined,
+    DateEcheance: !parseDateString(a.DateEcheance) ? 'Échéance invalide (JJ/MM/AAAA)' : undefined,
+  }));
+  const isValid = !dateError && !!inspecteur.trim() && !graviteError && actionErrors.every((e) => !e.Description && !e.DateEcheance);
+
+  const canSave = can(inspection ? 'inspection:update' : 'inspection:create');
+
+  const updatePoint = (index: number, changes: Partial<ResultatPointControle>) => {
+    setChecklist(items.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const updateAction = (index: number, changes: Partial<ActionRow>) => {
+    setActions((prev) => prev.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+    if (!canSave || !isValid || !parsedDate) return;
+
+    const data: Omit<Inspection, 'InspectionID'> = {
+      StationID: stationId,
+      DateInspection: parsedDate,
+      Inspecteur: inspecteur,
+      Checklist: items,
+      Constats: constats,
+      Gravite: gravite,
+      ActionsCorrectives: actions.map((a): ActionCorrective => ({
+        Description: a.Description,
+        DateEcheance: parseDateString(a.DateEcheance),
+        Realisee: a.Realisee,
+      })),
+    };
+    try {
+      if (inspection) {
+        await updateInspection(inspection.InspectionID, data);
+      } else {
+        await createInspection(data);
+      }
+      onSaved?.();
+    } catch (err) {
+      console.error('Failed to save inspection:', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!inspection || !confirm('Êtes-vous sûr de vouloir supprimer cette inspection ?')) return;
+    try {
+      await deleteInspection(inspection.InspectionID);
+      onSaved?.();
+    } catch (err) {
+      console.error('Failed to delete inspection:', err);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-gray-900">
+      <h2 className="text-lg font-medium text-gray-900">{inspection ? "Modifier l'inspection" : 'Nouvelle inspection'}</h2>
+      {error && <ErrorMessage message={error} />}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Date de l'inspection (dd/mm/yyyy)"
+          type="text"
+          value={dateInspection}
+          onChange={(e) => setDateInspection(e.target.value)}
+          placeholder="JJ/MM/AAAA"
+          error={submitted ? dateError : undefined}
+          required
+        />
+        <Input
+          label="Inspecteur"
+          value={inspecteur}
+          onChange={(e) => setInspecteur(e.target.value)}
+          error={submitted && !inspecteur.trim() ? "Nom de l'inspecteur requis" : undefined}
+          required
+        />
+      </div>
+
+      {/* Checklist */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Points de contrôle</h3>
+        <div className="divide-y divide-gray-200 border rounded-md">
+          {items.map((p, index) => (
+            <div key={p.Libelle} className="p-2 grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+              <span className="text-sm">{p.Libelle}</span>
+              <div className="flex gap-3 text-sm">
+                {([[true, 'Conforme'], [false, 'Non conforme'], [null, 'Non vérifié']] as const).map(([value, label]) => (
+                  <label key={label} className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      name={`point-${index}`}
+                      checked={p.Conforme === value}
+                      onChange={() => updatePoint(index, { Conforme: value })}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <input
+                value={p.Commentaire}
+                onChange={(e) => updatePoint(index, { Commentaire: e.target.value })}
+                placeholder="Commentaire"
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Textarea
+        label="Constats"
+        value={constats}
+        onChange={(e) => setConstats(e.target.value)}
+        placeholder="Observations faites lors de la visite"
+      />
+
+      <div className="flex flex-col">
+        <label className="text-sm font-medium text-gray-900 mb-1">Gravité</label>
+        <select
+          value={gravite}
+          onChange={(e) => setGravite(e.target.value as GraviteInspection)}
+          className="border border-gray-300 rounded-md px-3 py-2"
+        >
+          {APP_CONSTANTS.INSPECTIONS.GRAVITES.map((g) => (
+            <option key={g} value={g}>{g === 'aucune' ? 'Aucune anomalie' : g}</option>
+          ))}
+        </select>
+        {graviteError && <span className="text-red-500 text-sm">{graviteError}</span>}
+      </div>
+
+      {/* Actions correctives */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Actions correctives</h3>
+        {actions.length === 0 && <p className="text-sm text-gray-500 mb-2">Aucune action demandée</p>}
+        {actions.map((a, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-6 gap-2 items-start mb-2">
+            <div className="md:col-span-3">
+              <Input
+                label="Action"
+                value={a.Description}
+                onChange={(e) => updateAction(index, { Description: e.target.value })}
+                error={submitted ? actionErrors[index].Description : undefined}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Input
+                label="Échéance"
+                value={a.DateEcheance}
+                onChange={(e) => updateAction(index, { DateEcheance: e.target.value })}
+                placeholder="JJ/MM/AAAA"
+                error={submitted ? actionErrors[index].DateEcheance : undefined}
+              />
+            </div>
+            <div className="flex items-center gap-3 md:pt-7">
+              <label className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={a.Realisee}
+                  onChange={(e) => updateAction(index, { Realisee: e.target.checked })}
+                />
+                Réalisée
+              </label>
+              <button
+                type="button"
+                onClick={() => setActions((prev) => prev.filter((_, i) => i !== index))}
+                className="text-red-600 text-sm hover:underline"
+              >
+                Retirer
+              </button>
+            </div>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => setActions((prev) => [...prev, { Description: '', DateEcheance: '', Realisee: false }])}
+        >
+          Ajouter une action
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={loading || !canSave}>
+          {loading ? 'Enregistrement...' : inspection ? "Modifier l'inspection" : "Enregistrer l'inspection"}
+        </Button>
+        {inspection && can('inspection:delete') && (
+          <Button type="button" variant="destructive" onClick={handleDelete} disabled={loading}>
+            Supprimer
+          </Button>
+        )}
+        {onCancel && (
+          <Button type="button" variant="secondary" onClick={onCancel}>
+            Annuler
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
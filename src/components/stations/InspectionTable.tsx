@@ -0,0 +1,100 @@
+// src/components/stations/InspectionTable.tsx
+'use client';
+
+import React from 'react';
+import { GraviteInspection, Inspection } from '@/types/station';
+import { formatDate } from '@/utils/format';
+
+interface InspectionTableProps {
+  inspections: Inspection[];
+  onEdit?: (inspection: Inspection) => void;
+}
+
+const GRAVITE_STYLES: Record<GraviteInspection, string> = {
+  aucune: 'bg-green-100 text-green-800',
+  mineure: 'bg-yellow-100 text-yellow-800',
+  majeure: 'bg-orange-100 text-orange-800',
+  critique: 'bg-red-100 text-red-800',
+};
+
+export default function InspectionTable({ inspections, onEdit }: InspectionTableProps) {
+  if (!inspections.length) {
+    return <div className="text-gray-500 text-center py-4">Aucune inspection enregistrée</div>;
+  }
+
+  const today = new Date();
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Inspecteur</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Non-conformités</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Gravité</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions correctives</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {inspections.map((inspection) => {
+            const nonConformes = inspection.Checklist.filter((p) => p.Conforme === false);
+            return (
+              <tr key={inspection.InspectionID} className="hover:bg-gray-50 align-top">
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {formatDate(inspection.DateInspection)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{inspection.Inspecteur}</td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {nonConformes.length === 0 ? (
+                    '-'
+                  ) : (
+                    <ul className="space-y-1">
+                      {nonConformes.map((p) => (
+                        <li key={p.Libelle} className="text-red-600">
+                          {p.Libelle}
+                          {p.Commentaire && <span className="text-gray-500"> ({p.Commentaire})</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {inspection.Constats && <p className="mt-1 text-gray-600">{inspection.Constats}</p>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${GRAVITE_STYLES[inspection.Gravite]}`}>
+                    {inspection.Gravite === 'aucune' ? 'aucune anomalie' : inspection.Gravite}
+                  </span>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {inspection.ActionsCorrectives.length === 0 ? (
+                    '-'
+                  ) : (
+                    <ul className="space-y-1">
+                      {inspection.ActionsCorrectives.map((a, i) => {
+                        const overdue = !a.Realisee && !!a.DateEcheance && a.DateEcheance < today;
+                        return (
+                          <li key={i} className={a.Realisee ? 'line-through text-gray-400' : overdue ? 'text-red-600' : ''}>
+                            {a.Description} – avant le {formatDate(a.DateEcheance)}
+                            {overdue && ' (en retard)'}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  {onEdit && (
+                    <button onClick={() => onEdit(inspection)} className="text-blue-600 hover:text-blue-900">
+                      Modifier
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,10 +1,10 @@
 // src/components/stations/NearbyStationsTable.tsx
 'use client';
 
-import { StationWithDetails } from '@/types/station';
+import { StationView } from '@/types/station';
 
 interface NearbyStationsTableProps {
-  stations: (StationWithDetails & { distance: number })[];
+  stations: (StationView & { distance: number })[];
 }
 
 export default function NearbyStationsTable({ stations }: NearbyStationsTableProps) {
@@ -30,10 +30,10 @@ export default function NearbyStationsTable({ stations }: NearbyStationsTablePro
         </thead>
         <tbody className="divide-y divide-gray-200">
           {stations.map((s) => (
-            <tr key={s.station.StationID} className="hover:bg-gray-50">
-              <td className="px-4 py-2 border text-sm text-gray-900">{s.station.Code || '-'}</td>
-              <td className="px-4 py-2 border text-sm text-gray-900 font-medium">{s.marque.Marque || '-'}</td>
-              <td className="px-4 py-2 border text-sm text-gray-900">{s.commune.NomCommune || '-'}</td>
+            <tr key={s.StationID} className="hover:bg-gray-50">
+              <td className="px-4 py-2 border text-sm text-gray-900">{s.Code || '-'}</td>
+              <td className="px-4 py-2 border text-sm text-gray-900 font-medium">{s.Marque || '-'}</td>
+              <td className="px-4 py-2 border text-sm text-gray-900">{s.NomCommune || '-'}</td>
               <td className="px-4 py-2 border text-sm font-semibold text-green-600">
                 {s.distance.toFixed(2)}
               </td>
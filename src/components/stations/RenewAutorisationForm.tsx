@@ -0,0 +1,82 @@
+// src/components/stations/RenewAutorisationForm.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { Autorisation } from '@/types/station';
+import { useRenewAutorisation } from '@/hooks/stations/useAutorisationRenewals';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { formatDate, parseDateString } from '@/utils/format';
+
+interface RenewAutorisationFormProps {
+  autorisation: Autorisation;
+  onSaved?: () => void;
+  onCancel?: () => void;
+}
+
+export default function RenewAutorisationForm({ autorisation, onSaved, onCancel }: RenewAutorisationFormProps) {
+  const { renewAutorisation, loading, error } = useRenewAutorisation();
+  const [dateExpiration, setDateExpiration] = useState('');
+  const [commentaire, setCommentaire] = useState('');
+
+  const parsedDate = parseDateString(dateExpiration);
+  const dateError = !dateExpiration
+    ? undefined
+    : !parsedDate
+      ? 'Date invalide (JJ/MM/AAAA)'
+      : autorisation.DateExpiration && parsedDate <= autorisation.DateExpiration
+        ? "La nouvelle date doit être postérieure à l'expiration actuelle"
+        : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsedDate || dateError) return;
+    try {
+      await renewAutorisation({ autorisationId: autorisation.AutorisationID, newExpiration: parsedDate, comment: commentaire });
+      onSaved?.();
+    } catch (err) {
+      console.error('Failed to renew autorisation:', err);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-gray-900">
+      <h2 className="text-lg font-medium text-gray-900">Renouveler l&apos;autorisation</h2>
+      <p className="text-sm text-gray-600">
+        N° <span className="font-medium">{autorisation.NumeroAutorisation}</span> ({autorisation.TypeAutorisation})
+        {autorisation.DateExpiration && <> · expire le {formatDate(autorisation.DateExpiration)}</>}
+      </p>
+      {error && <ErrorMessage message={error} />}
+
+      <Input
+        label="Nouvelle date d'expiration (dd/mm/yyyy)"
+        type="text"
+        value={dateExpiration}
+        onChange={(e) => setDateExpiration(e.target.value)}
+        placeholder="JJ/MM/AAAA"
+        error={dateError}
+        required
+      />
+
+      <Textarea
+        label="Commentaire"
+        value={commentaire}
+        onChange={(e) => setCommentaire(e.target.value)}
+        placeholder="Ex: Arrêté de renouvellement n° ..."
+      />
+
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Annuler
+          </Button>
+        )}
+        <Button type="submit" disabled={loading || !parsedDate || !!dateError}>
+          {loading ? 'Enregistrement...' : 'Renouveler'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -13,8 +13,44 @@ import { useProvinces } from '@/hooks/ReferenceData/useProvinces';
 import { useCommunes } from '@/hooks/ReferenceData/useCommunes';
 import { useGerants } from '@/hooks/ReferenceData/useGerants';
 import { useProprietaires } from '@/hooks/ReferenceData/useProprietaires';
+import { useProduits } from '@/hooks/ReferenceData/useProduits';
+import { useLimites } from '@/hooks/ReferenceData/useLimites';
+import { useAuth } from '@/lib/auth/hooks';
+import { APP_CONSTANTS } from '@/lib/constants';
+import { containsPoint, limiteId, parseLimiteGeometry } from '@/utils/limites';
+import CoordinatePicker from './CoordinatePicker';
 
-type AutorisationError = Partial<Record<'TypeAutorisation' | 'NumeroAutorisation' | 'DateAutorisation', string>>;
+type AutorisationError = Partial<Record<'TypeAutorisation' | 'NumeroAutorisation' | 'DateAutorisation' | 'DateExpiration', string>>;
+
+type CuveError = Partial<Record<keyof StationFormData['cuves'][number], string>>;
+
+function sumCapacite(cuves: StationFormData['cuves'], fuel: string): number {
+  return cuves
+    .filter((c) => c.TypeCarburant === fuel)
+    .reduce((sum, c) => sum + (parseFloat(c.CapaciteLitres.replace(',', '.')) || 0), 0);
+}
+
+// Keeps a typed date within the JJ/MM/AAAA shape
+function maskDateInput(raw: string): string {
+  const parts = raw.replace(/[^\d/]/g, '').split('/');
+  let formatted = '';
+  if (parts[0]) {
+    let day = parts[0].slice(0, 2);
+    if (parseInt(day) > 31) day = '31';
+    formatted = day;
+    if (parts.length > 1) {
+      formatted += '/';
+      let month = parts[1].slice(0, 2);
+      if (parseInt(month) > 12) month = '12';
+      formatted += month;
+      if (parts.length > 2) {
+        formatted += '/';
+        formatted += parts[2].slice(0, 4);
+      }
+    }
+  }
+  return formatted;
+}
 
 export interface StationFormProps {
   mode: 'create' | 'edit';
@@ -165,13 +201,23 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
     errors, 
     updateAutorisationField, 
     addAutorisation, 
-    removeAutorisation 
+    removeAutorisation,
+    updateCuveField,
+    addCuve,
+    removeCuve
   } = useStationForm(mode, station || undefined);
+  const { can } = useAuth();
+  const canSave = can(mode === 'create' ? 'station:create' : 'station:update');
   
   const { marques } = useMarques();
   const { provinces } = useProvinces();
   const { gerants } = useGerants();
   const { proprietaires } = useProprietaires();
+  const { produitNames } = useProduits();
+
+  // Keeps a tank's product selectable even if it was removed from the list since
+  const cuveProduitOptions = (current: string) =>
+    current && !produitNames.includes(current) ? [...produitNames, current] : produitNames;
 
   const selectedProvinceId = useMemo(() => {
     const p = provinces.find(p => p.NomProvince === form.Province);
@@ -179,6 +225,31 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
   }, [form.Province, provinces]);
 
   const { communes } = useCommunes(selectedProvinceId);
+  const { limites } = useLimites();
+
+  // The commune outline is checked when there is one, the province outline otherwise.
+  // Parsed apart from the point so that typing coordinates does not parse it again.
+  const outline = useMemo(() => {
+    const commune = communes.find(c => c.NomCommune === form.Commune);
+    const candidates = [
+      commune && { id: limiteId('commune', commune.CommuneID), label: `de la commune ${commune.NomCommune}` },
+      selectedProvinceId && { id: limiteId('province', selectedProvinceId), label: `de la province ${form.Province}` },
+    ];
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      const limite = limites.find(l => l.LimiteID === candidate.id);
+      const geometry = limite && parseLimiteGeometry(limite);
+      if (geometry) return { geometry, label: candidate.label };
+    }
+    return null;
+  }, [form.Commune, form.Province, communes, selectedProvinceId, limites]);
+
+  const boundaryWarning = useMemo(() => {
+    const lat = parseFloat(form.Latitude || '');
+    const lng = parseFloat(form.Longitude || '');
+    if (!outline || !Number.isFinite(lat) || !Number.isFinite(lng) || (lat === 0 && lng === 0)) return null;
+    return containsPoint(outline.geometry, lat, lng) ? null : `Le point est en dehors des limites ${outline.label}.`;
+  }, [form.Latitude, form.Longitude, outline]);
 
   const selectedMarqueRaisonSociale = useMemo(() => {
     const selectedMarque = marques.find(m => m.Marque === form.Marque);
@@ -255,6 +326,7 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!canSave) return;
     const ok = await submit();
     if (ok) {
       onSaved?.();
@@ -330,6 +402,23 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
             error={errors.Longitude}
             placeholder="Ex: -6.12345"
           />
+          <div className="md:col-span-2 space-y-2">
+            <CoordinatePicker
+              latitude={form.Latitude || ''}
+              longitude={form.Longitude || ''}
+              onChange={(latitude, longitude) => {
+                updateField('Latitude', latitude);
+                updateField('Longitude', longitude);
+              }}
+              onAddressFound={(address) => updateField('Adresse', address)}
+              expectedArea={outline?.geometry}
+            />
+            {boundaryWarning && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                ⚠️ {boundaryWarning} Vérifiez les coordonnées.
+              </p>
+            )}
+          </div>
           <Select
             label="Type"
             value={form.Type || ''}
@@ -524,7 +613,7 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
           autorisations.map((auto, index) => {
             const availableTypes = getAvailableAutorisationTypes(index);
             return (
-              <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 border rounded-md relative bg-gray-50">
+              <div key={index} className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 border rounded-md relative bg-gray-50">
                 <Select
                   label="Type"
                   value={auto.TypeAutorisation || 'création'}
@@ -541,31 +630,13 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
                   value={auto.NumeroAutorisation || ''}
                   onChange={(e) => updateAutorisationField(index, 'NumeroAutorisation', e.target.value)}
                   error={(errors.autorisations as AutorisationError[] | undefined)?.[index]?.NumeroAutorisation}
-                  placeholder="Ex: A-2025-001"
+                  placeholder={`Ex: ${APP_CONSTANTS.AUTORISATIONS.NUMERO_EXAMPLE}`}
                 />
                 <Input
                   label="Date"
                   value={auto.DateAutorisation || ''}
                   onChange={(e) => {
-                    let value = e.target.value;
-                    value = value.replace(/[^\d/]/g, '');
-                    const parts = value.split('/');
-                    let formatted = '';
-                    if (parts[0]) {
-                      let day = parts[0].slice(0, 2);
-                      if (parseInt(day) > 31) day = '31';
-                      formatted = day;
-                      if (parts.length > 1) {
-                        formatted += '/';
-                        let month = parts[1].slice(0, 2);
-                        if (parseInt(month) > 12) month = '12';
-                        formatted += month;
-                        if (parts.length > 2) {
-                          formatted += '/';
-                          formatted += parts[2].slice(0, 4);
-                        }
-                      }
-                    }
+                    const formatted = maskDateInput(e.target.value);
                     if (formatted.length <= 10) {
                       updateAutorisationField(index, 'DateAutorisation', formatted);
                     }
@@ -574,6 +645,19 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
                   maxLength={10}
                   error={(errors.autorisations as AutorisationError[] | undefined)?.[index]?.DateAutorisation}
                 />
+                <Input
+                  label="Date d'expiration"
+                  value={auto.DateExpiration || ''}
+                  onChange={(e) => {
+                    const formatted = maskDateInput(e.target.value);
+                    if (formatted.length <= 10) {
+                      updateAutorisationField(index, 'DateExpiration', formatted);
+                    }
+                  }}
+                  placeholder="JJ/MM/AAAA (optionnelle)"
+                  maxLength={10}
+                  error={(errors.autorisations as AutorisationError[] | undefined)?.[index]?.DateExpiration}
+                />
                 {autorisations.length > 1 && (
                   <div className="flex items-end">
                     <Button type="button" variant="danger" size="sm" onClick={() => removeAutorisation(index)}>
@@ -607,28 +691,82 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
           <span className="text-2xl">🧱</span>
           <span>Capacités de Stockage</span>
         </legend>
-        <p className="text-sm text-gray-500">Entrez les capacités en tonnes.</p>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
-          <Input
-            label="Capacité Gasoil (Tonnes)"
-            name="CapaciteGasoil"
-            type="number"
-            min="0"
-            value={form.CapaciteGasoil || '0'}
-            onChange={(e) => updateField('CapaciteGasoil', e.target.value)}
-            error={errors.CapaciteGasoil}
-            placeholder="0"
-          />
-          <Input
-            label="Capacité SSP (Tonnes)"
-            name="CapaciteSSP"
-            type="number"
-            min="0"
-            value={form.CapaciteSSP || '0'}
-            onChange={(e) => updateField('CapaciteSSP', e.target.value)}
-            error={errors.CapaciteSSP}
-            placeholder="0"
-          />
+        <p className="text-sm text-gray-500">Ajoutez une ligne par cuve. Les capacités sont en tonnes.</p>
+
+        {form.cuves.length > 0 ? (
+          form.cuves.map((cuve, index) => {
+            const cuveErrors = (errors.cuves as CuveError[] | undefined)?.[index];
+            return (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-6 gap-4 p-4 border rounded-md bg-gray-50">
+                <Input
+                  label="Identifiant"
+                  value={cuve.IdentifiantCuve}
+                  onChange={(e) => updateCuveField(index, 'IdentifiantCuve', e.target.value)}
+                  error={cuveErrors?.IdentifiantCuve}
+                  placeholder="Ex: C1"
+                />
+                <Select
+                  label="Carburant"
+                  value={cuve.TypeCarburant}
+                  onChange={(e) => updateCuveField(index, 'TypeCarburant', e.target.value)}
+                  options={cuveProduitOptions(cuve.TypeCarburant).map((p) => ({ value: p, label: p, id: `cuve-${index}-${p}` }))}
+                  error={cuveErrors?.TypeCarburant}
+                />
+                <Input
+                  label="Capacité (Tonnes)"
+                  type="number"
+                  min="0"
+                  value={cuve.CapaciteLitres}
+                  onChange={(e) => updateCuveField(index, 'CapaciteLitres', e.target.value)}
+                  error={cuveErrors?.CapaciteLitres}
+                  placeholder="0"
+                />
+                <Input
+                  label="Date d'installation"
+                  value={cuve.DateInstallation}
+                  onChange={(e) => {
+                    const formatted = maskDateInput(e.target.value);
+                    if (formatted.length <= 10) {
+                      updateCuveField(index, 'DateInstallation', formatted);
+                    }
+                  }}
+                  placeholder="JJ/MM/AAAA"
+                  maxLength={10}
+                  error={cuveErrors?.DateInstallation}
+                />
+                <Select
+                  label="Matériau"
+                  value={cuve.Materiau}
+                  onChange={(e) => updateCuveField(index, 'Materiau', e.target.value)}
+                  options={[
+                    { value: '', label: 'Non renseigné', id: `cuve-${index}-materiau-none` },
+                    ...APP_CONSTANTS.CUVES.MATERIAUX.map((m) => ({ value: m, label: m, id: `cuve-${index}-${m}` })),
+                  ]}
+                  error={cuveErrors?.Materiau}
+                />
+                <div className="flex items-end">
+                  <Button type="button" variant="danger" size="sm" onClick={() => removeCuve(index)}>
+                    Supprimer
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <p className="text-sm text-gray-500">Aucune cuve enregistrée.</p>
+        )}
+        {form.cuves.length > 0 && (
+          <p className="text-sm text-gray-700">
+            Total : {[...new Set([...produitNames, ...form.cuves.map((c) => c.TypeCarburant)])]
+              .filter((p) => form.cuves.some((c) => c.TypeCarburant === p))
+              .map((p) => `${p} ${sumCapacite(form.cuves, p)} t`)
+              .join(' · ')}
+          </p>
+        )}
+        <div>
+          <Button type="button" variant="secondary" onClick={() => addCuve(produitNames[0])}>
+            Ajouter une cuve
+          </Button>
         </div>
       </fieldset>
 
@@ -690,7 +828,7 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
 
       <div className="flex flex-col md:flex-row items-center gap-3">
         <div className="flex items-center gap-3">
-          <Button type="submit" disabled={submitting || loading}>
+          <Button type="submit" disabled={submitting || loading || !canSave}>
             {mode === 'create' ? 'Créer la station' : 'Enregistrer les modifications'}
           </Button>
           <Button type="button" variant="outline" onClick={handleCancel} disabled={submitting || loading}>
@@ -698,8 +836,9 @@ export function StationForm({ mode, station, onSaved, onCancel }: StationFormPro
           </Button>
         </div>
         <div className="mt-2 md:mt-0 md:ml-auto text-sm text-gray-500">
-          {submitting && <span>Enregistrement…</span>}
-          {!submitting && <span>Vérifiez les champs avant d'enregistrer</span>}
+          {!canSave && <span>Vous n&apos;avez pas les droits pour enregistrer cette station</span>}
+          {canSave && submitting && <span>Enregistrement…</span>}
+          {canSave && !submitting && <span>Vérifiez les champs avant d'enregistrer</span>}
         </div>
       </div>
     </form>
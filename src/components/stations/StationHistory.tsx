@@ -0,0 +1,107 @@
+// src/components/stations/StationHistory.tsx
+'use client';
+
+import React from 'react';
+import { AuditAction, AuditEntity, AuditValue } from '@/types/audit';
+import { useStationHistory } from '@/hooks/stations/useStationHistory';
+import { formatDate } from '@/utils/format';
+import { Button, LoadingSpinner, ErrorMessage } from '@/components/ui';
+
+interface StationHistoryProps {
+  stationId: string;
+}
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  station: 'Station',
+  marque: 'Marque',
+  province: 'Province',
+  commune: 'Commune',
+  gerant: 'Gérant',
+  proprietaire: 'Propriétaire',
+  autorisation: 'Autorisation',
+  capacite: 'Capacité',
+  analyse: 'Analyse',
+  attachment: 'Pièce jointe',
+  produit: 'Produit',
+  inspection: 'Inspection',
+  point_controle: 'Point de contrôle',
+  dossier: 'Dossier de non-conformité',
+  campagne: "Campagne d'analyses",
+  limite: 'Limite territoriale',
+};
+
+const ACTION_LABELS: Record<AuditAction, { label: string; className: string }> = {
+  create: { label: 'Création', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Modification', className: 'bg-blue-100 text-blue-800' },
+  delete: { label: 'Suppression', className: 'bg-red-100 text-red-800' },
+  restore: { label: 'Restauration', className: 'bg-yellow-100 text-yellow-800' },
+  purge: { label: 'Suppression définitive', className: 'bg-red-100 text-red-800' },
+};
+
+// Identifiers are noise for the reader, the entity label already says what changed
+const HIDDEN_FIELDS = /ID$/;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+function formatAuditValue(value: AuditValue): string {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'string' && ISO_DATE.test(value)) return formatDate(value);
+  if (typeof value === 'number') return value.toLocaleString('fr-FR');
+  return String(value);
+}
+
+export default function StationHistory({ stationId }: StationHistoryProps) {
+  const { entries, loading, error, refetch } = useStationHistory(stationId);
+
+  if (loading) return <LoadingSpinner />;
+  if (error) return <ErrorMessage message={error} />;
+
+  if (!entries.length) {
+    return <div className="text-gray-500 text-center py-4">Aucune modification enregistrée</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={refetch}>Actualiser</Button>
+      </div>
+      <ol className="relative border-l border-gray-200 ml-2">
+        {entries.map((entry) => {
+          const changes = entry.changes.filter((c) => !HIDDEN_FIELDS.test(c.field));
+          return (
+            <li key={entry.AuditID} className="mb-6 ml-4">
+              <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white" />
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <time className="text-gray-500">
+                  {entry.timestamp ? entry.timestamp.toLocaleString('fr-FR') : 'En cours...'}
+                </time>
+                <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${ACTION_LABELS[entry.action].className}`}>
+                  {ACTION_LABELS[entry.action].label}
+                </span>
+                <span className="font-medium">{ENTITY_LABELS[entry.entity]}</span>
+                <span className="text-gray-500">par {entry.userEmail || entry.uid || 'inconnu'}</span>
+              </div>
+              {changes.length > 0 && (
+                <table className="mt-2 text-xs">
+                  <tbody>
+                    {changes.map((change) => (
+                      <tr key={change.field}>
+                        <td className="pr-3 py-0.5 font-medium text-gray-700">{change.field}</td>
+                        {entry.action !== 'create' && (
+                          <td className="pr-3 py-0.5 text-red-700 line-through">{formatAuditValue(change.before)}</td>
+                        )}
+                        {entry.action !== 'delete' && (
+                          <td className="py-0.5 text-green-700">{formatAuditValue(change.after)}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+// src/components/stations/StationStatusTimeline.tsx
+'use client';
+
+import React from 'react';
+import { StationStatut, StatusChange } from '@/types/station';
+import { formatDate } from '@/utils/format';
+
+interface StationStatusTimelineProps {
+  changes: StatusChange[];
+}
+
+export const STATUT_BADGE_CLASSES: Record<StationStatut, string> = {
+  'en projet': 'bg-yellow-100 text-yellow-800',
+  'en activité': 'bg-green-100 text-green-800',
+  'en arrêt': 'bg-red-100 text-red-800',
+  'archivé': 'bg-gray-200 text-gray-700',
+};
+
+export default function StationStatusTimeline({ changes }: StationStatusTimelineProps) {
+  if (!changes.length) {
+    return <div className="text-gray-500 text-center py-4">Aucun changement de statut enregistré</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {changes.map((change) => (
+        <li key={change.StatusChangeID} className="mb-6 ml-4">
+          <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{formatDate(change.DateEffet)}</span>
+            {change.StatutPrecedent && (
+              <>
+                <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUT_BADGE_CLASSES[change.StatutPrecedent]}`}>
+                  {change.StatutPrecedent}
+                </span>
+                <span className="text-gray-400">→</span>
+              </>
+            )}
+            <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUT_BADGE_CLASSES[change.Statut]}`}>
+              {change.Statut}
+            </span>
+          </div>
+          <p className="text-sm text-gray-700 mt-1">{change.Motif || '—'}</p>
+          <p className="text-xs text-gray-500">
+            par {change.userEmail || change.uid || 'inconnu'}
+            {change.DateSaisie && ` · saisi le ${formatDate(change.DateSaisie)}`}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
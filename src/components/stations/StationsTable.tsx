@@ -1,286 +1,198 @@
 // src\components\stations\StationsTable.tsx
 'use client';
 
-import React, { useMemo, useState, useEffect } from 'react';
-import { StationWithDetails } from '@/types/station';
+import React, { useMemo } from 'react';
+import { Station, StationView } from '@/types/station';
 import { SortConfig, FilterConfig } from '@/types/table';
 import TableHeader from './TableHeader';
 import TablePagination from './TablePagination';
-import { getProprietaireName } from '@/utils/format';
 import { formatDate } from '@/utils/format';
+import { getCapacite, isSortableStationColumn } from '@/utils/stationSearch';
+import { STATION_STATUTS } from '@/utils/stationStatus';
+import { useAuth } from '@/lib/auth/hooks';
+import { useMarques } from '@/hooks/ReferenceData/useMarques';
+import { useProvinces } from '@/hooks/ReferenceData/useProvinces';
+import { useCommunes } from '@/hooks/ReferenceData/useCommunes';
+import { OutboxStatus } from '@/types/outbox';
+import SyncStatusBadge from './SyncStatusBadge';
 
 export interface StationsTableProps {
-  stations: StationWithDetails[];
-  fullStations: StationWithDetails[];
+  stations: StationView[];
   filters: FilterConfig[];
   onFilterChange: (key: string, value: string) => void;
-  onEdit: (station: StationWithDetails) => void;
-  onDelete: (station: StationWithDetails) => void;
+  onEdit: (station: StationView) => void;
+  onDelete: (station: StationView) => void;
   sortConfig: SortConfig;
   onSortChange: (config: SortConfig) => void;
   currentPage: number;
-  totalPages: number;
+  totalPages: number | null; // Null when the number of matches is unknown
+  hasMore: boolean;
   onPageChange: (page: number) => void;
-  pageSize?: number;
   onRowDoubleClick: (stationId: string) => void;
-  onExport: (filteredStations: StationWithDetails[]) => void;
-  triggerExport: boolean;
+  loading?: boolean;
+  updatedIds?: Set<string>; // Rows changed since the page was loaded, in live mode
+  syncStates?: Map<string, OutboxStatus>; // Rows with an edit made offline and not sent yet
 }
 
-export const getCellValue = (station: StationWithDetails, key: string): string => {
-  switch (key) {
-    case 'Code':
-      return String(station.station.Code || '');
-    case 'NomStation':
-      return station.station.NomStation || '';
-    case 'Adresse':
-      return station.station.Adresse || '';
-    case 'NomCommune':
-      return station.commune?.NomCommune || '';
-    case 'NomProvince':
-      return station.province?.NomProvince || '';
-    case 'Marque':
-      return station.marque?.Marque || '';
-    case 'Gerant':
-      return safeFullName(station.gerant?.PrenomGerant, station.gerant?.NomGerant) || '';
-    case 'Proprietaire':
-      return getProprietaireName(station) || '';
-    case 'Type':
-      return station.station.Type || '';
-    case 'Statut':
-      return station.station.Statut || '';
-    case 'TypeGerance':
-      return station.station.TypeGerance || '';
-    case 'CapaciteSSP':
-      return String(
-        station.capacites
-          .filter(c => c.TypeCarburant === 'SSP')
-          .reduce((sum, c) => sum + (c.CapaciteLitres || 0), 0)
-      );
-    case 'CapaciteGasoil':
-      return String(
-        station.capacites
-          .filter(c => c.TypeCarburant === 'Gasoil')
-          .reduce((sum, c) => sum + (c.CapaciteLitres || 0), 0)
-      );
-    case 'NumeroCreation':
-      return station.creationAutorisation?.NumeroAutorisation || '';
-    case 'DateCreation':
-      return station.creationAutorisation?.DateAutorisation
-        ? formatDate(station.creationAutorisation.DateAutorisation)
-        : '';
-    case 'NumeroMiseEnService':
-      return station.miseEnServiceAutorisation?.NumeroAutorisation || '';
-    case 'DateMiseEnService':
-      return station.miseEnServiceAutorisation?.DateAutorisation
-        ? formatDate(station.miseEnServiceAutorisation.DateAutorisation)
-        : '';
-    case 'Commentaire':
-      return station.station.Commentaires || '';
-    case 'NombreVolucompteur':
-      return String(station.station.NombreVolucompteur ?? '');
-    case 'Latitude':
-      return String(station.station.Latitude || '');
-    case 'Longitude':
-      return String(station.station.Longitude || '');
-    default:
-      return '';
-  }
-};
+const TYPES: Station['Type'][] = ['remplissage', 'service'];
+const TYPES_GERANCE: Station['TypeGerance'][] = ['libre', 'direct', 'partenariat'];
 
-function safeFullName(first?: string, last?: string) {
-  return `${first || ''} ${last || ''}`.trim() || '-';
+function sortedNames(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b));
 }
 
 export default function StationsTable({
   stations,
-  fullStations,
   filters,
   onFilterChange,
   onEdit,
-  onDelete,
   sortConfig,
   onSortChange,
   currentPage,
   totalPages,
+  hasMore,
   onPageChange,
-  pageSize = 7,
   onRowDoubleClick,
-  onExport,
-  triggerExport,
+  loading,
+  updatedIds,
+  syncStates,
 }: StationsTableProps) {
-  const filterValues = useMemo(() => {
-    // Start with the filtered stations based on current filters
-    let filteredStations = fullStations;
-
-    // Apply existing filters to get dependent values
-    filters.forEach(filter => {
-      filteredStations = filteredStations.filter(station => {
-        const value = getCellValue(station, filter.key).toLowerCase();
-        const filterValues = filter.value.toLowerCase().split('|');
-        return filterValues.some(filterValue => value.includes(filterValue));
-      });
-    });
-
-    return {
-      Code: [...new Set(filteredStations.map(s => String(s.station.Code || '')))].sort(),
-      NomStation: [...new Set(filteredStations.map(s => s.station.NomStation || ''))].sort(),
-      Adresse: [...new Set(filteredStations.map(s => s.station.Adresse || ''))].sort(),
-      NomCommune: [...new Set(filteredStations.map(s => s.commune?.NomCommune || ''))].sort(),
-      NomProvince: [...new Set(filteredStations.map(s => s.province?.NomProvince || ''))].sort(),
-      Marque: [...new Set(filteredStations.map(s => s.marque?.Marque || ''))].sort(),
-      Gerant: [...new Set(filteredStations.map(s => 
-        safeFullName(s.gerant?.PrenomGerant, s.gerant?.NomGerant) || ''
-      ))].sort(),
-      Proprietaire: [...new Set(filteredStations.map(s => getProprietaireName(s) || ''))].sort(),
-      Type: [...new Set(filteredStations.map(s => s.station.Type || ''))].sort(),
-      Statut: [...new Set(filteredStations.map(s => s.station.Statut || ''))].sort(),
-      TypeGerance: [...new Set(filteredStations.map(s => s.station?.TypeGerance || ''))].sort(),
-      CapaciteSSP: [...new Set(filteredStations.map(s => 
-        String(s.capacites
-          .filter(c => c.TypeCarburant === 'SSP')
-          .reduce((sum, c) => sum + (c.CapaciteLitres || 0), 0))
-      ))].sort(),
-      CapaciteGasoil: [...new Set(filteredStations.map(s => 
-        String(s.capacites
-          .filter(c => c.TypeCarburant === 'Gasoil')
-          .reduce((sum, c) => sum + (c.CapaciteLitres || 0), 0))
-      ))].sort(),
-      NumeroCreation: [...new Set(filteredStations.map(s => 
-        s.creationAutorisation?.NumeroAutorisation || ''
-      ))].sort(),
-      DateCreation: [...new Set(filteredStations.map(s => 
-        s.creationAutorisation?.DateAutorisation ? 
-          formatDate(s.creationAutorisation.DateAutorisation) : ''
-      ))].sort(),
-      NumeroMiseEnService: [...new Set(filteredStations.map(s => 
-        s.miseEnServiceAutorisation?.NumeroAutorisation || ''
-      ))].sort(),
-      DateMiseEnService: [...new Set(filteredStations.map(s => 
-        s.miseEnServiceAutorisation?.DateAutorisation ? 
-          formatDate(s.miseEnServiceAutorisation.DateAutorisation) : ''
-      ))].sort(),
-      Commentaire: [...new Set(filteredStations.map(s => s.station.Commentaires || ''))].sort(),
-      NombreVolucompteur: [...new Set(filteredStations.map(s => 
-        String(s.station.NombreVolucompteur ?? '')
-      ))].sort(),
-      Latitude: [...new Set(filteredStations.map(s => String(s.station.Latitude || '')))].sort(),
-      Longitude: [...new Set(filteredStations.map(s => String(s.station.Longitude || '')))].sort(),
-    };
-  }, [fullStations, filters]); // Add filters as dependency
+  const { can } = useAuth();
+  const { marques } = useMarques();
+  const { provinces } = useProvinces();
+  const { communes } = useCommunes();
 
   const getFilterValue = (key: string) => {
     return filters.find(filter => filter.key === key)?.value || '';
   };
 
-  const sortedStations = stations;
-  const startIndex = (currentPage - 1) * pageSize;
-  const endIndex = startIndex + pageSize;
-  const visible = sortedStations.slice(startIndex, endIndex);
-
-  const actualCurrentPage = currentPage;
-  const actualTotalPages = totalPages;
+  // Filter choices come from the reference data, the table only holds the current page
+  const selectedProvinces = getFilterValue('NomProvince');
+  const filterValues = useMemo(() => {
+    const provinceIds = new Set(
+      provinces.filter(p => selectedProvinces.split('|').includes(p.NomProvince)).map(p => p.ProvinceID)
+    );
+    return {
+      Marque: sortedNames(marques.map(m => m.Marque)),
+      NomProvince: sortedNames(provinces.map(p => p.NomProvince)),
+      // Communes of the selected provinces only
+      NomCommune: sortedNames(
+        communes.filter(c => provinceIds.size === 0 || provinceIds.has(c.ProvinceID)).map(c => c.NomCommune)
+      ),
+      Type: TYPES,
+      Statut: STATION_STATUTS,
+      TypeGerance: TYPES_GERANCE,
+    };
+  }, [marques, provinces, communes, selectedProvinces]);
 
-  useEffect(() => {
-    if (triggerExport) {
-      onExport(sortedStations);
-    }
-  }, [triggerExport, onExport, sortedStations]);
+  const header = (label: string, sortKey: string, options: { filterable?: boolean; width?: string } = {}) => (
+    <TableHeader
+      label={label}
+      sortKey={sortKey}
+      sortConfig={sortConfig}
+      onSortChange={onSortChange}
+      sortable={isSortableStationColumn(sortKey)}
+      filterValues={options.filterable ? filterValues[sortKey as keyof typeof filterValues] : undefined}
+      selectedFilterValue={options.filterable ? getFilterValue(sortKey) : undefined}
+      onFilterChange={options.filterable ? onFilterChange : undefined}
+      width={options.width}
+    />
+  );
 
-  if (visible.length === 0) {
+  if (stations.length === 0) {
     return null;
   }
 
   return (
     <div className="bg-white rounded-lg border overflow-hidden">
-      <div className="overflow-x-auto">
+      <div className={`overflow-x-auto ${loading ? 'opacity-60' : ''}`}>
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
-              <TableHeader label="Code" sortKey="Code" sortConfig={sortConfig} onSortChange={onSortChange} width="80px" />
-              <TableHeader label="Marque" sortKey="Marque" sortConfig={sortConfig} onSortChange={onSortChange} filterValues={filterValues.Marque} selectedFilterValue={getFilterValue('Marque')} onFilterChange={onFilterChange} />
-              <TableHeader label="Nom Station" sortKey="NomStation" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Propriétaire" sortKey="Proprietaire" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Gérant" sortKey="Gerant" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Adresse" sortKey="Adresse" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Province" sortKey="NomProvince" sortConfig={sortConfig} onSortChange={onSortChange} filterValues={filterValues.NomProvince} selectedFilterValue={getFilterValue('NomProvince')} onFilterChange={onFilterChange} />
-              <TableHeader label="Commune" sortKey="NomCommune" sortConfig={sortConfig} onSortChange={onSortChange} filterValues={filterValues.NomCommune} selectedFilterValue={getFilterValue('NomCommune')} onFilterChange={onFilterChange} />
-              <TableHeader label="Latitude" sortKey="Latitude" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Longitude" sortKey="Longitude" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Type" sortKey="Type" sortConfig={sortConfig} onSortChange={onSortChange} filterValues={filterValues.Type} selectedFilterValue={getFilterValue('Type')} onFilterChange={onFilterChange} />
-              <TableHeader label="Cap SSP" sortKey="CapaciteSSP" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Cap Gasoil" sortKey="CapaciteGasoil" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Statut" sortKey="Statut" sortConfig={sortConfig} onSortChange={onSortChange} filterValues={filterValues.Statut} selectedFilterValue={getFilterValue('Statut')} onFilterChange={onFilterChange} />
-              <TableHeader label="Gérance" sortKey="TypeGerance" sortConfig={sortConfig} onSortChange={onSortChange} filterValues={filterValues.TypeGerance} selectedFilterValue={getFilterValue('TypeGerance')} onFilterChange={onFilterChange} />
-              <TableHeader label="N° Création" sortKey="NumeroCreation" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Date Création" sortKey="DateCreation" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="N° MES" sortKey="NumeroMiseEnService" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Date MES" sortKey="DateMiseEnService" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Commentaire" sortKey="Commentaire" sortConfig={sortConfig} onSortChange={onSortChange} />
-              <TableHeader label="Nombre de Volucompteur" sortKey="NombreVolucompteur" sortConfig={sortConfig} onSortChange={onSortChange} />
+              {header('Code', 'Code', { width: '80px' })}
+              {header('Marque', 'Marque', { filterable: true })}
+              {header('Nom Station', 'NomStation')}
+              {header('Propriétaire', 'Proprietaire')}
+              {header('Gérant', 'Gerant')}
+              {header('Adresse', 'Adresse')}
+              {header('Province', 'NomProvince', { filterable: true })}
+              {header('Commune', 'NomCommune', { filterable: true })}
+              {header('Latitude', 'Latitude')}
+              {header('Longitude', 'Longitude')}
+              {header('Type', 'Type', { filterable: true })}
+              {header('Cap SSP', 'CapaciteSSP')}
+              {header('Cap Gasoil', 'CapaciteGasoil')}
+              {header('Statut', 'Statut', { filterable: true })}
+              {header('Gérance', 'TypeGerance', { filterable: true })}
+              {header('N° Création', 'NumeroCreation')}
+              {header('Date Création', 'DateCreation')}
+              {header('N° MES', 'NumeroMiseEnService')}
+              {header('Date MES', 'DateMiseEnService')}
+              {header('Commentaire', 'Commentaire')}
+              {header('Nombre de Volucompteur', 'NombreVolucompteur')}
               <th className="px-4 py-3 w-24 sticky top-0 bg-gray-50"></th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
-            {visible.map((s) => {
-              const capSSP = s.capacites.filter(c => c.TypeCarburant === 'SSP').reduce((sum, c) => sum + (c.CapaciteLitres || 0), 0) || '-';
-              const capGasoil = s.capacites.filter(c => c.TypeCarburant === 'Gasoil').reduce((sum, c) => sum + (c.CapaciteLitres || 0), 0) || '-';
+            {stations.map((s) => {
+              const capSSP = getCapacite(s, 'SSP') || '-';
+              const capGasoil = getCapacite(s, 'Gasoil') || '-';
+              const updated = updatedIds?.has(s.StationID);
+              const syncStatus = syncStates?.get(s.StationID);
 
               return (
                 <tr
-                  key={s.station.StationID}
-                  className="hover:bg-gray-50 cursor-pointer"
-                  onDoubleClick={() => onRowDoubleClick(s.station.StationID)}
+                  key={s.StationID}
+                  className={`cursor-pointer transition-colors ${updated ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}`}
+                  onDoubleClick={() => onRowDoubleClick(s.StationID)}
                 >
-                  <td className="px-4 py-3 truncate" title={s.station.Code?.toString()}>
-                    <div className="text-sm text-gray-900">{s.station.Code || '-'}</div>
+                  <td className="px-4 py-3 truncate" title={s.Code?.toString()}>
+                    <div className="text-sm text-gray-900">{s.Code || '-'}</div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.marque?.Marque}>{s.marque?.Marque || '-'}</div>
-                    {s.marque?.RaisonSociale && (
-                      <div className="text-xs text-gray-500 truncate" title={s.marque.RaisonSociale}>{s.marque.RaisonSociale}</div>
+                    <div className="text-sm text-gray-900 truncate" title={s.Marque}>{s.Marque || '-'}</div>
+                    {s.RaisonSociale && (
+                      <div className="text-xs text-gray-500 truncate" title={s.RaisonSociale}>{s.RaisonSociale}</div>
                     )}
                   </td>
                   <td className="px-4 py-3">
-                    <div className="font-medium text-gray-900 truncate" title={s.station.NomStation}>{s.station.NomStation || '-'}</div>
+                    <div className="font-medium text-gray-900 truncate" title={s.NomStation}>{s.NomStation || '-'}</div>
+                    {updated && <div className="text-xs text-amber-700">mis à jour</div>}
+                    {syncStatus && <SyncStatusBadge status={syncStatus} />}
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={getProprietaireName(s)}>{getProprietaireName(s)}</div>
+                    <div className="text-sm text-gray-900 truncate" title={s.Proprietaire}>{s.Proprietaire || 'N/A'}</div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate">
-                      {safeFullName(s.gerant?.PrenomGerant, s.gerant?.NomGerant)}
+                    <div className="text-sm text-gray-900 truncate">{s.Gerant || '-'}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {s.CINGerant || '-'}
+                      <br />
+                      {s.Telephone || '-'}
                     </div>
-                    {s.gerant && (
-                      <div className="text-xs text-gray-500 truncate">
-                        {[s.gerant.CINGerant].filter(Boolean) || '-'}
-                        <br />
-                        {[s.gerant.Telephone].filter(Boolean) || '-'}
-                      </div>
-                    )}
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.station.Adresse}>{s.station.Adresse || '-'}</div>
+                    <div className="text-sm text-gray-900 truncate" title={s.Adresse}>{s.Adresse || '-'}</div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.province?.NomProvince}>{s.province?.NomProvince || '-'}</div>
+                    <div className="text-sm text-gray-900 truncate" title={s.NomProvince}>{s.NomProvince || '-'}</div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.commune?.NomCommune}>{s.commune?.NomCommune || '-'}</div>
+                    <div className="text-sm text-gray-900 truncate" title={s.NomCommune}>{s.NomCommune || '-'}</div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.station.Latitude?.toString()}>{s.station.Latitude || '-'}</div>
+                    <div className="text-sm text-gray-900 truncate" title={s.Latitude?.toString()}>{s.Latitude || '-'}</div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.station.Longitude?.toString()}>{s.station.Longitude || '-'}</div>
+                    <div className="text-sm text-gray-900 truncate" title={s.Longitude?.toString()}>{s.Longitude || '-'}</div>
                   </td>
                   <td className="px-4 py-3">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                      s.station.Type === 'service'
+                      s.Type === 'service'
                         ? 'bg-green-100 text-green-800'
                         : 'bg-blue-100 text-blue-800'
                     }`}>
-                      {s.station.Type}
+                      {s.Type}
                     </span>
                   </td>
                   <td className="px-4 py-3">
@@ -290,50 +202,52 @@ export default function StationsTable({
                     <div className="text-sm text-gray-900">{capGasoil}</div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.station.Statut}>{s.station.Statut || '-'}</div>
+                    <div className="text-sm text-gray-900 truncate" title={s.Statut}>{s.Statut || '-'}</div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.station.TypeGerance}>
-                      {s.station.TypeGerance || '-'}
+                    <div className="text-sm text-gray-900 truncate" title={s.TypeGerance}>
+                      {s.TypeGerance || '-'}
                     </div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.creationAutorisation?.NumeroAutorisation}>
-                      {s.creationAutorisation?.NumeroAutorisation || '-'}
+                    <div className="text-sm text-gray-900 truncate" title={s.NumeroCreation}>
+                      {s.NumeroCreation || '-'}
                     </div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.creationAutorisation?.DateAutorisation ? formatDate(s.creationAutorisation.DateAutorisation) : '-'}>
-                      {s.creationAutorisation?.DateAutorisation ? formatDate(s.creationAutorisation.DateAutorisation) : '-'}
+                    <div className="text-sm text-gray-900 truncate" title={s.DateCreation ? formatDate(s.DateCreation) : '-'}>
+                      {s.DateCreation ? formatDate(s.DateCreation) : '-'}
                     </div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.miseEnServiceAutorisation?.NumeroAutorisation}>
-                      {s.miseEnServiceAutorisation?.NumeroAutorisation || '-'}
+                    <div className="text-sm text-gray-900 truncate" title={s.NumeroMiseEnService}>
+                      {s.NumeroMiseEnService || '-'}
                     </div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.miseEnServiceAutorisation?.DateAutorisation ? formatDate(s.miseEnServiceAutorisation.DateAutorisation) : '-'}>
-                      {s.miseEnServiceAutorisation?.DateAutorisation ? formatDate(s.miseEnServiceAutorisation.DateAutorisation) : '-'}
+                    <div className="text-sm text-gray-900 truncate" title={s.DateMiseEnService ? formatDate(s.DateMiseEnService) : '-'}>
+                      {s.DateMiseEnService ? formatDate(s.DateMiseEnService) : '-'}
                     </div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={s.station.Commentaires}>
-                      {s.station.Commentaires || '-'}
+                    <div className="text-sm text-gray-900 truncate" title={s.Commentaires}>
+                      {s.Commentaires || '-'}
                     </div>
                   </td>
                   <td className="px-4 py-3">
-                    <div className="text-sm text-gray-900 truncate" title={String(s.station.NombreVolucompteur ?? '-')}>
-                      {s.station.NombreVolucompteur ?? '-'}
+                    <div className="text-sm text-gray-900 truncate" title={String(s.NombreVolucompteur ?? '-')}>
+                      {s.NombreVolucompteur ?? '-'}
                     </div>
                   </td>
                   <td className="px-4 py-3 text-right">
-                    <button
-                      onClick={() => onEdit(s)}
-                      className="text-blue-600 hover:text-blue-900 text-sm font-medium"
-                    >
-                      Modifier
-                    </button>
+                    {can('station:update') && (
+                      <button
+                        onClick={() => onEdit(s)}
+                        className="text-blue-600 hover:text-blue-900 text-sm font-medium"
+                      >
+                        Modifier
+                      </button>
+                    )}
                   </td>
                 </tr>
               );
@@ -341,15 +255,15 @@ export default function StationsTable({
           </tbody>
         </table>
       </div>
-      {visible.length > 0 && (
-        <div className="px-4 py-3 border-t border-gray-200">
-          <TablePagination
-            currentPage={actualCurrentPage}
-            totalPages={actualTotalPages}
-            onPageChange={onPageChange}
-          />
-        </div>
-      )}
+      <div className="px-4 py-3 border-t border-gray-200">
+        <TablePagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          hasMore={hasMore}
+          onPageChange={onPageChange}
+          disabled={loading}
+        />
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
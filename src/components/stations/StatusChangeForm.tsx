@@ -0,0 +1,94 @@
+// src/components/stations/StatusChangeForm.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { StationStatut } from '@/types/station';
+import { useArchiveStation } from '@/hooks/stations/useArchiveStation';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { formatDateForInput, parseDateString } from '@/utils/format';
+import { getStatusTransitionError, STATUS_TRANSITIONS } from '@/utils/stationStatus';
+
+interface StatusChangeFormProps {
+  stationId: string;
+  currentStatut: StationStatut;
+  hasMiseEnService: boolean;
+  onSaved?: () => void;
+  onCancel?: () => void;
+}
+
+export default function StatusChangeForm({ stationId, currentStatut, hasMiseEnService, onSaved, onCancel }: StatusChangeFormProps) {
+  const { changeStationStatus, loading, error } = useArchiveStation();
+  const targets = STATUS_TRANSITIONS[currentStatut];
+  const [statut, setStatut] = useState<StationStatut>(targets[0]);
+  const [dateEffet, setDateEffet] = useState(formatDateForInput(new Date()));
+  const [motif, setMotif] = useState('');
+
+  const transitionError = getStatusTransitionError(currentStatut, statut, { hasMiseEnService });
+  const parsedDate = parseDateString(dateEffet);
+  const dateError = !parsedDate ? 'Date invalide (JJ/MM/AAAA)' : parsedDate > new Date() ? 'La date ne peut pas être dans le futur' : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (transitionError || dateError || !motif.trim()) return;
+    try {
+      await changeStationStatus(stationId, statut, { reason: motif, effectiveDate: parsedDate });
+      onSaved?.();
+    } catch (err) {
+      console.error('Failed to change station status:', err);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-gray-900">
+      <h2 className="text-lg font-medium text-gray-900">Changer le statut</h2>
+      <p className="text-sm text-gray-600">Statut actuel : <span className="font-medium">{currentStatut}</span></p>
+      {error && <ErrorMessage message={error} />}
+
+      <div className="flex flex-col">
+        <label className="text-sm font-medium text-gray-900 mb-1">Nouveau statut</label>
+        <select
+          value={statut}
+          onChange={(e) => setStatut(e.target.value as StationStatut)}
+          className="border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {targets.map((s) => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+        {transitionError && <p className="mt-1 text-sm text-red-600">{transitionError}</p>}
+      </div>
+
+      <Input
+        label="Date d'effet (dd/mm/yyyy)"
+        type="text"
+        value={dateEffet}
+        onChange={(e) => setDateEffet(e.target.value)}
+        placeholder="JJ/MM/AAAA"
+        error={dateError}
+        required
+      />
+
+      <Textarea
+        label="Motif"
+        value={motif}
+        onChange={(e) => setMotif(e.target.value)}
+        placeholder="Ex: Fermeture pour travaux de mise en conformité"
+        required
+      />
+
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Annuler
+          </Button>
+        )}
+        <Button type="submit" disabled={loading || !!transitionError || !!dateError || !motif.trim()}>
+          {loading ? 'Enregistrement...' : 'Enregistrer'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,151 @@
+// src/components/stations/SuiteDossierForm.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { DossierNonConformite, StationStatut, TypeSuiteDossier } from '@/types/station';
+import { useDossierCRUD } from '@/hooks/useStationData/useDossierCRUD';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { formatDateForInput, parseDateString } from '@/utils/format';
+import { STATUS_TRANSITIONS } from '@/utils/stationStatus';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+interface SuiteDossierFormProps {
+  dossier: DossierNonConformite;
+  currentStatut: StationStatut;
+  onSaved?: () => void;
+  onCancel?: () => void;
+}
+
+export default function SuiteDossierForm({ dossier, currentStatut, onSaved, onCancel }: SuiteDossierFormProps) {
+  const { addSuite, loading, error } = useDossierCRUD();
+  const [type, setType] = useState<TypeSuiteDossier>('avertissement');
+  const [dateDecision, setDateDecision] = useState(formatDateForInput(new Date()));
+  const [dateEcheance, setDateEcheance] = useState('');
+  const [montant, setMontant] = useState('');
+  const [commentaire, setCommentaire] = useState('');
+  const [statutStation, setStatutStation] = useState<StationStatut | ''>('');
+
+  const statutOptions = STATUS_TRANSITIONS[currentStatut].filter((s) => s !== 'archivé');
+  const parsedDecision = parseDateString(dateDecision);
+  const parsedEcheance = dateEcheance ? parseDateString(dateEcheance) : null;
+  const montantValue = montant.trim() ? Number(montant.replace(',', '.')) : null;
+
+  const errors = {
+    dateDecision: !parsedDecision ? 'Date invalide (JJ/MM/AAAA)' : undefined,
+    dateEcheance: dateEcheance && !parsedEcheance ? 'Date invalide (JJ/MM/AAAA)' : undefined,
+    montant: type === 'amende' && (montantValue === null || Number.isNaN(montantValue) || montantValue <= 0)
+      ? 'Montant requis pour une amende'
+      : undefined,
+  };
+  const isValid = !errors.dateDecision && !errors.dateEcheance && !errors.montant;
+
+  const handleTypeChange = (value: TypeSuiteDossier) => {
+    setType(value);
+    // A temporary closure stops the station unless told otherwise
+    if (value === 'fermeture temporaire' && statutOptions.includes('en arrêt')) setStatutStation('en arrêt');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    try {
+      await addSuite(dossier, {
+        Type: type,
+        DateDecision: parsedDecision,
+        DateEcheance: parsedEcheance,
+        Montant: type === 'amende' ? montantValue : null,
+        Commentaire: commentaire,
+        StatutStation: statutStation || null,
+        Realisee: false,
+      });
+      onSaved?.();
+    } catch (err) {
+      console.error('Failed to add suite:', err);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-gray-900">
+      <h2 className="text-lg font-medium text-gray-900">Nouvelle décision</h2>
+      <p className="text-sm text-gray-600">{dossier.Motif}</p>
+      {error && <ErrorMessage message={error} />}
+
+      <div className="flex flex-col">
+        <label className="text-sm font-medium text-gray-900 mb-1">Type</label>
+        <select
+          value={type}
+          onChange={(e) => handleTypeChange(e.target.value as TypeSuiteDossier)}
+          className="border border-gray-300 rounded-md px-3 py-2"
+        >
+          {APP_CONSTANTS.DOSSIERS.TYPES_SUITE.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Date de la décision (dd/mm/yyyy)"
+          value={dateDecision}
+          onChange={(e) => setDateDecision(e.target.value)}
+          placeholder="JJ/MM/AAAA"
+          error={errors.dateDecision}
+          required
+        />
+        <Input
+          label="Échéance (dd/mm/yyyy)"
+          value={dateEcheance}
+          onChange={(e) => setDateEcheance(e.target.value)}
+          placeholder="JJ/MM/AAAA"
+          error={errors.dateEcheance}
+        />
+      </div>
+
+      {type === 'amende' && (
+        <Input
+          label="Montant (MAD)"
+          inputMode="decimal"
+          value={montant}
+          onChange={(e) => setMontant(e.target.value)}
+          error={montant ? errors.montant : undefined}
+          required
+        />
+      )}
+
+      <div className="flex flex-col">
+        <label className="text-sm font-medium text-gray-900 mb-1">Statut de la station</label>
+        <select
+          value={statutStation}
+          onChange={(e) => setStatutStation(e.target.value as StationStatut | '')}
+          className="border border-gray-300 rounded-md px-3 py-2"
+        >
+          <option value="">Inchangé ({currentStatut})</option>
+          {statutOptions.map((s) => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+      </div>
+
+      <Textarea
+        label="Commentaire"
+        value={commentaire}
+        onChange={(e) => setCommentaire(e.target.value)}
+        placeholder="Ex: Lettre d'avertissement n° ..."
+      />
+
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Annuler
+          </Button>
+        )}
+        <Button type="submit" disabled={loading || !isValid}>
+          {loading ? 'Enregistrement...' : 'Enregistrer'}
+        </Button>
+      </div>
+    </form>
+  );
+}
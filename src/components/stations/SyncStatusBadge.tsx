@@ -0,0 +1,19 @@
+// src/components/stations/SyncStatusBadge.tsx
+import { OutboxStatus } from '@/types/outbox';
+
+const LABELS: Record<OutboxStatus, { label: string; className: string }> = {
+  pending: { label: 'en attente de synchronisation', className: 'bg-gray-100 text-gray-700' },
+  conflict: { label: 'conflit de synchronisation', className: 'bg-amber-100 text-amber-800' },
+  failed: { label: 'échec de synchronisation', className: 'bg-red-100 text-red-800' },
+};
+
+// Shown on the rows that have an edit made offline and not sent yet
+export default function SyncStatusBadge({ status }: { status?: OutboxStatus }) {
+  if (!status) return null;
+  const { label, className } = LABELS[status];
+  return (
+    <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${className}`}>
+      {label}
+    </span>
+  );
+}
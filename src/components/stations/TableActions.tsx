@@ -1,18 +1,23 @@
 // src/components/stations/TableActions.tsx
 'use client';
 
-import { SearchInput, Button } from '@/components/ui';
-import { RefreshCcw, FileSpreadsheet } from 'lucide-react';
+import { SearchInput, Button, Checkbox } from '@/components/ui';
+import { RefreshCcw, FileSpreadsheet, Upload } from 'lucide-react';
 import { MultiSelectYearDropdown } from '@/components/stations/AnalyseFilter';
+import { useAuth } from '@/lib/auth/hooks';
+import { CoordinateFormat } from '@/utils/lambert';
 
 interface TableActionsProps {
   onAddNew: () => void;
+  onImport: () => void;
   searchQuery: string;
   onSearchChange: (value: string) => void;
-  totalStations: number;
+  totalStations: number | null; // Null while unknown, e.g. when part of the filters is checked page by page
   onRefresh: () => void;
   onExport: () => void;
   isExporting: boolean;
+  exportCoordinates: CoordinateFormat;
+  onExportCoordinatesChange: (format: CoordinateFormat) => void;
   analysisStatus: 'all' | 'analysed' | 'not-analysed';
   onAnalysisStatusChange: (status: 'all' | 'analysed' | 'not-analysed') => void;
   analysisYear: number[];
@@ -20,6 +25,8 @@ interface TableActionsProps {
   years: number[];
   analysesLoading?: boolean;
   onResetAllFilters: () => void;
+  live: boolean;
+  onLiveChange: (live: boolean) => void;
 }
 
 const generateYearRange = (start: number, end: number): number[] => {
@@ -32,12 +39,15 @@ const generateYearRange = (start: number, end: number): number[] => {
 
 export default function TableActions({
   onAddNew,
+  onImport,
   searchQuery,
   onSearchChange,
   totalStations,
   onRefresh,
   onExport,
   isExporting,
+  exportCoordinates,
+  onExportCoordinatesChange,
   analysisStatus,
   onAnalysisStatusChange,
   analysisYear,
@@ -45,7 +55,11 @@ export default function TableActions({
   years,
   analysesLoading,
   onResetAllFilters,
+  live,
+  onLiveChange,
 }: TableActionsProps) {
+  const { can } = useAuth();
+
   // Compute year options based on a given status
   const computeYearOptions = (status: 'all' | 'analysed' | 'not-analysed') => {
     if (status === 'analysed') {
@@ -88,13 +102,15 @@ export default function TableActions({
   return (
     <div className="flex flex-wrap items-center justify-between gap-4 bg-white p-4 rounded-lg border">
       <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto min-w-0">
-        <Button 
-          onClick={onAddNew}
-          variant="default" 
-          className="min-w-[150px] bg-black hover:bg-gray-800"
-        >
-          Ajouter une station
-        </Button>
+        {can('station:create') && (
+          <Button 
+            onClick={onAddNew}
+            variant="default" 
+            className="min-w-[150px] bg-black hover:bg-gray-800"
+          >
+            Ajouter une station
+          </Button>
+        )}
         <Button
           onClick={onExport}
           disabled={isExporting}
@@ -103,6 +119,26 @@ export default function TableActions({
           <FileSpreadsheet className="w-4 h-4" />
           {isExporting ? 'Exportation...' : 'Exporter le tableau'}
         </Button>
+        <select
+          value={exportCoordinates}
+          onChange={(e) => onExportCoordinatesChange(e.target.value as CoordinateFormat)}
+          className="px-3 py-1.5 border rounded text-sm"
+          aria-label="Coordonnées exportées"
+          title="Coordonnées exportées"
+        >
+          <option value="wgs84">GPS (WGS84)</option>
+          <option value="lambert">Lambert</option>
+        </select>
+        {can('station:import') && (
+          <Button
+            onClick={onImport}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Importer
+          </Button>
+        )}
         <Button
           onClick={onResetAllFilters}
           variant="secondary"
@@ -154,9 +190,14 @@ export default function TableActions({
           placeholder="Rechercher une station..."
           className="min-w-[180px]"
         />
-        <div className="text-sm text-gray-500 whitespace-nowrap">
-          {totalStations} station{totalStations !== 1 ? 's' : ''}
-        </div>
+        <Checkbox id="stations-live" checked={live} onCheckedChange={onLiveChange}>
+          Temps réel
+        </Checkbox>
+        {totalStations !== null && (
+          <div className="text-sm text-gray-500 whitespace-nowrap">
+            {totalStations} station{totalStations !== 1 ? 's' : ''}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -10,6 +10,7 @@ interface TableHeaderProps {
   sortKey: string;
   sortConfig: SortConfig;
   onSortChange: (config: SortConfig) => void;
+  sortable?: boolean; // False for columns the server cannot order by
   filterValues?: string[];
   selectedFilterValue?: string;
   onFilterChange?: (key: string, value: string) => void;
@@ -21,6 +22,7 @@ export default function TableHeader({
   sortKey,
   sortConfig,
   onSortChange,
+  sortable = true,
   filterValues = [],
   selectedFilterValue,
   onFilterChange,
@@ -80,6 +82,7 @@ export default function TableHeader({
   const direction = sortConfig.direction === 'asc' ? '▲' : '▼';
 
   const handleSortClick = () => {
+    if (!sortable) return;
     onSortChange({
       key: sortKey,
       direction: isSorted && sortConfig.direction === 'asc' ? 'desc' : 'asc',
@@ -93,7 +96,7 @@ export default function TableHeader({
 
   return (
     <th
-      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer group sticky top-0 z-10 bg-gray-50"
+      className={`px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider group sticky top-0 z-10 bg-gray-50 ${sortable ? 'cursor-pointer' : ''}`}
       onClick={handleSortClick}
       style={{ width: width }}
     >
@@ -4,14 +4,18 @@
 export default function TablePagination({
   currentPage,
   totalPages,
+  hasMore,
   onPageChange,
+  disabled,
 }: {
   currentPage: number;
-  totalPages: number;
+  totalPages: number | null; // Null when only whether a next page exists is known
+  hasMore?: boolean;
   onPageChange: (page: number) => void;
+  disabled?: boolean;
 }) {
-  const canPrev = currentPage > 1;
-  const canNext = currentPage < totalPages;
+  const canPrev = !disabled && currentPage > 1;
+  const canNext = !disabled && (hasMore ?? (totalPages !== null && currentPage < totalPages));
 
   return (
     <div className="flex items-center justify-center gap-3">
@@ -23,7 +27,7 @@ export default function TablePagination({
         Précédent
       </button>
       <span className="text-sm">
-        Page {currentPage} / {Math.max(totalPages, 1)}
+        Page {currentPage}{totalPages !== null && ` / ${Math.max(totalPages, 1)}`}
       </span>
       <button
         className="px-3 py-1 border rounded disabled:opacity-50"
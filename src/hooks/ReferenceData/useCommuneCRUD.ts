@@ -1,9 +1,13 @@
 import { useCallback, useState } from 'react';
-import { doc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { doc, getDoc, writeBatch } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { Commune } from '@/types/station';
 import { generateUUID } from '@/utils/uuid';
 import { invalidateReferenceData } from '@/lib/referenceCache';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { reassignReferences } from '@/lib/firebase/referenceUsage';
+import { markStationViewsStale, syncStationViewsByReference } from '@/lib/firebase/stationViews';
+import { invalidateStationsCache } from '@/hooks/stations/useStations';
 
 const COLLECTIONS = {
   COMMUNES: 'communes',
@@ -22,7 +26,10 @@ export function useCommuneCRUD() {
         CommuneID: communeId,
         ...data
       };
-      await setDoc(doc(db, COLLECTIONS.COMMUNES, communeId), payload);
+      const batch = writeBatch(db);
+      batch.set(doc(db, COLLECTIONS.COMMUNES, communeId), payload);
+      addAuditEntry(batch, { entity: 'commune', entityId: communeId, action: 'create', after: payload });
+      await batch.commit();
       invalidateReferenceData('communes:');
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
@@ -39,8 +46,15 @@ export function useCommuneCRUD() {
     try {
       const payload = { ...data };
       delete payload.CommuneID; // Remove ID from update payload
-      await updateDoc(doc(db, COLLECTIONS.COMMUNES, id), payload);
+      const ref = doc(db, COLLECTIONS.COMMUNES, id);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'commune', entityId: id, action: 'update', before, after: { ...before, ...payload } });
+      markStationViewsStale(batch, 'commune', [id]);
+      await batch.commit();
       invalidateReferenceData('communes:');
+      await syncStationViewsByReference({ commune: [id] });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to update commune: ${message}`);
@@ -50,12 +64,23 @@ export function useCommuneCRUD() {
     }
   }, []);
 
-  const deleteCommune = useCallback(async (id: string) => {
+  const deleteCommune = useCallback(async (id: string, reassignTo?: string) => {
     setLoading(true);
     setError(null);
     try {
-      await deleteDoc(doc(db, COLLECTIONS.COMMUNES, id));
+      const ref = doc(db, COLLECTIONS.COMMUNES, id);
+      const before = (await getDoc(ref)).data();
+      const moved = await reassignReferences('commune', id, reassignTo);
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'commune', entityId: id, action: 'delete', before });
+      if (moved > 0) markStationViewsStale(batch, 'commune', [id]);
+      await batch.commit();
       invalidateReferenceData('communes:');
+      if (moved > 0) {
+        invalidateStationsCache();
+        await syncStationViewsByReference({ commune: [id] });
+      }
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to delete commune: ${message}`);
@@ -1,9 +1,13 @@
 import { useCallback, useState } from 'react';
-import { doc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { doc, getDoc, writeBatch } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { Gerant } from '@/types/station';
 import { generateUUID } from '@/utils/uuid';
 import { invalidateReferenceData } from '@/lib/referenceCache';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { reassignReferences } from '@/lib/firebase/referenceUsage';
+import { markStationViewsStale, syncStationViewsByReference } from '@/lib/firebase/stationViews';
+import { invalidateStationsCache } from '@/hooks/stations/useStations';
 
 const COLLECTIONS = {
   GERANTS: 'gerants',
@@ -22,7 +26,10 @@ export function useGerantCRUD() {
         GerantID: gerantId,
         ...data
       };
-      await setDoc(doc(db, COLLECTIONS.GERANTS, gerantId), payload);
+      const batch = writeBatch(db);
+      batch.set(doc(db, COLLECTIONS.GERANTS, gerantId), payload);
+      addAuditEntry(batch, { entity: 'gerant', entityId: gerantId, action: 'create', after: payload });
+      await batch.commit();
       invalidateReferenceData('gerants:');
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
@@ -39,8 +46,15 @@ export function useGerantCRUD() {
     try {
       const payload = { ...data };
       delete payload.GerantID; // Remove ID from update payload
-      await updateDoc(doc(db, COLLECTIONS.GERANTS, id), payload);
+      const ref = doc(db, COLLECTIONS.GERANTS, id);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'gerant', entityId: id, action: 'update', before, after: { ...before, ...payload } });
+      markStationViewsStale(batch, 'gerant', [id]);
+      await batch.commit();
       invalidateReferenceData('gerants:');
+      await syncStationViewsByReference({ gerant: [id] });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to update gerant: ${message}`);
@@ -50,12 +64,23 @@ export function useGerantCRUD() {
     }
   }, []);
 
-  const deleteGerant = useCallback(async (id: string) => {
+  const deleteGerant = useCallback(async (id: string, reassignTo?: string) => {
     setLoading(true);
     setError(null);
     try {
-      await deleteDoc(doc(db, COLLECTIONS.GERANTS, id));
+      const ref = doc(db, COLLECTIONS.GERANTS, id);
+      const before = (await getDoc(ref)).data();
+      const moved = await reassignReferences('gerant', id, reassignTo);
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'gerant', entityId: id, action: 'delete', before });
+      if (moved > 0) markStationViewsStale(batch, 'gerant', [id]);
+      await batch.commit();
       invalidateReferenceData('gerants:');
+      if (moved > 0) {
+        invalidateStationsCache();
+        await syncStationViewsByReference({ gerant: [id] });
+      }
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to delete gerant: ${message}`);
@@ -0,0 +1,94 @@
+import { useCallback, useState } from 'react';
+import { doc, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { Limite } from '@/types/station';
+import { invalidateReferenceData } from '@/lib/referenceCache';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { loadLimites } from '@/hooks/ReferenceData/useLimites';
+import { countVertices, LimiteGeometry, limiteId, MAX_GEOMETRY_LENGTH, parseLimiteGeometry } from '@/utils/limites';
+
+// Outlines are large documents: a batch is committed every time this many characters are queued
+const BATCH_MAX_LENGTH = 5_000_000;
+
+// The audit log gets the size of the outline, not its coordinates
+function auditSummary(limite: Limite | undefined) {
+  if (!limite) return null;
+  const geometry = parseLimiteGeometry(limite);
+  return { Niveau: limite.Niveau, RefID: limite.RefID, Sommets: geometry ? countVertices(geometry) : 0 };
+}
+
+export function useLimiteCRUD() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Creates or replaces the outline of each region. Returns the number saved.
+   */
+  const saveLimites = useCallback(async (niveau: Limite['Niveau'], entries: { RefID: string; geometry: LimiteGeometry }[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const existing = new Map((await loadLimites()).map((l) => [l.LimiteID, l]));
+      const payloads: Limite[] = entries.map(({ RefID, geometry }) => ({
+        LimiteID: limiteId(niveau, RefID),
+        Niveau: niveau,
+        RefID,
+        Geometrie: JSON.stringify(geometry),
+      }));
+      const tooLarge = payloads.filter((p) => p.Geometrie.length > MAX_GEOMETRY_LENGTH);
+      if (tooLarge.length > 0) {
+        throw new Error(`${tooLarge.length} outline(s) are too large to be stored, simplify them before importing`);
+      }
+
+      let batch = writeBatch(db);
+      let queued = 0;
+      for (const payload of payloads) {
+        if (queued > 0 && queued + payload.Geometrie.length > BATCH_MAX_LENGTH) {
+          await batch.commit();
+          batch = writeBatch(db);
+          queued = 0;
+        }
+        const before = existing.get(payload.LimiteID);
+        batch.set(doc(db, COLLECTIONS.LIMITES, payload.LimiteID), payload);
+        addAuditEntry(batch, {
+          entity: 'limite',
+          entityId: payload.LimiteID,
+          action: before ? 'update' : 'create',
+          before: auditSummary(before),
+          after: auditSummary(payload),
+        });
+        queued += payload.Geometrie.length;
+      }
+      if (queued > 0) await batch.commit();
+      invalidateReferenceData('limites:');
+      return payloads.length;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to save outlines: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const deleteLimite = useCallback(async (limite: Limite) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const batch = writeBatch(db);
+      batch.delete(doc(db, COLLECTIONS.LIMITES, limite.LimiteID));
+      addAuditEntry(batch, { entity: 'limite', entityId: limite.LimiteID, action: 'delete', before: auditSummary(limite) });
+      await batch.commit();
+      invalidateReferenceData('limites:');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to delete outline: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { saveLimites, deleteLimite, loading, error };
+}
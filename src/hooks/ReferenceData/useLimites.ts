@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { Limite } from '@/types/station';
+import { getReferenceData, invalidateReferenceData } from '@/lib/referenceCache';
+
+export function loadLimites(forceRefresh = false): Promise<Limite[]> {
+  return getReferenceData<Limite>(
+    'limites:all',
+    async () => {
+      const snapshot = await getDocs(collection(db, COLLECTIONS.LIMITES));
+      return snapshot.docs.map((doc) => ({ ...(doc.data() as Limite), LimiteID: doc.id }));
+    },
+    undefined,
+    forceRefresh
+  );
+}
+
+/**
+ * Province and commune outlines, for the dashboard map layers.
+ */
+export function useLimites() {
+  const [limites, setLimites] = useState<Limite[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLimites = useCallback(async (forceRefresh = false) => {
+    setLoading(true);
+    try {
+      setLimites(await loadLimites(forceRefresh));
+    } catch (error) {
+      console.error('Error fetching limites:', error);
+      setLimites([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLimites();
+  }, [fetchLimites]);
+
+  return {
+    limites,
+    loading,
+    refetch: () => fetchLimites(true),
+    invalidate: () => invalidateReferenceData('limites:'),
+  };
+}
@@ -1,9 +1,13 @@
 import { useCallback, useState } from 'react';
-import { doc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { doc, getDoc, writeBatch } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { Marque } from '@/types/station';
 import { generateUUID } from '@/utils/uuid';
 import { invalidateReferenceData } from '@/lib/referenceCache';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { reassignReferences } from '@/lib/firebase/referenceUsage';
+import { markStationViewsStale, syncStationViewsByReference } from '@/lib/firebase/stationViews';
+import { invalidateStationsCache } from '@/hooks/stations/useStations';
 
 const COLLECTIONS = {
   MARQUES: 'marques',
@@ -22,7 +26,10 @@ export function useMarqueCRUD() {
         MarqueID: marqueId,
         ...data
       };
-      await setDoc(doc(db, COLLECTIONS.MARQUES, marqueId), payload);
+      const batch = writeBatch(db);
+      batch.set(doc(db, COLLECTIONS.MARQUES, marqueId), payload);
+      addAuditEntry(batch, { entity: 'marque', entityId: marqueId, action: 'create', after: payload });
+      await batch.commit();
       invalidateReferenceData('marques:');
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
@@ -39,8 +46,15 @@ export function useMarqueCRUD() {
     try {
       const payload = { ...data };
       delete payload.MarqueID; // Remove ID from update payload
-      await updateDoc(doc(db, COLLECTIONS.MARQUES, id), payload);
+      const ref = doc(db, COLLECTIONS.MARQUES, id);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'marque', entityId: id, action: 'update', before, after: { ...before, ...payload } });
+      markStationViewsStale(batch, 'marque', [id]);
+      await batch.commit();
       invalidateReferenceData('marques:');
+      await syncStationViewsByReference({ marque: [id] });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to update marque: ${message}`);
@@ -50,12 +64,23 @@ export function useMarqueCRUD() {
     }
   }, []);
 
-  const deleteMarque = useCallback(async (id: string) => {
+  const deleteMarque = useCallback(async (id: string, reassignTo?: string) => {
     setLoading(true);
     setError(null);
     try {
-      await deleteDoc(doc(db, COLLECTIONS.MARQUES, id));
+      const ref = doc(db, COLLECTIONS.MARQUES, id);
+      const before = (await getDoc(ref)).data();
+      const moved = await reassignReferences('marque', id, reassignTo);
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'marque', entityId: id, action: 'delete', before });
+      if (moved > 0) markStationViewsStale(batch, 'marque', [id]);
+      await batch.commit();
       invalidateReferenceData('marques:');
+      if (moved > 0) {
+        invalidateStationsCache();
+        await syncStationViewsByReference({ marque: [id] });
+      }
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to delete marque: ${message}`);
@@ -0,0 +1,87 @@
+import { useCallback, useState } from 'react';
+import { collection, doc, DocumentReference, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { invalidateReferenceData } from '@/lib/referenceCache';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { commitInBatches } from '@/lib/firebase/batch';
+import { reassignReferences } from '@/lib/firebase/referenceUsage';
+import { markStationViewsStale, syncStationViewsByReference } from '@/lib/firebase/stationViews';
+import { invalidateStationsCache } from '@/hooks/stations/useStations';
+
+export type MergeableKind = 'marque' | 'gerant' | 'proprietaire';
+
+const MERGE_TARGETS: Record<MergeableKind, { collection: string; cachePrefixes: string[] }> = {
+  marque: { collection: COLLECTIONS.MARQUES, cachePrefixes: ['marques:'] },
+  gerant: { collection: COLLECTIONS.GERANTS, cachePrefixes: ['gerants:'] },
+  proprietaire: {
+    collection: COLLECTIONS.PROPRIETAIRES,
+    cachePrefixes: ['proprietaires:', 'proprietaires_physiques:', 'proprietaires_morales:'],
+  },
+};
+
+/**
+ * Merges duplicate reference records into a surviving one: every station pointing
+ * at a duplicate is repointed to the survivor, then the duplicates are deleted.
+ * The writes are committed in several batches when there are many: a merge that
+ * fails halfway can be run again, the stations already repointed are skipped.
+ */
+export function useMergeReferences() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mergeRecords = useCallback(async (kind: MergeableKind, survivorId: string, duplicateIds: string[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { collection: collectionName, cachePrefixes } = MERGE_TARGETS[kind];
+      const losers = duplicateIds.filter((id) => id && id !== survivorId);
+      if (losers.length === 0) {
+        throw new Error('select at least one duplicate to merge');
+      }
+
+      // Stations are repointed before any duplicate disappears
+      for (const id of losers) {
+        await reassignReferences(kind, id, survivorId);
+      }
+
+      const deletions: { id: string; refs: DocumentReference[]; before?: Record<string, unknown> }[] = [];
+      for (const id of losers) {
+        const ref = doc(db, collectionName, id);
+        const deletion = { id, refs: [ref], before: (await getDoc(ref)).data() };
+
+        if (kind === 'proprietaire') {
+          const details = await Promise.all(
+            [COLLECTIONS.PROPRIETAIRES_PHYSIQUES, COLLECTIONS.PROPRIETAIRES_MORALES].map((name) =>
+              getDocs(query(collection(db, name), where('ProprietaireID', '==', id)))
+            )
+          );
+          details.forEach((snap) => snap.docs.forEach((d) => {
+            deletion.before = { ...deletion.before, ...d.data() };
+            deletion.refs.push(d.ref);
+          }));
+        }
+        deletions.push(deletion);
+      }
+
+      // Each duplicate goes with its details, audit entry and stale marker
+      const writesPerItem = Math.max(...deletions.map((d) => d.refs.length)) + 2;
+      await commitInBatches(deletions, writesPerItem, (batch, { id, refs, before }) => {
+        refs.forEach((ref) => batch.delete(ref));
+        addAuditEntry(batch, { entity: kind, entityId: id, action: 'delete', before });
+        markStationViewsStale(batch, kind, [id]);
+      });
+      cachePrefixes.forEach((prefix) => invalidateReferenceData(prefix));
+      invalidateStationsCache();
+      await syncStationViewsByReference({ [kind]: losers });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to merge ${kind}s: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { mergeRecords, loading, error };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useState } from 'react';
+import { collection, doc, getDoc, getDocs, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { PointControle } from '@/types/station';
+import { generateUUID } from '@/utils/uuid';
+import { invalidateReferenceData } from '@/lib/referenceCache';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+export function usePointControleCRUD() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createPoint = useCallback(async (data: Omit<PointControle, 'PointControleID'>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const existing = await getDocs(collection(db, COLLECTIONS.POINTS_CONTROLE));
+      const libelles = existing.docs.map((d) => String(d.get('Libelle')).toLowerCase());
+      const batch = writeBatch(db);
+      const payloads: PointControle[] = [];
+
+      // The first point created replaces the built-in checklist, which is saved along with it
+      if (existing.empty) {
+        APP_CONSTANTS.INSPECTIONS.CHECKLIST_DEFAULTS.forEach((Libelle, Ordre) => {
+          if (Libelle.toLowerCase() === data.Libelle.trim().toLowerCase()) return;
+          payloads.push({ PointControleID: generateUUID(), Libelle, Ordre });
+          libelles.push(Libelle.toLowerCase());
+        });
+      }
+      if (libelles.includes(data.Libelle.trim().toLowerCase())) {
+        throw new Error(`point ${data.Libelle.trim()} already exists`);
+      }
+      payloads.push({ ...data, PointControleID: generateUUID(), Libelle: data.Libelle.trim() });
+
+      payloads.forEach((payload) => {
+        batch.set(doc(db, COLLECTIONS.POINTS_CONTROLE, payload.PointControleID), payload);
+        addAuditEntry(batch, { entity: 'point_controle', entityId: payload.PointControleID, action: 'create', after: payload });
+      });
+      await batch.commit();
+      invalidateReferenceData('points_controle:');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to create point de contrôle: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updatePoint = useCallback(async (id: string, data: Partial<PointControle>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = { ...data };
+      delete payload.PointControleID;
+      if (payload.Libelle !== undefined) payload.Libelle = payload.Libelle.trim();
+      const ref = doc(db, COLLECTIONS.POINTS_CONTROLE, id);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'point_controle', entityId: id, action: 'update', before, after: { ...before, ...payload } });
+      await batch.commit();
+      invalidateReferenceData('points_controle:');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to update point de contrôle: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Past inspections keep their own copy of the libellé, so nothing else to update
+  const deletePoint = useCallback(async (id: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const ref = doc(db, COLLECTIONS.POINTS_CONTROLE, id);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'point_controle', entityId: id, action: 'delete', before });
+      await batch.commit();
+      invalidateReferenceData('points_controle:');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to delete point de contrôle: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { createPoint, updatePoint, deletePoint, loading, error };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { PointControle } from '@/types/station';
+import { getReferenceData, invalidateReferenceData } from '@/lib/referenceCache';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+// Stand-in checklist while no point has been created yet
+const DEFAULT_POINTS: PointControle[] = APP_CONSTANTS.INSPECTIONS.CHECKLIST_DEFAULTS.map((Libelle, Ordre) => ({
+  PointControleID: '',
+  Libelle,
+  Ordre,
+}));
+
+/**
+ * Inspection checklist, in display order.
+ */
+export function usePointsControle() {
+  const [points, setPoints] = useState<PointControle[]>(DEFAULT_POINTS);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPoints = useCallback(async (forceRefresh = false) => {
+    setLoading(true);
+    try {
+      const data = await getReferenceData<PointControle>(
+        'points_controle:all',
+        async () => {
+          const snapshot = await getDocs(query(collection(db, COLLECTIONS.POINTS_CONTROLE), orderBy('Ordre')));
+          return snapshot.docs.map((doc) => ({ ...(doc.data() as PointControle), PointControleID: doc.id }));
+        },
+        undefined,
+        forceRefresh
+      );
+      setPoints(data.length > 0 ? data : DEFAULT_POINTS);
+    } catch (error) {
+      console.error('Error fetching points de contrôle:', error);
+      setPoints(DEFAULT_POINTS);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPoints();
+  }, [fetchPoints]);
+
+  return {
+    points,
+    // True while the list comes from APP_CONSTANTS rather than the collection
+    isDefaultList: points === DEFAULT_POINTS,
+    loading,
+    refetch: () => fetchPoints(true),
+    invalidate: () => invalidateReferenceData('points_controle:'),
+  };
+}
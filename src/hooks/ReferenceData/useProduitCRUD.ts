@@ -0,0 +1,128 @@
+import { useCallback, useState } from 'react';
+import { collection, doc, getDoc, getDocs, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { Produit } from '@/types/station';
+import { generateUUID } from '@/utils/uuid';
+import { invalidateReferenceData } from '@/lib/referenceCache';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { moveProduitReferences } from '@/lib/firebase/produits';
+import { markStationViewsStale, syncStationViewsByProduit } from '@/lib/firebase/stationViews';
+import { invalidateStationsCache } from '@/hooks/stations/useStations';
+import { APP_CONSTANTS } from '@/lib/constants';
+import { DEFAULT_SEUILS } from '@/utils/analyseParametres';
+
+export function useProduitCRUD() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createProduit = useCallback(async (data: Omit<Produit, 'ProduitID'>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const existing = await getDocs(collection(db, COLLECTIONS.PRODUITS));
+      const names = existing.docs.map((d) => String(d.get('NomProduit')).toLowerCase());
+      const batch = writeBatch(db);
+      const payloads: Produit[] = [];
+
+      // The first produit created replaces the built-in list, which is saved along with it
+      if (existing.empty) {
+        APP_CONSTANTS.PRODUITS.DEFAULTS.forEach((NomProduit, Ordre) => {
+          if (NomProduit.toLowerCase() === data.NomProduit.trim().toLowerCase()) return;
+          payloads.push({ ProduitID: generateUUID(), NomProduit, Ordre });
+          names.push(NomProduit.toLowerCase());
+        });
+      }
+      if (names.includes(data.NomProduit.trim().toLowerCase())) {
+        throw new Error(`produit ${data.NomProduit.trim()} already exists`);
+      }
+      payloads.push({ ...data, ProduitID: generateUUID(), NomProduit: data.NomProduit.trim() });
+
+      payloads.forEach((payload) => {
+        batch.set(doc(db, COLLECTIONS.PRODUITS, payload.ProduitID), payload);
+        addAuditEntry(batch, { entity: 'produit', entityId: payload.ProduitID, action: 'create', after: payload });
+      });
+      await batch.commit();
+      invalidateReferenceData('produits:');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to create produit: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Renaming a produit renames it on every capacité and analyse too
+  const updateProduit = useCallback(async (id: string, data: Partial<Produit>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = { ...data };
+      delete payload.ProduitID;
+      if (payload.NomProduit !== undefined) payload.NomProduit = payload.NomProduit.trim();
+      const ref = doc(db, COLLECTIONS.PRODUITS, id);
+      const before = (await getDoc(ref)).data() as Produit | undefined;
+      let moved = 0;
+      if (before && payload.NomProduit && payload.NomProduit !== before.NomProduit) {
+        moved = await moveProduitReferences(before.NomProduit, payload.NomProduit);
+        // Default thresholds are found by name: keep them under the new one
+        if (payload.Seuils === undefined && !before.Seuils && DEFAULT_SEUILS[before.NomProduit]) {
+          payload.Seuils = DEFAULT_SEUILS[before.NomProduit];
+        }
+      }
+
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'produit', entityId: id, action: 'update', before, after: { ...before, ...payload } });
+      if (before && moved > 0) markStationViewsStale(batch, 'produit', [before.NomProduit]);
+      await batch.commit();
+      invalidateReferenceData('produits:');
+      if (before && moved > 0) {
+        invalidateStationsCache();
+        await syncStationViewsByProduit(before.NomProduit);
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to update produit: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Deletes a produit. When capacités or analyses still use it, `reassignTo`
+   * (another NomProduit) must be given and they are moved to it.
+   */
+  const deleteProduit = useCallback(async (id: string, usageCount: number, reassignTo?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const ref = doc(db, COLLECTIONS.PRODUITS, id);
+      const before = (await getDoc(ref)).data() as Produit | undefined;
+      if (usageCount > 0 && !reassignTo) {
+        throw new Error(`it is still used by ${usageCount} capacité(s) or analyse(s)`);
+      }
+      const moved = before && reassignTo ? await moveProduitReferences(before.NomProduit, reassignTo) : 0;
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'produit', entityId: id, action: 'delete', before });
+      if (before && moved > 0) markStationViewsStale(batch, 'produit', [before.NomProduit]);
+      await batch.commit();
+      invalidateReferenceData('produits:');
+      if (before && moved > 0) {
+        invalidateStationsCache();
+        await syncStationViewsByProduit(before.NomProduit);
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to delete produit: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { createProduit, updateProduit, deleteProduit, loading, error };
+}
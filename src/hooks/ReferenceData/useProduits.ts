@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { Produit } from '@/types/station';
+import { getReferenceData, invalidateReferenceData } from '@/lib/referenceCache';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+// Stand-in list while no produit has been created yet
+const DEFAULT_PRODUITS: Produit[] = APP_CONSTANTS.PRODUITS.DEFAULTS.map((NomProduit, Ordre) => ({
+  ProduitID: '',
+  NomProduit,
+  Ordre,
+}));
+
+/**
+ * Fuel products, in display order. `produitNames` is what capacités and analyses store.
+ */
+export function useProduits() {
+  const [produits, setProduits] = useState<Produit[]>(DEFAULT_PRODUITS);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProduits = useCallback(async (forceRefresh = false) => {
+    setLoading(true);
+    try {
+      const data = await getReferenceData<Produit>(
+        'produits:all',
+        async () => {
+          const snapshot = await getDocs(query(collection(db, COLLECTIONS.PRODUITS), orderBy('Ordre')));
+          return snapshot.docs.map((doc) => ({ ...(doc.data() as Produit), ProduitID: doc.id }));
+        },
+        undefined,
+        forceRefresh
+      );
+      setProduits(data.length > 0 ? data : DEFAULT_PRODUITS);
+    } catch (error) {
+      console.error('Error fetching produits:', error);
+      setProduits(DEFAULT_PRODUITS);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProduits();
+  }, [fetchProduits]);
+
+  const produitNames = useMemo(() => produits.map((p) => p.NomProduit), [produits]);
+
+  return {
+    produits,
+    produitNames,
+    // True while the list comes from APP_CONSTANTS rather than the collection
+    isDefaultList: produits === DEFAULT_PRODUITS,
+    loading,
+    refetch: () => fetchProduits(true),
+    invalidate: () => invalidateReferenceData('produits:'),
+  };
+}
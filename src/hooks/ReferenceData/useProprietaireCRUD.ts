@@ -19,6 +19,10 @@ import {
   ProprietaireMorale,
 } from '@/types/station';
 import { generateUUID } from '@/utils/uuid';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { reassignReferences } from '@/lib/firebase/referenceUsage';
+import { markStationViewsStale, syncStationViewsByReference } from '@/lib/firebase/stationViews';
+import { invalidateStationsCache } from '@/hooks/stations/useStations';
 
 const COLLECTIONS = {
   PROPRIETAIRES: 'proprietaires',
@@ -26,6 +30,20 @@ const COLLECTIONS = {
   PROPRIETAIRES_MORALES: 'proprietaires_morales',
 };
 
+// Flattened view of an owner (base + details) used for its audit entries
+async function getProprietaireSnapshot(id: string): Promise<Record<string, unknown> | null> {
+  const baseSnap = await getDoc(doc(db, COLLECTIONS.PROPRIETAIRES, id));
+  if (!baseSnap.exists()) return null;
+  const base = baseSnap.data();
+  const detailsCollection = base.TypeProprietaire === 'Physique'
+    ? COLLECTIONS.PROPRIETAIRES_PHYSIQUES
+    : COLLECTIONS.PROPRIETAIRES_MORALES;
+  const detailsSnap = await getDocs(
+    query(collection(db, detailsCollection), where('ProprietaireID', '==', id)),
+  );
+  return { ...base, ...detailsSnap.docs[0]?.data() };
+}
+
 export function useProprietaireCRUD() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -67,6 +85,7 @@ export function useProprietaireCRUD() {
         batch.set(moraleRef, morale);
       }
 
+      addAuditEntry(batch, { entity: 'proprietaire', entityId: proprietaireId, action: 'create', after: { ...proprietaire, ...data } });
       await batch.commit();
       invalidateReferenceData('proprietaires:');
       invalidateReferenceData('proprietaires_physiques:');
@@ -94,8 +113,8 @@ export function useProprietaireCRUD() {
     const batch = writeBatch(db);
     try {
       const proprietaireRef = doc(db, COLLECTIONS.PROPRIETAIRES, id);
-      const proprietaireSnap = await getDoc(proprietaireRef);
-      const oldType = proprietaireSnap.data()?.TypeProprietaire;
+      const before = await getProprietaireSnapshot(id);
+      const oldType = before?.TypeProprietaire;
 
       batch.update(proprietaireRef, { TypeProprietaire: data.TypeProprietaire, updatedAt: serverTimestamp() });
 
@@ -150,10 +169,13 @@ export function useProprietaireCRUD() {
         }
       }
 
+      addAuditEntry(batch, { entity: 'proprietaire', entityId: id, action: 'update', before, after: { ProprietaireID: id, ...data } });
+      markStationViewsStale(batch, 'proprietaire', [id]);
       await batch.commit();
       invalidateReferenceData('proprietaires:');
       invalidateReferenceData('proprietaires_physiques:');
       invalidateReferenceData('proprietaires_morales:');
+      await syncStationViewsByReference({ proprietaire: [id] });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to update proprietaire: ${message}`);
@@ -163,12 +185,15 @@ export function useProprietaireCRUD() {
     }
   }, []);
 
-  const deleteProprietaire = useCallback(async (id: string) => {
+  const deleteProprietaire = useCallback(async (id: string, reassignTo?: string) => {
     setLoading(true);
     setError(null);
     const batch = writeBatch(db);
     try {
+      const before = await getProprietaireSnapshot(id);
+      const moved = await reassignReferences('proprietaire', id, reassignTo);
       batch.delete(doc(db, COLLECTIONS.PROPRIETAIRES, id));
+      addAuditEntry(batch, { entity: 'proprietaire', entityId: id, action: 'delete', before });
 
       const physiqueSnapshot = await getDocs(
         query(collection(db, COLLECTIONS.PROPRIETAIRES_PHYSIQUES), where('ProprietaireID', '==', id)),
@@ -179,11 +204,16 @@ export function useProprietaireCRUD() {
         query(collection(db, COLLECTIONS.PROPRIETAIRES_MORALES), where('ProprietaireID', '==', id)),
       );
       moraleSnapshot.docs.forEach(d => batch.delete(d.ref));
+      if (moved > 0) markStationViewsStale(batch, 'proprietaire', [id]);
 
       await batch.commit();
       invalidateReferenceData('proprietaires:');
       invalidateReferenceData('proprietaires_physiques:');
       invalidateReferenceData('proprietaires_morales:');
+      if (moved > 0) {
+        invalidateStationsCache();
+        await syncStationViewsByReference({ proprietaire: [id] });
+      }
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to delete proprietaire: ${message}`);
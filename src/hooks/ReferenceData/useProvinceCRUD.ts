@@ -1,9 +1,12 @@
 import { useCallback, useState } from 'react';
-import { doc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { doc, getDoc, writeBatch } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { Province } from '@/types/station';
 import { generateUUID } from '@/utils/uuid';
 import { invalidateReferenceData } from '@/lib/referenceCache';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { reassignReferences } from '@/lib/firebase/referenceUsage';
+import { markStationViewsStale, syncStationViewsByReference } from '@/lib/firebase/stationViews';
 
 const COLLECTIONS = {
   PROVINCES: 'provinces',
@@ -22,7 +25,10 @@ export function useProvinceCRUD() {
         ProvinceID: provinceId,
         ...data
       };
-      await setDoc(doc(db, COLLECTIONS.PROVINCES, provinceId), payload);
+      const batch = writeBatch(db);
+      batch.set(doc(db, COLLECTIONS.PROVINCES, provinceId), payload);
+      addAuditEntry(batch, { entity: 'province', entityId: provinceId, action: 'create', after: payload });
+      await batch.commit();
       invalidateReferenceData('provinces:');
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
@@ -39,8 +45,15 @@ export function useProvinceCRUD() {
     try {
       const payload = { ...data };
       delete payload.ProvinceID; // Remove ID from update payload
-      await updateDoc(doc(db, COLLECTIONS.PROVINCES, id), payload);
+      const ref = doc(db, COLLECTIONS.PROVINCES, id);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'province', entityId: id, action: 'update', before, after: { ...before, ...payload } });
+      markStationViewsStale(batch, 'province', [id]);
+      await batch.commit();
       invalidateReferenceData('provinces:');
+      await syncStationViewsByReference({ province: [id] });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to update province: ${message}`);
@@ -50,12 +63,23 @@ export function useProvinceCRUD() {
     }
   }, []);
 
-  const deleteProvince = useCallback(async (id: string) => {
+  const deleteProvince = useCallback(async (id: string, reassignTo?: string) => {
     setLoading(true);
     setError(null);
     try {
-      await deleteDoc(doc(db, COLLECTIONS.PROVINCES, id));
+      const ref = doc(db, COLLECTIONS.PROVINCES, id);
+      const before = (await getDoc(ref)).data();
+      const moved = await reassignReferences('province', id, reassignTo);
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'province', entityId: id, action: 'delete', before });
+      if (moved > 0) markStationViewsStale(batch, 'province', [id]);
+      await batch.commit();
       invalidateReferenceData('provinces:');
+      if (moved > 0) {
+        invalidateReferenceData('communes:');
+        await syncStationViewsByReference({ province: [id] });
+      }
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to delete province: ${message}`);
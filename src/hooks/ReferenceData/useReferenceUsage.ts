@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { countReferenceUsage, ReferenceKind } from '@/lib/firebase/referenceUsage';
+import { countProduitUsage } from '@/lib/firebase/produits';
+
+/**
+ * How many stations (or communes, for a province) point at each of the given entities of a kind.
+ */
+export function useReferenceUsage(kind: ReferenceKind, ids: string[]) {
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  // Refetch when the list of entities changes, not on every render's new array
+  const idsKey = ids.join('\n');
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      setUsage(await countReferenceUsage(kind, idsKey ? idsKey.split('\n') : []));
+    } catch (error) {
+      console.error(`Error counting ${kind} usage:`, error);
+      setUsage({});
+    } finally {
+      setLoading(false);
+    }
+  }, [kind, idsKey]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return { usage, loading, refetch: fetchUsage };
+}
+
+/**
+ * How many capacités and analyses use each produit, keyed by NomProduit.
+ */
+export function useProduitUsage() {
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      setUsage(await countProduitUsage());
+    } catch (error) {
+      console.error('Error counting produit usage:', error);
+      setUsage({});
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return { usage, loading, refetch: fetchUsage };
+}
@@ -1,22 +1,34 @@
 // src/hooks/stations/useArchiveStation.ts
 import { useCallback, useState } from 'react';
-import { doc, updateDoc } from 'firebase/firestore';
+import { collection, getDocs, query, where, writeBatch } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { COLLECTIONS } from '@/lib/firebase/collections';
+import { queueStationStatusChange, StatusChangeOptions } from '@/lib/firebase/stationStatus';
+import { StationStatut } from '@/types/station';
 import { invalidateStationsCache } from './useStations';
+import { markStationViewsStale, syncStationViews } from '@/lib/firebase/stationViews';
+
+export type { StatusChangeOptions } from '@/lib/firebase/stationStatus';
 
 export function useArchiveStation() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const changeStationStatus = useCallback(async (stationId: string, statut: string) => {
+  /**
+   * Moves a station to another status after checking the transition is allowed,
+   * and records it in the station's status history.
+   */
+  const changeStationStatus = useCallback(async (stationId: string, statut: StationStatut, options: StatusChangeOptions) => {
     setLoading(true);
     setError(null);
 
     try {
-      const stationRef = doc(db, COLLECTIONS.STATIONS, stationId);
-      await updateDoc(stationRef, { Statut: statut });
+      const batch = writeBatch(db);
+      if (!(await queueStationStatusChange(batch, stationId, statut, options))) return;
+      markStationViewsStale(batch, 'station', [stationId]);
+      await batch.commit();
       invalidateStationsCache();
+      await syncStationViews([stationId]);
     } catch (err: any) {
       console.error('Error updating station status:', err);
       setError(`Failed to update station status: ${err?.message || String(err)}`);
@@ -26,8 +38,22 @@ export function useArchiveStation() {
     }
   }, []);
 
-  const archiveStation = useCallback((stationId: string) => changeStationStatus(stationId, 'archivé'), [changeStationStatus]);
-  const unarchiveStation = useCallback((stationId: string) => changeStationStatus(stationId, 'en activité'), [changeStationStatus]);
+  const archiveStation = useCallback(
+    (stationId: string, reason = 'Archivage de la station') => changeStationStatus(stationId, 'archivé', { reason }),
+    [changeStationStatus]
+  );
+
+  // Puts the station back in the status it had before being archived
+  const unarchiveStation = useCallback(async (stationId: string, reason = 'Désarchivage de la station') => {
+    const historySnap = await getDocs(
+      query(collection(db, COLLECTIONS.STATIONS, stationId, COLLECTIONS.STATUS_HISTORY), where('Statut', '==', 'archivé'))
+    );
+    const lastArchiving = historySnap.docs
+      .map((d) => d.data())
+      .sort((a, b) => (b.DateSaisie?.toMillis?.() ?? 0) - (a.DateSaisie?.toMillis?.() ?? 0))[0];
+    const previous = (lastArchiving?.StatutPrecedent as StationStatut | null) || 'en activité';
+    return changeStationStatus(stationId, previous, { reason });
+  }, [changeStationStatus]);
 
-  return { archiveStation, unarchiveStation, loading, error };
-}
\ No newline at end of file
+  return { changeStationStatus, archiveStation, unarchiveStation, loading, error };
+}
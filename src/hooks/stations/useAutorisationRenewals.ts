@@ -0,0 +1,123 @@
+// src/hooks/stations/useAutorisationRenewals.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, doc, getDoc, getDocs, query, serverTimestamp, Timestamp, where, writeBatch } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { RenouvellementAutorisation } from '@/types/station';
+import { generateUUID } from '@/utils/uuid';
+import { invalidateStationsCache } from './useStations';
+import { markStationViewsStale, syncStationViews } from '@/lib/firebase/stationViews';
+
+export type RenewAutorisationParams = {
+  autorisationId: string;
+  newExpiration: Date;
+  comment?: string;
+};
+
+export function useRenewAutorisation() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Pushes back the expiry date of an autorisation and keeps a record of the renewal.
+   */
+  const renewAutorisation = useCallback(async ({ autorisationId, newExpiration, comment = '' }: RenewAutorisationParams) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const autoRef = doc(db, COLLECTIONS.AUTORISATIONS, autorisationId);
+      const autoSnap = await getDoc(autoRef);
+      if (!autoSnap.exists()) {
+        throw new Error('Autorisation introuvable');
+      }
+      const current = autoSnap.data();
+      const previousExpiration = current.DateExpiration instanceof Timestamp ? current.DateExpiration.toDate() : null;
+      if (previousExpiration && newExpiration <= previousExpiration) {
+        throw new Error("La nouvelle date d'expiration doit être postérieure à l'actuelle");
+      }
+
+      const batch = writeBatch(db);
+      batch.update(autoRef, { DateExpiration: newExpiration });
+
+      const renouvellementId = generateUUID();
+      const user = auth.currentUser;
+      batch.set(doc(db, COLLECTIONS.RENOUVELLEMENTS, renouvellementId), {
+        RenouvellementID: renouvellementId,
+        StationID: current.StationID,
+        NumeroAutorisation: current.NumeroAutorisation,
+        AncienneDateExpiration: previousExpiration,
+        NouvelleDateExpiration: newExpiration,
+        DateRenouvellement: serverTimestamp(),
+        Commentaire: comment.trim(),
+        uid: user?.uid ?? null,
+        userEmail: user?.email ?? null,
+      });
+      addAuditEntry(batch, {
+        entity: 'autorisation',
+        entityId: autorisationId,
+        action: 'update',
+        before: { DateExpiration: previousExpiration?.toISOString() ?? null },
+        after: { DateExpiration: newExpiration.toISOString() },
+        stationId: current.StationID,
+      });
+      markStationViewsStale(batch, 'station', [current.StationID]);
+      await batch.commit();
+      invalidateStationsCache();
+      await syncStationViews([current.StationID]);
+    } catch (err: unknown) {
+      console.error('Error renewing autorisation:', err);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to renew autorisation: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { renewAutorisation, loading, error };
+}
+
+/**
+ * Renewals recorded for a station, most recent first.
+ */
+export function useAutorisationRenewals(stationId: string) {
+  const [renewals, setRenewals] = useState<RenouvellementAutorisation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRenewals = useCallback(async () => {
+    if (!stationId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const snap = await getDocs(query(collection(db, COLLECTIONS.RENOUVELLEMENTS), where('StationID', '==', stationId)));
+      const list = snap.docs.map((d) => {
+        const data = d.data();
+        return {
+          ...data,
+          RenouvellementID: data.RenouvellementID || d.id,
+          AncienneDateExpiration: data.AncienneDateExpiration instanceof Timestamp ? data.AncienneDateExpiration.toDate() : null,
+          NouvelleDateExpiration: data.NouvelleDateExpiration instanceof Timestamp ? data.NouvelleDateExpiration.toDate() : null,
+          DateRenouvellement: data.DateRenouvellement instanceof Timestamp ? data.DateRenouvellement.toDate() : null,
+        } as RenouvellementAutorisation;
+      });
+      list.sort((a, b) => (b.DateRenouvellement?.getTime() ?? 0) - (a.DateRenouvellement?.getTime() ?? 0));
+      setRenewals(list);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch autorisation renewals: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId]);
+
+  useEffect(() => {
+    fetchRenewals();
+  }, [fetchRenewals]);
+
+  return { renewals, loading, error, refetch: fetchRenewals };
+}
@@ -5,10 +5,12 @@ import {
   where,
   getDocs,
   doc,
-  writeBatch,
+  limit,
   runTransaction,
+  Transaction,
 } from 'firebase/firestore';
 import { invalidateStationsCache } from './useStations';
+import { markStationViewsStale, syncStationViewsByReference } from '@/lib/firebase/stationViews';
 
 function cleanFirestoreData<T extends Record<string, any>>(data: T): Partial<T> {
   return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
@@ -25,7 +27,6 @@ import {
   ProprietairePhysique,
   ProprietaireMorale,
   Autorisation,
-  CapaciteStockage,
   StationFormData,
 } from '@/types/station';
 import {
@@ -42,279 +43,305 @@ import {
 } from '@/lib/firebase/converters';
 import { COLLECTIONS } from '@/lib/firebase/collections';
 import { generateUUID } from '@/utils/uuid';
+import { cuveToCapacite } from '@/utils/stationFormUtils';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { addStatusChange } from '@/lib/firebase/stationStatus';
+import { findTakenAutorisationNumbers } from '@/lib/firebase/autorisations';
+import { takenAutorisationNumbersMessage } from '@/utils/autorisations';
 
-// Helper to atomically get the next station code (serial)
-async function getNextStationCode(): Promise<number> {
-  const { doc, increment } = await import('firebase/firestore');
-  return await runTransaction(db, async (tx) => {
-    const counterRef = doc(db, 'meta', 'counters');
-    const snap = await tx.get(counterRef);
-    const base = 1000;
-    if (!snap.exists()) {
-      const next = base + 1;
-      tx.set(counterRef, { stationCode: next });
-      return next;
-    } else {
-      const current = (snap.data() as any).stationCode ?? base;
-      const next = current + 1;
-      tx.update(counterRef, { stationCode: next });
-      return next;
-    }
-  });
+const FIRST_STATION_CODE = 1000;
+
+/**
+ * Picks the code of a new station in the transaction that creates it: the next one of the
+ * counter, or the code kept from an imported file. The code is claimed in station_codes and
+ * the counter moved past it in the same transaction, so two creations running at once cannot
+ * get the same code, and a creation that fails leaves both as they were.
+ */
+async function reserveStationCode(tx: Transaction, stationId: string, code?: number): Promise<number> {
+  const counterRef = doc(db, 'meta', 'counters');
+  const counterSnap = await tx.get(counterRef);
+  const current: number = counterSnap.exists() ? (counterSnap.data().stationCode ?? FIRST_STATION_CODE) : FIRST_STATION_CODE;
+  const next = code ?? current + 1;
+
+  const codeRef = doc(db, COLLECTIONS.STATION_CODES, String(next));
+  const codeSnap = await tx.get(codeRef);
+  // Stations created before station_codes existed are only found by their Code
+  const legacySnap = await getDocs(query(collection(db, COLLECTIONS.STATIONS), where('Code', '==', next), limit(1)));
+  if (codeSnap.exists() || !legacySnap.empty) {
+    throw new Error(`Le code ${next} est déjà attribué à une autre station`);
+  }
+
+  if (next > current) tx.set(counterRef, { stationCode: next }, { merge: true });
+  tx.set(codeRef, { StationID: stationId });
+  return next;
 }
 
 export function useCreateStation() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const createStation = useCallback(async (formData: StationFormData) => {
+  // `code` is only given by the import, to keep the code of the file
+  const createStation = useCallback(async (formData: StationFormData, code?: number) => {
     setLoading(true);
     setError(null);
-    const batch = writeBatch(db);
 
     try {
-      // 1. Marque
-      let marqueId: string;
-      const marqueSnap = await getDocs(
-        query(
-          collection(db, COLLECTIONS.MARQUES).withConverter(marqueConverter),
-          where('Marque', '==', formData.Marque.trim())
-        )
-      );
-
-      if (!marqueSnap.empty) {
-        marqueId = marqueSnap.docs[0].id;
-        if (formData.RaisonSociale.trim()) {
-          batch.update(marqueSnap.docs[0].ref, {
-            RaisonSociale: formData.RaisonSociale.trim(),
-          });
-        }
-      } else {
-        marqueId = generateUUID();
-        const marqueRef = doc(db, COLLECTIONS.MARQUES, marqueId).withConverter(marqueConverter);
-        const marque: Marque = {
-          MarqueID: marqueId,
-          Marque: formData.Marque.trim(),
-          RaisonSociale: formData.RaisonSociale.trim(),
-        };
-        batch.set(marqueRef, marque);
+      // 0. An autorisation number belongs to a single station
+      const takenNumbers = await findTakenAutorisationNumbers(formData.autorisations.map((a) => a.NumeroAutorisation));
+      if (takenNumbers.length > 0) {
+        throw new Error(takenAutorisationNumbersMessage(takenNumbers));
       }
 
-      // 2. Province
-      let provinceId: string;
-      const provSnap = await getDocs(
-        query(
-          collection(db, COLLECTIONS.PROVINCES).withConverter(provinceConverter),
-          where('NomProvince', '==', formData.Province.trim())
-        )
-      );
-
-      if (!provSnap.empty) {
-        provinceId = provSnap.docs[0].id;
-      } else {
-        provinceId = generateUUID();
-        const provRef = doc(db, COLLECTIONS.PROVINCES, provinceId).withConverter(provinceConverter);
-        const province: Province = {
-          ProvinceID: provinceId,
-          NomProvince: formData.Province.trim(),
-        };
-        batch.set(provRef, province);
-      }
+      // Everything is written in the transaction that reserves the station's code
+      const { stationId, marqueId, gerantId } = await runTransaction(db, async (tx) => {
+        const stationId = generateUUID();
+        const stationCode = await reserveStationCode(tx, stationId, code);
 
-      // 3. Commune
-      let communeId: string;
-      const commSnap = await getDocs(
-        query(
-          collection(db, COLLECTIONS.COMMUNES).withConverter(communeConverter),
-          where('NomCommune', '==', formData.Commune.trim()),
-          where('ProvinceID', '==', provinceId)
-        )
-      );
+        // 1. Marque
+        let marqueId: string;
+        const marqueSnap = await getDocs(
+          query(
+            collection(db, COLLECTIONS.MARQUES).withConverter(marqueConverter),
+            where('Marque', '==', formData.Marque.trim())
+          )
+        );
 
-      if (!commSnap.empty) {
-        communeId = commSnap.docs[0].id;
-      } else {
-        communeId = generateUUID();
-        const commRef = doc(db, COLLECTIONS.COMMUNES, communeId).withConverter(communeConverter);
-        const commune: Commune = {
-          CommuneID: communeId,
-          NomCommune: formData.Commune.trim(),
-          ProvinceID: provinceId,
-        };
-        batch.set(commRef, commune);
-      }
+        if (!marqueSnap.empty) {
+          marqueId = marqueSnap.docs[0].id;
+          if (formData.RaisonSociale.trim()) {
+            const marqueUpdate = { RaisonSociale: formData.RaisonSociale.trim() };
+            tx.update(marqueSnap.docs[0].ref, marqueUpdate);
+            const oldMarque = marqueSnap.docs[0].data();
+            addAuditEntry(tx, { entity: 'marque', entityId: marqueId, action: 'update', before: oldMarque, after: { ...oldMarque, ...marqueUpdate } });
+          }
+        } else {
+          marqueId = generateUUID();
+          const marqueRef = doc(db, COLLECTIONS.MARQUES, marqueId).withConverter(marqueConverter);
+          const marque: Marque = {
+            MarqueID: marqueId,
+            Marque: formData.Marque.trim(),
+            RaisonSociale: formData.RaisonSociale.trim(),
+          };
+          tx.set(marqueRef, marque);
+          addAuditEntry(tx, { entity: 'marque', entityId: marqueId, action: 'create', after: marque });
+        }
 
-      // 4. Gerant
-      let gerantId: string;
-      const gerantSnap = await getDocs(
-        query(
-          collection(db, COLLECTIONS.GERANTS).withConverter(gerantConverter),
-          where('CINGerant', '==', formData.CINGerant.trim())
-        )
-      );
+        // 2. Province
+        let provinceId: string;
+        const provSnap = await getDocs(
+          query(
+            collection(db, COLLECTIONS.PROVINCES).withConverter(provinceConverter),
+            where('NomProvince', '==', formData.Province.trim())
+          )
+        );
 
-      if (!gerantSnap.empty) {
-        gerantId = gerantSnap.docs[0].id;
-        const gerantUpdate: Partial<Gerant> = {
-          PrenomGerant: formData.PrenomGerant.trim(),
-          NomGerant: formData.NomGerant.trim(),
-        };
-        if (formData.Telephone.trim()) {
-          gerantUpdate.Telephone = formData.Telephone.trim();
+        if (!provSnap.empty) {
+          provinceId = provSnap.docs[0].id;
+        } else {
+          provinceId = generateUUID();
+          const provRef = doc(db, COLLECTIONS.PROVINCES, provinceId).withConverter(provinceConverter);
+          const province: Province = {
+            ProvinceID: provinceId,
+            NomProvince: formData.Province.trim(),
+          };
+          tx.set(provRef, province);
+          addAuditEntry(tx, { entity: 'province', entityId: provinceId, action: 'create', after: province });
         }
-        batch.update(gerantSnap.docs[0].ref, cleanFirestoreData(gerantUpdate));
-      } else {
-        gerantId = generateUUID();
-        const gerantRef = doc(db, COLLECTIONS.GERANTS, gerantId).withConverter(gerantConverter);
-        const gerant: Gerant = {
-          GerantID: gerantId,
-          PrenomGerant: formData.PrenomGerant.trim(),
-          NomGerant: formData.NomGerant.trim(),
-          CINGerant: formData.CINGerant.trim(),
-        };
-        if (formData.Telephone.trim()) {
-          gerant.Telephone = formData.Telephone.trim();
+
+        // 3. Commune
+        let communeId: string;
+        const commSnap = await getDocs(
+          query(
+            collection(db, COLLECTIONS.COMMUNES).withConverter(communeConverter),
+            where('NomCommune', '==', formData.Commune.trim()),
+            where('ProvinceID', '==', provinceId)
+          )
+        );
+
+        if (!commSnap.empty) {
+          communeId = commSnap.docs[0].id;
+        } else {
+          communeId = generateUUID();
+          const commRef = doc(db, COLLECTIONS.COMMUNES, communeId).withConverter(communeConverter);
+          const commune: Commune = {
+            CommuneID: communeId,
+            NomCommune: formData.Commune.trim(),
+            ProvinceID: provinceId,
+          };
+          tx.set(commRef, commune);
+          addAuditEntry(tx, { entity: 'commune', entityId: communeId, action: 'create', after: commune });
         }
-        batch.set(gerantRef, cleanFirestoreData(gerant));
-      }
 
-      // 5. Proprietaire - FIXED VERSION with UUID
-      let proprietaireId: string | undefined;
-      const proprietaireName =
-        formData.TypeProprietaire === 'Physique'
-          ? formData.NomProprietaire.trim()
-          : formData.NomEntreprise.trim();
+        // 4. Gerant
+        let gerantId: string;
+        const gerantSnap = await getDocs(
+          query(
+            collection(db, COLLECTIONS.GERANTS).withConverter(gerantConverter),
+            where('CINGerant', '==', formData.CINGerant.trim())
+          )
+        );
 
-      if (
-        proprietaireName &&
-        (formData.TypeProprietaire !== 'Physique' || formData.PrenomProprietaire.trim())
-      ) {
-        // Check for existing owner by searching in detail collections
-        let existingPropId: string | undefined;
-        
-        if (formData.TypeProprietaire === 'Physique') {
-          const physQuery = query(
-            collection(db, COLLECTIONS.PROPRIETAIRES_PHYSIQUES).withConverter(proprietairePhysiqueConverter),
-            where('NomProprietaire', '==', formData.NomProprietaire.trim()),
-            where('PrenomProprietaire', '==', formData.PrenomProprietaire.trim())
-          );
-          const physSnap = await getDocs(physQuery);
-          if (!physSnap.empty) {
-            existingPropId = physSnap.docs[0].data().ProprietaireID;
+        if (!gerantSnap.empty) {
+          gerantId = gerantSnap.docs[0].id;
+          const gerantUpdate: Partial<Gerant> = {
+            PrenomGerant: formData.PrenomGerant.trim(),
+            NomGerant: formData.NomGerant.trim(),
+          };
+          if (formData.Telephone.trim()) {
+            gerantUpdate.Telephone = formData.Telephone.trim();
           }
+          tx.update(gerantSnap.docs[0].ref, cleanFirestoreData(gerantUpdate));
+          const oldGerant = gerantSnap.docs[0].data();
+          addAuditEntry(tx, { entity: 'gerant', entityId: gerantId, action: 'update', before: oldGerant, after: { ...oldGerant, ...cleanFirestoreData(gerantUpdate) } });
         } else {
-          const morQuery = query(
-            collection(db, COLLECTIONS.PROPRIETAIRES_MORALES).withConverter(proprietaireMoraleConverter),
-            where('NomEntreprise', '==', formData.NomEntreprise.trim())
-          );
-          const morSnap = await getDocs(morQuery);
-          if (!morSnap.empty) {
-            existingPropId = morSnap.docs[0].data().ProprietaireID;
+          gerantId = generateUUID();
+          const gerantRef = doc(db, COLLECTIONS.GERANTS, gerantId).withConverter(gerantConverter);
+          const gerant: Gerant = {
+            GerantID: gerantId,
+            PrenomGerant: formData.PrenomGerant.trim(),
+            NomGerant: formData.NomGerant.trim(),
+            CINGerant: formData.CINGerant.trim(),
+          };
+          if (formData.Telephone.trim()) {
+            gerant.Telephone = formData.Telephone.trim();
           }
+          tx.set(gerantRef, cleanFirestoreData(gerant));
+          addAuditEntry(tx, { entity: 'gerant', entityId: gerantId, action: 'create', after: gerant });
         }
 
-        if (existingPropId) {
-          // Use existing ProprietaireID
-          proprietaireId = existingPropId;
-        } else {
-          // Create new proprietaire with UUID
-          proprietaireId = generateUUID();
-          
-          const proprietaire: Proprietaire = {
-            ProprietaireID: proprietaireId,
-            TypeProprietaire: formData.TypeProprietaire,
-          };
-          
-          // Use proprietaireId as document ID
-          const propRefWithId = doc(db, COLLECTIONS.PROPRIETAIRES, proprietaireId).withConverter(proprietaireConverter);
-          batch.set(propRefWithId, proprietaire);
+        // 5. Proprietaire - FIXED VERSION with UUID
+        let proprietaireId: string | undefined;
+        const proprietaireName =
+          formData.TypeProprietaire === 'Physique'
+            ? formData.NomProprietaire.trim()
+            : formData.NomEntreprise.trim();
 
-          // Create detail document with ProprietaireID field
+        if (
+          proprietaireName &&
+          (formData.TypeProprietaire !== 'Physique' || formData.PrenomProprietaire.trim())
+        ) {
+          // Check for existing owner by searching in detail collections
+          let existingPropId: string | undefined;
+        
           if (formData.TypeProprietaire === 'Physique') {
-            const physRef = doc(collection(db, COLLECTIONS.PROPRIETAIRES_PHYSIQUES));
-            const physique: ProprietairePhysique = {
-              ProprietaireID: proprietaireId,
-              NomProprietaire: formData.NomProprietaire.trim(),
-              PrenomProprietaire: formData.PrenomProprietaire.trim(),
-            };
-            batch.set(physRef, physique);
+            const physQuery = query(
+              collection(db, COLLECTIONS.PROPRIETAIRES_PHYSIQUES).withConverter(proprietairePhysiqueConverter),
+              where('NomProprietaire', '==', formData.NomProprietaire.trim()),
+              where('PrenomProprietaire', '==', formData.PrenomProprietaire.trim())
+            );
+            const physSnap = await getDocs(physQuery);
+            if (!physSnap.empty) {
+              existingPropId = physSnap.docs[0].data().ProprietaireID;
+            }
           } else {
-            const morRef = doc(collection(db, COLLECTIONS.PROPRIETAIRES_MORALES));
-            const morale: ProprietaireMorale = {
+            const morQuery = query(
+              collection(db, COLLECTIONS.PROPRIETAIRES_MORALES).withConverter(proprietaireMoraleConverter),
+              where('NomEntreprise', '==', formData.NomEntreprise.trim())
+            );
+            const morSnap = await getDocs(morQuery);
+            if (!morSnap.empty) {
+              existingPropId = morSnap.docs[0].data().ProprietaireID;
+            }
+          }
+
+          if (existingPropId) {
+            // Use existing ProprietaireID
+            proprietaireId = existingPropId;
+          } else {
+            // Create new proprietaire with UUID
+            proprietaireId = generateUUID();
+          
+            const proprietaire: Proprietaire = {
               ProprietaireID: proprietaireId,
-              NomEntreprise: formData.NomEntreprise.trim(),
+              TypeProprietaire: formData.TypeProprietaire,
             };
-            batch.set(morRef, morale);
+          
+            // Use proprietaireId as document ID
+            const propRefWithId = doc(db, COLLECTIONS.PROPRIETAIRES, proprietaireId).withConverter(proprietaireConverter);
+            tx.set(propRefWithId, proprietaire);
+
+            // Create detail document with ProprietaireID field
+            if (formData.TypeProprietaire === 'Physique') {
+              const physRef = doc(collection(db, COLLECTIONS.PROPRIETAIRES_PHYSIQUES));
+              const physique: ProprietairePhysique = {
+                ProprietaireID: proprietaireId,
+                NomProprietaire: formData.NomProprietaire.trim(),
+                PrenomProprietaire: formData.PrenomProprietaire.trim(),
+              };
+              tx.set(physRef, physique);
+              addAuditEntry(tx, { entity: 'proprietaire', entityId: proprietaireId, action: 'create', after: { ...proprietaire, ...physique } });
+            } else {
+              const morRef = doc(collection(db, COLLECTIONS.PROPRIETAIRES_MORALES));
+              const morale: ProprietaireMorale = {
+                ProprietaireID: proprietaireId,
+                NomEntreprise: formData.NomEntreprise.trim(),
+              };
+              tx.set(morRef, morale);
+              addAuditEntry(tx, { entity: 'proprietaire', entityId: proprietaireId, action: 'create', after: { ...proprietaire, ...morale } });
+            }
           }
         }
-      }
 
-      // 6. Station with UUID
-      const stationId = generateUUID();
-      const stationRef = doc(db, COLLECTIONS.STATIONS, stationId).withConverter(stationConverter);
-      const station: Station = {
-        StationID: stationId,
-        Code: await getNextStationCode(),
-        Statut: formData.Statut,
-        NomStation: formData.NomStation.trim(),
-        Adresse: formData.Adresse.trim(),
-        Latitude: formData.Latitude ? parseFloat(formData.Latitude) : 0,
-        Longitude: formData.Longitude ? parseFloat(formData.Longitude) : 0,
-        Type: formData.Type,
-        MarqueID: marqueId,
-        CommuneID: communeId,
-        GerantID: gerantId,
-        ProprietaireID: proprietaireId || '',
-        TypeGerance: formData.TypeGerance,
-        Commentaires: formData.Commentaires.trim() || '',
-        NombreVolucompteur: formData.NombreVolucompteur ? parseInt(formData.NombreVolucompteur) : 0,
-      };
-      batch.set(stationRef, station);
+        // 6. Station with UUID
+        const stationRef = doc(db, COLLECTIONS.STATIONS, stationId).withConverter(stationConverter);
+        const station: Station = {
+          StationID: stationId,
+          Code: stationCode,
+          Statut: formData.Statut,
+          NomStation: formData.NomStation.trim(),
+          Adresse: formData.Adresse.trim(),
+          Latitude: formData.Latitude ? parseFloat(formData.Latitude) : 0,
+          Longitude: formData.Longitude ? parseFloat(formData.Longitude) : 0,
+          Type: formData.Type,
+          MarqueID: marqueId,
+          CommuneID: communeId,
+          GerantID: gerantId,
+          ProprietaireID: proprietaireId || '',
+          TypeGerance: formData.TypeGerance,
+          Commentaires: formData.Commentaires.trim() || '',
+          NombreVolucompteur: formData.NombreVolucompteur ? parseInt(formData.NombreVolucompteur) : 0,
+        };
+        tx.set(stationRef, station);
+        addAuditEntry(tx, { entity: 'station', entityId: stationId, action: 'create', after: station });
+        addStatusChange(tx, { stationId, from: null, to: station.Statut, reason: 'Création de la station' });
 
-      // 7. Autorisation with UUID
-      for (const autoData of formData.autorisations) {
-        if (autoData.NumeroAutorisation.trim()) {
-          const autoId = generateUUID();
-          const autoRef = doc(db, COLLECTIONS.AUTORISATIONS, autoId).withConverter(autorisationConverter);
-          const parsedDate = autoData.DateAutorisation ? parseDateString(autoData.DateAutorisation) : null;
-          const autorisation: Autorisation = {
-            AutorisationID: autoId,
-            StationID: stationId,
-            TypeAutorisation: autoData.TypeAutorisation,
-            NumeroAutorisation: autoData.NumeroAutorisation.trim(),
-            DateAutorisation: parsedDate,
-          };
-          batch.set(autoRef, autorisation);
+        // 7. Autorisation with UUID
+        for (const autoData of formData.autorisations) {
+          if (autoData.NumeroAutorisation.trim()) {
+            const autoId = generateUUID();
+            const autoRef = doc(db, COLLECTIONS.AUTORISATIONS, autoId).withConverter(autorisationConverter);
+            const parsedDate = autoData.DateAutorisation ? parseDateString(autoData.DateAutorisation) : null;
+            const autorisation: Autorisation = {
+              AutorisationID: autoId,
+              StationID: stationId,
+              TypeAutorisation: autoData.TypeAutorisation,
+              NumeroAutorisation: autoData.NumeroAutorisation.trim(),
+              DateAutorisation: parsedDate,
+              DateExpiration: autoData.DateExpiration ? parseDateString(autoData.DateExpiration) : null,
+            };
+            tx.set(autoRef, autorisation);
+            addAuditEntry(tx, { entity: 'autorisation', entityId: autoId, action: 'create', after: autorisation });
+          }
         }
-      }
 
-      // 8. Capacites with UUID
-      if (formData.CapaciteGasoil.trim()) {
-        const capId = generateUUID();
-        const capRef = doc(db, COLLECTIONS.CAPACITES_STOCKAGE, capId).withConverter(capaciteConverter);
-        const cap: CapaciteStockage = {
-          CapaciteID: capId,
-          StationID: stationId,
-          TypeCarburant: 'Gasoil',
-          CapaciteLitres: parseFloat(formData.CapaciteGasoil),
-        };
-        batch.set(capRef, cap);
-      }
+        // 8. Capacites, one row per tank
+        for (const cuve of formData.cuves) {
+          const capId = generateUUID();
+          const capRef = doc(db, COLLECTIONS.CAPACITES_STOCKAGE, capId).withConverter(capaciteConverter);
+          const cap = cuveToCapacite(cuve, capId, stationId);
+          tx.set(capRef, cap);
+          addAuditEntry(tx, { entity: 'capacite', entityId: capId, action: 'create', after: cap });
+        }
 
-      if (formData.CapaciteSSP.trim()) {
-        const capId = generateUUID();
-        const capRef = doc(db, COLLECTIONS.CAPACITES_STOCKAGE, capId).withConverter(capaciteConverter);
-        const cap: CapaciteStockage = {
-          CapaciteID: capId,
-          StationID: stationId,
-          TypeCarburant: 'SSP',
-          CapaciteLitres: parseFloat(formData.CapaciteSSP),
-        };
-        batch.set(capRef, cap);
-      }
+        markStationViewsStale(tx, 'station', [stationId]);
+        markStationViewsStale(tx, 'marque', [marqueId]);
+        markStationViewsStale(tx, 'gerant', [gerantId]);
+        return { stationId, marqueId, gerantId };
+      });
 
-      await batch.commit();
       invalidateStationsCache();
+      // An existing marque or gérant is updated from the form, other stations show it too
+      await syncStationViewsByReference({ marque: [marqueId], gerant: [gerantId] }, [stationId]);
     } catch (err: any) {
       console.error('Error creating station:', err);
       setError(`Failed to create station: ${err.message}`);
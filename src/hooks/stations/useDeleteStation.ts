@@ -6,12 +6,21 @@ import {
   where,
   getDocs,
   doc,
-  writeBatch,
+  getDoc,
+  Timestamp,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase/config';
+import { auth, db } from '@/lib/firebase/config';
 import { COLLECTIONS } from '@/lib/firebase/collections';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { commitInBatches } from '@/lib/firebase/batch';
 import { invalidateStationsCache } from './useStations';
+import { markStationViewsStale, syncStationViews } from '@/lib/firebase/stationViews';
 
+/**
+ * Moves a station and its autorisations, capacités, analyses, inspections and dossiers to the corbeille.
+ * Nothing is removed: the documents are flagged with DeletedAt and can be restored
+ * or purged from the admin recycle bin (see useStationTrash).
+ */
 export function useDeleteStation() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -19,39 +28,43 @@ export function useDeleteStation() {
   const deleteStation = useCallback(async (stationId: string) => {
     setLoading(true);
     setError(null);
-    const batch = writeBatch(db);
 
     try {
-      // Get a reference to the station document
       const stationRef = doc(db, COLLECTIONS.STATIONS, stationId);
-      
-      // Delete related autorisations (these belong only to this station)
-      const autorisationsSnapshot = await getDocs(
-        query(collection(db, COLLECTIONS.AUTORISATIONS), where('StationID', '==', stationId))
-      );
-      autorisationsSnapshot.docs.forEach(d => {
-        batch.delete(d.ref);
-      });
+      const stationSnap = await getDoc(stationRef);
+      if (!stationSnap.exists()) {
+        throw new Error('Station introuvable');
+      }
 
-      // Delete related capacites (these belong only to this station)
-      const capacitesSnapshot = await getDocs(
-        query(collection(db, COLLECTIONS.CAPACITES_STOCKAGE), where('StationID', '==', stationId))
-      );
-      capacitesSnapshot.docs.forEach(d => {
-        batch.delete(d.ref);
-      });
+      const deletedAt = Timestamp.now();
+      const user = auth.currentUser;
+      const deletedBy = user?.email || user?.uid || null;
 
-      // Delete related analyses (these belong only to this station)
-      const analysesSnap = await getDocs(
-        query(collection(db, COLLECTIONS.ANALYSES), where('StationID', '==', stationId))
+      // Flag the documents that belong only to this station
+      const childCollections = [COLLECTIONS.AUTORISATIONS, COLLECTIONS.CAPACITES_STOCKAGE, COLLECTIONS.ANALYSES, COLLECTIONS.INSPECTIONS, COLLECTIONS.DOSSIERS];
+      const childSnaps = await Promise.all(
+        childCollections.map((name) => getDocs(query(collection(db, name), where('StationID', '==', stationId))))
       );
-      analysesSnap.forEach(d => batch.delete(d.ref));
+      await commitInBatches(childSnaps.flatMap((snap) => snap.docs), 1, (batch, d) => {
+        batch.update(d.ref, { DeletedAt: deletedAt });
+      });
 
-      batch.delete(stationRef);
-      
-      await batch.commit();
+      // Last, so that a deletion interrupted half-way leaves the station live, to delete again
+      await commitInBatches([stationRef], 3, (batch, ref) => {
+        batch.update(ref, { DeletedAt: deletedAt, DeletedBy: deletedBy });
+        markStationViewsStale(batch, 'station', [stationId]);
+        addAuditEntry(batch, {
+          entity: 'station',
+          entityId: stationId,
+          action: 'delete',
+          before: { DeletedAt: null, DeletedBy: null },
+          after: { DeletedAt: deletedAt, DeletedBy: deletedBy },
+          stationId,
+        });
+      });
       invalidateStationsCache();
-      
+      await syncStationViews([stationId]);
+
     } catch (err: any) {
       console.error('Error deleting station:', err);
       setError(`Failed to delete station: ${err.message}`);
@@ -62,4 +75,4 @@ export function useDeleteStation() {
   }, []);
 
   return { deleteStation, loading, error };
-}
\ No newline at end of file
+}
@@ -0,0 +1,114 @@
+// src/hooks/stations/useImportStations.ts
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { StationWithDetails } from '@/types/station';
+import { useCreateStation } from './useCreateStation';
+import { useUpdateStation } from './useUpdateStation';
+import { useProprietaires } from '@/hooks/ReferenceData/useProprietaires';
+import { useProduits } from '@/hooks/ReferenceData/useProduits';
+import { useProvinces } from '@/hooks/ReferenceData/useProvinces';
+import { useLimites } from '@/hooks/ReferenceData/useLimites';
+import { parseStationsWorkbook, StationImportRow } from '@/utils/stationExcel';
+import { invalidateReferenceData } from '@/lib/referenceCache';
+import { LimiteGeometry, limiteId, parseLimiteGeometry } from '@/utils/limites';
+import { normalizeName } from '@/utils/duplicates';
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  failed: { rowNumber: number; message: string }[];
+}
+
+/**
+ * Two-step station import: `analyse` parses and validates the workbook (dry run),
+ * `commit` writes the valid rows through the regular create/update hooks so that
+ * marques, provinces, communes, gérants and propriétaires are found or created
+ * exactly like from the station form.
+ */
+export function useImportStations(existingStations: StationWithDetails[]) {
+  const { createStation } = useCreateStation();
+  const { updateStation } = useUpdateStation();
+  const { proprietaires } = useProprietaires();
+  const { produitNames } = useProduits();
+  const { provinces } = useProvinces();
+  const { limites } = useLimites();
+
+  // Province outlines by name, for rows giving Lambert coordinates without their zone
+  const provinceOutlines = useMemo(() => {
+    const byId = new Map(limites.map(l => [l.LimiteID, l]));
+    const outlines = new Map<string, LimiteGeometry>();
+    provinces.forEach(p => {
+      const limite = byId.get(limiteId('province', p.ProvinceID));
+      const geometry = limite && parseLimiteGeometry(limite);
+      if (geometry) outlines.set(normalizeName(p.NomProvince), geometry);
+    });
+    return outlines;
+  }, [provinces, limites]);
+
+  const [rows, setRows] = useState<StationImportRow[]>([]);
+  const [analysing, setAnalysing] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const analyse = useCallback(async (file: File) => {
+    setAnalysing(true);
+    setError(null);
+    setResult(null);
+    try {
+      const parsed = await parseStationsWorkbook(file, existingStations, proprietaires, produitNames, provinceOutlines);
+      setRows(parsed);
+      return parsed;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Lecture du fichier impossible : ${message}`);
+      setRows([]);
+      return [];
+    } finally {
+      setAnalysing(false);
+    }
+  }, [existingStations, proprietaires, produitNames, provinceOutlines]);
+
+  const commit = useCallback(async () => {
+    const validRows = rows.filter(r => r.action !== 'error');
+    setCommitting(true);
+    setProgress(0);
+    setError(null);
+
+    const summary: ImportResult = { created: 0, updated: 0, failed: [] };
+
+    // Rows are written one by one: a row may create a marque or gérant that the next row reuses.
+    for (let i = 0; i < validRows.length; i++) {
+      const row = validRows[i];
+      try {
+        if (row.action === 'update' && row.existingStationId) {
+          await updateStation(row.existingStationId, row.formData);
+          summary.updated += 1;
+        } else {
+          await createStation(row.formData, row.code ?? undefined);
+          summary.created += 1;
+        }
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        summary.failed.push({ rowNumber: row.rowNumber, message });
+      }
+      setProgress(i + 1);
+    }
+
+    invalidateReferenceData();
+    setResult(summary);
+    setCommitting(false);
+    return summary;
+  }, [rows, createStation, updateStation]);
+
+  const reset = useCallback(() => {
+    setRows([]);
+    setResult(null);
+    setError(null);
+    setProgress(0);
+  }, []);
+
+  return { rows, analyse, commit, reset, analysing, committing, progress, result, error };
+}
@@ -1,7 +1,7 @@
 // src/hooks/stations/useNearbyStations.ts
 import { useState, useCallback, useEffect } from 'react';
-import { StationWithDetails } from '@/types/station';
-import { useStations } from './useStations';
+import { StationView } from '@/types/station';
+import { useStationViews } from './useStationViews';
 import { auth } from '@/lib/firebase/config';
 import { getApiUsage, canUseApi, incrementApiUsage, QUOTAS } from '@/lib/firebase/apiUsage';
 
@@ -42,8 +42,8 @@ function cacheKey(originLat: number, originLng: number, destLat: number, destLng
 }
 
 export function useNearbyStations() {
-  const { stations, loading: stationsLoading, error: stationsError } = useStations();
-  const [nearbyStations, setNearbyStations] = useState<(StationWithDetails & { distance: number })[]>([]);
+  const { stations, loading: stationsLoading, error: stationsError } = useStationViews();
+  const [nearbyStations, setNearbyStations] = useState<(StationView & { distance: number })[]>([]);
   const [nearbyLoading, setNearbyLoading] = useState(false);
   const [nearbyError, setNearbyError] = useState<string | null>(null);
 
@@ -77,8 +77,8 @@ export function useNearbyStations() {
         // 1. Fast Pre-filter: Bounding Box
         const bbox = computeBoundingBox(roundedLat, roundedLng, MAX_DRIVING_KM);
         const bboxCandidates = stations.filter(s => {
-          const lat = s.station.Latitude;
-          const lon = s.station.Longitude;
+          const lat = s.Latitude;
+          const lon = s.Longitude;
           return lat && lon && lat >= bbox.minLat && lat <= bbox.maxLat && lon >= bbox.minLon && lon <= bbox.maxLon;
         });
         
@@ -86,7 +86,7 @@ export function useNearbyStations() {
         const haversineCandidates = bboxCandidates
           .map(s => ({
             station: s,
-            haversineDistance: getHaversineDistance(roundedLat, roundedLng, s.station.Latitude!, s.station.Longitude!),
+            haversineDistance: getHaversineDistance(roundedLat, roundedLng, s.Latitude, s.Longitude),
           }))
           .filter(x => x.haversineDistance <= MAX_DRIVING_KM);
         
@@ -97,13 +97,13 @@ export function useNearbyStations() {
 
         // 3. Check API quota before proceeding
         const usage = await getApiUsage();
-        const finalResults: (StationWithDetails & { distance: number })[] = [];
+        const finalResults: (StationView & { distance: number })[] = [];
         const destinationsToFetch: typeof haversineCandidates = [];
         const now = Date.now();
 
         // Check cache first
         for (const candidate of haversineCandidates) {
-          const key = cacheKey(roundedLat, roundedLng, candidate.station.station.Latitude!, candidate.station.station.Longitude!);
+          const key = cacheKey(roundedLat, roundedLng, candidate.station.Latitude, candidate.station.Longitude);
           const cached = distanceCache.get(key);
 
           if (cached && (now - cached.timestamp < CACHE_TTL_MS)) {
@@ -137,8 +137,8 @@ export function useNearbyStations() {
           };
 
           const destinations = chunk.map(c => ({
-            lat: c.station.station.Latitude!,
-            lng: c.station.station.Longitude!
+            lat: c.station.Latitude,
+            lng: c.station.Longitude
           }));
 
           // Guard: origin + destination validity
@@ -205,8 +205,8 @@ export function useNearbyStations() {
             const key = cacheKey(
               roundedLat, 
               roundedLng, 
-              correspondingStation.station.station.Latitude!, 
-              correspondingStation.station.station.Longitude!
+              correspondingStation.station.Latitude, 
+              correspondingStation.station.Longitude
             );
             distanceCache.set(key, { distanceKm, timestamp: Date.now() });
 
@@ -0,0 +1,114 @@
+// src/hooks/stations/usePaginatedStations.ts
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { StationView } from '@/types/station';
+import {
+  countStations,
+  fetchStationsPage,
+  StationsCursor,
+  StationsQueryParams,
+} from '@/lib/firebase/stationsQuery';
+import { watchStationViews } from '@/lib/firebase/stationViews';
+import { useUpdatedStationIds } from './useUpdatedStationIds';
+
+/**
+ * Stations table page by page, read from the stations_view projection.
+ * Pages are walked with cursors, so only previous and next pages can be reached.
+ * The total is null when it cannot be counted on the server (see countStations).
+ * In live mode the rows of the current page are patched as their stations are written;
+ * a row that no longer matches the criteria stays until the page is reloaded.
+ * `partial` tells that the current page stopped scanning early (see fetchStationsPage).
+ */
+export function usePaginatedStations(params: StationsQueryParams, pageSize = 7, { live = false } = {}) {
+  const [entries, setEntries] = useState<StationView[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [partial, setPartial] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { updatedIds, markUpdated, clearUpdated } = useUpdatedStationIds();
+
+  // cursors[n] is the last document of page n, page n + 1 starts after it
+  const cursors = useRef<(StationsCursor | null)[]>([null]);
+  // Answers to an older request are dropped once the criteria have changed
+  const requestId = useRef(0);
+  const countRequestId = useRef(0);
+
+  const paramsKey = JSON.stringify(params);
+  const criteria = useMemo(() => JSON.parse(paramsKey) as StationsQueryParams, [paramsKey]);
+
+  const loadPage = useCallback(async (page: number) => {
+    const id = ++requestId.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchStationsPage(criteria, pageSize, cursors.current[page - 1] ?? null);
+      if (id !== requestId.current) return;
+      cursors.current[page] = result.cursor;
+      setEntries(result.entries);
+      setHasMore(result.hasMore);
+      setPartial(result.partial);
+      setCurrentPage(page);
+    } catch (err: unknown) {
+      if (id !== requestId.current) return;
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('Failed to load stations page:', err);
+      setError(`Failed to load stations: ${message}`);
+      setEntries([]);
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, [criteria, pageSize]);
+
+  const reload = useCallback(async () => {
+    cursors.current = [null];
+    setTotal(null);
+    const countId = ++countRequestId.current;
+    countStations(criteria)
+      .then((count) => {
+        if (countId === countRequestId.current) setTotal(count);
+      })
+      .catch((err) => console.error('Failed to count stations:', err));
+    await loadPage(1);
+  }, [criteria, loadPage]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const goToPage = useCallback((page: number) => {
+    // Only pages whose starting cursor is known can be reached
+    if (page < 1 || page > cursors.current.length) return;
+    loadPage(page);
+  }, [loadPage]);
+
+  // Listens to the stations of the current page only
+  const pageIds = entries.map((e) => e.StationID).join(',');
+  useEffect(() => {
+    if (!live || !pageIds) return;
+
+    const unsubscribe = watchStationViews(
+      pageIds.split(','),
+      ({ changed, removed }) => {
+        const fresh = new Map(changed.map((v) => [v.StationID, v]));
+        setEntries((prev) => prev
+          .filter((e) => !removed.includes(e.StationID))
+          .map((e) => fresh.get(e.StationID) ?? e));
+        markUpdated([...fresh.keys()]);
+      },
+      (err) => console.error('Error listening to station updates:', err)
+    );
+    return unsubscribe;
+  }, [live, pageIds, markUpdated]);
+
+  useEffect(() => {
+    if (!live) clearUpdated();
+  }, [live, clearUpdated]);
+
+  const totalPages = total === null ? null : Math.max(1, Math.ceil(total / pageSize));
+
+  return { entries, total, currentPage, totalPages, hasMore, partial, goToPage, loading, error, updatedIds, refetch: reload };
+}
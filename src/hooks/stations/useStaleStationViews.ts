@@ -0,0 +1,48 @@
+// src/hooks/stations/useStaleStationViews.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getStaleStationViews, retryStaleStationViews, StaleStationView } from '@/lib/firebase/stationViews';
+
+// A marker younger than this is most likely a write still being refreshed by its own tab
+const STALE_AFTER_MS = 60 * 1000;
+
+/**
+ * Writes whose rows in the stations list could not be refreshed, by any user,
+ * and a way to refresh them again.
+ */
+export function useStaleStationViews() {
+  const [stale, setStale] = useState<StaleStationView[]>([]);
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStale = useCallback(async () => {
+    try {
+      const markers = await getStaleStationViews();
+      const limit = Date.now() - STALE_AFTER_MS;
+      setStale(markers.filter((m) => m.MarkedAt && m.MarkedAt.getTime() < limit));
+    } catch (err: unknown) {
+      console.error('Error loading stale station views:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStale();
+  }, [fetchStale]);
+
+  const retry = useCallback(async () => {
+    setRetrying(true);
+    setError(null);
+    try {
+      await retryStaleStationViews();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to refresh the stations list: ${message}`);
+    } finally {
+      await fetchStale();
+      setRetrying(false);
+    }
+  }, [fetchStale]);
+
+  return { stale, retry, retrying, error };
+}
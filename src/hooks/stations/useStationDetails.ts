@@ -0,0 +1,44 @@
+// src/hooks/stations/useStationDetails.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { StationWithDetails } from '@/types/station';
+import { fetchStationDetails } from '@/lib/firebase/stationDetails';
+
+/**
+ * Joined details of a single station, without loading the whole station list.
+ */
+export function useStationDetails(stationId: string | null | undefined) {
+  const [station, setStation] = useState<StationWithDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStation = useCallback(async () => {
+    if (!stationId) {
+      setStation(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [details] = await fetchStationDetails([stationId]);
+      setStation(details ?? null);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('Failed to load station:', err);
+      setError(`Failed to load station: ${message}`);
+      setStation(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId]);
+
+  useEffect(() => {
+    fetchStation();
+  }, [fetchStation]);
+
+  return { station, loading, error, refetch: fetchStation };
+}
@@ -9,13 +9,22 @@ import { useCreateStation } from '@/hooks/stations/useCreateStation';
 import { useUpdateStation } from '@/hooks/stations/useUpdateStation';
 import { useGerants } from '@/hooks/ReferenceData/useGerants';
 import { useProprietaires } from '@/hooks/ReferenceData/useProprietaires';
+import { useOutbox } from '@/lib/offline/OutboxProvider';
+import { isNetworkError, isOffline, withWriteTimeout } from '@/utils/outbox';
 
 type Mode = 'create' | 'edit';
 
-type AutorisationError = Partial<Record<'TypeAutorisation' | 'NumeroAutorisation' | 'DateAutorisation', string>>;
+type AutorisationError = Partial<Record<'TypeAutorisation' | 'NumeroAutorisation' | 'DateAutorisation' | 'DateExpiration', string>>;
+
+type CuveForm = StationFormData['cuves'][number];
+type CuveError = Partial<Record<keyof CuveForm, string>>;
 
 type StationFormErrors = Partial<{
-  [K in keyof StationFormData]: K extends 'autorisations' ? string | AutorisationError[] : string;
+  [K in keyof StationFormData]: K extends 'autorisations'
+    ? string | AutorisationError[]
+    : K extends 'cuves'
+      ? string | CuveError[]
+      : string;
 }> & {
   __form?: string;
   submit?: string;
@@ -24,6 +33,7 @@ type StationFormErrors = Partial<{
 export function useStationForm(mode: Mode, station?: StationWithDetails) {
   const { createStation, loading: creating, error: createError } = useCreateStation();
   const { updateStation, loading: updating, error: updateError } = useUpdateStation();
+  const { enqueue } = useOutbox();
   const { gerants, loading: gerantsLoading, error: gerantsError } = useGerants();
   const { proprietaires, loading: proprietairesLoading, error: proprietairesError } = useProprietaires();
 
@@ -46,9 +56,8 @@ export function useStationForm(mode: Mode, station?: StationWithDetails) {
       PrenomProprietaire: '',
       NomProprietaire: '',
       NomEntreprise: '',
-      autorisations: [{ TypeAutorisation: 'création', NumeroAutorisation: '', DateAutorisation: '' }],
-      CapaciteGasoil: '0',
-      CapaciteSSP: '0',
+      autorisations: [{ TypeAutorisation: 'création', NumeroAutorisation: '', DateAutorisation: '', DateExpiration: '' }],
+      cuves: [],
       TypeGerance: 'libre',
       Statut: 'en activité',
       Commentaires: '',
@@ -149,7 +158,7 @@ export function useStationForm(mode: Mode, station?: StationWithDetails) {
 
   // Specific handler for updating an autorisation in the array
   const updateAutorisationField = useCallback(
-    (index: number, key: 'TypeAutorisation' | 'NumeroAutorisation' | 'DateAutorisation', value: string) => {
+    (index: number, key: 'TypeAutorisation' | 'NumeroAutorisation' | 'DateAutorisation' | 'DateExpiration', value: string) => {
       setForm((prev) => {
         const newAutorisations = [...prev.autorisations];
         newAutorisations[index] = { ...newAutorisations[index], [key]: value };
@@ -163,7 +172,7 @@ export function useStationForm(mode: Mode, station?: StationWithDetails) {
   const addAutorisation = useCallback(() => {
     setForm((prev) => ({
       ...prev,
-      autorisations: [...prev.autorisations, { TypeAutorisation: 'création', NumeroAutorisation: '', DateAutorisation: '' }],
+      autorisations: [...prev.autorisations, { TypeAutorisation: 'création', NumeroAutorisation: '', DateAutorisation: '', DateExpiration: '' }],
     }));
   }, []);
 
@@ -175,6 +184,32 @@ export function useStationForm(mode: Mode, station?: StationWithDetails) {
     }));
   }, []);
 
+  const updateCuveField = useCallback((index: number, key: keyof CuveForm, value: string) => {
+    setForm((prev) => {
+      const newCuves = [...prev.cuves];
+      newCuves[index] = { ...newCuves[index], [key]: value };
+      return { ...prev, cuves: newCuves };
+    });
+  }, []);
+
+  // Add a tank, numbered after the ones already entered
+  const addCuve = useCallback((TypeCarburant: CuveForm['TypeCarburant']) => {
+    setForm((prev) => ({
+      ...prev,
+      cuves: [
+        ...prev.cuves,
+        { IdentifiantCuve: `C${prev.cuves.length + 1}`, TypeCarburant, CapaciteLitres: '', DateInstallation: '', Materiau: '' },
+      ],
+    }));
+  }, []);
+
+  const removeCuve = useCallback((index: number) => {
+    setForm((prev) => ({
+      ...prev,
+      cuves: prev.cuves.filter((_, i) => i !== index),
+    }));
+  }, []);
+
   const submit = useCallback(async () => {
     setSubmitting(true);
     setErrors({});
@@ -189,8 +224,25 @@ export function useStationForm(mode: Mode, station?: StationWithDetails) {
     try {
       if (mode === 'create') {
         await createStation(form);
-      } else if (mode === 'edit' && station?.station.StationID) {
-        await updateStation(station.station.StationID, form);
+      } else if (mode === 'edit' && station) {
+        // Edits made without network are kept in the outbox and sent once it is back
+        const request = {
+          kind: 'station:update' as const,
+          stationId: station.station.StationID,
+          label: `Station ${station.station.NomStation}`,
+          formData: form,
+          base: stationWithDetailsToFormData(station),
+        };
+        if (isOffline()) {
+          await enqueue(request);
+        } else {
+          try {
+            await withWriteTimeout(updateStation(station.station.StationID, form));
+          } catch (err) {
+            if (!isNetworkError(err)) throw err;
+            await enqueue(request);
+          }
+        }
       }
       setSubmitting(false);
       return true;
@@ -200,7 +252,7 @@ export function useStationForm(mode: Mode, station?: StationWithDetails) {
       setSubmitting(false);
       return false;
     }
-  }, [form, mode, station?.station.StationID, createStation, updateStation]);
+  }, [form, mode, station, createStation, updateStation, enqueue]);
 
   return {
     form,
@@ -213,6 +265,9 @@ export function useStationForm(mode: Mode, station?: StationWithDetails) {
     updateAutorisationField,
     addAutorisation,
     removeAutorisation,
+    updateCuveField,
+    addCuve,
+    removeCuve,
     gerantSuggestions,
     setGerantSuggestions,
     proprietaireSuggestions,
@@ -0,0 +1,73 @@
+// src/hooks/stations/useStationHistory.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, doc, getDoc, query, where, getDocs, Timestamp, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { AuditEntity, AuditEntry } from '@/types/audit';
+
+// References a station points to. Their edits from the admin pages have no StationID.
+const LINKED_REFERENCES: [AuditEntity, 'MarqueID' | 'GerantID' | 'ProprietaireID'][] = [
+  ['marque', 'MarqueID'],
+  ['gerant', 'GerantID'],
+  ['proprietaire', 'ProprietaireID'],
+];
+
+function toAuditEntry(d: QueryDocumentSnapshot): AuditEntry {
+  const data = d.data();
+  return {
+    ...data,
+    AuditID: data.AuditID || d.id,
+    changes: data.changes || [],
+    timestamp: data.timestamp instanceof Timestamp ? data.timestamp.toDate() : null,
+  } as AuditEntry;
+}
+
+/**
+ * Audit entries of a station and of everything attached to it
+ * (autorisations, capacités, analyses, references edited from its form), newest first.
+ * The whole history of its marque, gérant and propriétaire is included, wherever they were edited.
+ */
+export function useStationHistory(stationId: string) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!stationId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const auditLog = collection(db, COLLECTIONS.AUDIT_LOG);
+      const station = (await getDoc(doc(db, COLLECTIONS.STATIONS, stationId))).data();
+      // Sorted client-side to avoid requiring a composite index on (StationID, timestamp)
+      const snaps = await Promise.all([
+        getDocs(query(auditLog, where('StationID', '==', stationId))),
+        ...LINKED_REFERENCES.filter(([, field]) => station?.[field]).map(([entity, field]) =>
+          getDocs(query(auditLog, where('entity', '==', entity), where('entityId', '==', station?.[field])))
+        ),
+      ]);
+      // A reference edited from the station's form is found by both queries
+      const byId = new Map<string, AuditEntry>();
+      snaps.forEach((snap) => snap.docs.forEach((d) => {
+        const entry = toAuditEntry(d);
+        byId.set(entry.AuditID, entry);
+      }));
+      const list = [...byId.values()];
+      list.sort((a, b) => (b.timestamp?.getTime() ?? 0) - (a.timestamp?.getTime() ?? 0));
+      setEntries(list);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch history: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return { entries, loading, error, refetch: fetchHistory };
+}
@@ -0,0 +1,78 @@
+// src/hooks/stations/useStationStatusHistory.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, collectionGroup, getDocs, DocumentData, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { StatusChange } from '@/types/station';
+
+function toStatusChange(id: string, data: DocumentData): StatusChange {
+  return {
+    ...data,
+    StatusChangeID: data.StatusChangeID || id,
+    DateEffet: data.DateEffet instanceof Timestamp ? data.DateEffet.toDate() : null,
+    DateSaisie: data.DateSaisie instanceof Timestamp ? data.DateSaisie.toDate() : null,
+  } as StatusChange;
+}
+
+/**
+ * Status changes of a station, most recent effective date first.
+ */
+export function useStationStatusHistory(stationId: string) {
+  const [changes, setChanges] = useState<StatusChange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!stationId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const snap = await getDocs(collection(db, COLLECTIONS.STATIONS, stationId, COLLECTIONS.STATUS_HISTORY));
+      const list = snap.docs.map((d) => toStatusChange(d.id, d.data()));
+      list.sort((a, b) => (b.DateEffet?.getTime() ?? 0) - (a.DateEffet?.getTime() ?? 0));
+      setChanges(list);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch status history: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return { changes, loading, error, refetch: fetchHistory };
+}
+
+/**
+ * Status changes of every station, for the dashboard trends.
+ */
+export function useAllStatusChanges() {
+  const [changes, setChanges] = useState<StatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchChanges = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const snap = await getDocs(collectionGroup(db, COLLECTIONS.STATUS_HISTORY));
+      setChanges(snap.docs.map((d) => toStatusChange(d.id, d.data())));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch status history: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchChanges();
+  }, [fetchChanges]);
+
+  return { changes, loading, error, refetch: fetchChanges };
+}
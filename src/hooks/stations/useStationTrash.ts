@@ -0,0 +1,157 @@
+// src/hooks/stations/useStationTrash.ts
+import { useCallback, useEffect, useState } from 'react';
+import {
+  collection,
+  deleteField,
+  doc,
+  DocumentReference,
+  getDoc,
+  getDocs,
+  query,
+  where,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { stationConverter } from '@/lib/firebase/converters';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { commitInBatches } from '@/lib/firebase/batch';
+import { deleteStationAttachments } from '@/hooks/useStationData/useAttachments';
+import { AuditParams } from '@/utils/audit';
+import { Station } from '@/types/station';
+import { isPurgeable, toDeletedAt } from '@/utils/trash';
+import { invalidateStationsCache } from './useStations';
+import { markStationViewsStale, syncStationViews } from '@/lib/firebase/stationViews';
+
+const CHILD_ENTITIES = [
+  [COLLECTIONS.AUTORISATIONS, 'autorisation'],
+  [COLLECTIONS.CAPACITES_STOCKAGE, 'capacite'],
+  [COLLECTIONS.ANALYSES, 'analyse'],
+  [COLLECTIONS.INSPECTIONS, 'inspection'],
+  [COLLECTIONS.DOSSIERS, 'dossier'],
+] as const;
+
+function fetchChildren(stationId: string) {
+  return Promise.all(
+    CHILD_ENTITIES.map(([name]) => getDocs(query(collection(db, name), where('StationID', '==', stationId))))
+  );
+}
+
+// Renewals and status changes are history of the station: purged with it, without audit entries
+function fetchHistory(stationId: string) {
+  return Promise.all([
+    getDocs(query(collection(db, COLLECTIONS.RENOUVELLEMENTS), where('StationID', '==', stationId))),
+    getDocs(collection(db, COLLECTIONS.STATIONS, stationId, COLLECTIONS.STATUS_HISTORY)),
+  ]);
+}
+
+/**
+ * Stations in the corbeille, with restore and permanent purge.
+ * A station can only be purged once the retention period is over.
+ */
+export function useStationTrash() {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeleted = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const snap = await getDocs(
+        query(collection(db, COLLECTIONS.STATIONS).withConverter(stationConverter), where('DeletedAt', '!=', null))
+      );
+      const deleted = snap.docs
+        .map((d) => {
+          const station = d.data();
+          return { ...station, DeletedAt: toDeletedAt(station.DeletedAt) };
+        })
+        .sort((a, b) => (b.DeletedAt?.getTime() ?? 0) - (a.DeletedAt?.getTime() ?? 0));
+      setStations(deleted);
+    } catch (err: unknown) {
+      console.error('Error loading deleted stations:', err);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to load deleted stations: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDeleted();
+  }, [fetchDeleted]);
+
+  const restoreStation = useCallback(async (stationId: string) => {
+    setError(null);
+
+    try {
+      const stationRef = doc(db, COLLECTIONS.STATIONS, stationId);
+      const stationSnap = await getDoc(stationRef);
+      const childSnaps = await fetchChildren(stationId);
+
+      // The children first: the station only leaves the corbeille once they are all restored
+      await commitInBatches(childSnaps.flatMap((snap) => snap.docs), 1, (batch, d) => {
+        batch.update(d.ref, { DeletedAt: deleteField() });
+      });
+      await commitInBatches([stationRef], 3, (batch, ref) => {
+        batch.update(ref, { DeletedAt: deleteField(), DeletedBy: deleteField() });
+        markStationViewsStale(batch, 'station', [stationId]);
+        addAuditEntry(batch, {
+          entity: 'station',
+          entityId: stationId,
+          action: 'restore',
+          before: { DeletedAt: stationSnap.data()?.DeletedAt, DeletedBy: stationSnap.data()?.DeletedBy },
+          after: { DeletedAt: null, DeletedBy: null },
+          stationId,
+        });
+      });
+      invalidateStationsCache();
+      await syncStationViews([stationId]);
+      setStations((prev) => prev.filter((s) => s.StationID !== stationId));
+    } catch (err: unknown) {
+      console.error('Error restoring station:', err);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to restore station: ${message}`);
+      throw err;
+    }
+  }, []);
+
+  const purgeStation = useCallback(async (stationId: string) => {
+    setError(null);
+
+    try {
+      const stationRef = doc(db, COLLECTIONS.STATIONS, stationId);
+      const stationSnap = await getDoc(stationRef);
+      if (!isPurgeable(toDeletedAt(stationSnap.data()?.DeletedAt))) {
+        throw new Error('the retention period is not over');
+      }
+
+      // Files are stored outside of Firestore, they go first so that none is left without its station
+      await deleteStationAttachments(stationId);
+
+      const [childSnaps, historySnaps] = await Promise.all([fetchChildren(stationId), fetchHistory(stationId)]);
+      const deletions: { ref: DocumentReference; audit?: AuditParams }[] = [
+        ...childSnaps.flatMap((snap, i) => snap.docs.map((d) => ({
+          ref: d.ref,
+          audit: { entity: CHILD_ENTITIES[i][1], entityId: d.id, action: 'delete' as const, before: d.data(), stationId },
+        }))),
+        ...historySnaps.flatMap((snap) => snap.docs.map((d) => ({ ref: d.ref }))),
+        // Last, so that a purge interrupted half-way leaves the station in the corbeille to purge again
+        { ref: stationRef, audit: { entity: 'station', entityId: stationId, action: 'purge', before: stationSnap.data(), stationId } },
+      ];
+      await commitInBatches(deletions, 2, (batch, { ref, audit }) => {
+        batch.delete(ref);
+        if (audit) addAuditEntry(batch, audit);
+      });
+      await syncStationViews([stationId]);
+      setStations((prev) => prev.filter((s) => s.StationID !== stationId));
+    } catch (err: unknown) {
+      console.error('Error purging station:', err);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to purge station: ${message}`);
+      throw err;
+    }
+  }, []);
+
+  return { stations, loading, error, refetch: fetchDeleted, restoreStation, purgeStation };
+}
@@ -0,0 +1,43 @@
+// src/hooks/stations/useStationViews.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { stationViewConverter } from '@/lib/firebase/converters';
+import { StationView } from '@/types/station';
+
+/**
+ * Every station from the stations_view projection: one read per station instead of
+ * the join done by useStations. Enough for the screens that only show names,
+ * positions and summaries; use useStations when the child documents are needed.
+ */
+export function useStationViews() {
+  const [stations, setStations] = useState<StationView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStationViews = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const snap = await getDocs(collection(db, COLLECTIONS.STATIONS_VIEW).withConverter(stationViewConverter));
+      setStations(snap.docs.map((d) => d.data()));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('Failed to load station views:', err);
+      setError(`Failed to load stations: ${message}`);
+      setStations([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStationViews();
+  }, [fetchStationViews]);
+
+  return { stations, loading, error, refetch: fetchStationViews };
+}
@@ -10,6 +10,7 @@ import {
   where,
 } from 'firebase/firestore';
 import { invalidateStationsCache } from './useStations';
+import { markStationViewsStale, syncStationViewsByReference } from '@/lib/firebase/stationViews';
 
 function cleanFirestoreData<T extends Record<string, any>>(data: T): Partial<T> {
   return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
@@ -42,6 +43,13 @@ import {
 } from '@/lib/firebase/converters';
 import { parseDateString } from '@/utils/format';
 import { generateUUID } from '@/utils/uuid';
+import { cuveToCapacite } from '@/utils/stationFormUtils';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { addStatusChange } from '@/lib/firebase/stationStatus';
+import { findTakenAutorisationNumbers } from '@/lib/firebase/autorisations';
+import { matchAutorisationIds, takenAutorisationNumbersMessage } from '@/utils/autorisations';
+import { getStatusTransitionError } from '@/utils/stationStatus';
+import { diffChildren } from '@/utils/audit';
 
 export function useUpdateStation() {
   const [loading, setLoading] = useState(false);
@@ -60,6 +68,15 @@ export function useUpdateStation() {
         throw new Error('Station not found');
       }
       const currentStation = stationSnap.data();
+
+      // An autorisation number belongs to a single station
+      const takenNumbers = await findTakenAutorisationNumbers(
+        formData.autorisations.map((a) => a.NumeroAutorisation),
+        stationId
+      );
+      if (takenNumbers.length > 0) {
+        throw new Error(takenAutorisationNumbersMessage(takenNumbers));
+      }
       const oldProprietaireId = currentStation?.ProprietaireID || '';
       
       // Check if StationID field is missing and add it if needed
@@ -78,9 +95,10 @@ export function useUpdateStation() {
 
       if (!marqueSnap.empty) {
         marqueId = marqueSnap.docs[0].id;
-        batch.update(marqueSnap.docs[0].ref, {
-          RaisonSociale: formData.RaisonSociale.trim(),
-        });
+        const marqueUpdate = { RaisonSociale: formData.RaisonSociale.trim() };
+        batch.update(marqueSnap.docs[0].ref, marqueUpdate);
+        const oldMarque = marqueSnap.docs[0].data();
+        addAuditEntry(batch, { entity: 'marque', entityId: marqueId, action: 'update', before: oldMarque, after: { ...oldMarque, ...marqueUpdate }, stationId });
       } else {
         marqueId = generateUUID();
         const newRef = doc(db, COLLECTIONS.MARQUES, marqueId).withConverter(marqueConverter);
@@ -90,6 +108,7 @@ export function useUpdateStation() {
           RaisonSociale: formData.RaisonSociale.trim(),
         };
         batch.set(newRef, newMarque);
+        addAuditEntry(batch, { entity: 'marque', entityId: marqueId, action: 'create', after: newMarque, stationId });
       }
 
       /** -------------------------------
@@ -112,6 +131,7 @@ export function useUpdateStation() {
           NomProvince: formData.Province.trim(),
         };
         batch.set(newRef, newProvince);
+        addAuditEntry(batch, { entity: 'province', entityId: provinceId, action: 'create', after: newProvince, stationId });
       }
 
       let communeId: string;
@@ -133,6 +153,7 @@ export function useUpdateStation() {
           ProvinceID: provinceId,
         };
         batch.set(newRef, newCommune);
+        addAuditEntry(batch, { entity: 'commune', entityId: communeId, action: 'create', after: newCommune, stationId });
       }
 
       /** -------------------------------
@@ -155,6 +176,8 @@ export function useUpdateStation() {
           gerantUpdate.Telephone = formData.Telephone.trim();
         }
         batch.update(gerantSnap.docs[0].ref, cleanFirestoreData(gerantUpdate));
+        const oldGerant = gerantSnap.docs[0].data();
+        addAuditEntry(batch, { entity: 'gerant', entityId: gerantId, action: 'update', before: oldGerant, after: { ...oldGerant, ...cleanFirestoreData(gerantUpdate) }, stationId });
       } else {
         gerantId = generateUUID();
         const newRef = doc(db, COLLECTIONS.GERANTS, gerantId).withConverter(gerantConverter);
@@ -168,12 +191,14 @@ export function useUpdateStation() {
           newGerant.Telephone = formData.Telephone.trim();
         }
         batch.set(newRef, cleanFirestoreData(newGerant));
+        addAuditEntry(batch, { entity: 'gerant', entityId: gerantId, action: 'create', after: newGerant, stationId });
       }
 
       /** -------------------------------
        * 4. Update Proprietaire - FIXED VERSION
        * ------------------------------ */
       let proprietaireId: string | undefined;
+      let oldProprietaire: Record<string, unknown> | null = null;
       const proprietaireName =
         formData.TypeProprietaire === 'Physique'
           ? formData.NomProprietaire.trim()
@@ -196,6 +221,8 @@ export function useUpdateStation() {
             const oldDetailsSnap = await getDocs(oldDetailsQuery);
             oldDetailsSnap.forEach((docSnap) => batch.delete(docSnap.ref));
             batch.delete(oldPropRef);
+            oldProprietaire = { ...oldPropSnap.data(), ...oldDetailsSnap.docs[0]?.data() };
+            addAuditEntry(batch, { entity: 'proprietaire', entityId: oldProprietaireId, action: 'delete', before: oldProprietaire, stationId });
           }
         }
       } else {
@@ -223,6 +250,7 @@ export function useUpdateStation() {
               );
               const oldDetailsSnap = await getDocs(oldDetailsQuery);
               oldDetailsSnap.forEach((docSnap) => batch.delete(docSnap.ref));
+              oldProprietaire = { ...oldPropSnap.data(), ...oldDetailsSnap.docs[0]?.data() };
             }
 
             proprietaireId = oldProprietaireId;
@@ -242,6 +270,7 @@ export function useUpdateStation() {
               if (!detailsSnap.empty) {
                 existingDetailsDocId = detailsSnap.docs[0].id;
               }
+              oldProprietaire = { ...oldPropSnap.data(), ...detailsSnap.docs[0]?.data() };
             }
           } else {
             // Old proprietaire doesn't exist, create new
@@ -301,6 +330,18 @@ export function useUpdateStation() {
             batch.set(newDetailsRef, morData);
           }
         }
+
+        const newProprietaire = formData.TypeProprietaire === 'Physique'
+          ? { ProprietaireID: proprietaireId, TypeProprietaire: formData.TypeProprietaire, NomProprietaire: formData.NomProprietaire.trim(), PrenomProprietaire: formData.PrenomProprietaire.trim() }
+          : { ProprietaireID: proprietaireId, TypeProprietaire: formData.TypeProprietaire, NomEntreprise: formData.NomEntreprise.trim() };
+        addAuditEntry(batch, {
+          entity: 'proprietaire',
+          entityId: proprietaireId!,
+          action: shouldCreateNew ? 'create' : 'update',
+          before: oldProprietaire,
+          after: newProprietaire,
+          stationId,
+        });
       }
 
       /** -------------------------------
@@ -324,7 +365,31 @@ export function useUpdateStation() {
         ProprietaireID: proprietaireId || '',
       };
 
+      if (currentStation?.Statut !== formData.Statut) {
+        const hasMiseEnService = formData.autorisations.some(
+          (a) => a.TypeAutorisation === 'mise en service' && a.NumeroAutorisation.trim()
+        );
+        const transitionError = getStatusTransitionError(currentStation?.Statut, formData.Statut, { hasMiseEnService });
+        if (transitionError) {
+          throw new Error(transitionError);
+        }
+        addStatusChange(batch, {
+          stationId,
+          from: currentStation?.Statut ?? null,
+          to: formData.Statut,
+          reason: 'Modification de la fiche station',
+        });
+      }
+
       batch.update(stationRef, cleanFirestoreData(stationUpdateData));
+      addAuditEntry(batch, {
+        entity: 'station',
+        entityId: stationId,
+        action: 'update',
+        before: currentStation,
+        after: { ...currentStation, ...cleanFirestoreData(stationUpdateData) },
+        stationId,
+      });
 
       /** -------------------------------
        * 6. Update Autorisations
@@ -334,11 +399,17 @@ export function useUpdateStation() {
         where('StationID', '==', stationId)
       );
       const oldAutorisationsSnap = await getDocs(oldAutorisationsQuery);
-      oldAutorisationsSnap.forEach((docSnap) => batch.delete(docSnap.ref));
+      const oldAutorisations = oldAutorisationsSnap.docs.map((d) => ({ ...d.data(), AutorisationID: d.id }) as Autorisation);
+      // Autorisations are kept under their ID, attachments and renewals point at it
+      const autorisationIds = matchAutorisationIds(oldAutorisations, formData.autorisations);
+      oldAutorisationsSnap.forEach((docSnap) => {
+        if (!autorisationIds.includes(docSnap.id)) batch.delete(docSnap.ref);
+      });
 
-      for (const autoData of formData.autorisations) {
+      const newAutorisations: Autorisation[] = [];
+      for (const [index, autoData] of formData.autorisations.entries()) {
         if (autoData.NumeroAutorisation.trim()) {
-          const autoId = generateUUID();
+          const autoId = autorisationIds[index] ?? generateUUID();
           const newRef = doc(db, COLLECTIONS.AUTORISATIONS, autoId).withConverter(autorisationConverter);
           const parsedDate = autoData.DateAutorisation ? parseDateString(autoData.DateAutorisation) : null;
           const newAutorisation: Autorisation = {
@@ -347,10 +418,20 @@ export function useUpdateStation() {
             TypeAutorisation: autoData.TypeAutorisation,
             NumeroAutorisation: autoData.NumeroAutorisation.trim(),
             DateAutorisation: parsedDate,
+            DateExpiration: autoData.DateExpiration ? parseDateString(autoData.DateExpiration) : null,
           };
           batch.set(newRef, newAutorisation);
+          newAutorisations.push(newAutorisation);
         }
       }
+      diffChildren(
+        'autorisation',
+        'AutorisationID',
+        stationId,
+        oldAutorisations,
+        newAutorisations,
+        (a) => a.AutorisationID
+      ).forEach((params) => addAuditEntry(batch, params));
 
       /** -------------------------------
        * 7. Update Capacités
@@ -361,36 +442,35 @@ export function useUpdateStation() {
       );
       const capacitesSnap = await getDocs(capacitesQuery);
       capacitesSnap.forEach((docSnap) => batch.delete(docSnap.ref));
+      const newCapacites: CapaciteStockage[] = [];
 
-      if (formData.CapaciteGasoil.trim()) {
-        const gasoilId = generateUUID();
-        const gasoilRef = doc(db, COLLECTIONS.CAPACITES_STOCKAGE, gasoilId).withConverter(capaciteConverter);
-        const gasoil: CapaciteStockage = {
-          CapaciteID: gasoilId,
-          StationID: stationId,
-          TypeCarburant: 'Gasoil',
-          CapaciteLitres: parseFloat(formData.CapaciteGasoil),
-        };
-        batch.set(gasoilRef, gasoil);
-      }
-
-      if (formData.CapaciteSSP.trim()) {
-        const sspId = generateUUID();
-        const sspRef = doc(db, COLLECTIONS.CAPACITES_STOCKAGE, sspId).withConverter(capaciteConverter);
-        const ssp: CapaciteStockage = {
-          CapaciteID: sspId,
-          StationID: stationId,
-          TypeCarburant: 'SSP',
-          CapaciteLitres: parseFloat(formData.CapaciteSSP),
-        };
-        batch.set(sspRef, ssp);
+      for (const cuve of formData.cuves) {
+        const capId = generateUUID();
+        const capRef = doc(db, COLLECTIONS.CAPACITES_STOCKAGE, capId).withConverter(capaciteConverter);
+        const cap = cuveToCapacite(cuve, capId, stationId);
+        batch.set(capRef, cap);
+        newCapacites.push(cap);
       }
+      diffChildren(
+        'capacite',
+        'CapaciteID',
+        stationId,
+        capacitesSnap.docs.map((d) => d.data() as CapaciteStockage),
+        newCapacites,
+        (c) => c.IdentifiantCuve || c.TypeCarburant
+      ).forEach((params) => addAuditEntry(batch, params));
 
       /** -------------------------------
        * Commit
        * ------------------------------ */
+      markStationViewsStale(batch, 'station', [stationId]);
+      markStationViewsStale(batch, 'marque', [marqueId]);
+      markStationViewsStale(batch, 'gerant', [gerantId]);
+      markStationViewsStale(batch, 'proprietaire', [proprietaireId]);
       await batch.commit();
       invalidateStationsCache();
+      // The marque, gérant and propriétaire may be shared with other stations and were updated too
+      await syncStationViewsByReference({ marque: [marqueId], gerant: [gerantId], proprietaire: [proprietaireId] }, [stationId]);
 
     } catch (err: any) {
       console.error('Failed to update station:', err);
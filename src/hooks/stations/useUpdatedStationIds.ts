@@ -0,0 +1,45 @@
+// src/hooks/stations/useUpdatedStationIds.ts
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// How long a station stays flagged as updated after a live change
+const UPDATED_FLAG_MS = 1000 * 60;
+
+/**
+ * Stations changed while a live list is open, so that their rows
+ * can be flagged for a while. Each flag clears itself after UPDATED_FLAG_MS.
+ */
+export function useUpdatedStationIds() {
+  const [updatedIds, setUpdatedIds] = useState<Set<string>>(() => new Set());
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const markUpdated = useCallback((stationIds: string[]) => {
+    if (stationIds.length === 0) return;
+    setUpdatedIds((prev) => new Set([...prev, ...stationIds]));
+    stationIds.forEach((id) => {
+      clearTimeout(timers.current.get(id));
+      timers.current.set(id, setTimeout(() => {
+        timers.current.delete(id);
+        setUpdatedIds((prev) => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
+      }, UPDATED_FLAG_MS));
+    });
+  }, []);
+
+  const clearUpdated = useCallback(() => {
+    timers.current.forEach((timer) => clearTimeout(timer));
+    timers.current.clear();
+    setUpdatedIds(new Set());
+  }, []);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  return { updatedIds, markUpdated, clearUpdated };
+}
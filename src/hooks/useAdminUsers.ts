@@ -0,0 +1,103 @@
+// src/hooks/useAdminUsers.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { auth } from '@/lib/firebase/config';
+import { Role } from '@/lib/auth/permissions';
+import { AdminUser } from '@/types/user';
+
+async function adminFetch<T>(url: string, init: RequestInit = {}): Promise<T> {
+  if (!auth.currentUser) throw new Error('Not authenticated');
+  const token = await auth.currentUser.getIdToken();
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    let errorMsg = `Erreur ${response.status} - ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      errorMsg = errorData.error || errorMsg;
+    } catch {
+      // Empty or non-JSON body — use status fallback
+    }
+    throw new Error(errorMsg);
+  }
+  return response.json();
+}
+
+export function useAdminUsers() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await adminFetch<{ users: AdminUser[] }>('/api/admin/users');
+      setUsers(data.users);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch users: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const replaceUser = (user: AdminUser) =>
+    setUsers((prev) => prev.map((u) => (u.uid === user.uid ? user : u)));
+
+  const createUser = useCallback(async (data: { email: string; displayName?: string; role: Role }) => {
+    setError(null);
+    try {
+      const result = await adminFetch<{ user: AdminUser; resetLink: string }>('/api/admin/users', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+      setUsers((prev) => [...prev, result.user]);
+      return result;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to create user: ${message}`);
+      throw err;
+    }
+  }, []);
+
+  const updateUser = useCallback(async (uid: string, data: { role?: Role; disabled?: boolean }) => {
+    setError(null);
+    try {
+      const result = await adminFetch<{ user: AdminUser }>(`/api/admin/users/${uid}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      });
+      replaceUser(result.user);
+      return result.user;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to update user: ${message}`);
+      throw err;
+    }
+  }, []);
+
+  const resetAccess = useCallback(async (uid: string) => {
+    setError(null);
+    try {
+      return await adminFetch<{ resetLink: string }>(`/api/admin/users/${uid}/reset`, { method: 'POST' });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to reset user access: ${message}`);
+      throw err;
+    }
+  }, []);
+
+  return { users, loading, error, refetch: fetchUsers, createUser, updateUser, resetAccess };
+}
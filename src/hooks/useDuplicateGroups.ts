@@ -0,0 +1,33 @@
+// useDuplicateGroups.ts hook
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DuplicateCandidate, findDuplicateGroups } from '@/utils/duplicates';
+
+/**
+ * Likely duplicate groups among the records, searched in a web worker. `loading` is true
+ * until the groups of the current records are known.
+ */
+export function useDuplicateGroups<T extends DuplicateCandidate>(records: T[]): { groups: T[][]; loading: boolean } {
+  const [result, setResult] = useState<{ records: T[]; groups: T[][] } | null>(null);
+
+  useEffect(() => {
+    const toGroups = (ids: string[][]) => {
+      const byId = new Map(records.map((r) => [r.id, r]));
+      setResult({ records, groups: ids.map((group) => group.map((id) => byId.get(id)!)) });
+    };
+
+    if (typeof Worker === 'undefined') {
+      toGroups(findDuplicateGroups(records, { getId: (r) => r.id, getName: (r) => r.name, getExactKey: (r) => r.exactKey })
+        .map((group) => group.map((r) => r.id)));
+      return;
+    }
+
+    const worker = new Worker(new URL('../utils/duplicates.worker.ts', import.meta.url));
+    worker.onmessage = (e: MessageEvent<string[][]>) => toGroups(e.data);
+    worker.postMessage(records.map(({ id, name, exactKey }) => ({ id, name, exactKey })));
+    return () => worker.terminate();
+  }, [records]);
+
+  return result?.records === records ? { groups: result.groups, loading: false } : { groups: [], loading: true };
+}
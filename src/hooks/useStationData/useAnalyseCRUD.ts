@@ -2,13 +2,21 @@
 
 import { useCallback, useState } from 'react';
 import {
-  collection, doc, setDoc, updateDoc, deleteDoc,
+  collection, doc, getDoc, writeBatch,
   query, where, getDocs, Timestamp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { COLLECTIONS } from '@/lib/firebase/collections';
 import { Analyse } from '@/types/station';
 import { generateUUID } from '@/utils/uuid';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { queueDossierOpening } from '@/lib/firebase/dossiers';
+import { markStationViewsStale, syncStationViews } from '@/lib/firebase/stationViews';
+
+function negativeAnalyseMotif(data: Partial<Analyse>): string {
+  const code = data.CodeAnalyse ? ` ${data.CodeAnalyse}` : '';
+  return `Analyse${code} (${data.ProduitAnalyse || 'produit inconnu'}) négative`;
+}
 
 // Add interface for Timestamp-like object
 interface TimestampLike {
@@ -20,19 +28,38 @@ export function useAnalyseCRUD() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const createAnalyse = useCallback(async (data: Omit<Analyse, 'AnalyseID'>) => {
+  // `analyseId` is given when the analyse may already have been sent, so it is written once
+  const createAnalyse = useCallback(async (data: Omit<Analyse, 'AnalyseID'>, analyseId = generateUUID()) => {
     setLoading(true); 
     setError(null);
     try {
-      const analyseId = generateUUID();
       const fsPayload = {
         StationID: data.StationID,
         ProduitAnalyse: data.ProduitAnalyse,
         CodeAnalyse: data.CodeAnalyse,
         ResultatAnalyse: data.ResultatAnalyse,
         DateAnalyse: data.DateAnalyse ? Timestamp.fromDate(data.DateAnalyse) : null,
+        Mesures: data.Mesures ?? [],
+        ResultatCalcule: data.ResultatCalcule ?? null,
+        ResultatForce: data.ResultatForce ?? false,
+        MotifForcage: data.MotifForcage ?? '',
+        CampagneID: data.CampagneID ?? null,
       };
-      await setDoc(doc(db, COLLECTIONS.ANALYSES, analyseId), fsPayload);
+      const batch = writeBatch(db);
+      batch.set(doc(db, COLLECTIONS.ANALYSES, analyseId), fsPayload);
+      addAuditEntry(batch, { entity: 'analyse', entityId: analyseId, action: 'create', after: fsPayload });
+      // A negative result opens a non-conformity case
+      if (data.ResultatAnalyse === 'Négatif') {
+        await queueDossierOpening(batch, {
+          stationId: data.StationID,
+          origine: 'analyse',
+          origineId: analyseId,
+          motif: negativeAnalyseMotif(data),
+        });
+      }
+      markStationViewsStale(batch, 'station', [data.StationID]);
+      await batch.commit();
+      await syncStationViews([data.StationID]);
       return analyseId;
     } catch (err: any) {
       setError(`Failed to create analyse: ${err.message}`); 
@@ -79,6 +106,11 @@ export function useAnalyseCRUD() {
           CodeAnalyse: raw?.CodeAnalyse ?? '',
           ResultatAnalyse: raw?.ResultatAnalyse ?? '',
           DateAnalyse: dateAnalyse,
+          Mesures: raw?.Mesures ?? [],
+          ResultatCalcule: raw?.ResultatCalcule ?? null,
+          ResultatForce: raw?.ResultatForce ?? false,
+          MotifForcage: raw?.MotifForcage ?? '',
+          CampagneID: raw?.CampagneID ?? null,
         } as Analyse;
       }).sort((a, b) => {
         const aTime = a.DateAnalyse?.getTime() || 0;
@@ -103,7 +135,22 @@ export function useAnalyseCRUD() {
       } else if (data.DateAnalyse === null) {
         fsPayload.DateAnalyse = null;
       }
-      await updateDoc(doc(db, COLLECTIONS.ANALYSES, analyseId), fsPayload);
+      const ref = doc(db, COLLECTIONS.ANALYSES, analyseId);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, fsPayload);
+      addAuditEntry(batch, { entity: 'analyse', entityId: analyseId, action: 'update', before, after: { ...before, ...fsPayload } });
+      if (before && data.ResultatAnalyse === 'Négatif' && before.ResultatAnalyse !== 'Négatif') {
+        await queueDossierOpening(batch, {
+          stationId: before.StationID,
+          origine: 'analyse',
+          origineId: analyseId,
+          motif: negativeAnalyseMotif({ ...before, ...data }),
+        });
+      }
+      markStationViewsStale(batch, 'station', [before?.StationID]);
+      await batch.commit();
+      if (before?.StationID) await syncStationViews([before.StationID]);
     } catch (err: any) {
       setError(`Failed to update analyse: ${err.message}`); 
       throw err;
@@ -116,7 +163,14 @@ export function useAnalyseCRUD() {
     setLoading(true);
     setError(null);
     try {
-      await deleteDoc(doc(db, COLLECTIONS.ANALYSES, analyseId));
+      const ref = doc(db, COLLECTIONS.ANALYSES, analyseId);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'analyse', entityId: analyseId, action: 'delete', before });
+      markStationViewsStale(batch, 'station', [before?.StationID]);
+      await batch.commit();
+      if (before?.StationID) await syncStationViews([before.StationID]);
       return true;
     } catch (err: any) {
       setError(`Failed to delete analyse: ${err.message}`);
@@ -3,29 +3,50 @@
 import { useCallback, useEffect, useState } from 'react';
 import { Analyse } from '@/types/station';
 import { useAnalyseCRUD } from '@/hooks/useStationData/useAnalyseCRUD';
+import { useProduits } from '@/hooks/ReferenceData/useProduits';
+import { useOutbox } from '@/lib/offline/OutboxProvider';
+import { buildMesures, computeVerdict, getSeuils } from '@/utils/analyseParametres';
+import { isNetworkError, isOffline, withWriteTimeout } from '@/utils/outbox';
+import { generateUUID } from '@/utils/uuid';
+import { OutboxRequest } from '@/types/outbox';
 
 type Mode = 'create' | 'edit';
 
 interface AnalyseFormData {
-  ProduitAnalyse: 'Gasoil' | 'SSP';
+  ProduitAnalyse: string;
   DateAnalyse: string; // Stores date as dd/mm/yyyy string
   CodeAnalyse: string;
   ResultatAnalyse: 'Positif' | 'Négatif';
+  Mesures: Record<string, string>; // Typed values by parameter key
+  ResultatForce: boolean;
+  MotifForcage: string;
+  CampagneID: string; // Empty when the analyse is not part of a campaign
 }
 
+type FormErrors = Partial<Record<Exclude<keyof AnalyseFormData, 'Mesures'>, string>> & {
+  Mesures?: Record<string, string>;
+};
+
 interface Errors {
-  forms: Partial<Record<keyof AnalyseFormData, string>>[];
+  forms: FormErrors[];
   __form?: string;
 }
 
-export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: Analyse[] = []) {
+// New forms get `defaultCampagneId`, or the campaign of the first form once there is one
+export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: Analyse[] = [], defaultCampagneId = '') {
   const { createAnalyse, updateAnalyse, deleteAnalyse: deleteAnalyseMutation, loading, error } = useAnalyseCRUD();
+  const { produits } = useProduits();
+  const { enqueue } = useOutbox();
 
   const emptyForm: AnalyseFormData = {
     ProduitAnalyse: 'Gasoil',
     DateAnalyse: '',
     CodeAnalyse: '',
     ResultatAnalyse: 'Positif',
+    Mesures: {},
+    ResultatForce: false,
+    MotifForcage: '',
+    CampagneID: defaultCampagneId,
   };
 
   const [forms, setForms] = useState<AnalyseFormData[]>([emptyForm]);
@@ -59,6 +80,10 @@ export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: A
           DateAnalyse: dateString,
           CodeAnalyse: analyse.CodeAnalyse || '',
           ResultatAnalyse: analyse.ResultatAnalyse || 'Positif',
+          Mesures: Object.fromEntries((analyse.Mesures ?? []).map(m => [m.Parametre, String(m.Valeur)])),
+          ResultatForce: !!analyse.ResultatForce,
+          MotifForcage: analyse.MotifForcage || '',
+          CampagneID: analyse.CampagneID || '',
         };
       });
       setForms(formattedForms);
@@ -69,11 +94,15 @@ export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: A
     }
   }, [mode, initialAnalyses]);
 
-  // Add a new empty form
-  const addForm = useCallback(() => {
-    setForms(prev => [...prev, emptyForm]);
+  // Add a new empty form, optionally for a given produit. Samples of a session share their campaign
+  const addForm = useCallback((produit?: string) => {
+    setForms(prev => [...prev, {
+      ...emptyForm,
+      ProduitAnalyse: produit ?? emptyForm.ProduitAnalyse,
+      CampagneID: prev.length > 0 ? prev[0].CampagneID : defaultCampagneId,
+    }]);
     setErrors(prev => ({ ...prev, forms: [...prev.forms, {}] }));
-  }, []);
+  }, [defaultCampagneId]);
 
   // Remove a form by index
   const removeForm = useCallback((index: number) => {
@@ -85,7 +114,7 @@ export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: A
   }, []);
 
   // Update field in a specific form
-  const updateField = useCallback((index: number, key: keyof AnalyseFormData, value: string) => {
+  const updateField = useCallback((index: number, key: Exclude<keyof AnalyseFormData, 'Mesures'>, value: string | boolean) => {
     setForms(prev => {
       const newForms = [...prev];
       newForms[index] = { ...newForms[index], [key]: value };
@@ -98,21 +127,60 @@ export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: A
     });
   }, []);
 
+  // Update one measured parameter of a form
+  const updateMesure = useCallback((index: number, parametre: string, value: string) => {
+    setForms(prev => {
+      const newForms = [...prev];
+      newForms[index] = { ...newForms[index], Mesures: { ...newForms[index].Mesures, [parametre]: value } };
+      return newForms;
+    });
+  }, []);
+
+  // Measures of a form checked against the limits of its produit
+  const getMesures = useCallback((form: AnalyseFormData) => {
+    const valeurs: Record<string, number> = {};
+    Object.entries(form.Mesures).forEach(([parametre, raw]) => {
+      const n = Number(raw.replace(',', '.'));
+      if (raw.trim() && Number.isFinite(n)) valeurs[parametre] = n;
+    });
+    return buildMesures(valeurs, getSeuils(produits.find(p => p.NomProduit === form.ProduitAnalyse)));
+  }, [produits]);
+
+  const getComputedVerdict = useCallback((form: AnalyseFormData) => computeVerdict(getMesures(form)), [getMesures]);
+
   // Validate all forms
   const validateForm = useCallback((): boolean => {
     const newErrors: Errors = { forms: forms.map(() => ({})) };
     let isValid = true;
 
     forms.forEach((form, index) => {
+      if (forms.findIndex(f => f.ProduitAnalyse === form.ProduitAnalyse) !== index) {
+        newErrors.forms[index].ProduitAnalyse = 'Ce produit est déjà analysé dans cette session';
+        isValid = false;
+      }
+
       if (!form.CodeAnalyse.trim()) {
         newErrors.forms[index].CodeAnalyse = "Code d'analyse requis";
         isValid = false;
       }
 
-      if (!form.ResultatAnalyse.trim()) {
+      Object.entries(form.Mesures).forEach(([parametre, raw]) => {
+        if (raw.trim() && !Number.isFinite(Number(raw.replace(',', '.')))) {
+          newErrors.forms[index].Mesures = { ...newErrors.forms[index].Mesures, [parametre]: 'Valeur numérique attendue' };
+          isValid = false;
+        }
+      });
+
+      // Without a computed verdict the result has to be picked by hand
+      const manual = form.ResultatForce || getComputedVerdict(form) === null;
+      if (manual && !form.ResultatAnalyse.trim()) {
         newErrors.forms[index].ResultatAnalyse = "Résultat d'analyse requis";
         isValid = false;
       }
+      if (form.ResultatForce && !form.MotifForcage.trim()) {
+        newErrors.forms[index].MotifForcage = 'Motif du forçage requis';
+        isValid = false;
+      }
 
       if (!form.DateAnalyse) {
         newErrors.forms[index].DateAnalyse = "Date d'analyse requise";
@@ -134,7 +202,7 @@ export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: A
 
     setErrors(newErrors);
     return isValid;
-  }, [forms]);
+  }, [forms, getComputedVerdict]);
 
   // Submit all forms
   const submit = useCallback(async (): Promise<boolean> => {
@@ -148,24 +216,52 @@ export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: A
     }
 
     try {
+      // Without network the analyses are queued, and so are the ones left when it drops midway
+      let offline = isOffline();
       for (let i = 0; i < forms.length; i++) {
         const form = forms[i];
         const [day, month, year] = form.DateAnalyse.split('/').map(Number);
         const date = new Date(year, month - 1, day);
 
+        const mesures = getMesures(form);
+        const computed = computeVerdict(mesures);
+        const forced = form.ResultatForce && computed !== null;
+
         const analyseData: Omit<Analyse, 'AnalyseID'> = {
           StationID: stationId,
           ProduitAnalyse: form.ProduitAnalyse,
           DateAnalyse: date,
           CodeAnalyse: form.CodeAnalyse.trim(),
-          ResultatAnalyse: form.ResultatAnalyse as 'Positif' | 'Négatif',
+          ResultatAnalyse: forced || computed === null ? form.ResultatAnalyse : computed,
+          Mesures: mesures,
+          ResultatCalcule: computed,
+          ResultatForce: forced,
+          MotifForcage: forced ? form.MotifForcage.trim() : '',
+          CampagneID: form.CampagneID || null,
         };
 
-        if (mode === 'create') {
-          await createAnalyse(analyseData);
-        } else if (mode === 'edit' && initialAnalyses[i]?.AnalyseID) {
-          await updateAnalyse(initialAnalyses[i].AnalyseID, analyseData);
+        const base = mode === 'edit' ? initialAnalyses[i] : undefined;
+        if (mode === 'edit' && !base?.AnalyseID) continue;
+
+        const label = `Analyse ${analyseData.CodeAnalyse}`;
+        const request: OutboxRequest = base
+          ? { kind: 'analyse:update', stationId, label, analyseId: base.AnalyseID, data: analyseData, base }
+          : { kind: 'analyse:create', stationId, label, analyseId: generateUUID(), data: analyseData };
+
+        if (!offline) {
+          try {
+            if (request.kind === 'analyse:update') {
+              await withWriteTimeout(updateAnalyse(request.analyseId, analyseData));
+            } else if (request.kind === 'analyse:create') {
+              await withWriteTimeout(createAnalyse(analyseData, request.analyseId));
+            }
+            continue;
+          } catch (err) {
+            if (!isNetworkError(err)) throw err;
+            offline = true;
+          }
         }
+        await enqueue(request);
       }
 
       setSubmitting(false);
@@ -176,13 +272,16 @@ export function useAnalyseForm(mode: Mode, stationId: string, initialAnalyses: A
       setSubmitting(false);
       return false;
     }
-  }, [forms, mode, stationId, initialAnalyses, createAnalyse, updateAnalyse, validateForm]);
+  }, [forms, mode, stationId, initialAnalyses, createAnalyse, updateAnalyse, enqueue, validateForm, getMesures]);
 
   return {
     forms,
     addForm,
     removeForm,
     updateField,
+    updateMesure,
+    getMesures,
+    getComputedVerdict,
     submit,
     deleteAnalyse: async (analyseId: string) => {
       return await deleteAnalyseMutation(analyseId);
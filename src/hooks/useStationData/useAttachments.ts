@@ -0,0 +1,113 @@
+// src/hooks/useStationData/useAttachments.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { auth } from '@/lib/firebase/config';
+import { Attachment, AttachmentTarget } from '@/types/attachment';
+
+async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  if (!auth.currentUser) throw new Error('Not authenticated');
+  const token = await auth.currentUser.getIdToken();
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${token}` },
+  });
+
+  if (!response.ok) {
+    let errorMsg = `Erreur ${response.status} - ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      errorMsg = errorData.error || errorMsg;
+    } catch {
+      // Empty or non-JSON body — use status fallback
+    }
+    throw new Error(errorMsg);
+  }
+  return response;
+}
+
+/**
+ * Deletes every attachment of a station in the corbeille, files included, before it is purged.
+ */
+export async function deleteStationAttachments(stationId: string): Promise<void> {
+  await authorizedFetch(`/api/attachments?${new URLSearchParams({ stationId })}`, { method: 'DELETE' });
+}
+
+/**
+ * Attachments of a station, or of one of its autorisations / analyses when the target says so.
+ */
+export function useAttachments({ stationId, autorisationId, analyseId }: AttachmentTarget) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttachments = useCallback(async () => {
+    if (!stationId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ stationId });
+      if (autorisationId) params.set('autorisationId', autorisationId);
+      if (analyseId) params.set('analyseId', analyseId);
+      const response = await authorizedFetch(`/api/attachments?${params}`);
+      const data: { attachments: (Omit<Attachment, 'DateAjout'> & { DateAjout: string | null })[] } = await response.json();
+      setAttachments(data.attachments.map((a) => ({ ...a, DateAjout: a.DateAjout ? new Date(a.DateAjout) : null })));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch attachments: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId, autorisationId, analyseId]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  // The link can be narrowed per upload, e.g. a station-wide panel attaching to one autorisation
+  const upload = useCallback(async (file: File, link: Omit<AttachmentTarget, 'stationId'> = {}) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const body = new FormData();
+      body.set('file', file);
+      body.set('stationId', stationId);
+      const linkedAutorisation = link.autorisationId ?? autorisationId;
+      const linkedAnalyse = link.analyseId ?? analyseId;
+      if (linkedAutorisation) body.set('autorisationId', linkedAutorisation);
+      if (linkedAnalyse) body.set('analyseId', linkedAnalyse);
+      await authorizedFetch('/api/attachments', { method: 'POST', body });
+      await fetchAttachments();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to upload attachment: ${message}`);
+      throw err;
+    } finally {
+      setUploading(false);
+    }
+  }, [stationId, autorisationId, analyseId, fetchAttachments]);
+
+  const removeAttachment = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      await authorizedFetch(`/api/attachments/${id}`, { method: 'DELETE' });
+      setAttachments((prev) => prev.filter((a) => a.AttachmentID !== id));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to delete attachment: ${message}`);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Downloads the file with the user's token and returns an object URL for it.
+   * The caller revokes it with URL.revokeObjectURL once done.
+   */
+  const getObjectUrl = useCallback(async (attachment: Attachment) => {
+    const response = await authorizedFetch(`/api/attachments/${attachment.AttachmentID}`);
+    return URL.createObjectURL(await response.blob());
+  }, []);
+
+  return { attachments, loading, uploading, error, refetch: fetchAttachments, upload, removeAttachment, getObjectUrl };
+}
@@ -1,9 +1,11 @@
 import { useCallback, useEffect, useState } from "react";
-import { collection, doc, setDoc, updateDoc, deleteDoc, getDocs } from "firebase/firestore";
+import { collection, doc, getDoc, getDocs, writeBatch } from "firebase/firestore";
 import { db } from "@/lib/firebase/config";
 import { Autorisation } from "@/types/station";
 import { autorisationConverter } from "@/lib/firebase/converters";
 import { generateUUID } from '@/utils/uuid';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { markStationViewsStale, syncStationViews } from '@/lib/firebase/stationViews';
 
 const COLLECTION = "autorisations";
 
@@ -40,10 +42,15 @@ export function useAutorisationCRUD() {
           AutorisationID: autorisationId,
           ...data
         };
-        await setDoc(
+        const batch = writeBatch(db);
+        batch.set(
           doc(db, COLLECTION, autorisationId).withConverter(autorisationConverter),
           payload
         );
+        addAuditEntry(batch, { entity: "autorisation", entityId: autorisationId, action: "create", after: payload });
+        markStationViewsStale(batch, 'station', [data.StationID]);
+        await batch.commit();
+        await syncStationViews([data.StationID]);
         await fetchAutorisations();
       } catch (err: any) {
         setError(`Failed to create autorisation: ${err.message}`);
@@ -61,10 +68,14 @@ export function useAutorisationCRUD() {
       try {
         const payload = { ...data };
         delete payload.AutorisationID; // Remove ID from update payload
-        await updateDoc(
-          doc(db, COLLECTION, id).withConverter(autorisationConverter),
-          payload
-        );
+        const ref = doc(db, COLLECTION, id).withConverter(autorisationConverter);
+        const before = (await getDoc(ref)).data();
+        const batch = writeBatch(db);
+        batch.update(ref, payload);
+        addAuditEntry(batch, { entity: "autorisation", entityId: id, action: "update", before, after: { ...before, ...payload } });
+        markStationViewsStale(batch, 'station', [before?.StationID]);
+        await batch.commit();
+        if (before?.StationID) await syncStationViews([before.StationID]);
         await fetchAutorisations();
       } catch (err: any) {
         setError(`Failed to update autorisation: ${err.message}`);
@@ -80,7 +91,14 @@ export function useAutorisationCRUD() {
     async (id: string) => {
       setLoading(true);
       try {
-        await deleteDoc(doc(db, COLLECTION, id).withConverter(autorisationConverter));
+        const ref = doc(db, COLLECTION, id).withConverter(autorisationConverter);
+        const before = (await getDoc(ref)).data();
+        const batch = writeBatch(db);
+        batch.delete(ref);
+        addAuditEntry(batch, { entity: "autorisation", entityId: id, action: "delete", before });
+        markStationViewsStale(batch, 'station', [before?.StationID]);
+        await batch.commit();
+        if (before?.StationID) await syncStationViews([before.StationID]);
         await fetchAutorisations();
       } catch (err: any) {
         setError(`Failed to delete autorisation: ${err.message}`);
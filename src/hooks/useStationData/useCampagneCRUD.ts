@@ -0,0 +1,94 @@
+// src/hooks/useStationData/useCampagneCRUD.ts
+'use client';
+
+import { useCallback, useState } from 'react';
+import { collection, doc, getDoc, getDocs, query, serverTimestamp, Timestamp, where, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { CampagneAnalyse } from '@/types/station';
+import { generateUUID } from '@/utils/uuid';
+
+type CampagneData = Omit<CampagneAnalyse, 'CampagneID' | 'DateCreation'>;
+
+const toTimestamp = (date: Date | null) => (date ? Timestamp.fromDate(date) : null);
+
+function toFirestore(data: Partial<CampagneData>) {
+  const payload: Record<string, unknown> = { ...data };
+  if (data.Nom !== undefined) payload.Nom = data.Nom.trim();
+  if ('DateDebut' in data) payload.DateDebut = toTimestamp(data.DateDebut ?? null);
+  if ('DateFin' in data) payload.DateFin = toTimestamp(data.DateFin ?? null);
+  if (data.Stations) {
+    payload.Stations = data.Stations.map((s) => ({ ...s, DatePrevue: toTimestamp(s.DatePrevue) }));
+  }
+  return payload;
+}
+
+export function useCampagneCRUD() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createCampagne = useCallback(async (data: CampagneData) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const campagneId = generateUUID();
+      const payload = { CampagneID: campagneId, ...toFirestore(data) };
+      const batch = writeBatch(db);
+      batch.set(doc(db, COLLECTIONS.CAMPAGNES, campagneId), { ...payload, DateCreation: serverTimestamp() });
+      addAuditEntry(batch, { entity: 'campagne', entityId: campagneId, action: 'create', after: payload });
+      await batch.commit();
+      return campagneId;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to create campagne: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updateCampagne = useCallback(async (campagneId: string, data: Partial<CampagneData>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = toFirestore(data);
+      const ref = doc(db, COLLECTIONS.CAMPAGNES, campagneId);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'campagne', entityId: campagneId, action: 'update', before, after: { ...before, ...payload } });
+      await batch.commit();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to update campagne: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // The analyses done for the campaign are kept, only their link to it is removed
+  const deleteCampagne = useCallback(async (campagneId: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const ref = doc(db, COLLECTIONS.CAMPAGNES, campagneId);
+      const before = (await getDoc(ref)).data();
+      const linked = await getDocs(query(collection(db, COLLECTIONS.ANALYSES), where('CampagneID', '==', campagneId)));
+      const batch = writeBatch(db);
+      linked.docs.forEach((d) => batch.update(d.ref, { CampagneID: null }));
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'campagne', entityId: campagneId, action: 'delete', before });
+      await batch.commit();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to delete campagne: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { createCampagne, updateCampagne, deleteCampagne, loading, error };
+}
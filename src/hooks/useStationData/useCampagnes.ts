@@ -0,0 +1,62 @@
+// src/hooks/useStationData/useCampagnes.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, DocumentData, getDocs, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { CampagneAnalyse } from '@/types/station';
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+export function toCampagne(id: string, data: DocumentData): CampagneAnalyse {
+  return {
+    CampagneID: data.CampagneID || id,
+    Nom: data.Nom ?? '',
+    Annee: data.Annee,
+    ProvinceIDs: data.ProvinceIDs ?? [],
+    MarqueIDs: data.MarqueIDs ?? [],
+    Quotas: data.Quotas ?? {},
+    Produits: data.Produits ?? [],
+    DateDebut: toDate(data.DateDebut),
+    DateFin: toDate(data.DateFin),
+    Stations: (data.Stations ?? []).map((s: DocumentData) => ({
+      StationID: s.StationID,
+      Priorite: s.Priorite ?? 'routine',
+      DatePrevue: toDate(s.DatePrevue),
+    })),
+    DateCreation: toDate(data.DateCreation),
+  };
+}
+
+// Sampling campaigns, most recent year first
+export function useCampagnes() {
+  const [campagnes, setCampagnes] = useState<CampagneAnalyse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCampagnes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const snap = await getDocs(collection(db, COLLECTIONS.CAMPAGNES));
+      const list = snap.docs
+        .map((d) => toCampagne(d.id, d.data()))
+        .sort((a, b) => b.Annee - a.Annee || a.Nom.localeCompare(b.Nom));
+      setCampagnes(list);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch campagnes: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampagnes();
+  }, [fetchCampagnes]);
+
+  return { campagnes, loading, error, refetch: fetchCampagnes };
+}
@@ -1,8 +1,10 @@
 import { useCallback, useState } from 'react';
-import { collection, doc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { doc, getDoc, writeBatch } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { CapaciteStockage } from '@/types/station';
 import { generateUUID } from '@/utils/uuid';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { markStationViewsStale, syncStationViews } from '@/lib/firebase/stationViews';
 
 const COLLECTIONS = {
   CAPACITES_STOCKAGE: 'capacites_stockage',
@@ -21,7 +23,12 @@ export function useCapaciteCRUD() {
         CapaciteID: capaciteId,
         ...data
       };
-      await setDoc(doc(db, COLLECTIONS.CAPACITES_STOCKAGE, capaciteId), payload);
+      const batch = writeBatch(db);
+      batch.set(doc(db, COLLECTIONS.CAPACITES_STOCKAGE, capaciteId), payload);
+      addAuditEntry(batch, { entity: 'capacite', entityId: capaciteId, action: 'create', after: payload });
+      markStationViewsStale(batch, 'station', [data.StationID]);
+      await batch.commit();
+      await syncStationViews([data.StationID]);
     } catch (err: any) {
       setError(`Failed to create capacite: ${err.message}`);
       throw err;
@@ -36,7 +43,14 @@ export function useCapaciteCRUD() {
     try {
       const payload = { ...data };
       delete payload.CapaciteID; // Remove ID from update payload
-      await updateDoc(doc(db, COLLECTIONS.CAPACITES_STOCKAGE, id), payload);
+      const ref = doc(db, COLLECTIONS.CAPACITES_STOCKAGE, id);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'capacite', entityId: id, action: 'update', before, after: { ...before, ...payload } });
+      markStationViewsStale(batch, 'station', [before?.StationID]);
+      await batch.commit();
+      if (before?.StationID) await syncStationViews([before.StationID]);
     } catch (err: any) {
       setError(`Failed to update capacite: ${err.message}`);
       throw err;
@@ -49,7 +63,14 @@ export function useCapaciteCRUD() {
     setLoading(true);
     setError(null);
     try {
-      await deleteDoc(doc(db, COLLECTIONS.CAPACITES_STOCKAGE, id));
+      const ref = doc(db, COLLECTIONS.CAPACITES_STOCKAGE, id);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'capacite', entityId: id, action: 'delete', before });
+      markStationViewsStale(batch, 'station', [before?.StationID]);
+      await batch.commit();
+      if (before?.StationID) await syncStationViews([before.StationID]);
     } catch (err: any) {
       setError(`Failed to delete capacite: ${err.message}`);
       throw err;
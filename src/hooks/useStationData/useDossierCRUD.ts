@@ -0,0 +1,126 @@
+// src/hooks/useStationData/useDossierCRUD.ts
+'use client';
+
+import { useCallback, useState } from 'react';
+import { doc, Timestamp, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { queueStationStatusChange } from '@/lib/firebase/stationStatus';
+import { DossierNonConformite, EtatDossier, StationStatut, SuiteDossier } from '@/types/station';
+import { DOSSIER_TRANSITIONS } from '@/utils/dossiers';
+import { generateUUID } from '@/utils/uuid';
+import { invalidateStationsCache } from '@/hooks/stations/useStations';
+import { markStationViewsStale, syncStationViews } from '@/lib/firebase/stationViews';
+
+const toTimestamp = (date: Date | null) => (date ? Timestamp.fromDate(date) : null);
+
+function suitesToFirestore(suites: SuiteDossier[]) {
+  return suites.map((s) => ({ ...s, DateDecision: toTimestamp(s.DateDecision), DateEcheance: toTimestamp(s.DateEcheance) }));
+}
+
+export type ChangeEtatOptions = {
+  conclusion?: string;
+  statutStation?: StationStatut | null; // e.g. back to 'en activité' when closing after a temporary closure
+};
+
+export function useDossierCRUD() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs a case update, moving the station to another status in the same batch when asked
+  const commitDossier = useCallback(async (
+    dossier: DossierNonConformite,
+    changes: Partial<DossierNonConformite>,
+    statutStation: { statut: StationStatut; reason: string; effectiveDate?: Date | null } | null,
+    action: string
+  ) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const batch = writeBatch(db);
+      const statusChanged = statutStation
+        ? await queueStationStatusChange(batch, dossier.StationID, statutStation.statut, statutStation)
+        : false;
+
+      const payload: Record<string, unknown> = { ...changes };
+      if (changes.Suites) payload.Suites = suitesToFirestore(changes.Suites);
+      if ('DateEcheance' in changes) payload.DateEcheance = toTimestamp(changes.DateEcheance ?? null);
+      if ('DateCloture' in changes) payload.DateCloture = toTimestamp(changes.DateCloture ?? null);
+
+      batch.update(doc(db, COLLECTIONS.DOSSIERS, dossier.DossierID), payload);
+      const before = {
+        Etat: dossier.Etat,
+        DateEcheance: toTimestamp(dossier.DateEcheance),
+        DateCloture: toTimestamp(dossier.DateCloture),
+        Conclusion: dossier.Conclusion,
+        Suites: suitesToFirestore(dossier.Suites),
+      };
+      addAuditEntry(batch, {
+        entity: 'dossier',
+        entityId: dossier.DossierID,
+        action: 'update',
+        before,
+        after: { ...before, ...payload },
+        stationId: dossier.StationID,
+      });
+      if (statusChanged) markStationViewsStale(batch, 'station', [dossier.StationID]);
+      await batch.commit();
+      if (statusChanged) {
+        invalidateStationsCache();
+        await syncStationViews([dossier.StationID]);
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to ${action}: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Records a decision (warning, fine, closure, re-sampling). A decision that sets
+   * StatutStation moves the station to that status.
+   */
+  const addSuite = useCallback(async (dossier: DossierNonConformite, suite: Omit<SuiteDossier, 'SuiteID'>) => {
+    const newSuite: SuiteDossier = { ...suite, SuiteID: generateUUID(), Commentaire: suite.Commentaire.trim() };
+    const changes: Partial<DossierNonConformite> = { Suites: [...dossier.Suites, newSuite] };
+    if (dossier.Etat === 'ouvert') changes.Etat = 'en cours';
+    const statut = suite.StatutStation
+      ? { statut: suite.StatutStation, reason: `Dossier de non-conformité : ${suite.Type}`, effectiveDate: suite.DateDecision }
+      : null;
+    await commitDossier(dossier, changes, statut, 'add suite');
+  }, [commitDossier]);
+
+  const setSuiteRealisee = useCallback(async (dossier: DossierNonConformite, suiteId: string, realisee: boolean) => {
+    const suites = dossier.Suites.map((s) => (s.SuiteID === suiteId ? { ...s, Realisee: realisee } : s));
+    await commitDossier(dossier, { Suites: suites }, null, 'update suite');
+  }, [commitDossier]);
+
+  const updateEcheance = useCallback(async (dossier: DossierNonConformite, date: Date | null) => {
+    await commitDossier(dossier, { DateEcheance: date }, null, 'update dossier deadline');
+  }, [commitDossier]);
+
+  const changeEtat = useCallback(async (dossier: DossierNonConformite, etat: EtatDossier, options: ChangeEtatOptions = {}) => {
+    if (!DOSSIER_TRANSITIONS[dossier.Etat].includes(etat)) {
+      const message = `Passage de « ${dossier.Etat} » à « ${etat} » non autorisé`;
+      setError(`Failed to change dossier state: ${message}`);
+      throw new Error(message);
+    }
+    if (etat === 'clôturé' && !options.conclusion?.trim()) {
+      const message = 'La conclusion est obligatoire pour clôturer le dossier';
+      setError(`Failed to change dossier state: ${message}`);
+      throw new Error(message);
+    }
+    const changes: Partial<DossierNonConformite> = etat === 'clôturé'
+      ? { Etat: etat, DateCloture: new Date(), Conclusion: options.conclusion!.trim() }
+      : { Etat: etat, DateCloture: null };
+    const statut = options.statutStation
+      ? { statut: options.statutStation, reason: `Dossier de non-conformité ${etat === 'clôturé' ? 'clôturé' : 'rouvert'}` }
+      : null;
+    await commitDossier(dossier, changes, statut, 'change dossier state');
+  }, [commitDossier]);
+
+  return { addSuite, setSuiteRealisee, updateEcheance, changeEtat, loading, error };
+}
@@ -0,0 +1,74 @@
+// src/hooks/useStationData/useDossiers.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, DocumentData, getDocs, query, Timestamp, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { DossierNonConformite } from '@/types/station';
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+export function toDossier(id: string, data: DocumentData): DossierNonConformite {
+  return {
+    DossierID: data.DossierID || id,
+    StationID: data.StationID,
+    Origine: data.Origine,
+    OrigineID: data.OrigineID,
+    Motif: data.Motif ?? '',
+    Etat: data.Etat ?? 'ouvert',
+    DateOuverture: toDate(data.DateOuverture),
+    DateEcheance: toDate(data.DateEcheance),
+    Suites: (data.Suites ?? []).map((s: DocumentData) => ({
+      SuiteID: s.SuiteID,
+      Type: s.Type,
+      DateDecision: toDate(s.DateDecision),
+      DateEcheance: toDate(s.DateEcheance),
+      Montant: s.Montant ?? null,
+      Commentaire: s.Commentaire ?? '',
+      StatutStation: s.StatutStation ?? null,
+      Realisee: !!s.Realisee,
+    })),
+    DateCloture: toDate(data.DateCloture),
+    Conclusion: data.Conclusion ?? '',
+  };
+}
+
+/**
+ * Non-conformity cases of a station, or the open cases of every station when no station is given.
+ * Most recent first.
+ */
+export function useDossiers(stationId?: string) {
+  const [dossiers, setDossiers] = useState<DossierNonConformite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDossiers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const ref = collection(db, COLLECTIONS.DOSSIERS);
+      const snap = await getDocs(
+        stationId ? query(ref, where('StationID', '==', stationId)) : query(ref, where('Etat', 'in', ['ouvert', 'en cours']))
+      );
+      const list = snap.docs
+        .filter((d) => !d.get('DeletedAt'))
+        .map((d) => toDossier(d.id, d.data()))
+        .sort((a, b) => (b.DateOuverture?.getTime() ?? 0) - (a.DateOuverture?.getTime() ?? 0));
+      setDossiers(list);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch dossiers: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId]);
+
+  useEffect(() => {
+    fetchDossiers();
+  }, [fetchDossiers]);
+
+  return { dossiers, loading, error, refetch: fetchDossiers };
+}
@@ -0,0 +1,116 @@
+// src/hooks/useStationData/useInspectionCRUD.ts
+'use client';
+
+import { useCallback, useState } from 'react';
+import { doc, getDoc, writeBatch, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { Inspection } from '@/types/station';
+import { generateUUID } from '@/utils/uuid';
+import { addAuditEntry } from '@/lib/firebase/audit';
+import { queueDossierOpening } from '@/lib/firebase/dossiers';
+import { isFailedInspection } from '@/utils/dossiers';
+import { formatDate } from '@/utils/format';
+
+function failedInspectionMotif(data: Omit<Inspection, 'InspectionID'>): string {
+  return `Inspection du ${formatDate(data.DateInspection)} : non-conformité ${data.Gravite}`;
+}
+
+function toFirestore(data: Omit<Inspection, 'InspectionID'>) {
+  return {
+    StationID: data.StationID,
+    DateInspection: data.DateInspection ? Timestamp.fromDate(data.DateInspection) : null,
+    Inspecteur: data.Inspecteur.trim(),
+    Checklist: data.Checklist,
+    Constats: data.Constats.trim(),
+    Gravite: data.Gravite,
+    ActionsCorrectives: data.ActionsCorrectives.map((a) => ({
+      Description: a.Description.trim(),
+      DateEcheance: a.DateEcheance ? Timestamp.fromDate(a.DateEcheance) : null,
+      Realisee: a.Realisee,
+    })),
+  };
+}
+
+export function useInspectionCRUD() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createInspection = useCallback(async (data: Omit<Inspection, 'InspectionID'>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const inspectionId = generateUUID();
+      const payload = { InspectionID: inspectionId, ...toFirestore(data) };
+      const batch = writeBatch(db);
+      batch.set(doc(db, COLLECTIONS.INSPECTIONS, inspectionId), payload);
+      addAuditEntry(batch, { entity: 'inspection', entityId: inspectionId, action: 'create', after: payload });
+      if (isFailedInspection(data)) {
+        await queueDossierOpening(batch, {
+          stationId: data.StationID,
+          origine: 'inspection',
+          origineId: inspectionId,
+          motif: failedInspectionMotif(data),
+        });
+      }
+      await batch.commit();
+      return inspectionId;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to create inspection: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updateInspection = useCallback(async (inspectionId: string, data: Omit<Inspection, 'InspectionID'>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = toFirestore(data);
+      const ref = doc(db, COLLECTIONS.INSPECTIONS, inspectionId);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.update(ref, payload);
+      addAuditEntry(batch, { entity: 'inspection', entityId: inspectionId, action: 'update', before, after: { ...before, ...payload } });
+      // Only when the visit becomes a failed one, a case opened earlier is followed on its own
+      if (isFailedInspection(data) && !(before && isFailedInspection({ Gravite: before.Gravite }))) {
+        await queueDossierOpening(batch, {
+          stationId: data.StationID,
+          origine: 'inspection',
+          origineId: inspectionId,
+          motif: failedInspectionMotif(data),
+        });
+      }
+      await batch.commit();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to update inspection: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const deleteInspection = useCallback(async (inspectionId: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const ref = doc(db, COLLECTIONS.INSPECTIONS, inspectionId);
+      const before = (await getDoc(ref)).data();
+      const batch = writeBatch(db);
+      batch.delete(ref);
+      addAuditEntry(batch, { entity: 'inspection', entityId: inspectionId, action: 'delete', before });
+      await batch.commit();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to delete inspection: ${message}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { createInspection, updateInspection, deleteInspection, loading, error };
+}
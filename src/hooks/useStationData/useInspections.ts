@@ -0,0 +1,87 @@
+// src/hooks/useStationData/useInspections.ts
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { collection, getDocs, query, where, Timestamp, DocumentData } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { Inspection } from '@/types/station';
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+export function toInspection(id: string, data: DocumentData): Inspection {
+  return {
+    InspectionID: data.InspectionID || id,
+    StationID: data.StationID,
+    DateInspection: toDate(data.DateInspection),
+    Inspecteur: data.Inspecteur ?? '',
+    Checklist: data.Checklist ?? [],
+    Constats: data.Constats ?? '',
+    Gravite: data.Gravite ?? 'aucune',
+    ActionsCorrectives: (data.ActionsCorrectives ?? []).map((a: DocumentData) => ({
+      Description: a.Description ?? '',
+      DateEcheance: toDate(a.DateEcheance),
+      Realisee: !!a.Realisee,
+    })),
+  };
+}
+
+/**
+ * Inspections of one station or of a list of stations, most recent first.
+ */
+export function useInspections(stationId: string | string[]) {
+  const [inspections, setInspections] = useState<Inspection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable key so a new array with the same ids doesn't refetch
+  const stationKey = useMemo(
+    () => (Array.isArray(stationId) ? stationId.filter(Boolean).sort().join(',') : stationId || ''),
+    [stationId]
+  );
+
+  const fetchInspections = useCallback(async () => {
+    const ids = stationKey ? stationKey.split(',') : [];
+    if (ids.length === 0) {
+      setInspections([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const list: Inspection[] = [];
+      // Firestore limits 'in' queries to 10 values on the client SDK
+      for (let i = 0; i < ids.length; i += 10) {
+        const snap = await getDocs(
+          query(collection(db, COLLECTIONS.INSPECTIONS), where('StationID', 'in', ids.slice(i, i + 10)))
+        );
+        snap.docs.forEach((d) => {
+          if (!d.get('DeletedAt')) list.push(toInspection(d.id, d.data()));
+        });
+      }
+      list.sort((a, b) => (b.DateInspection?.getTime() ?? 0) - (a.DateInspection?.getTime() ?? 0));
+      setInspections(list);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to fetch inspections: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationKey]);
+
+  useEffect(() => {
+    fetchInspections();
+  }, [fetchInspections]);
+
+  const years = useMemo(() => {
+    const set = new Set<number>();
+    inspections.forEach((i) => i.DateInspection && set.add(i.DateInspection.getFullYear()));
+    return Array.from(set).sort((a, b) => b - a);
+  }, [inspections]);
+
+  return { inspections, years, loading, error, refetch: fetchInspections };
+}
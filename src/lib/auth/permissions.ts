@@ -0,0 +1,66 @@
+// src/lib/auth/permissions.ts
+// Roles and permissions, shared by the client (useAuth) and the API routes (serverAuth).
+// The role is stored in the `role` custom claim of the Firebase Auth user.
+
+export const ROLES = ['lecteur', 'agent_saisie', 'laboratoire', 'administrateur'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  lecteur: 'Lecteur',
+  agent_saisie: 'Agent de saisie',
+  laboratoire: 'Laboratoire',
+  administrateur: 'Administrateur',
+};
+
+export type Permission =
+  | 'station:read'
+  | 'station:create'
+  | 'station:update'
+  | 'station:archive'
+  | 'station:delete'
+  | 'station:import'
+  | 'analyse:create'
+  | 'analyse:update'
+  | 'analyse:delete'
+  | 'inspection:create'
+  | 'inspection:update'
+  | 'inspection:delete'
+  | 'dossier:manage'
+  | 'campagne:manage'
+  | 'reference:manage'
+  | 'user:manage';
+
+const READ: Permission[] = ['station:read'];
+const DATA_ENTRY: Permission[] = ['station:create', 'station:update', 'station:archive', 'station:import'];
+const LAB: Permission[] = ['analyse:create', 'analyse:update', 'analyse:delete'];
+const INSPECTION: Permission[] = ['inspection:create', 'inspection:update', 'inspection:delete'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  lecteur: READ,
+  agent_saisie: [...READ, ...DATA_ENTRY, ...INSPECTION, 'dossier:manage', 'campagne:manage'],
+  laboratoire: [...READ, ...LAB],
+  administrateur: [...READ, ...DATA_ENTRY, ...LAB, ...INSPECTION, 'dossier:manage', 'campagne:manage', 'station:delete', 'reference:manage', 'user:manage'],
+};
+
+export const DEFAULT_ROLE: Role = 'lecteur';
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the role from the custom claims of an ID token.
+ * Users created before roles existed only carry `admin: true`.
+ */
+export function getRoleFromClaims(claims: Record<string, unknown> | null | undefined): Role {
+  if (!claims) return DEFAULT_ROLE;
+  if (isRole(claims.role)) return claims.role;
+  if (claims.admin === true) return 'administrateur';
+  return DEFAULT_ROLE;
+}
+
+export function hasPermission(role: Role | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import {
   User,
   signInWithEmailAndPassword,
@@ -11,6 +11,7 @@ import {
 } from 'firebase/auth';
 import { auth } from '@/lib/firebase/config';
 import { AuthContextType } from './types';
+import { getRoleFromClaims, hasPermission, Permission, Role } from './permissions';
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -22,8 +23,23 @@ export function useAuth() {
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const loadRole = useCallback(async (user: User | null, forceRefresh = false) => {
+    if (!user) {
+      setRole(null);
+      return;
+    }
+    try {
+      const tokenResult = await user.getIdTokenResult(forceRefresh);
+      setRole(getRoleFromClaims(tokenResult.claims));
+    } catch (err) {
+      console.error('Failed to read user role:', err);
+      setRole(getRoleFromClaims(null));
+    }
+  }, []);
+
   // Optional: ensure local persistence (keeps user after refresh)
   useEffect(() => {
     setPersistence(auth, browserLocalPersistence).catch(() => {
@@ -33,22 +49,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const login = async (email: string, password: string) => {
     const cred = await signInWithEmailAndPassword(auth, email, password);
+    await loadRole(cred.user);
     setCurrentUser(cred.user);
   };
 
   const logout = async () => {
     await signOut(auth);
     setCurrentUser(null);
+    setRole(null);
   };
 
+  // Claims are cached in the ID token: force a refresh after the role was changed
+  const refreshRole = useCallback(() => loadRole(auth.currentUser, true), [loadRole]);
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
   useEffect(() => {
-    const unsub = onAuthStateChanged(auth, (user) => {
+    const unsub = onAuthStateChanged(auth, async (user) => {
+      await loadRole(user);
       setCurrentUser(user);
       setLoading(false);
     });
     return unsub;
-  }, []);
+  }, [loadRole]);
 
-  const value: AuthContextType = { currentUser, loading, login, logout };
+  const value: AuthContextType = { currentUser, role, loading, login, logout, can, refreshRole };
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
\ No newline at end of file
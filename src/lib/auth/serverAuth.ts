@@ -1,6 +1,8 @@
 // src/lib/auth/serverAuth.ts
 import { auth } from 'firebase-admin';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getRoleFromClaims, hasPermission, Permission } from './permissions';
 // Initialize Firebase Admin SDK (only once)
 if (!getApps().length) {
   initializeApp({
@@ -12,6 +14,9 @@ if (!getApps().length) {
   });
 }
 
+// Firestore instance with admin privileges, for use in API routes only
+export const adminDb = getFirestore();
+
 /**
  * Verifies Firebase Auth token from request headers
  * @param request - Request object
@@ -34,8 +39,9 @@ export async function verifyAuthToken(request: Request): Promise<string | null>
       return null;
     }
 
-    // Verify the token using Firebase Admin SDK
-    const decodedToken = await auth().verifyIdToken(token);
+    // Verify the token using Firebase Admin SDK. Tokens issued before a revocation
+    // (account disabled, role changed) are refused even if they have not expired yet.
+    const decodedToken = await auth().verifyIdToken(token, true);
     return decodedToken.uid;
   } catch (error) {
     console.error('Token verification failed:', error);
@@ -57,7 +63,7 @@ export async function verifyAuthTokenWithClaims(request: Request) {
     const token = authHeader.split('Bearer ')[1];
     if (!token) return null;
 
-    const decodedToken = await auth().verifyIdToken(token);
+    const decodedToken = await auth().verifyIdToken(token, true);
     return decodedToken;
   } catch (error) {
     console.error('Token verification with claims failed:', error);
@@ -70,5 +76,18 @@ export async function verifyAuthTokenWithClaims(request: Request) {
  */
 export async function isAdmin(request: Request): Promise<boolean> {
   const decodedToken = await verifyAuthTokenWithClaims(request);
-  return decodedToken?.admin === true || false;
+  return !!decodedToken && getRoleFromClaims(decodedToken) === 'administrateur';
+}
+
+/**
+ * Verifies token and checks that the user's role grants a permission.
+ * uid is null when the token is missing or invalid (401), allowed is false when the role is insufficient (403).
+ */
+export async function verifyPermission(
+  request: Request,
+  permission: Permission
+): Promise<{ uid: string | null; allowed: boolean }> {
+  const decodedToken = await verifyAuthTokenWithClaims(request);
+  if (!decodedToken) return { uid: null, allowed: false };
+  return { uid: decodedToken.uid, allowed: hasPermission(getRoleFromClaims(decodedToken), permission) };
 }
\ No newline at end of file
@@ -1,8 +1,12 @@
 import { User } from 'firebase/auth';
+import { Permission, Role } from './permissions';
 
 export interface AuthContextType {
   currentUser: User | null;
+  role: Role | null;
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  refreshRole: () => Promise<void>;
 }
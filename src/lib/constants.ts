@@ -6,5 +6,47 @@ export const APP_CONSTANTS = {
   MAP: {
     DEFAULT_CENTER: { lat: 31.7917, lng: -7.0926 }, // Morocco center
     DEFAULT_ZOOM: 6
+  },
+  AUTORISATIONS: {
+    // Expected format of NumeroAutorisation, can be overridden per deployment
+    NUMERO_PATTERN: process.env.NEXT_PUBLIC_AUTORISATION_NUMERO_PATTERN || '^[A-Za-z0-9]+([/.\\- ][A-Za-z0-9]+)*$',
+    NUMERO_EXAMPLE: process.env.NEXT_PUBLIC_AUTORISATION_NUMERO_EXAMPLE || 'A-2025-001',
+    // Autorisations expiring within this many days are listed as "à renouveler"
+    RENEWAL_WARNING_DAYS: 90
+  },
+  PRODUITS: {
+    // Used until the produits collection has been filled in admin/database
+    DEFAULTS: ['Gasoil', 'SSP']
+  },
+  CUVES: {
+    MATERIAUX: ['Acier simple paroi', 'Acier double paroi', 'Fibre de verre', 'Autre']
+  },
+  INSPECTIONS: {
+    // Used until the checklist has been set up in admin/database
+    CHECKLIST_DEFAULTS: [
+      'Pompes scellées',
+      'Extincteurs présents et vérifiés',
+      'Signalisation et affichage des prix',
+      'Absence de fuite aux cuves et tuyauteries',
+      'Bacs à sable et absorbants',
+      'Registre des livraisons tenu à jour',
+    ],
+    GRAVITES: ['aucune', 'mineure', 'majeure', 'critique'] as const
+  },
+  DOSSIERS: {
+    // Inspections with this gravité open a non-conformity case
+    GRAVITES_OUVERTURE: ['majeure', 'critique'],
+    // Default time to settle a case, from its opening
+    DELAI_JOURS: 30,
+    TYPES_SUITE: ['avertissement', 'amende', 'fermeture temporaire', 're-prélèvement'] as const
+  },
+  CAMPAGNES: {
+    // Stations proposed per province when no quota is given
+    QUOTA_DEFAUT: 10
+  },
+  ATTACHMENTS: {
+    MAX_SIZE_MB: 10,
+    // Types that can be previewed in the browser
+    ACCEPTED_TYPES: ['application/pdf', 'image/jpeg', 'image/png']
   }
 };
\ No newline at end of file
@@ -0,0 +1,122 @@
+// src/lib/firebase/adminAttachments.ts
+// Attachment metadata (Firestore) and files (storage adapter). Only import this from API routes.
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/auth/serverAuth';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { addAuditEntry } from '@/lib/firebase/adminStations';
+import { getStorageAdapter } from '@/lib/storage';
+import { Attachment, AttachmentTarget } from '@/types/attachment';
+import { AuditUser } from '@/utils/audit';
+import { generateUUID } from '@/utils/uuid';
+
+function toAttachment(id: string, data: DocumentData): Attachment {
+  return {
+    ...data,
+    AttachmentID: data.AttachmentID || id,
+    AutorisationID: data.AutorisationID ?? null,
+    AnalyseID: data.AnalyseID ?? null,
+    DateAjout: data.DateAjout instanceof Timestamp ? data.DateAjout.toDate() : null,
+  } as Attachment;
+}
+
+/**
+ * Attachments of a station, or only those of one of its autorisations or analyses.
+ */
+export async function listAttachments(target: AttachmentTarget): Promise<Attachment[]> {
+  let query = adminDb.collection(COLLECTIONS.ATTACHMENTS).where('StationID', '==', target.stationId);
+  if (target.autorisationId) query = query.where('AutorisationID', '==', target.autorisationId);
+  if (target.analyseId) query = query.where('AnalyseID', '==', target.analyseId);
+
+  const snap = await query.get();
+  return snap.docs
+    .map((d) => toAttachment(d.id, d.data()))
+    .sort((a, b) => (b.DateAjout?.getTime() ?? 0) - (a.DateAjout?.getTime() ?? 0));
+}
+
+export async function getAttachment(id: string): Promise<Attachment | null> {
+  const snap = await adminDb.collection(COLLECTIONS.ATTACHMENTS).doc(id).get();
+  return snap.exists ? toAttachment(snap.id, snap.data()!) : null;
+}
+
+/**
+ * Error message when the station does not exist or is in the corbeille, or when the
+ * autorisation or analyse is not one of the station's, null otherwise.
+ */
+export async function checkAttachmentTarget(target: AttachmentTarget): Promise<string | null> {
+  const station = await adminDb.collection(COLLECTIONS.STATIONS).doc(target.stationId).get();
+  if (!station.exists || station.get('DeletedAt')) return 'Station not found';
+
+  const children: [string, string | null | undefined, string][] = [
+    [COLLECTIONS.AUTORISATIONS, target.autorisationId, 'Autorisation'],
+    [COLLECTIONS.ANALYSES, target.analyseId, 'Analyse'],
+  ];
+  for (const [collection, id, label] of children) {
+    if (!id) continue;
+    const child = await adminDb.collection(collection).doc(id).get();
+    if (!child.exists || child.get('StationID') !== target.stationId) {
+      return `${label} not found for this station`;
+    }
+  }
+  return null;
+}
+
+export async function createAttachment(
+  target: AttachmentTarget,
+  file: { name: string; type: string; data: Buffer },
+  user: AuditUser
+): Promise<Attachment> {
+  const id = generateUUID();
+  // The original name is kept in the metadata only
+  const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+  const key = `stations/${target.stationId}/${id}${extension.replace(/[^.a-z0-9]/g, '')}`;
+
+  await getStorageAdapter().put(key, file.data, file.type);
+
+  const attachment = {
+    AttachmentID: id,
+    StationID: target.stationId,
+    AutorisationID: target.autorisationId || null,
+    AnalyseID: target.analyseId || null,
+    NomFichier: file.name,
+    TypeMime: file.type,
+    Taille: file.data.length,
+    CleStockage: key,
+    uid: user.uid,
+    userEmail: user.email,
+  };
+  try {
+    const batch = adminDb.batch();
+    batch.set(adminDb.collection(COLLECTIONS.ATTACHMENTS).doc(id), { ...attachment, DateAjout: FieldValue.serverTimestamp() });
+    addAuditEntry(batch, user, { entity: 'attachment', entityId: id, action: 'create', after: attachment });
+    await batch.commit();
+  } catch (error) {
+    // Don't leave an orphan file behind
+    await getStorageAdapter().delete(key).catch(() => undefined);
+    throw error;
+  }
+  return { ...attachment, DateAjout: new Date() };
+}
+
+export async function readAttachmentFile(attachment: Attachment): Promise<Buffer | null> {
+  return getStorageAdapter().get(attachment.CleStockage);
+}
+
+export async function deleteAttachment(attachment: Attachment, user: AuditUser): Promise<void> {
+  const batch = adminDb.batch();
+  batch.delete(adminDb.collection(COLLECTIONS.ATTACHMENTS).doc(attachment.AttachmentID));
+  addAuditEntry(batch, user, { entity: 'attachment', entityId: attachment.AttachmentID, action: 'delete', before: attachment });
+  await batch.commit();
+  await getStorageAdapter().delete(attachment.CleStockage);
+}
+
+/**
+ * Deletes every attachment of a station, files included, when the station is purged.
+ * Returns the number deleted.
+ */
+export async function deleteStationAttachments(stationId: string, user: AuditUser): Promise<number> {
+  const attachments = await listAttachments({ stationId });
+  for (const attachment of attachments) {
+    await deleteAttachment(attachment, user);
+  }
+  return attachments.length;
+}
@@ -0,0 +1,585 @@
+// src/lib/firebase/adminStations.ts
+// Server-side counterpart of the station hooks, built on the Admin SDK.
+// Only import this from API routes: it pulls in firebase-admin.
+import { DocumentData, DocumentSnapshot, FieldValue, Timestamp, WriteBatch } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/auth/serverAuth';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import {
+  Station,
+  StationWithDetails,
+  StationFormData,
+  Marque,
+  Commune,
+  Province,
+  Gerant,
+  Proprietaire,
+  ProprietairePhysique,
+  ProprietaireMorale,
+  Autorisation,
+  CapaciteStockage,
+  Analyse,
+} from '@/types/station';
+import { APP_CONSTANTS } from '@/lib/constants';
+import { parseDateString } from '@/utils/format';
+import { cuveToCapacite } from '@/utils/stationFormUtils';
+import { generateUUID } from '@/utils/uuid';
+import { AuditParams, AuditUser, buildAuditEntry, diffChildren } from '@/utils/audit';
+import { matchAutorisationIds } from '@/utils/autorisations';
+import { buildStatusChange, StatusChangeParams } from '@/utils/stationStatus';
+import { buildStationView } from '@/utils/stationSearch';
+
+// Admin SDK allows up to 30 values in an 'in' filter
+const IN_QUERY_LIMIT = 30;
+
+function chunk<T>(arr: T[], size = IN_QUERY_LIMIT): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) {
+    out.push(arr.slice(i, i + size));
+  }
+  return out;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && value) {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+function withId<T>(snap: DocumentSnapshot, idField: string): T | null {
+  if (!snap.exists) return null;
+  const data = snap.data() as DocumentData;
+  return { ...data, [idField]: data[idField] || snap.id } as T;
+}
+
+function cleanData<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+async function getDocsByIds<T>(collectionName: string, ids: string[], idField: string): Promise<T[]> {
+  const unique = [...new Set(ids.filter(Boolean))];
+  if (unique.length === 0) return [];
+  const snaps = await adminDb.getAll(...unique.map((id) => adminDb.collection(collectionName).doc(id)));
+  return snaps.map((s) => withId<T>(s, idField)).filter((d): d is T => d !== null);
+}
+
+async function getDocsByField<T>(collectionName: string, field: string, values: string[], idField: string): Promise<T[]> {
+  const unique = [...new Set(values.filter(Boolean))];
+  if (unique.length === 0) return [];
+  const snaps = await Promise.all(
+    chunk(unique).map((ch) => adminDb.collection(collectionName).where(field, 'in', ch).get())
+  );
+  return snaps.flatMap((s) => s.docs.map((d) => withId<T>(d, idField)!));
+}
+
+/**
+ * Joins base station documents with their reference and child documents,
+ * producing the same StationWithDetails shape as useStations.
+ */
+async function joinStations(baseStations: Station[]): Promise<StationWithDetails[]> {
+  const stationIds = baseStations.map((s) => s.StationID);
+
+  const [marques, communes, gerants, proprietairesBase, autorisationsAll, capacitesAll, analysesAll] = await Promise.all([
+    getDocsByIds<Marque>(COLLECTIONS.MARQUES, baseStations.map((s) => s.MarqueID), 'MarqueID'),
+    getDocsByIds<Commune>(COLLECTIONS.COMMUNES, baseStations.map((s) => s.CommuneID), 'CommuneID'),
+    getDocsByIds<Gerant>(COLLECTIONS.GERANTS, baseStations.map((s) => s.GerantID), 'GerantID'),
+    getDocsByIds<Proprietaire>(COLLECTIONS.PROPRIETAIRES, baseStations.map((s) => s.ProprietaireID), 'ProprietaireID'),
+    getDocsByField<Autorisation>(COLLECTIONS.AUTORISATIONS, 'StationID', stationIds, 'AutorisationID'),
+    getDocsByField<CapaciteStockage>(COLLECTIONS.CAPACITES_STOCKAGE, 'StationID', stationIds, 'CapaciteID'),
+    getDocsByField<Analyse>(COLLECTIONS.ANALYSES, 'StationID', stationIds, 'AnalyseID'),
+  ]);
+
+  const physiqueIds = proprietairesBase.filter((p) => p.TypeProprietaire === 'Physique').map((p) => p.ProprietaireID);
+  const moraleIds = proprietairesBase.filter((p) => p.TypeProprietaire === 'Morale').map((p) => p.ProprietaireID);
+
+  const [provinces, physiques, morales] = await Promise.all([
+    getDocsByIds<Province>(COLLECTIONS.PROVINCES, communes.map((c) => c.ProvinceID), 'ProvinceID'),
+    getDocsByField<ProprietairePhysique>(COLLECTIONS.PROPRIETAIRES_PHYSIQUES, 'ProprietaireID', physiqueIds, 'ProprietaireID'),
+    getDocsByField<ProprietaireMorale>(COLLECTIONS.PROPRIETAIRES_MORALES, 'ProprietaireID', moraleIds, 'ProprietaireID'),
+  ]);
+
+  const marqueMap = new Map(marques.map((m) => [m.MarqueID, m]));
+  const communeMap = new Map(communes.map((c) => [c.CommuneID, c]));
+  const provinceMap = new Map(provinces.map((p) => [p.ProvinceID, p]));
+  const gerantMap = new Map(gerants.map((g) => [g.GerantID, g]));
+  const proprietaireMap = new Map(proprietairesBase.map((p) => [p.ProprietaireID, p]));
+  const physiqueMap = new Map(physiques.map((p) => [p.ProprietaireID, p]));
+  const moraleMap = new Map(morales.map((p) => [p.ProprietaireID, p]));
+
+  const groupByStationID = <T extends { StationID: string }>(items: T[]): Record<string, T[]> =>
+    items.reduce((acc, item) => {
+      (acc[item.StationID] ||= []).push(item);
+      return acc;
+    }, {} as Record<string, T[]>);
+
+  const autorisationsByStation = groupByStationID(autorisationsAll);
+  const capacitesByStation = groupByStationID(capacitesAll);
+  const analysesByStation = groupByStationID(analysesAll);
+
+  const defaultMarque: Marque = { MarqueID: '', Marque: 'Unknown', RaisonSociale: '' };
+  const defaultCommune: Commune = { CommuneID: '', NomCommune: 'Unknown', ProvinceID: '' };
+  const defaultProvince: Province = { ProvinceID: '', NomProvince: 'Unknown' };
+  const defaultGerant: Gerant = { GerantID: '', NomGerant: 'Unknown', PrenomGerant: '', CINGerant: '', Telephone: '', fullName: 'Unknown' };
+
+  return baseStations.map((station) => {
+    const commune = communeMap.get(station.CommuneID) || defaultCommune;
+    const gerantData = gerantMap.get(station.GerantID);
+    const gerant: Gerant = gerantData
+      ? { ...gerantData, fullName: `${gerantData.PrenomGerant || ''} ${gerantData.NomGerant || ''}`.trim() }
+      : defaultGerant;
+
+    let proprietaire: StationWithDetails['proprietaire'] = undefined;
+    const base = proprietaireMap.get(station.ProprietaireID);
+    if (base) {
+      const details = base.TypeProprietaire === 'Physique'
+        ? physiqueMap.get(base.ProprietaireID)
+        : moraleMap.get(base.ProprietaireID);
+      if (details) proprietaire = { base, details };
+    }
+
+    const autorisations = (autorisationsByStation[station.StationID] || []).map((a) => ({
+      ...a,
+      DateAutorisation: toDate(a.DateAutorisation),
+      DateExpiration: toDate(a.DateExpiration),
+    }));
+    const capacites = (capacitesByStation[station.StationID] || []).map((c) => ({
+      ...c,
+      DateInstallation: toDate(c.DateInstallation),
+    }));
+    const analyses = (analysesByStation[station.StationID] || []).map((an) => ({
+      ...an,
+      DateAnalyse: toDate(an.DateAnalyse),
+    }));
+
+    return {
+      station,
+      marque: marqueMap.get(station.MarqueID) || defaultMarque,
+      commune,
+      province: provinceMap.get(commune.ProvinceID) || defaultProvince,
+      gerant,
+      proprietaire,
+      autorisations,
+      capacites,
+      analyses,
+      creationAutorisation: autorisations.find((a) => a.TypeAutorisation === 'création'),
+      miseEnServiceAutorisation: autorisations.find((a) => a.TypeAutorisation === 'mise en service'),
+    };
+  });
+}
+
+export async function listStationsWithDetails(): Promise<StationWithDetails[]> {
+  const snap = await adminDb.collection(COLLECTIONS.STATIONS).get();
+  const baseStations = snap.docs
+    .filter((d) => !d.get('DeletedAt'))
+    .map((d) => withId<Station>(d, 'StationID')!);
+  return joinStations(baseStations);
+}
+
+export async function getStationWithDetails(stationId: string): Promise<StationWithDetails | null> {
+  const snap = await adminDb.collection(COLLECTIONS.STATIONS).doc(stationId).get();
+  const station = withId<Station>(snap, 'StationID');
+  if (!station || station.DeletedAt) return null;
+  const [result] = await joinStations([station]);
+  return result;
+}
+
+// Stations joined and written per batch when refreshing the stations_view projection
+const VIEW_CHUNK_SIZE = 200;
+
+// Rewrites the stations_view entries of the given stations after a write, like syncStationViews
+async function syncStationViewsAdmin(stationIds: string[]) {
+  const views = adminDb.collection(COLLECTIONS.STATIONS_VIEW);
+  for (const ids of chunk([...new Set(stationIds)], VIEW_CHUNK_SIZE)) {
+    const snaps = await adminDb.getAll(...ids.map((id) => adminDb.collection(COLLECTIONS.STATIONS).doc(id)));
+    const stations = snaps
+      .map((snap) => withId<Station>(snap, 'StationID'))
+      .filter((station): station is Station => !!station && !station.DeletedAt);
+    const details = await joinStations(stations);
+    const kept = new Set(details.map((d) => d.station.StationID));
+
+    const batch = adminDb.batch();
+    details.forEach((d) => batch.set(views.doc(d.station.StationID), buildStationView(d)));
+    ids.filter((id) => !kept.has(id)).forEach((id) => batch.delete(views.doc(id)));
+    ids.forEach((id) => batch.delete(staleViewRef('station', id)));
+    await batch.commit();
+  }
+}
+
+// Stale markers, as queued by markStationViewsStale on the client
+function staleViewRef(source: 'station' | 'marque' | 'gerant', id: string) {
+  return adminDb.collection(COLLECTIONS.STATIONS_VIEW_STALE).doc(`${source}:${id}`);
+}
+
+function markFormStationViewsStale(batch: WriteBatch, stationId: string, { marqueId, gerantId }: ReferenceIds) {
+  ([['station', stationId], ['marque', marqueId], ['gerant', gerantId]] as const).forEach(([source, id]) => {
+    batch.set(staleViewRef(source, id), { source, id, MarkedAt: FieldValue.serverTimestamp() });
+  });
+}
+
+/**
+ * Refreshes a station written from a form, and the other stations sharing its marque
+ * or gérant: resolveReferences updates an existing marque or gérant from the form.
+ */
+async function syncFormStationViewsAdmin(stationId: string, { marqueId, gerantId }: ReferenceIds) {
+  const views = adminDb.collection(COLLECTIONS.STATIONS_VIEW);
+  const [byMarque, byGerant] = await Promise.all([
+    views.where('MarqueID', '==', marqueId).get(),
+    views.where('GerantID', '==', gerantId).get(),
+  ]);
+  await syncStationViewsAdmin([stationId, ...byMarque.docs.map((d) => d.id), ...byGerant.docs.map((d) => d.id)]);
+  const batch = adminDb.batch();
+  batch.delete(staleViewRef('marque', marqueId));
+  batch.delete(staleViewRef('gerant', gerantId));
+  await batch.commit();
+}
+
+/**
+ * Autorisation numbers of a form that already belong to another station.
+ */
+export async function findTakenAutorisationNumbersAdmin(formData: StationFormData, stationId?: string): Promise<string[]> {
+  const numeros = [...new Set(formData.autorisations.map((a) => a.NumeroAutorisation.trim()).filter(Boolean))];
+  if (numeros.length === 0) return [];
+  const snaps = await Promise.all(
+    chunk(numeros).map((ch) => adminDb.collection(COLLECTIONS.AUTORISATIONS).where('NumeroAutorisation', 'in', ch).get())
+  );
+  const taken = new Set<string>();
+  snaps.forEach((snap) => snap.forEach((d) => {
+    if (d.get('StationID') !== stationId) taken.add(d.get('NumeroAutorisation'));
+  }));
+  return [...taken];
+}
+
+/**
+ * Produits of a form's tanks missing from the produits collection (or from the default
+ * list while it is empty). `allowed` are names accepted anyway, such as the ones the
+ * station already uses.
+ */
+export async function findUnknownProduitsAdmin(formData: StationFormData, allowed: string[] = []): Promise<string[]> {
+  const names = [...new Set(formData.cuves.map((c) => c.TypeCarburant.trim()))].filter((n) => !allowed.includes(n));
+  if (names.length === 0) return [];
+  const snap = await adminDb.collection(COLLECTIONS.PRODUITS).get();
+  const known = snap.empty ? APP_CONSTANTS.PRODUITS.DEFAULTS : snap.docs.map((d) => d.get('NomProduit'));
+  return names.filter((n) => !known.includes(n));
+}
+
+/* ----------------------------------------------------------------
+ * Writes
+ * -------------------------------------------------------------- */
+
+// Admin SDK counterpart of lib/firebase/audit.ts
+export function addAuditEntry(batch: WriteBatch, user: AuditUser, params: AuditParams) {
+  const entry = buildAuditEntry(params, user);
+  if (!entry) return;
+  batch.set(adminDb.collection(COLLECTIONS.AUDIT_LOG).doc(entry.AuditID), { ...entry, timestamp: FieldValue.serverTimestamp() });
+}
+
+function addStatusChange(batch: WriteBatch, user: AuditUser, params: StatusChangeParams) {
+  const change = buildStatusChange(params, user);
+  batch.set(
+    adminDb.collection(COLLECTIONS.STATIONS).doc(params.stationId).collection(COLLECTIONS.STATUS_HISTORY).doc(change.StatusChangeID),
+    { ...change, DateSaisie: FieldValue.serverTimestamp() }
+  );
+}
+
+// Firestore refuses a batch of more than 500 writes
+const MAX_BATCH_WRITES = 500;
+
+// Admin SDK counterpart of commitInBatches (lib/firebase/batch.ts)
+async function commitInBatchesAdmin<T>(items: T[], writesPerItem: number, write: (batch: WriteBatch, item: T) => void) {
+  for (const ch of chunk(items, Math.max(1, Math.floor(MAX_BATCH_WRITES / writesPerItem)))) {
+    const batch = adminDb.batch();
+    ch.forEach((item) => write(batch, item));
+    await batch.commit();
+  }
+}
+
+async function getNextStationCode(): Promise<number> {
+  return adminDb.runTransaction(async (tx) => {
+    const counterRef = adminDb.collection('meta').doc('counters');
+    const snap = await tx.get(counterRef);
+    const base = 1000;
+    const current = snap.exists ? (snap.data()?.stationCode ?? base) : base;
+    const next = current + 1;
+    tx.set(counterRef, { stationCode: next }, { merge: true });
+    return next;
+  });
+}
+
+type ReferenceIds = { marqueId: string; communeId: string; gerantId: string };
+
+// Same find-or-create rules as useCreateStation: marque by name, commune by name + province, gérant by CIN
+async function resolveReferences(batch: WriteBatch, user: AuditUser, formData: StationFormData, stationId: string): Promise<ReferenceIds> {
+  const marqueSnap = await adminDb.collection(COLLECTIONS.MARQUES).where('Marque', '==', formData.Marque.trim()).limit(1).get();
+  let marqueId: string;
+  if (!marqueSnap.empty) {
+    marqueId = marqueSnap.docs[0].id;
+    if (formData.RaisonSociale.trim()) {
+      const marqueUpdate = { RaisonSociale: formData.RaisonSociale.trim() };
+      const oldMarque = marqueSnap.docs[0].data();
+      batch.update(marqueSnap.docs[0].ref, marqueUpdate);
+      addAuditEntry(batch, user, { entity: 'marque', entityId: marqueId, action: 'update', before: oldMarque, after: { ...oldMarque, ...marqueUpdate }, stationId });
+    }
+  } else {
+    marqueId = generateUUID();
+    const marque: Marque = { MarqueID: marqueId, Marque: formData.Marque.trim(), RaisonSociale: formData.RaisonSociale.trim() };
+    batch.set(adminDb.collection(COLLECTIONS.MARQUES).doc(marqueId), marque);
+    addAuditEntry(batch, user, { entity: 'marque', entityId: marqueId, action: 'create', after: marque, stationId });
+  }
+
+  const provSnap = await adminDb.collection(COLLECTIONS.PROVINCES).where('NomProvince', '==', formData.Province.trim()).limit(1).get();
+  let provinceId: string;
+  if (!provSnap.empty) {
+    provinceId = provSnap.docs[0].id;
+  } else {
+    provinceId = generateUUID();
+    const province: Province = { ProvinceID: provinceId, NomProvince: formData.Province.trim() };
+    batch.set(adminDb.collection(COLLECTIONS.PROVINCES).doc(provinceId), province);
+    addAuditEntry(batch, user, { entity: 'province', entityId: provinceId, action: 'create', after: province, stationId });
+  }
+
+  const commSnap = await adminDb.collection(COLLECTIONS.COMMUNES)
+    .where('NomCommune', '==', formData.Commune.trim())
+    .where('ProvinceID', '==', provinceId)
+    .limit(1)
+    .get();
+  let communeId: string;
+  if (!commSnap.empty) {
+    communeId = commSnap.docs[0].id;
+  } else {
+    communeId = generateUUID();
+    const commune: Commune = { CommuneID: communeId, NomCommune: formData.Commune.trim(), ProvinceID: provinceId };
+    batch.set(adminDb.collection(COLLECTIONS.COMMUNES).doc(communeId), commune);
+    addAuditEntry(batch, user, { entity: 'commune', entityId: communeId, action: 'create', after: commune, stationId });
+  }
+
+  const gerantSnap = await adminDb.collection(COLLECTIONS.GERANTS).where('CINGerant', '==', formData.CINGerant.trim()).limit(1).get();
+  let gerantId: string;
+  const gerantData: Partial<Gerant> = {
+    PrenomGerant: formData.PrenomGerant.trim(),
+    NomGerant: formData.NomGerant.trim(),
+    Telephone: formData.Telephone.trim() || undefined,
+  };
+  if (!gerantSnap.empty) {
+    gerantId = gerantSnap.docs[0].id;
+    const oldGerant = gerantSnap.docs[0].data();
+    batch.update(gerantSnap.docs[0].ref, cleanData(gerantData));
+    addAuditEntry(batch, user, { entity: 'gerant', entityId: gerantId, action: 'update', before: oldGerant, after: { ...oldGerant, ...cleanData(gerantData) }, stationId });
+  } else {
+    gerantId = generateUUID();
+    const gerant = cleanData({ ...gerantData, GerantID: gerantId, CINGerant: formData.CINGerant.trim() });
+    batch.set(adminDb.collection(COLLECTIONS.GERANTS).doc(gerantId), gerant);
+    addAuditEntry(batch, user, { entity: 'gerant', entityId: gerantId, action: 'create', after: gerant, stationId });
+  }
+
+  return { marqueId, communeId, gerantId };
+}
+
+// Reuses an owner with the same name, otherwise creates one (same rules as useCreateStation)
+async function resolveProprietaire(batch: WriteBatch, user: AuditUser, formData: StationFormData, stationId: string): Promise<string> {
+  const isPhysique = formData.TypeProprietaire === 'Physique';
+  const name = isPhysique ? formData.NomProprietaire.trim() : formData.NomEntreprise.trim();
+  if (!name || (isPhysique && !formData.PrenomProprietaire.trim())) return '';
+
+  const existing = isPhysique
+    ? await adminDb.collection(COLLECTIONS.PROPRIETAIRES_PHYSIQUES)
+        .where('NomProprietaire', '==', formData.NomProprietaire.trim())
+        .where('PrenomProprietaire', '==', formData.PrenomProprietaire.trim())
+        .limit(1)
+        .get()
+    : await adminDb.collection(COLLECTIONS.PROPRIETAIRES_MORALES)
+        .where('NomEntreprise', '==', formData.NomEntreprise.trim())
+        .limit(1)
+        .get();
+  if (!existing.empty) {
+    return existing.docs[0].data().ProprietaireID as string;
+  }
+
+  const proprietaireId = generateUUID();
+  const proprietaire: Proprietaire = { ProprietaireID: proprietaireId, TypeProprietaire: formData.TypeProprietaire };
+  batch.set(adminDb.collection(COLLECTIONS.PROPRIETAIRES).doc(proprietaireId), proprietaire);
+
+  if (isPhysique) {
+    const physique: ProprietairePhysique = {
+      ProprietaireID: proprietaireId,
+      NomProprietaire: formData.NomProprietaire.trim(),
+      PrenomProprietaire: formData.PrenomProprietaire.trim(),
+    };
+    batch.set(adminDb.collection(COLLECTIONS.PROPRIETAIRES_PHYSIQUES).doc(), physique);
+    addAuditEntry(batch, user, { entity: 'proprietaire', entityId: proprietaireId, action: 'create', after: { ...proprietaire, ...physique }, stationId });
+  } else {
+    const morale: ProprietaireMorale = { ProprietaireID: proprietaireId, NomEntreprise: formData.NomEntreprise.trim() };
+    batch.set(adminDb.collection(COLLECTIONS.PROPRIETAIRES_MORALES).doc(), morale);
+    addAuditEntry(batch, user, { entity: 'proprietaire', entityId: proprietaireId, action: 'create', after: { ...proprietaire, ...morale }, stationId });
+  }
+  return proprietaireId;
+}
+
+// Writes the autorisations and capacités of a station: autorisations are updated in place,
+// capacités replaced
+async function replaceChildren(batch: WriteBatch, user: AuditUser, stationId: string, formData: StationFormData) {
+  const [oldAutorisations, oldCapacites] = await Promise.all([
+    adminDb.collection(COLLECTIONS.AUTORISATIONS).where('StationID', '==', stationId).get(),
+    adminDb.collection(COLLECTIONS.CAPACITES_STOCKAGE).where('StationID', '==', stationId).get(),
+  ]);
+  // Autorisations are kept under their ID, attachments and renewals point at it
+  const existingAutorisations = oldAutorisations.docs.map((d) => ({ ...d.data(), AutorisationID: d.id }) as Autorisation);
+  const autorisationIds = matchAutorisationIds(existingAutorisations, formData.autorisations);
+  oldAutorisations.forEach((d) => {
+    if (!autorisationIds.includes(d.id)) batch.delete(d.ref);
+  });
+  oldCapacites.forEach((d) => batch.delete(d.ref));
+
+  const newAutorisations: Autorisation[] = [];
+  for (const [index, autoData] of formData.autorisations.entries()) {
+    if (!autoData.NumeroAutorisation.trim()) continue;
+    const autoId = autorisationIds[index] ?? generateUUID();
+    const autorisation: Autorisation = {
+      AutorisationID: autoId,
+      StationID: stationId,
+      TypeAutorisation: autoData.TypeAutorisation,
+      NumeroAutorisation: autoData.NumeroAutorisation.trim(),
+      DateAutorisation: autoData.DateAutorisation ? parseDateString(autoData.DateAutorisation) : null,
+      DateExpiration: autoData.DateExpiration ? parseDateString(autoData.DateExpiration) : null,
+    };
+    batch.set(adminDb.collection(COLLECTIONS.AUTORISATIONS).doc(autoId), autorisation);
+    newAutorisations.push(autorisation);
+  }
+
+  const newCapacites: CapaciteStockage[] = [];
+  for (const cuve of formData.cuves) {
+    const capId = generateUUID();
+    const cap = cuveToCapacite(cuve, capId, stationId);
+    batch.set(adminDb.collection(COLLECTIONS.CAPACITES_STOCKAGE).doc(capId), cap);
+    newCapacites.push(cap);
+  }
+
+  [
+    ...diffChildren('autorisation', 'AutorisationID', stationId,
+      existingAutorisations, newAutorisations, (a) => a.AutorisationID),
+    ...diffChildren('capacite', 'CapaciteID', stationId,
+      oldCapacites.docs.map((d) => d.data() as CapaciteStockage), newCapacites, (c) => c.IdentifiantCuve || c.TypeCarburant),
+  ].forEach((params) => addAuditEntry(batch, user, params));
+}
+
+function buildStationFields(formData: StationFormData) {
+  return {
+    NomStation: formData.NomStation.trim(),
+    Adresse: formData.Adresse.trim(),
+    Latitude: formData.Latitude ? parseFloat(formData.Latitude.replace(',', '.')) : 0,
+    Longitude: formData.Longitude ? parseFloat(formData.Longitude.replace(',', '.')) : 0,
+    Type: formData.Type,
+    Statut: formData.Statut,
+    TypeGerance: formData.TypeGerance,
+    Commentaires: formData.Commentaires.trim() || '',
+    NombreVolucompteur: formData.NombreVolucompteur ? parseInt(formData.NombreVolucompteur, 10) : 0,
+  };
+}
+
+export async function createStationAdmin(formData: StationFormData, uid: string): Promise<string> {
+  const user: AuditUser = { uid, email: null };
+  const batch = adminDb.batch();
+  const stationId = generateUUID();
+  const references = await resolveReferences(batch, user, formData, stationId);
+  const { marqueId, communeId, gerantId } = references;
+  const proprietaireId = await resolveProprietaire(batch, user, formData, stationId);
+
+  const code = await getNextStationCode();
+  // Fails the whole batch when a station created at the same time from the app took the code
+  batch.create(adminDb.collection(COLLECTIONS.STATION_CODES).doc(String(code)), { StationID: stationId });
+
+  const station: Station = {
+    StationID: stationId,
+    Code: code,
+    ...buildStationFields(formData),
+    MarqueID: marqueId,
+    CommuneID: communeId,
+    GerantID: gerantId,
+    ProprietaireID: proprietaireId,
+  };
+  batch.set(adminDb.collection(COLLECTIONS.STATIONS).doc(stationId), station);
+  addAuditEntry(batch, user, { entity: 'station', entityId: stationId, action: 'create', after: station });
+  addStatusChange(batch, user, { stationId, from: null, to: station.Statut, reason: 'Création de la station' });
+  await replaceChildren(batch, user, stationId, formData);
+  markFormStationViewsStale(batch, stationId, references);
+
+  await batch.commit();
+  await syncFormStationViewsAdmin(stationId, references);
+  return stationId;
+}
+
+/**
+ * Applies a full (already validated) form to an existing station.
+ * Returns false when the station does not exist or is in the corbeille.
+ */
+export async function updateStationAdmin(stationId: string, formData: StationFormData, uid: string): Promise<boolean> {
+  const stationRef = adminDb.collection(COLLECTIONS.STATIONS).doc(stationId);
+  const snap = await stationRef.get();
+  if (!snap.exists || snap.get('DeletedAt')) return false;
+
+  const user: AuditUser = { uid, email: null };
+  const batch = adminDb.batch();
+  const references = await resolveReferences(batch, user, formData, stationId);
+  const { marqueId, communeId, gerantId } = references;
+  const proprietaireId = await resolveProprietaire(batch, user, formData, stationId);
+
+  const before = snap.data();
+  const stationUpdate = {
+    StationID: before?.StationID || stationId,
+    ...buildStationFields(formData),
+    MarqueID: marqueId,
+    CommuneID: communeId,
+    GerantID: gerantId,
+    ProprietaireID: proprietaireId,
+  };
+  batch.update(stationRef, stationUpdate);
+  if (before?.Statut !== stationUpdate.Statut) {
+    addStatusChange(batch, user, { stationId, from: before?.Statut ?? null, to: stationUpdate.Statut, reason: 'Modification de la fiche station' });
+  }
+  addAuditEntry(batch, user, { entity: 'station', entityId: stationId, action: 'update', before, after: { ...before, ...stationUpdate }, stationId });
+  await replaceChildren(batch, user, stationId, formData);
+  markFormStationViewsStale(batch, stationId, references);
+
+  await batch.commit();
+  await syncFormStationViewsAdmin(stationId, references);
+  return true;
+}
+
+/**
+ * Moves a station and the documents that belong only to it to the corbeille,
+ * like useDeleteStation. Returns false when the station does not exist or is already deleted.
+ */
+export async function deleteStationAdmin(stationId: string, uid: string): Promise<boolean> {
+  const stationRef = adminDb.collection(COLLECTIONS.STATIONS).doc(stationId);
+  const snap = await stationRef.get();
+  if (!snap.exists || snap.get('DeletedAt')) return false;
+
+  const user: AuditUser = { uid, email: null };
+  const deletedAt = Timestamp.now();
+  const children = await Promise.all(
+    [COLLECTIONS.AUTORISATIONS, COLLECTIONS.CAPACITES_STOCKAGE, COLLECTIONS.ANALYSES, COLLECTIONS.INSPECTIONS, COLLECTIONS.DOSSIERS].map((name) =>
+      adminDb.collection(name).where('StationID', '==', stationId).get()
+    )
+  );
+  await commitInBatchesAdmin(children.flatMap((s) => s.docs), 1, (batch, d) => {
+    batch.update(d.ref, { DeletedAt: deletedAt });
+  });
+
+  // The station last, once all of its children are in the corbeille
+  const batch = adminDb.batch();
+  batch.update(stationRef, { DeletedAt: deletedAt, DeletedBy: uid });
+  batch.delete(adminDb.collection(COLLECTIONS.STATIONS_VIEW).doc(stationId));
+  addAuditEntry(batch, user, {
+    entity: 'station',
+    entityId: stationId,
+    action: 'delete',
+    before: { DeletedAt: null, DeletedBy: null },
+    after: { DeletedAt: deletedAt, DeletedBy: uid },
+    stationId,
+  });
+
+  await batch.commit();
+  return true;
+}
@@ -0,0 +1,85 @@
+// src/lib/firebase/adminUsers.ts
+// Firebase Auth user management with the Admin SDK. Only import this from API routes.
+import { randomBytes } from 'crypto';
+import { auth } from 'firebase-admin';
+import { UserRecord } from 'firebase-admin/auth';
+import '@/lib/auth/serverAuth'; // makes sure the Admin app is initialized
+import { getRoleFromClaims, Role } from '@/lib/auth/permissions';
+import { AdminUser } from '@/types/user';
+
+function toAdminUser(user: UserRecord): AdminUser {
+  return {
+    uid: user.uid,
+    email: user.email ?? null,
+    displayName: user.displayName ?? null,
+    disabled: user.disabled,
+    role: getRoleFromClaims(user.customClaims),
+    lastSignInTime: user.metadata.lastSignInTime || null,
+    creationTime: user.metadata.creationTime || null,
+  };
+}
+
+// `admin` is kept in sync with the role for code that still reads the legacy claim
+async function setRole(user: UserRecord, role: Role) {
+  await auth().setCustomUserClaims(user.uid, {
+    ...(user.customClaims || {}),
+    role,
+    admin: role === 'administrateur',
+  });
+}
+
+export async function listAdminUsers(): Promise<AdminUser[]> {
+  const users: AdminUser[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await auth().listUsers(1000, pageToken);
+    users.push(...page.users.map(toAdminUser));
+    pageToken = page.pageToken;
+  } while (pageToken);
+  return users.sort((a, b) => (a.email || '').localeCompare(b.email || ''));
+}
+
+/**
+ * Creates an account with a random password and returns a password reset link
+ * the administrator sends to the user as an invitation.
+ */
+export async function createAdminUser(data: { email: string; displayName?: string; role: Role }) {
+  const created = await auth().createUser({
+    email: data.email,
+    displayName: data.displayName || undefined,
+    password: randomBytes(24).toString('base64url'),
+  });
+  await setRole(created, data.role);
+  const resetLink = await auth().generatePasswordResetLink(data.email);
+  const user = await auth().getUser(created.uid);
+  return { user: toAdminUser(user), resetLink };
+}
+
+export async function updateAdminUser(uid: string, data: { role?: Role; disabled?: boolean }): Promise<AdminUser> {
+  let user = await auth().getUser(uid);
+  if (data.role !== undefined && data.role !== user.customClaims?.role) {
+    await setRole(user, data.role);
+    // Tokens carrying the previous role must stop being accepted by the API
+    await auth().revokeRefreshTokens(uid);
+  }
+  if (data.disabled !== undefined) {
+    await auth().updateUser(uid, { disabled: data.disabled });
+    // A disabled account must not keep a valid session
+    if (data.disabled) await auth().revokeRefreshTokens(uid);
+  }
+  user = await auth().getUser(uid);
+  return toAdminUser(user);
+}
+
+/**
+ * Signs the user out everywhere and returns a fresh password reset link.
+ */
+export async function resetUserAccess(uid: string): Promise<{ resetLink: string }> {
+  const user = await auth().getUser(uid);
+  if (!user.email) {
+    throw new Error('User has no email address');
+  }
+  await auth().revokeRefreshTokens(uid);
+  const resetLink = await auth().generatePasswordResetLink(user.email);
+  return { resetLink };
+}
@@ -0,0 +1,20 @@
+// src/lib/firebase/audit.ts
+import { doc, DocumentData, DocumentReference, serverTimestamp } from 'firebase/firestore';
+import { auth, db } from './config';
+import { COLLECTIONS } from './collections';
+import { AuditParams, buildAuditEntry } from '@/utils/audit';
+
+// A WriteBatch, or the Transaction of a mutation that has to read before it writes
+export type WriteQueue = { set(ref: DocumentReference, data: DocumentData): unknown };
+
+/**
+ * Queue an audit entry in the batch of the mutation it describes,
+ * so the change and its history are committed together.
+ */
+export function addAuditEntry(batch: WriteQueue, params: AuditParams): void {
+  const user = auth.currentUser;
+  const entry = buildAuditEntry(params, { uid: user?.uid ?? null, email: user?.email ?? null });
+  if (!entry) return;
+
+  batch.set(doc(db, COLLECTIONS.AUDIT_LOG, entry.AuditID), { ...entry, timestamp: serverTimestamp() });
+}
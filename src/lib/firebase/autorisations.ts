@@ -0,0 +1,25 @@
+// src/lib/firebase/autorisations.ts
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from './config';
+import { COLLECTIONS } from './collections';
+
+/**
+ * Autorisation numbers among `numeros` that already belong to another station.
+ * Pass the station being edited as `stationId` so its own autorisations don't count.
+ */
+export async function findTakenAutorisationNumbers(numeros: string[], stationId?: string): Promise<string[]> {
+  const unique = [...new Set(numeros.map((n) => n.trim()).filter(Boolean))];
+  if (unique.length === 0) return [];
+
+  const taken = new Set<string>();
+  // Firestore limits 'in' queries to 10 values on the client SDK
+  for (let i = 0; i < unique.length; i += 10) {
+    const snap = await getDocs(
+      query(collection(db, COLLECTIONS.AUTORISATIONS), where('NumeroAutorisation', 'in', unique.slice(i, i + 10)))
+    );
+    snap.docs.forEach((d) => {
+      if (d.get('StationID') !== stationId) taken.add(d.get('NumeroAutorisation'));
+    });
+  }
+  return [...taken];
+}
@@ -0,0 +1,26 @@
+// src/lib/firebase/batch.ts
+import { WriteBatch, writeBatch } from 'firebase/firestore';
+import { db } from './config';
+
+// Firestore refuses a batch of more than 500 writes
+export const MAX_BATCH_WRITES = 500;
+
+/**
+ * Queues the writes of each item with `write` and commits them in as many batches as
+ * needed. `writesPerItem` is the most writes `write` queues for one item (a change and
+ * its audit entry make 2), so an item is never split between two batches.
+ * Batches are committed one after the other: if one fails, the items of the previous
+ * ones stay written, and running the operation again finishes the rest.
+ */
+export async function commitInBatches<T>(
+  items: T[],
+  writesPerItem: number,
+  write: (batch: WriteBatch, item: T) => void
+): Promise<void> {
+  const size = Math.max(1, Math.floor(MAX_BATCH_WRITES / writesPerItem));
+  for (let i = 0; i < items.length; i += size) {
+    const batch = writeBatch(db);
+    items.slice(i, i + size).forEach((item) => write(batch, item));
+    await batch.commit();
+  }
+}
@@ -8,6 +8,7 @@
  */
 export const COLLECTIONS = {
   STATIONS: 'stations',
+  STATION_CODES: 'station_codes', // One document per station Code, keeps codes unique
   PROVINCES: 'provinces',
   COMMUNES: 'communes',
   MARQUES: 'marques',
@@ -18,6 +19,18 @@ export const COLLECTIONS = {
   AUTORISATIONS: 'autorisations',
   CAPACITES_STOCKAGE: 'capacites_stockage',
   ANALYSES: 'analyses',
+  PRODUITS: 'produits',
+  RENOUVELLEMENTS: 'renouvellements_autorisations',
+  ATTACHMENTS: 'attachments',
+  INSPECTIONS: 'inspections',
+  POINTS_CONTROLE: 'points_controle',
+  DOSSIERS: 'dossiers_non_conformite',
+  CAMPAGNES: 'campagnes_analyse',
+  LIMITES: 'limites_territoriales', // Province and commune outlines
+  STATIONS_VIEW: 'stations_view', // Stations with their reference data and summaries joined
+  STATIONS_VIEW_STALE: 'stations_view_stale', // Writes whose stations_view entries still have to be refreshed
+  AUDIT_LOG: 'audit_log',
+  STATUS_HISTORY: 'status_history', // Sub-collection of each station
 } as const;
 
 // This type ensures that if you ever mistype a key, TypeScript will catch it.
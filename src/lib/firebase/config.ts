@@ -1,7 +1,13 @@
 // src/lib/firebase/config.ts
 import { initializeApp, getApps } from "firebase/app";
 import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import {
+  Firestore,
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from "firebase/firestore";
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -23,5 +29,19 @@ if (missingFields.length > 0) {
 
 const app = !getApps().length ? initializeApp(firebaseConfig) : getApps()[0];
 
+// In the browser, documents already read are kept in IndexedDB so that the screens
+// still load without network; queued writes are handled by lib/offline
+function createFirestore(): Firestore {
+  if (typeof window === 'undefined') return getFirestore(app);
+  try {
+    return initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    });
+  } catch {
+    // Already initialized, e.g. after a hot reload
+    return getFirestore(app);
+  }
+}
+
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+export const db = createFirestore();
@@ -11,6 +11,7 @@ import {
   Autorisation,
   CapaciteStockage,
   Analyse,
+  StationView,
 } from "@/types/station";
 
 // Helper to generate UUID v4
@@ -155,4 +156,22 @@ export const analyseConverter: FirestoreDataConverter<Analyse> = {
       DateAnalyse: dateAnalyse,
     } as Analyse;
   },
-};
\ No newline at end of file
+};
+
+export const stationViewConverter: FirestoreDataConverter<StationView> = {
+  toFirestore(entry: StationView) {
+    return { ...entry };
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot): StationView {
+    const data = snapshot.data();
+    return {
+      ...data,
+      StationID: data.StationID || snapshot.id,
+      DateCreation: data.DateCreation instanceof Timestamp ? data.DateCreation.toDate() : null,
+      DateMiseEnService: data.DateMiseEnService instanceof Timestamp ? data.DateMiseEnService.toDate() : null,
+      DerniereAutorisation: data.DerniereAutorisation instanceof Timestamp ? data.DerniereAutorisation.toDate() : null,
+      ProchaineExpiration: data.ProchaineExpiration instanceof Timestamp ? data.ProchaineExpiration.toDate() : null,
+      DerniereAnalyse: data.DerniereAnalyse instanceof Timestamp ? data.DerniereAnalyse.toDate() : null,
+    } as StationView;
+  },
+};
@@ -0,0 +1,47 @@
+// src/lib/firebase/dossiers.ts
+import { collection, doc, getDocs, query, Timestamp, where, WriteBatch } from 'firebase/firestore';
+import { db } from './config';
+import { COLLECTIONS } from './collections';
+import { addAuditEntry } from './audit';
+import { DossierNonConformite } from '@/types/station';
+import { defaultDossierEcheance } from '@/utils/dossiers';
+import { generateUUID } from '@/utils/uuid';
+
+export type DossierOpeningParams = {
+  stationId: string;
+  origine: DossierNonConformite['Origine'];
+  origineId: string;
+  motif: string;
+};
+
+/**
+ * Queues a new non-conformity case in the batch that records the negative analyse
+ * or failed inspection. Does nothing when that analyse or inspection already has an open case.
+ */
+export async function queueDossierOpening(batch: WriteBatch, params: DossierOpeningParams): Promise<string | null> {
+  const existing = await getDocs(query(
+    collection(db, COLLECTIONS.DOSSIERS),
+    where('OrigineID', '==', params.origineId),
+    where('Etat', 'in', ['ouvert', 'en cours'])
+  ));
+  if (!existing.empty) return null;
+
+  const dossierId = generateUUID();
+  const now = new Date();
+  const payload = {
+    DossierID: dossierId,
+    StationID: params.stationId,
+    Origine: params.origine,
+    OrigineID: params.origineId,
+    Motif: params.motif,
+    Etat: 'ouvert',
+    DateOuverture: Timestamp.fromDate(now),
+    DateEcheance: Timestamp.fromDate(defaultDossierEcheance(now)),
+    Suites: [],
+    DateCloture: null,
+    Conclusion: '',
+  };
+  batch.set(doc(db, COLLECTIONS.DOSSIERS, dossierId), payload);
+  addAuditEntry(batch, { entity: 'dossier', entityId: dossierId, action: 'create', after: payload });
+  return dossierId;
+}
@@ -0,0 +1,57 @@
+// src/lib/firebase/produits.ts
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from './config';
+import { COLLECTIONS } from './collections';
+import { addAuditEntry } from './audit';
+import { commitInBatches } from './batch';
+import { AuditEntity } from '@/types/audit';
+
+/**
+ * Capacités and analyses point at a produit by its name rather than its ID,
+ * so that the data written before produits were managed stays valid.
+ */
+const PRODUIT_REFERENCES: { collection: string; field: string; entity: AuditEntity }[] = [
+  { collection: COLLECTIONS.CAPACITES_STOCKAGE, field: 'TypeCarburant', entity: 'capacite' },
+  { collection: COLLECTIONS.ANALYSES, field: 'ProduitAnalyse', entity: 'analyse' },
+];
+
+/**
+ * Number of capacités and analyses using each produit, keyed by NomProduit.
+ */
+export async function countProduitUsage(): Promise<Record<string, number>> {
+  const snaps = await Promise.all(PRODUIT_REFERENCES.map((r) => getDocs(collection(db, r.collection))));
+  const counts: Record<string, number> = {};
+  snaps.forEach((snap, i) => {
+    const { field } = PRODUIT_REFERENCES[i];
+    snap.docs.forEach((d) => {
+      const name = d.get(field);
+      if (typeof name === 'string' && name) counts[name] = (counts[name] || 0) + 1;
+    });
+  });
+  return counts;
+}
+
+/**
+ * Points every capacité and analyse using `from` at `to` and commits it, in several
+ * batches when there are many. Call it before the produit's own batch, so that a
+ * failure leaves the produit as it was and the operation can be run again.
+ * Returns the number of updated documents.
+ */
+export async function moveProduitReferences(from: string, to: string): Promise<number> {
+  const snaps = await Promise.all(
+    PRODUIT_REFERENCES.map((r) => getDocs(query(collection(db, r.collection), where(r.field, '==', from))))
+  );
+  const docs = snaps.flatMap((snap, i) => snap.docs.map((d) => ({ d, ...PRODUIT_REFERENCES[i] })));
+  await commitInBatches(docs, 2, (batch, { d, field, entity }) => {
+    batch.update(d.ref, { [field]: to });
+    addAuditEntry(batch, {
+      entity,
+      entityId: d.id,
+      action: 'update',
+      before: { [field]: from },
+      after: { [field]: to },
+      stationId: d.get('StationID') ?? null,
+    });
+  });
+  return docs.length;
+}
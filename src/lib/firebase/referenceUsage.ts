@@ -0,0 +1,74 @@
+// src/lib/firebase/referenceUsage.ts
+import { collection, getCountFromServer, getDocs, query, where } from 'firebase/firestore';
+import { db } from './config';
+import { COLLECTIONS } from './collections';
+import { addAuditEntry } from './audit';
+import { commitInBatches } from './batch';
+import { AuditEntity } from '@/types/audit';
+
+export type ReferenceKind = 'marque' | 'commune' | 'province' | 'gerant' | 'proprietaire';
+
+/**
+ * Where each kind of reference data is pointed at from.
+ * Stations hold the marque, commune, gérant and propriétaire; communes hold the province.
+ */
+const REFERENCES: Record<ReferenceKind, { collection: string; field: string; entity: AuditEntity; label: string }> = {
+  marque: { collection: COLLECTIONS.STATIONS, field: 'MarqueID', entity: 'station', label: 'station(s)' },
+  commune: { collection: COLLECTIONS.STATIONS, field: 'CommuneID', entity: 'station', label: 'station(s)' },
+  gerant: { collection: COLLECTIONS.STATIONS, field: 'GerantID', entity: 'station', label: 'station(s)' },
+  proprietaire: { collection: COLLECTIONS.STATIONS, field: 'ProprietaireID', entity: 'station', label: 'station(s)' },
+  province: { collection: COLLECTIONS.COMMUNES, field: 'ProvinceID', entity: 'commune', label: 'commune(s)' },
+};
+
+/**
+ * Number of documents pointing at each of the given entities of a kind, keyed by entity ID.
+ * Counted by the server, one aggregation query per entity.
+ * Stations in the corbeille are counted too: restoring them needs their references.
+ */
+export async function countReferenceUsage(kind: ReferenceKind, ids: string[]): Promise<Record<string, number>> {
+  const { collection: collectionName, field } = REFERENCES[kind];
+  const counts = await Promise.all(
+    ids.map(async (id) => {
+      const snap = await getCountFromServer(query(collection(db, collectionName), where(field, '==', id)));
+      return [id, snap.data().count] as const;
+    })
+  );
+  return Object.fromEntries(counts);
+}
+
+/**
+ * Guard to call before deleting a reference entity, before its own batch.
+ * Throws when documents still point at it, unless `reassignTo` is given, in which
+ * case they are moved to that entity (with their audit entries) and committed,
+ * in several batches when there are many. Returns the number of reassigned documents.
+ */
+export async function reassignReferences(
+  kind: ReferenceKind,
+  id: string,
+  reassignTo?: string
+): Promise<number> {
+  const { collection: collectionName, field, entity, label } = REFERENCES[kind];
+  const snap = await getDocs(query(collection(db, collectionName), where(field, '==', id)));
+  if (snap.empty) return 0;
+
+  if (!reassignTo) {
+    throw new Error(`it is still used by ${snap.size} ${label}`);
+  }
+  if (reassignTo === id) {
+    throw new Error('cannot reassign to the entity being deleted');
+  }
+
+  await commitInBatches(snap.docs, 2, (batch, d) => {
+    batch.update(d.ref, { [field]: reassignTo });
+    addAuditEntry(batch, {
+      entity,
+      entityId: d.id,
+      action: 'update',
+      before: { [field]: id },
+      after: { [field]: reassignTo },
+      stationId: entity === 'station' ? d.id : null,
+    });
+  });
+  return snap.size;
+}
+
@@ -0,0 +1,74 @@
+// src/lib/firebase/stationStatus.ts
+import { collection, doc, getDoc, getDocs, query, serverTimestamp, where, WriteBatch } from 'firebase/firestore';
+import { auth, db } from './config';
+import { COLLECTIONS } from './collections';
+import { addAuditEntry, WriteQueue } from './audit';
+import { StationStatut } from '@/types/station';
+import { buildStatusChange, getStatusTransitionError, StatusChangeParams } from '@/utils/stationStatus';
+
+/**
+ * Queue a status history entry in the batch that changes the station's Statut.
+ */
+export function addStatusChange(batch: WriteQueue, params: StatusChangeParams): void {
+  const user = auth.currentUser;
+  const change = buildStatusChange(params, { uid: user?.uid ?? null, email: user?.email ?? null });
+
+  batch.set(
+    doc(db, COLLECTIONS.STATIONS, params.stationId, COLLECTIONS.STATUS_HISTORY, change.StatusChangeID),
+    { ...change, DateSaisie: serverTimestamp() }
+  );
+}
+
+export type StatusChangeOptions = {
+  reason: string;
+  effectiveDate?: Date | null;
+};
+
+/**
+ * Checks the transition is allowed and queues the new Statut, its history entry and
+ * audit entry in the batch. Returns false when the station already has this status.
+ */
+export async function queueStationStatusChange(
+  batch: WriteBatch,
+  stationId: string,
+  statut: StationStatut,
+  options: StatusChangeOptions
+): Promise<boolean> {
+  const stationRef = doc(db, COLLECTIONS.STATIONS, stationId);
+  const [stationSnap, miseEnServiceSnap] = await Promise.all([
+    getDoc(stationRef),
+    getDocs(query(
+      collection(db, COLLECTIONS.AUTORISATIONS),
+      where('StationID', '==', stationId),
+      where('TypeAutorisation', '==', 'mise en service')
+    )),
+  ]);
+  const current = stationSnap.data()?.Statut as StationStatut | undefined;
+  if (current === statut) return false;
+
+  const transitionError = getStatusTransitionError(current, statut, { hasMiseEnService: !miseEnServiceSnap.empty });
+  if (transitionError) {
+    throw new Error(transitionError);
+  }
+  if (!options.reason.trim()) {
+    throw new Error('Le motif du changement de statut est obligatoire');
+  }
+
+  batch.update(stationRef, { Statut: statut });
+  addStatusChange(batch, {
+    stationId,
+    from: current ?? null,
+    to: statut,
+    effectiveDate: options.effectiveDate,
+    reason: options.reason,
+  });
+  addAuditEntry(batch, {
+    entity: 'station',
+    entityId: stationId,
+    action: 'update',
+    before: { Statut: current },
+    after: { Statut: statut },
+    stationId,
+  });
+  return true;
+}
@@ -0,0 +1,271 @@
+// src/lib/firebase/stationViews.ts
+import {
+  collection,
+  doc,
+  documentId,
+  FieldPath,
+  getDocs,
+  onSnapshot,
+  query,
+  QueryConstraint,
+  serverTimestamp,
+  Timestamp,
+  Unsubscribe,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './config';
+import { COLLECTIONS } from './collections';
+import { WriteQueue } from './audit';
+import { MAX_BATCH_WRITES } from './batch';
+import { stationConverter, stationViewConverter } from './converters';
+import { chunk, fetchStationDetails, joinStationDetails } from './stationDetails';
+import { ReferenceKind } from './referenceUsage';
+import { StationView, StationWithDetails } from '@/types/station';
+import { buildStationView } from '@/utils/stationSearch';
+
+// Stations joined and written per batch while rebuilding
+const REBUILD_CHUNK_SIZE = 200;
+
+// Firestore allows up to 30 values in an 'in' filter
+const IN_QUERY_LIMIT = 30;
+
+// Field of the projection holding the ID of each kind of reference
+const REFERENCE_FIELDS: Record<ReferenceKind, keyof StationView> = {
+  marque: 'MarqueID',
+  commune: 'CommuneID',
+  province: 'ProvinceID',
+  gerant: 'GerantID',
+  proprietaire: 'ProprietaireID',
+};
+
+// What a write changed, for its stale marker: a station, a reference record or a produit
+export type StaleViewSource = 'station' | ReferenceKind | 'produit';
+
+export type StaleStationView = {
+  source: StaleViewSource;
+  id: string;
+  MarkedAt: Date | null;
+};
+
+function staleViewRef(source: StaleViewSource, id: string) {
+  return doc(db, COLLECTIONS.STATIONS_VIEW_STALE, `${source}:${id}`);
+}
+
+/**
+ * Queues, in the batch of a write, markers saying the stations_view entries it changes
+ * have to be refreshed. The refresh that follows the commit removes them. When that
+ * refresh fails, or never runs because the tab was closed, they stay in Firestore where
+ * every client and the rebuild find them (see getStaleStationViews).
+ */
+export function markStationViewsStale(batch: WriteQueue, source: StaleViewSource, ids: (string | null | undefined)[]): void {
+  [...new Set(ids.filter((id): id is string => !!id))].forEach((id) => {
+    batch.set(staleViewRef(source, id), { source, id, MarkedAt: serverTimestamp() });
+  });
+}
+
+async function clearStaleViews(markers: { source: StaleViewSource; id: string }[]) {
+  for (const ch of chunk(markers, MAX_BATCH_WRITES)) {
+    const batch = writeBatch(db);
+    ch.forEach(({ source, id }) => batch.delete(staleViewRef(source, id)));
+    await batch.commit();
+  }
+}
+
+// Writes the entries and clears the stale markers of their stations
+async function writeViews(details: StationWithDetails[], removedIds: string[]) {
+  const batch = writeBatch(db);
+  details.forEach((d) => {
+    batch.set(
+      doc(db, COLLECTIONS.STATIONS_VIEW, d.station.StationID).withConverter(stationViewConverter),
+      buildStationView(d)
+    );
+  });
+  removedIds.forEach((id) => batch.delete(doc(db, COLLECTIONS.STATIONS_VIEW, id)));
+  [...details.map((d) => d.station.StationID), ...removedIds].forEach((id) => batch.delete(staleViewRef('station', id)));
+  await batch.commit();
+}
+
+async function refreshStationViews(stationIds: string[]) {
+  for (const ch of chunk([...new Set(stationIds.filter(Boolean))], REBUILD_CHUNK_SIZE)) {
+    const details = (await fetchStationDetails(ch)).filter((d) => !d.station.DeletedAt);
+    const kept = new Set(details.map((d) => d.station.StationID));
+    await writeViews(details, ch.filter((id) => !kept.has(id)));
+  }
+}
+
+/**
+ * Refreshes the stations_view entries of the given stations after a write. Stations
+ * deleted or in the corbeille lose their entry. A failure doesn't throw, the write itself
+ * went through: the markers it queued (see markStationViewsStale) are left for a retry.
+ */
+export async function syncStationViews(stationIds: string[]): Promise<void> {
+  try {
+    await refreshStationViews(stationIds);
+  } catch (err) {
+    console.error('Failed to sync station views:', err);
+  }
+}
+
+async function findViewIds(constraints: QueryConstraint[]): Promise<string[]> {
+  const snaps = await Promise.all(
+    constraints.map((c) => getDocs(query(collection(db, COLLECTIONS.STATIONS_VIEW), c)))
+  );
+  return snaps.flatMap((snap) => snap.docs.map((d) => d.id));
+}
+
+async function refreshByReference(
+  references: Partial<Record<ReferenceKind, (string | undefined)[]>>,
+  stationIds: string[]
+) {
+  const markers: { source: ReferenceKind; id: string }[] = [];
+  const constraints = Object.entries(references).flatMap(([kind, ids]) => {
+    const values = [...new Set((ids ?? []).filter((id): id is string => !!id))];
+    values.forEach((id) => markers.push({ source: kind as ReferenceKind, id }));
+    return chunk(values, IN_QUERY_LIMIT).map((ch) => where(REFERENCE_FIELDS[kind as ReferenceKind], 'in', ch));
+  });
+  await refreshStationViews([...stationIds, ...(await findViewIds(constraints))]);
+  await clearStaleViews(markers);
+}
+
+async function refreshByProduit(nomProduit: string) {
+  await refreshStationViews(await findViewIds([where(new FieldPath('Capacites', nomProduit), '>=', 0)]));
+  await clearStaleViews([{ source: 'produit', id: nomProduit }]);
+}
+
+/**
+ * Refreshes the entries of every station pointing at the given reference records,
+ * after they were renamed, merged or reassigned. Stations are found through the
+ * projection itself, which still holds the IDs they had before the write.
+ * `stationIds` are refreshed along with them.
+ */
+export async function syncStationViewsByReference(
+  references: Partial<Record<ReferenceKind, (string | undefined)[]>>,
+  stationIds: string[] = []
+): Promise<void> {
+  try {
+    await refreshByReference(references, stationIds);
+  } catch (err) {
+    console.error('Failed to sync station views by reference:', err);
+  }
+}
+
+/**
+ * Refreshes the entries of the stations holding a capacité of the given produit,
+ * after it was renamed or its capacités moved to another one.
+ */
+export async function syncStationViewsByProduit(nomProduit: string): Promise<void> {
+  try {
+    await refreshByProduit(nomProduit);
+  } catch (err) {
+    console.error('Failed to sync station views by produit:', err);
+  }
+}
+
+/**
+ * Rewrites the whole stations_view projection from the stations collection
+ * and drops entries left by stations that no longer exist.
+ * Returns the number of stations indexed.
+ */
+export async function rebuildStationViews(): Promise<number> {
+  // Markers queued while the rebuild runs are kept, their write may come after it
+  const markers = await getStaleStationViews();
+  const [stationsSnap, entriesSnap] = await Promise.all([
+    getDocs(collection(db, COLLECTIONS.STATIONS).withConverter(stationConverter)),
+    getDocs(collection(db, COLLECTIONS.STATIONS_VIEW)),
+  ]);
+  const stations = stationsSnap.docs.map((d) => d.data()).filter((s) => !s.DeletedAt);
+  const kept = new Set(stations.map((s) => s.StationID));
+  const stale = entriesSnap.docs.map((d) => d.id).filter((id) => !kept.has(id));
+
+  for (const ch of chunk(stations, REBUILD_CHUNK_SIZE)) {
+    await writeViews(await joinStationDetails(ch), []);
+  }
+  for (const ch of chunk(stale, REBUILD_CHUNK_SIZE)) {
+    await writeViews([], ch);
+  }
+  await clearStaleViews(markers);
+  return stations.length;
+}
+
+/**
+ * Stale markers left by writes whose entries could not be refreshed, oldest first.
+ */
+export async function getStaleStationViews(): Promise<StaleStationView[]> {
+  const snap = await getDocs(collection(db, COLLECTIONS.STATIONS_VIEW_STALE));
+  return snap.docs
+    .map((d) => {
+      const data = d.data();
+      return {
+        source: data.source,
+        id: data.id,
+        MarkedAt: data.MarkedAt instanceof Timestamp ? data.MarkedAt.toDate() : null,
+      } as StaleStationView;
+    })
+    .sort((a, b) => (a.MarkedAt?.getTime() ?? 0) - (b.MarkedAt?.getTime() ?? 0));
+}
+
+/**
+ * Refreshes the entries of every stale marker, whichever client left it.
+ * Throws when a refresh fails, its markers are kept.
+ */
+export async function retryStaleStationViews(): Promise<void> {
+  const markers = await getStaleStationViews();
+  const references: Partial<Record<ReferenceKind, string[]>> = {};
+  markers.forEach(({ source, id }) => {
+    if (source !== 'station' && source !== 'produit') references[source] = [...(references[source] ?? []), id];
+  });
+  await refreshByReference(references, markers.filter((m) => m.source === 'station').map((m) => m.id));
+  for (const { id } of markers.filter((m) => m.source === 'produit')) {
+    await refreshByProduit(id);
+  }
+}
+
+export type StationViewChanges = {
+  changed: StationView[]; // Entries created or rewritten
+  removed: string[]; // Stations whose entry was deleted: archived to the corbeille or purged
+};
+
+/**
+ * Listens to the projection and reports the entries written after the listener started.
+ * Every station and reference-data write refreshes the projection, so this catches
+ * changes to the stations, their child documents and their reference data alike.
+ * `stationIds` restricts it to those stations; null watches every station.
+ * Returns the function that stops listening.
+ */
+export function watchStationViews(
+  stationIds: string[] | null,
+  onChanges: (changes: StationViewChanges) => void,
+  onError: (err: Error) => void
+): Unsubscribe {
+  const views = collection(db, COLLECTIONS.STATIONS_VIEW).withConverter(stationViewConverter);
+  const queries = stationIds === null
+    ? [views]
+    : chunk([...new Set(stationIds)], IN_QUERY_LIMIT).map((ch) => query(views, where(documentId(), 'in', ch)));
+
+  const unsubscribes = queries.map((q) => {
+    // The first snapshot is the current state, only what follows is a change
+    let initial = true;
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        if (initial) {
+          initial = false;
+          return;
+        }
+        const changes: StationViewChanges = { changed: [], removed: [] };
+        snapshot.docChanges().forEach((change) => {
+          if (change.type === 'removed') {
+            changes.removed.push(change.doc.id);
+          } else {
+            changes.changed.push(change.doc.data());
+          }
+        });
+        if (changes.changed.length > 0 || changes.removed.length > 0) onChanges(changes);
+      },
+      onError
+    );
+  });
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
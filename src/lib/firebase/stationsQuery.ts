@@ -0,0 +1,215 @@
+// src/lib/firebase/stationsQuery.ts
+import {
+  collection,
+  getCountFromServer,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  startAfter,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { db } from './config';
+import { COLLECTIONS } from './collections';
+import { stationViewConverter } from './converters';
+import { StationView } from '@/types/station';
+import { FilterConfig, SortConfig } from '@/types/table';
+import {
+  FILTERABLE_STATION_COLUMNS,
+  getSearchWords,
+  isSortableStationColumn,
+  matchesSearch,
+} from '@/utils/stationSearch';
+
+export type AnalysisStatusFilter = 'all' | 'analysed' | 'not-analysed';
+
+export type StationsQueryParams = {
+  search: string;
+  filters: FilterConfig[];
+  sort: SortConfig;
+  analysisStatus: AnalysisStatusFilter;
+  analysisYears: number[];
+};
+
+export type StationsCursor = QueryDocumentSnapshot<StationView>;
+
+export type StationsPage = {
+  entries: StationView[];
+  cursor: StationsCursor | null; // Last document of the page, the next page starts after it
+  hasMore: boolean;
+  // The criteria checked on the client were tried on MAX_SCANNED_DOCUMENTS documents
+  // without filling the page: it may be short, and the next page continues the scan
+  partial: boolean;
+};
+
+// Firestore caps the number of OR branches a query expands to (in, array-contains-any)
+const MAX_DISJUNCTIONS = 30;
+
+// Documents read per round when part of the criteria is checked on the client,
+// and at most per page before giving back what was found
+const SCAN_BATCH_SIZE = 50;
+export const MAX_SCANNED_DOCUMENTS = 500;
+
+type StationsQueryPlan = {
+  constraints: QueryConstraint[];
+  clientFilter: ((entry: StationView) => boolean) | null;
+};
+
+/**
+ * Splits the criteria between what Firestore can answer and what has to be checked
+ * on the client: only one array-contains per query, and a bounded number of OR branches.
+ * Each combination of filters and sort used here needs a composite index; Firestore
+ * logs the link to create a missing one the first time the query runs.
+ */
+function planStationsQuery({ search, filters, sort, analysisStatus, analysisYears }: StationsQueryParams): StationsQueryPlan {
+  const constraints: QueryConstraint[] = [];
+  const checks: ((entry: StationView) => boolean)[] = [];
+  let disjunctions = 1;
+
+  filters.forEach(({ key, value }) => {
+    if (!(FILTERABLE_STATION_COLUMNS as readonly string[]).includes(key) || !value) return;
+    const values = value.split('|');
+    if (disjunctions * values.length <= MAX_DISJUNCTIONS) {
+      constraints.push(where(key, 'in', values));
+      disjunctions *= values.length;
+    } else {
+      checks.push((e) => values.includes(String(e[key as keyof StationView] ?? '')));
+    }
+  });
+
+  const words = getSearchWords(search);
+  if (words.length > 0) {
+    // The longest word usually matches the fewest stations, the others are checked on the client
+    const indexed = words.reduce((longest, w) => (w.length > longest.length ? w : longest));
+    constraints.push(where('Recherche', 'array-contains', indexed));
+    if (words.length > 1) checks.push((e) => matchesSearch(e, words.filter((w) => w !== indexed)));
+  }
+
+  if (analysisStatus === 'analysed') {
+    const canQueryYears = analysisYears.length > 0 && words.length === 0 && disjunctions * analysisYears.length <= MAX_DISJUNCTIONS;
+    if (canQueryYears) {
+      constraints.push(where('AnalyseAnnees', 'array-contains-any', analysisYears));
+    } else {
+      constraints.push(where('Analysee', '==', true));
+      if (analysisYears.length > 0) checks.push((e) => analysisYears.some((y) => e.AnalyseAnnees.includes(y)));
+    }
+  } else if (analysisStatus === 'not-analysed') {
+    // Without years, only the stations never analysed; with years, the ones not analysed in any of them
+    if (analysisYears.length === 0) {
+      constraints.push(where('Analysee', '==', false));
+    } else {
+      checks.push((e) => analysisYears.every((y) => !e.AnalyseAnnees.includes(y)));
+    }
+  }
+
+  const sortKey = isSortableStationColumn(sort.key) ? sort.key : 'Code';
+  constraints.push(orderBy(`Tri.${sortKey}`, sort.direction));
+
+  return {
+    constraints,
+    clientFilter: checks.length > 0 ? (e) => checks.every((check) => check(e)) : null,
+  };
+}
+
+function searchCollection() {
+  return collection(db, COLLECTIONS.STATIONS_VIEW).withConverter(stationViewConverter);
+}
+
+/**
+ * One page of the stations table, starting after `after` (the cursor of the previous page).
+ */
+export async function fetchStationsPage(
+  params: StationsQueryParams,
+  pageSize: number,
+  after: StationsCursor | null
+): Promise<StationsPage> {
+  const { constraints, clientFilter } = planStationsQuery(params);
+  const cursorConstraints = after ? [startAfter(after)] : [];
+
+  if (!clientFilter) {
+    // One extra document tells whether there is a next page
+    const snap = await getDocs(query(searchCollection(), ...constraints, ...cursorConstraints, limit(pageSize + 1)));
+    const docs = snap.docs.slice(0, pageSize);
+    return {
+      entries: docs.map((d) => d.data()),
+      cursor: docs[docs.length - 1] ?? null,
+      hasMore: snap.docs.length > pageSize,
+      partial: false,
+    };
+  }
+
+  // Reads on until one match past the page is found, the collection is exhausted
+  // or MAX_SCANNED_DOCUMENTS were read
+  const matches: StationsCursor[] = [];
+  let last = after;
+  let scanned = 0;
+  for (;;) {
+    const snap = await getDocs(query(
+      searchCollection(),
+      ...constraints,
+      ...(last ? [startAfter(last)] : []),
+      limit(SCAN_BATCH_SIZE)
+    ));
+    for (const d of snap.docs) {
+      if (clientFilter(d.data())) matches.push(d);
+      if (matches.length > pageSize) break;
+    }
+    if (matches.length > pageSize || snap.docs.length < SCAN_BATCH_SIZE) break;
+    last = snap.docs[snap.docs.length - 1];
+    scanned += snap.docs.length;
+    if (scanned >= MAX_SCANNED_DOCUMENTS) {
+      return { entries: matches.map((d) => d.data()), cursor: last, hasMore: true, partial: true };
+    }
+  }
+
+  const docs = matches.slice(0, pageSize);
+  return {
+    entries: docs.map((d) => d.data()),
+    cursor: docs[docs.length - 1] ?? null,
+    hasMore: matches.length > pageSize,
+    partial: false,
+  };
+}
+
+/**
+ * Number of stations matching the criteria, or null when part of them is checked
+ * on the client and counting would mean reading every document.
+ */
+export async function countStations(params: StationsQueryParams): Promise<number | null> {
+  const { constraints, clientFilter } = planStationsQuery(params);
+  if (clientFilter) return null;
+  const countConstraints = constraints.filter((c) => c.type !== 'orderBy');
+  const snap = await getCountFromServer(query(collection(db, COLLECTIONS.STATIONS_VIEW), ...countConstraints));
+  return snap.data().count;
+}
+
+export async function countAllStations(): Promise<number> {
+  const snap = await getCountFromServer(collection(db, COLLECTIONS.STATIONS_VIEW));
+  return snap.data().count;
+}
+
+// Every entry matching the criteria, in table order, e.g. for an export
+export async function fetchAllStationEntries(params: StationsQueryParams): Promise<StationView[]> {
+  const { constraints, clientFilter } = planStationsQuery(params);
+  const snap = await getDocs(query(searchCollection(), ...constraints));
+  const entries = snap.docs.map((d) => d.data());
+  return clientFilter ? entries.filter(clientFilter) : entries;
+}
+
+/**
+ * Years offered by the analysis filter: from the first recorded analyse to this year,
+ * most recent first. Only the oldest analyse is read.
+ */
+export async function fetchAnalyseYears(): Promise<number[]> {
+  const snap = await getDocs(query(collection(db, COLLECTIONS.ANALYSES), orderBy('DateAnalyse', 'asc'), limit(1)));
+  const first = snap.docs[0]?.get('DateAnalyse');
+  const currentYear = new Date().getFullYear();
+  const firstYear = first instanceof Timestamp ? first.toDate().getFullYear() : currentYear;
+
+  const years: number[] = [];
+  for (let year = currentYear; year >= firstYear; year--) years.push(year);
+  return years;
+}
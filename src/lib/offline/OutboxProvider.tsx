@@ -0,0 +1,219 @@
+'use client';
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from '@/lib/auth/provider';
+import { useAnalyseCRUD } from '@/hooks/useStationData/useAnalyseCRUD';
+import { useUpdateStation } from '@/hooks/stations/useUpdateStation';
+import { Analyse } from '@/types/station';
+import { OutboxMutation, OutboxRequest, OutboxStatus } from '@/types/outbox';
+import { generateUUID } from '@/utils/uuid';
+import { isNetworkError, isOffline, nextRetryDate } from '@/utils/outbox';
+import { listMutations, removeMutation, saveMutation, subscribeOutbox } from './outboxStore';
+import { findConflict, isAlreadyApplied } from './conflicts';
+
+// How often due retries are looked for, besides the browser going back online
+const FLUSH_INTERVAL_MS = 1000 * 15;
+
+// Held while replaying, so that two tabs never send the same mutation
+const FLUSH_LOCK = 'gas-stations-outbox-flush';
+
+type OutboxContextType = {
+  mutations: OutboxMutation[]; // Those of the current user
+  online: boolean;
+  stationStates: Map<string, OutboxStatus>; // Stations with a queued edit
+  analyseStates: Map<string, OutboxStatus>; // Analyses with a queued edit
+  queuedAnalyses: (Analyse & { status: OutboxStatus })[]; // Analyses created offline, AnalyseID is the mutation's
+  enqueue: (request: OutboxRequest) => Promise<void>;
+  flush: () => Promise<void>;
+  keepMine: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  retry: (id: string) => Promise<void>;
+};
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export function useOutbox() {
+  const ctx = useContext(OutboxContext);
+  if (!ctx) throw new Error('useOutbox must be used inside <OutboxProvider>');
+  return ctx;
+}
+
+// Two queued edits of the same document are merged, the first one gives the base version
+function targetOf(m: OutboxRequest): string | null {
+  if (m.kind === 'analyse:update') return `analyse:${m.analyseId}`;
+  if (m.kind === 'station:update') return `station:${m.stationId}`;
+  return null;
+}
+
+/**
+ * Offline outbox: writes the forms could not send are kept in IndexedDB and replayed,
+ * oldest first, through the regular hooks when the network is back. Before an edit is
+ * replayed, the document is compared with the version it was made from; if someone
+ * changed it in the meantime the edit is held until the user resolves the conflict.
+ */
+export function OutboxProvider({ children }: { children: ReactNode }) {
+  const { currentUser } = useAuth();
+  const { createAnalyse, updateAnalyse } = useAnalyseCRUD();
+  const { updateStation } = useUpdateStation();
+  const [allMutations, setAllMutations] = useState<OutboxMutation[]>([]);
+  const [online, setOnline] = useState(true);
+  const flushing = useRef(false);
+
+  const uid = currentUser?.uid ?? null;
+  const mutations = useMemo(() => allMutations.filter((m) => m.uid === uid), [allMutations, uid]);
+
+  const reload = useCallback(async () => {
+    try {
+      setAllMutations(await listMutations());
+    } catch (err) {
+      console.error('Failed to read the offline outbox:', err);
+    }
+  }, []);
+
+  const execute = useCallback(async (m: OutboxMutation) => {
+    switch (m.kind) {
+      case 'analyse:create':
+        await createAnalyse(m.data, m.analyseId);
+        break;
+      case 'analyse:update':
+        await updateAnalyse(m.analyseId, m.data);
+        break;
+      case 'station:update':
+        await updateStation(m.stationId, m.formData);
+        break;
+    }
+  }, [createAnalyse, updateAnalyse, updateStation]);
+
+  const replayDue = useCallback(async () => {
+    const now = Date.now();
+    const due = (await listMutations()).filter(
+      (m) => m.uid === uid && m.status === 'pending' && m.nextAttemptAt.getTime() <= now
+    );
+
+    for (const m of due) {
+      try {
+        // Firestore may have sent it by itself, after the form gave up waiting
+        if (await isAlreadyApplied(m)) {
+          await removeMutation(m.id);
+          continue;
+        }
+        const conflict = m.force ? null : await findConflict(m);
+        if (conflict) {
+          await saveMutation({ ...m, status: 'conflict', conflict });
+          continue;
+        }
+        await execute(m);
+        await removeMutation(m.id);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        if (isNetworkError(err)) {
+          // Still offline: the next ones would fail the same way
+          await saveMutation({ ...m, attempts: m.attempts + 1, nextAttemptAt: nextRetryDate(m.attempts), lastError: message });
+          break;
+        }
+        console.error('Failed to replay queued mutation:', err);
+        await saveMutation({ ...m, status: 'failed', attempts: m.attempts + 1, lastError: message });
+      }
+    }
+  }, [uid, execute]);
+
+  const flush = useCallback(async () => {
+    if (!uid || flushing.current || isOffline()) return;
+    flushing.current = true;
+    try {
+      if (typeof navigator !== 'undefined' && navigator.locks) {
+        await navigator.locks.request(FLUSH_LOCK, { ifAvailable: true }, async (lock) => {
+          if (lock) await replayDue();
+        });
+      } else {
+        await replayDue();
+      }
+    } catch (err) {
+      console.error('Failed to flush the offline outbox:', err);
+    } finally {
+      flushing.current = false;
+    }
+  }, [uid, replayDue]);
+
+  const enqueue = useCallback(async (request: OutboxRequest) => {
+    if (!uid) throw new Error('Vous devez être connecté pour enregistrer hors ligne.');
+    const now = new Date();
+    const target = targetOf(request);
+    const previous = target ? (await listMutations()).find((m) => m.uid === uid && targetOf(m) === target) : undefined;
+
+    const mutation = {
+      ...request,
+      ...(previous && 'base' in previous ? { base: previous.base } : {}),
+      id: previous?.id ?? generateUUID(),
+      uid,
+      createdAt: previous?.createdAt ?? now,
+      attempts: 0,
+      nextAttemptAt: now,
+      status: 'pending',
+      lastError: null,
+      conflict: null,
+      force: false,
+    } as OutboxMutation;
+    await saveMutation(mutation);
+  }, [uid]);
+
+  const update = useCallback(async (id: string, changes: Partial<OutboxMutation>) => {
+    const m = (await listMutations()).find((item) => item.id === id);
+    if (!m) return;
+    await saveMutation({ ...m, ...changes } as OutboxMutation);
+  }, []);
+
+  // Sends the edit as is, over the changes made by someone else
+  const keepMine = useCallback(async (id: string) => {
+    await update(id, { status: 'pending', force: true, conflict: null, nextAttemptAt: new Date() });
+    await flush();
+  }, [update, flush]);
+
+  const retry = useCallback(async (id: string) => {
+    await update(id, { status: 'pending', lastError: null, nextAttemptAt: new Date() });
+    await flush();
+  }, [update, flush]);
+
+  const discard = useCallback(async (id: string) => {
+    await removeMutation(id);
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeOutbox(reload);
+  }, [reload]);
+
+  useEffect(() => {
+    setOnline(!isOffline());
+    const handleOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    flush();
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, [flush]);
+
+  const value = useMemo<OutboxContextType>(() => {
+    const stationStates = new Map<string, OutboxStatus>();
+    const analyseStates = new Map<string, OutboxStatus>();
+    const queuedAnalyses: OutboxContextType['queuedAnalyses'] = [];
+    mutations.forEach((m) => {
+      if (m.kind === 'station:update') stationStates.set(m.stationId, m.status);
+      if (m.kind === 'analyse:update') analyseStates.set(m.analyseId, m.status);
+      // Shown under the ID the analyse is written with, older entries have none yet
+      if (m.kind === 'analyse:create') queuedAnalyses.push({ ...m.data, AnalyseID: m.analyseId ?? m.id, status: m.status });
+    });
+    return { mutations, online, stationStates, analyseStates, queuedAnalyses, enqueue, flush, keepMine, discard, retry };
+  }, [mutations, online, enqueue, flush, keepMine, discard, retry]);
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+}
@@ -0,0 +1,62 @@
+// src/lib/offline/conflicts.ts
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { COLLECTIONS } from '@/lib/firebase/collections';
+import { analyseConverter } from '@/lib/firebase/converters';
+import { fetchStationDetails } from '@/lib/firebase/stationDetails';
+import { OutboxConflict, OutboxMutation } from '@/types/outbox';
+import { stationWithDetailsToFormData } from '@/utils/stationFormUtils';
+import { analyseSnapshot, diffSnapshots, sameSnapshots, stationFormSnapshot } from '@/utils/outbox';
+
+/**
+ * Whether the document already holds what a queued write would write, when Firestore
+ * sent the write by itself. Creations queued before they had an ID can't be told apart.
+ */
+export async function isAlreadyApplied(mutation: OutboxMutation): Promise<boolean> {
+  switch (mutation.kind) {
+    case 'analyse:create':
+      return !!mutation.analyseId && (await getDoc(doc(db, COLLECTIONS.ANALYSES, mutation.analyseId))).exists();
+
+    case 'analyse:update': {
+      const snap = await getDoc(doc(db, COLLECTIONS.ANALYSES, mutation.analyseId).withConverter(analyseConverter));
+      const current = snap.exists() ? snap.data() : null;
+      return !!current && sameSnapshots(analyseSnapshot(mutation.data), analyseSnapshot(current));
+    }
+
+    case 'station:update': {
+      const [current] = await fetchStationDetails([mutation.stationId]);
+      return !!current && sameSnapshots(stationFormSnapshot(mutation.formData), stationFormSnapshot(stationWithDetailsToFormData(current)));
+    }
+  }
+}
+
+/**
+ * Reads the document a queued edit applies to and compares it with the version the
+ * edit was made from. Returns null when nobody changed it in the meantime.
+ * Creations have nothing to compare with.
+ */
+export async function findConflict(mutation: OutboxMutation): Promise<OutboxConflict | null> {
+  switch (mutation.kind) {
+    case 'analyse:create':
+      return null;
+
+    case 'analyse:update': {
+      const snap = await getDoc(doc(db, COLLECTIONS.ANALYSES, mutation.analyseId).withConverter(analyseConverter));
+      const current = snap.exists() ? snap.data() : null;
+      if (!current || current.DeletedAt) return { deleted: true, fields: [] };
+      const fields = diffSnapshots(analyseSnapshot(mutation.base), analyseSnapshot(mutation.data), analyseSnapshot(current));
+      return fields.length > 0 ? { deleted: false, fields } : null;
+    }
+
+    case 'station:update': {
+      const [current] = await fetchStationDetails([mutation.stationId]);
+      if (!current || current.station.DeletedAt) return { deleted: true, fields: [] };
+      const fields = diffSnapshots(
+        stationFormSnapshot(mutation.base),
+        stationFormSnapshot(mutation.formData),
+        stationFormSnapshot(stationWithDetailsToFormData(current))
+      );
+      return fields.length > 0 ? { deleted: false, fields } : null;
+    }
+  }
+}
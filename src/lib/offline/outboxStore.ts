@@ -0,0 +1,88 @@
+// src/lib/offline/outboxStore.ts
+// IndexedDB storage of the writes made offline, so that they survive a reload
+// or a closed tab until the network is back.
+import { OutboxMutation } from '@/types/outbox';
+
+const DB_NAME = 'gas-stations-offline';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+// Tells the other tabs that the outbox changed
+const CHANNEL_NAME = 'gas-stations-outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+let channel: BroadcastChannel | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDb().catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await getDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = operation(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = () => listeners.forEach((listener) => listener());
+  }
+  return channel;
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+  getChannel()?.postMessage('changed');
+}
+
+// Queued mutations, oldest first: they are replayed in that order
+export async function listMutations(): Promise<OutboxMutation[]> {
+  const mutations = await run<OutboxMutation[]>('readonly', (store) => store.getAll());
+  return mutations.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export async function saveMutation(mutation: OutboxMutation): Promise<void> {
+  await run('readwrite', (store) => store.put(mutation));
+  notify();
+}
+
+export async function removeMutation(id: string): Promise<void> {
+  await run('readwrite', (store) => store.delete(id));
+  notify();
+}
+
+/**
+ * Calls `listener` whenever the outbox changes, in this tab or another one.
+ * Returns the function that unsubscribes it.
+ */
+export function subscribeOutbox(listener: () => void): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,24 @@
+// src/lib/storage/firebaseAdapter.ts
+import { getStorage } from 'firebase-admin/storage';
+import '@/lib/auth/serverAuth'; // makes sure the Admin app is initialized
+import { StorageAdapter } from './types';
+
+export function createFirebaseStorageAdapter(bucketName?: string): StorageAdapter {
+  const bucket = getStorage().bucket(bucketName);
+
+  return {
+    async put(key, data, contentType) {
+      await bucket.file(key).save(data, { contentType, resumable: false });
+    },
+    async get(key) {
+      const file = bucket.file(key);
+      const [exists] = await file.exists();
+      if (!exists) return null;
+      const [data] = await file.download();
+      return data;
+    },
+    async delete(key) {
+      await bucket.file(key).delete({ ignoreNotFound: true });
+    },
+  };
+}
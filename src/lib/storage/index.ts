@@ -0,0 +1,33 @@
+// src/lib/storage/index.ts
+// Server-side only: picks the storage adapter from ATTACHMENTS_STORAGE ('local' or 'firebase').
+import { StorageAdapter } from './types';
+import { createLocalStorageAdapter } from './localAdapter';
+import { createFirebaseStorageAdapter } from './firebaseAdapter';
+
+export type { StorageAdapter } from './types';
+
+let adapter: StorageAdapter | null = null;
+
+export function getStorageAdapter(): StorageAdapter {
+  if (adapter) return adapter;
+
+  const kind = process.env.ATTACHMENTS_STORAGE || (process.env.NODE_ENV === 'production' ? 'firebase' : 'local');
+  switch (kind) {
+    case 'local':
+      adapter = createLocalStorageAdapter(process.env.ATTACHMENTS_LOCAL_DIR || '.attachments');
+      break;
+    case 'firebase':
+      adapter = createFirebaseStorageAdapter(
+        process.env.ATTACHMENTS_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET
+      );
+      break;
+    default:
+      throw new Error(`Unknown ATTACHMENTS_STORAGE: ${kind}`);
+  }
+  return adapter;
+}
+
+// Lets another adapter (S3, tests...) be plugged in at startup
+export function setStorageAdapter(custom: StorageAdapter): void {
+  adapter = custom;
+}
@@ -0,0 +1,38 @@
+// src/lib/storage/localAdapter.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageAdapter } from './types';
+
+/**
+ * Keeps files on the local disk, for development. Not suited to serverless
+ * deployments where the filesystem is not shared between instances.
+ */
+export function createLocalStorageAdapter(rootDir: string): StorageAdapter {
+  const root = path.resolve(rootDir);
+
+  // Keys come from our own metadata, but never let one point outside the root
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,11 @@
+// src/lib/storage/types.ts
+
+/**
+ * Where attachment files are kept. Metadata lives in Firestore, the adapter
+ * only stores bytes under a key chosen by the caller.
+ */
+export interface StorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
@@ -1,10 +1,23 @@
 import { z } from 'zod';
 import { StationFormData } from '@/types/station';
+import { APP_CONSTANTS } from '@/lib/constants';
+import { parseDateString } from '@/utils/format';
 
-type AutorisationError = Partial<Record<'TypeAutorisation' | 'NumeroAutorisation' | 'DateAutorisation', string>>;
+type AutorisationError = Partial<Record<'TypeAutorisation' | 'NumeroAutorisation' | 'DateAutorisation' | 'DateExpiration', string>>;
+type CuveError = Partial<Record<keyof StationFormData['cuves'][number], string>>;
+
+const NUMERO_AUTORISATION_REGEX = new RegExp(APP_CONSTANTS.AUTORISATIONS.NUMERO_PATTERN);
+
+export function isValidNumeroAutorisation(numero: string): boolean {
+  return NUMERO_AUTORISATION_REGEX.test(numero.trim());
+}
 
 export type NormalizedFormErrors = Partial<{
-  [K in keyof StationFormData]: K extends 'autorisations' ? string | AutorisationError[] : string;
+  [K in keyof StationFormData]: K extends 'autorisations'
+    ? string | AutorisationError[]
+    : K extends 'cuves'
+      ? string | CuveError[]
+      : string;
 }> & {
   submit?: string;
 };
@@ -37,12 +50,53 @@ export const stationSchema = z.object({
   autorisations: z.array(
     z.object({
       TypeAutorisation: z.enum(['création', 'mise en service']),
-      NumeroAutorisation: z.string(),
+      NumeroAutorisation: z.string().refine(
+        (v) => !v.trim() || isValidNumeroAutorisation(v),
+        `Numéro invalide (ex: ${APP_CONSTANTS.AUTORISATIONS.NUMERO_EXAMPLE})`
+      ),
       DateAutorisation: z.string(),
+      DateExpiration: z.string().refine((v) => !v || parseDateString(v) !== null, 'Date invalide (JJ/MM/AAAA)'),
+    }).superRefine((auto, ctx) => {
+      const start = auto.DateAutorisation ? parseDateString(auto.DateAutorisation) : null;
+      const end = auto.DateExpiration ? parseDateString(auto.DateExpiration) : null;
+      if (start && end && end <= start) {
+        ctx.addIssue({ code: 'custom', path: ['DateExpiration'], message: "L'expiration doit suivre la date d'autorisation" });
+      }
     })
-  ),
-  CapaciteGasoil: z.string(),
-  CapaciteSSP: z.string(),
+  ).superRefine((autorisations, ctx) => {
+    // The same number can't be used twice, here or on another station (checked on save)
+    const seen = new Set<string>();
+    autorisations.forEach((auto, index) => {
+      const numero = auto.NumeroAutorisation.trim();
+      if (!numero) return;
+      if (seen.has(numero)) {
+        ctx.addIssue({ code: 'custom', path: [index, 'NumeroAutorisation'], message: 'Ce numéro est saisi deux fois' });
+      }
+      seen.add(numero);
+    });
+  }),
+  cuves: z.array(
+    z.object({
+      IdentifiantCuve: z.string().trim().min(1, 'Identifiant requis'),
+      TypeCarburant: z.string().min(1, 'Produit requis'),
+      CapaciteLitres: z.string().refine((v) => {
+        const n = Number(String(v).replace(',', '.'));
+        return Number.isFinite(n) && n > 0;
+      }, 'Capacité invalide'),
+      DateInstallation: z.string().refine((v) => !v || parseDateString(v) !== null, 'Date invalide (JJ/MM/AAAA)'),
+      Materiau: z.string(),
+    })
+  ).superRefine((cuves, ctx) => {
+    const seen = new Set<string>();
+    cuves.forEach((cuve, index) => {
+      const id = cuve.IdentifiantCuve.trim().toUpperCase();
+      if (!id) return;
+      if (seen.has(id)) {
+        ctx.addIssue({ code: 'custom', path: [index, 'IdentifiantCuve'], message: 'Cet identifiant est saisi deux fois' });
+      }
+      seen.add(id);
+    });
+  }),
   TypeGerance: z.enum(['libre', 'direct', 'partenariat']),
   Statut: z.enum(['en activité', 'en projet', 'en arrêt', 'archivé']),
   Commentaires: z.string(),
@@ -55,13 +109,14 @@ export function mapZodErrorsToFormErrors(err: z.ZodError<StationFormData>): Norm
   for (const issue of err.issues) {
     if (issue.path.length === 0) continue;
 
-    if (issue.path[0] === 'autorisations' && typeof issue.path[1] === 'number') {
+    if ((issue.path[0] === 'autorisations' || issue.path[0] === 'cuves') && typeof issue.path[1] === 'number') {
+      const list = issue.path[0];
       const idx = issue.path[1];
-      const key = issue.path[2] as keyof AutorisationError;
-      if (!errors.autorisations || typeof errors.autorisations === 'string') {
-        errors.autorisations = [];
+      const key = issue.path[2] as string;
+      if (!errors[list] || typeof errors[list] === 'string') {
+        errors[list] = [];
       }
-      const arr = errors.autorisations as AutorisationError[];
+      const arr = errors[list] as Record<string, string>[];
       arr[idx] ||= {};
       arr[idx][key] = issue.message;
     } else {
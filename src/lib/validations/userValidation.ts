@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { ROLES } from '@/lib/auth/permissions';
+
+export const createUserSchema = z.object({
+  email: z.string().trim().email('Email invalide'),
+  displayName: z.string().trim().optional(),
+  role: z.enum(ROLES),
+});
+
+export const updateUserSchema = z
+  .object({
+    role: z.enum(ROLES).optional(),
+    disabled: z.boolean().optional(),
+  })
+  .refine((data) => data.role !== undefined || data.disabled !== undefined, 'Aucune modification');
@@ -0,0 +1,25 @@
+// src/types/attachment.ts
+
+/**
+ * A file (scanned autorisation, signed lab report...) kept for a station.
+ * AutorisationID / AnalyseID narrow the link when the file belongs to one of them.
+ */
+export type Attachment = {
+  AttachmentID: string;
+  StationID: string;
+  AutorisationID: string | null;
+  AnalyseID: string | null;
+  NomFichier: string;
+  TypeMime: string;
+  Taille: number; // bytes
+  CleStockage: string; // key of the file in the storage adapter
+  DateAjout: Date | null;
+  uid: string | null;
+  userEmail: string | null;
+};
+
+export type AttachmentTarget = {
+  stationId: string;
+  autorisationId?: string | null;
+  analyseId?: string | null;
+};
@@ -0,0 +1,40 @@
+// src/types/audit.ts
+export type AuditEntity =
+  | 'station'
+  | 'marque'
+  | 'province'
+  | 'commune'
+  | 'gerant'
+  | 'proprietaire'
+  | 'autorisation'
+  | 'capacite'
+  | 'analyse'
+  | 'attachment'
+  | 'produit'
+  | 'inspection'
+  | 'point_controle'
+  | 'dossier'
+  | 'campagne'
+  | 'limite';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export type AuditValue = string | number | boolean | null;
+
+export type AuditChange = {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+};
+
+export type AuditEntry = {
+  AuditID: string;
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  StationID: string | null; // Station the change belongs to, when there is one
+  uid: string | null;
+  userEmail: string | null;
+  timestamp: Date | null;
+  changes: AuditChange[];
+};
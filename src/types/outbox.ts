@@ -0,0 +1,45 @@
+// src/types/outbox.ts
+import { Analyse, StationFormData } from './station';
+
+// pending: waiting for the network or its next retry
+// conflict: the document was changed by someone else since the edit was made offline
+// failed: sent, but refused for another reason than the network
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+// Field changed on both sides of a conflict
+export type OutboxConflictField = {
+  field: string;
+  base: string; // Value when the edit was made
+  mine: string; // Queued value
+  theirs: string; // Value now in the database
+};
+
+export type OutboxConflict = {
+  deleted: boolean; // The document was deleted or moved to the corbeille
+  fields: OutboxConflictField[];
+};
+
+type OutboxMutationBase = {
+  id: string;
+  uid: string; // Only the user who queued a mutation replays it
+  stationId: string;
+  label: string; // What the user edited, for the pending sync dialog
+  createdAt: Date;
+  attempts: number;
+  nextAttemptAt: Date;
+  status: OutboxStatus;
+  lastError: string | null;
+  conflict: OutboxConflict | null;
+  force: boolean; // Replayed without the conflict check, once the user chose to keep their version
+};
+
+export type OutboxPayload =
+  | { kind: 'analyse:create'; analyseId?: string; data: Omit<Analyse, 'AnalyseID'> } // analyseId: missing on older entries
+  | { kind: 'analyse:update'; analyseId: string; data: Omit<Analyse, 'AnalyseID'>; base: Analyse }
+  | { kind: 'station:update'; formData: StationFormData; base: StationFormData };
+
+// Write made while offline, kept in IndexedDB until it reaches Firestore
+export type OutboxMutation = OutboxMutationBase & OutboxPayload;
+
+// What the form hooks give to enqueue, the rest is filled by the outbox
+export type OutboxRequest = Pick<OutboxMutationBase, 'stationId' | 'label'> & OutboxPayload;
@@ -15,6 +15,8 @@ export type Station = {
   CommuneID: string;
   GerantID: string;
   ProprietaireID: string;
+  DeletedAt?: Date | null; // Set while the station is in the corbeille
+  DeletedBy?: string | null;
 };
 
 export type Marque = {
@@ -27,11 +29,21 @@ export type Commune = {
   CommuneID: string;
   NomCommune: string;
   ProvinceID: string;
+  Population?: number | null; // Inhabitants, for the stations per capita map indicator
 };
 
 export type Province = {
   ProvinceID: string;
   NomProvince: string;
+  Population?: number | null;
+};
+
+// Outline of a province or commune, drawn on the dashboard map
+export type Limite = {
+  LimiteID: string; // `${Niveau}_${RefID}`, one outline per region
+  Niveau: 'province' | 'commune';
+  RefID: string; // ProvinceID or CommuneID
+  Geometrie: string; // GeoJSON Polygon or MultiPolygon, serialized since Firestore has no nested arrays
 };
 
 export type Gerant = {
@@ -65,22 +77,170 @@ export type Autorisation = {
   TypeAutorisation: 'création' | 'mise en service';
   NumeroAutorisation: string;
   DateAutorisation: Date | null;
+  DateExpiration?: Date | null; // End of validity, when the autorisation has one
+  DeletedAt?: Date | null;
+};
+
+export type RenouvellementAutorisation = {
+  RenouvellementID: string;
+  StationID: string;
+  NumeroAutorisation: string; // Autorisation documents are re-created on each save, the number is stable
+  AncienneDateExpiration: Date | null;
+  NouvelleDateExpiration: Date | null;
+  DateRenouvellement: Date | null;
+  Commentaire: string;
+  uid: string | null;
+  userEmail: string | null;
+};
+
+export type Produit = {
+  ProduitID: string;
+  NomProduit: string; // Stored as is on capacités and analyses
+  Ordre: number;
+  Seuils?: SeuilParametre[]; // Regulatory limits checked on each analyse
+};
+
+// Limits of a lab parameter for a produit; a missing bound is not checked
+export type SeuilParametre = {
+  Parametre: string; // Key in ANALYSE_PARAMETRES
+  Min: number | null;
+  Max: number | null;
+};
+
+// A measured value, stored with the limits it was checked against at the time
+export type MesureAnalyse = SeuilParametre & {
+  Valeur: number;
+  Conforme: boolean;
 };
 
 export type CapaciteStockage = {
   CapaciteID: string;
   StationID: string;
-  TypeCarburant: 'Gasoil' | 'SSP';
+  TypeCarburant: string; // NomProduit of a Produit
   CapaciteLitres: number;
+  IdentifiantCuve?: string; // Tank label as marked on site, e.g. "C1"
+  DateInstallation?: Date | null;
+  Materiau?: string;
+  DeletedAt?: Date | null;
 };
 
 export type Analyse = {
   AnalyseID: string;
   StationID: string;
-  ProduitAnalyse: 'Gasoil' | 'SSP';
+  ProduitAnalyse: string; // NomProduit of a Produit
   DateAnalyse: Date | null;
   CodeAnalyse: string;
-  ResultatAnalyse: 'Positif' | 'Négatif';
+  ResultatAnalyse: 'Positif' | 'Négatif'; // Verdict in effect: computed, or forced by hand
+  Mesures?: MesureAnalyse[];
+  ResultatCalcule?: 'Positif' | 'Négatif' | null; // Null when no measured parameter has a limit
+  ResultatForce?: boolean;
+  MotifForcage?: string;
+  CampagneID?: string | null; // Sampling campaign the analyse was done for
+  DeletedAt?: Date | null;
+};
+
+// Why a station was picked for a campaign, most urgent first
+export type PrioriteCampagne = 'jamais analysée' | 'antécédent négatif' | 'routine';
+
+export type StationCampagne = {
+  StationID: string;
+  Priorite: PrioriteCampagne;
+  DatePrevue: Date | null;
+};
+
+// Yearly sampling campaign: the stations to sample and the produits to analyse there
+export type CampagneAnalyse = {
+  CampagneID: string;
+  Nom: string;
+  Annee: number;
+  ProvinceIDs: string[]; // Empty for every province
+  MarqueIDs: string[]; // Empty for every marque
+  Quotas: Record<string, number>; // Stations to sample, by ProvinceID
+  Produits: string[]; // NomProduit of the produits to analyse
+  DateDebut: Date | null;
+  DateFin: Date | null;
+  Stations: StationCampagne[];
+  DateCreation: Date | null;
+};
+
+// Item of the inspection checklist, managed in admin/database
+export type PointControle = {
+  PointControleID: string;
+  Libelle: string; // Copied on each inspection, renaming it doesn't rewrite past visits
+  Ordre: number;
+};
+
+export type ResultatPointControle = {
+  Libelle: string;
+  Conforme: boolean | null; // null when the point could not be checked
+  Commentaire: string;
+};
+
+export type ActionCorrective = {
+  Description: string;
+  DateEcheance: Date | null;
+  Realisee: boolean;
+};
+
+export type GraviteInspection = 'aucune' | 'mineure' | 'majeure' | 'critique';
+
+export type Inspection = {
+  InspectionID: string;
+  StationID: string;
+  DateInspection: Date | null;
+  Inspecteur: string;
+  Checklist: ResultatPointControle[];
+  Constats: string;
+  Gravite: GraviteInspection;
+  ActionsCorrectives: ActionCorrective[];
+  DeletedAt?: Date | null;
+};
+
+export type EtatDossier = 'ouvert' | 'en cours' | 'clôturé';
+
+export type TypeSuiteDossier = 'avertissement' | 'amende' | 'fermeture temporaire' | 're-prélèvement';
+
+// Decision taken on a non-conformity case
+export type SuiteDossier = {
+  SuiteID: string;
+  Type: TypeSuiteDossier;
+  DateDecision: Date | null;
+  DateEcheance: Date | null; // Payment, reopening or re-sampling deadline
+  Montant: number | null; // Amende only, in MAD
+  Commentaire: string;
+  StatutStation: StationStatut | null; // Status the station was moved to by this decision
+  Realisee: boolean;
+};
+
+// Follow-up of a negative analyse or a failed inspection
+export type DossierNonConformite = {
+  DossierID: string;
+  StationID: string;
+  Origine: 'analyse' | 'inspection';
+  OrigineID: string; // AnalyseID or InspectionID
+  Motif: string;
+  Etat: EtatDossier;
+  DateOuverture: Date | null;
+  DateEcheance: Date | null; // Date by which the case should be settled
+  Suites: SuiteDossier[];
+  DateCloture: Date | null;
+  Conclusion: string;
+  DeletedAt?: Date | null;
+};
+
+export type StationStatut = Station['Statut'];
+
+// Entry of the stations/{id}/status_history sub-collection
+export type StatusChange = {
+  StatusChangeID: string;
+  StationID: string;
+  StatutPrecedent: StationStatut | null; // null for the status given at creation
+  Statut: StationStatut;
+  DateEffet: Date | null; // When the station actually changed status
+  Motif: string;
+  uid: string | null;
+  userEmail: string | null;
+  DateSaisie: Date | null; // When the change was recorded
 };
 
 export type StationWithDetails = {
@@ -100,6 +260,50 @@ export type StationWithDetails = {
   miseEnServiceAutorisation?: Autorisation;
 };
 
+// Document of the stations_view projection: one flat row per station, with the reference
+// names and summaries already joined, for the screens that do not need the full details
+export type StationView = {
+  StationID: string;
+  Code: number;
+  NomStation: string;
+  Adresse: string;
+  Latitude: number;
+  Longitude: number;
+  Type: Station['Type'];
+  Statut: StationStatut;
+  TypeGerance: Station['TypeGerance'];
+  NombreVolucompteur: number;
+  Commentaires: string;
+  MarqueID: string;
+  CommuneID: string;
+  ProvinceID: string;
+  GerantID: string;
+  ProprietaireID: string;
+  Marque: string;
+  RaisonSociale: string;
+  NomCommune: string;
+  NomProvince: string;
+  Gerant: string;
+  CINGerant: string;
+  Telephone: string;
+  Proprietaire: string;
+  Capacites: Record<string, number>; // Total litres per carburant
+  CapaciteTotale: number;
+  NumeroCreation: string;
+  DateCreation: Date | null;
+  NumeroMiseEnService: string;
+  DateMiseEnService: Date | null;
+  DerniereAutorisation: Date | null; // Most recent DateAutorisation
+  ProchaineExpiration: Date | null; // Soonest DateExpiration, possibly already past
+  AnalyseAnnees: number[]; // Years with at least one analyse
+  Analysee: boolean;
+  DerniereAnalyse: Date | null;
+  ResultatDerniereAnalyse: Analyse['ResultatAnalyse'] | null;
+  Tri: Record<string, string | number>; // Normalized values of the sortable columns
+  Recherche: string[]; // Word prefixes matched by the search box
+  TexteRecherche: string;
+};
+
 export type StationFormData = {
   id?: string;
   NomStation: string;
@@ -123,9 +327,15 @@ export type StationFormData = {
     TypeAutorisation: 'création' | 'mise en service';
     NumeroAutorisation: string;
     DateAutorisation: string;
+    DateExpiration: string;
+  }[];
+  cuves: {
+    IdentifiantCuve: string;
+    TypeCarburant: string;
+    CapaciteLitres: string;
+    DateInstallation: string;
+    Materiau: string;
   }[];
-  CapaciteGasoil: string;
-  CapaciteSSP: string;
   TypeGerance: 'libre' | 'direct' | 'partenariat';
   Statut: 'en activité' | 'en projet' | 'en arrêt' | 'archivé';
   Commentaires: string;
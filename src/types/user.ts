@@ -0,0 +1,12 @@
+// src/types/user.ts
+import { Role } from '@/lib/auth/permissions';
+
+export type AdminUser = {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  disabled: boolean;
+  role: Role;
+  lastSignInTime: string | null;
+  creationTime: string | null;
+};
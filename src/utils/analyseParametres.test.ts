@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { buildMesures, computeVerdict, DEFAULT_SEUILS, getSeuils, isWithinSeuil } from './analyseParametres';
+
+describe('isWithinSeuil', () => {
+  it('includes the limits themselves', () => {
+    expect(isWithinSeuil(820, { Min: 820, Max: 845 })).toBe(true);
+    expect(isWithinSeuil(845, { Min: 820, Max: 845 })).toBe(true);
+  });
+
+  it('checks only the limits that are set', () => {
+    expect(isWithinSeuil(1000, { Min: 55, Max: null })).toBe(true);
+    expect(isWithinSeuil(50, { Min: 55, Max: null })).toBe(false);
+    expect(isWithinSeuil(-1, { Min: null, Max: 10 })).toBe(true);
+    expect(isWithinSeuil(11, { Min: null, Max: 10 })).toBe(false);
+  });
+});
+
+describe('getSeuils', () => {
+  it('prefers the thresholds set on the produit', () => {
+    const seuils = [{ Parametre: 'Densite', Min: 800, Max: 900 }];
+    expect(getSeuils({ NomProduit: 'Gasoil', Seuils: seuils })).toBe(seuils);
+  });
+
+  it('falls back to the defaults of the built-in produits', () => {
+    expect(getSeuils({ NomProduit: 'Gasoil' })).toBe(DEFAULT_SEUILS.Gasoil);
+    expect(getSeuils({ NomProduit: 'Kérosène' })).toEqual([]);
+    expect(getSeuils(undefined)).toEqual([]);
+  });
+});
+
+describe('computeVerdict', () => {
+  const seuils = DEFAULT_SEUILS.Gasoil;
+
+  it('is positive when every limited parameter passes', () => {
+    expect(computeVerdict(buildMesures({ Densite: 830, TeneurSoufre: 8 }, seuils))).toBe('Positif');
+  });
+
+  it('is negative as soon as one parameter fails', () => {
+    const mesures = buildMesures({ Densite: 830, TeneurSoufre: 12 }, seuils);
+    expect(mesures.find((m) => m.Parametre === 'TeneurSoufre')!.Conforme).toBe(false);
+    expect(computeVerdict(mesures)).toBe('Négatif');
+  });
+
+  it('cannot conclude without a limited parameter', () => {
+    expect(computeVerdict(buildMesures({ Uree: 32 }, seuils))).toBeNull();
+    expect(computeVerdict([])).toBeNull();
+  });
+});
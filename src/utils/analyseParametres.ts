@@ -0,0 +1,88 @@
+// src/utils/analyseParametres.ts
+import { MesureAnalyse, Produit, SeuilParametre } from '@/types/station';
+
+export type AnalyseParametre = {
+  key: string;
+  label: string;
+  unite: string;
+};
+
+/**
+ * Parameters reported by the lab. Stored analyses reference them by key.
+ */
+export const ANALYSE_PARAMETRES: AnalyseParametre[] = [
+  { key: 'Densite', label: 'Densité à 15 °C', unite: 'kg/m³' },
+  { key: 'PointEclair', label: "Point d'éclair", unite: '°C' },
+  { key: 'TeneurSoufre', label: 'Teneur en soufre', unite: 'mg/kg' },
+  { key: 'IndiceCetane', label: 'Indice de cétane', unite: '' },
+  { key: 'IndiceOctane', label: "Indice d'octane (RON)", unite: '' },
+  { key: 'Distillation10', label: 'Distillation 10 % évaporés', unite: '°C' },
+  { key: 'Distillation50', label: 'Distillation 50 % évaporés', unite: '°C' },
+  { key: 'Distillation95', label: 'Distillation 95 % récupérés', unite: '°C' },
+  { key: 'PointFinal', label: "Point final d'ébullition", unite: '°C' },
+  { key: 'TeneurEau', label: 'Teneur en eau', unite: 'mg/kg' },
+  { key: 'Uree', label: 'Teneur en urée', unite: '% m/m' },
+];
+
+/**
+ * Limits applied to the built-in produits until thresholds are set in admin/database.
+ */
+export const DEFAULT_SEUILS: Record<string, SeuilParametre[]> = {
+  Gasoil: [
+    { Parametre: 'Densite', Min: 820, Max: 845 },
+    { Parametre: 'PointEclair', Min: 55, Max: null },
+    { Parametre: 'TeneurSoufre', Min: null, Max: 10 },
+    { Parametre: 'IndiceCetane', Min: 51, Max: null },
+    { Parametre: 'Distillation95', Min: null, Max: 360 },
+    { Parametre: 'TeneurEau', Min: null, Max: 200 },
+  ],
+  SSP: [
+    { Parametre: 'Densite', Min: 720, Max: 775 },
+    { Parametre: 'TeneurSoufre', Min: null, Max: 10 },
+    { Parametre: 'IndiceOctane', Min: 95, Max: null },
+    { Parametre: 'PointFinal', Min: null, Max: 210 },
+  ],
+};
+
+export function getParametre(key: string): AnalyseParametre {
+  return ANALYSE_PARAMETRES.find((p) => p.key === key) ?? { key, label: key, unite: '' };
+}
+
+export function getSeuils(produit: Pick<Produit, 'NomProduit' | 'Seuils'> | undefined): SeuilParametre[] {
+  if (!produit) return [];
+  return produit.Seuils ?? DEFAULT_SEUILS[produit.NomProduit] ?? [];
+}
+
+export function isWithinSeuil(valeur: number, seuil: Pick<SeuilParametre, 'Min' | 'Max'>): boolean {
+  if (seuil.Min !== null && valeur < seuil.Min) return false;
+  if (seuil.Max !== null && valeur > seuil.Max) return false;
+  return true;
+}
+
+/**
+ * Checks measured values against the produit's limits. Parameters without a limit
+ * are kept and count as conforming.
+ */
+export function buildMesures(valeurs: Record<string, number>, seuils: SeuilParametre[]): MesureAnalyse[] {
+  return Object.entries(valeurs).map(([Parametre, Valeur]) => {
+    const seuil = seuils.find((s) => s.Parametre === Parametre) ?? { Min: null, Max: null };
+    return { Parametre, Valeur, Min: seuil.Min, Max: seuil.Max, Conforme: isWithinSeuil(Valeur, seuil) };
+  });
+}
+
+/**
+ * 'Négatif' as soon as one parameter is out of its limits, 'Positif' when at least
+ * one limited parameter was measured and all pass, null when nothing could be checked.
+ */
+export function computeVerdict(mesures: MesureAnalyse[]): 'Positif' | 'Négatif' | null {
+  if (mesures.some((m) => !m.Conforme)) return 'Négatif';
+  return mesures.some((m) => m.Min !== null || m.Max !== null) ? 'Positif' : null;
+}
+
+export function formatSeuil(seuil: Pick<SeuilParametre, 'Min' | 'Max'>, unite = ''): string {
+  const u = unite ? ` ${unite}` : '';
+  if (seuil.Min !== null && seuil.Max !== null) return `${seuil.Min} – ${seuil.Max}${u}`;
+  if (seuil.Min !== null) return `≥ ${seuil.Min}${u}`;
+  if (seuil.Max !== null) return `≤ ${seuil.Max}${u}`;
+  return '—';
+}
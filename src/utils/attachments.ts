@@ -0,0 +1,16 @@
+// src/utils/attachments.ts
+import { Permission } from '@/lib/auth/permissions';
+import { AttachmentTarget } from '@/types/attachment';
+
+/**
+ * Lab reports are managed by whoever edits analyses, other files by whoever edits the station.
+ */
+export function attachmentPermission(target: AttachmentTarget): Permission {
+  return target.analyseId ? 'analyse:update' : 'station:update';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} Ko`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+}
@@ -0,0 +1,116 @@
+// src/utils/audit.ts
+import { AuditAction, AuditChange, AuditEntity, AuditEntry, AuditValue } from '@/types/audit';
+import { generateUUID } from '@/utils/uuid';
+
+// Bookkeeping fields that never show up in a diff
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+export type AuditParams = {
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  before?: object | null;
+  after?: object | null;
+  stationId?: string | null;
+};
+
+export type AuditUser = {
+  uid: string | null;
+  email: string | null;
+};
+
+/**
+ * Normalize a Firestore value to something comparable and storable in an audit entry.
+ * Works with Timestamps from both the client and the Admin SDK.
+ */
+function normalizeAuditValue(value: unknown): AuditValue {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (typeof value === 'object' && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Field-by-field diff between two versions of a document.
+ * Pass null as `before` for a creation and as `after` for a deletion.
+ */
+export function diffFields(before?: object | null, after?: object | null): AuditChange[] {
+  const b = (before || {}) as Record<string, unknown>;
+  const a = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(b), ...Object.keys(a)]);
+
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const oldValue = normalizeAuditValue(b[field]);
+    const newValue = normalizeAuditValue(a[field]);
+    if (oldValue !== newValue) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  }
+  return changes.sort((x, y) => x.field.localeCompare(y.field));
+}
+
+/**
+ * Build the audit document for a mutation (without its timestamp, which is set by the server).
+ * Returns null for an update that doesn't change anything.
+ */
+export function buildAuditEntry(params: AuditParams, user: AuditUser): Omit<AuditEntry, 'timestamp'> | null {
+  const changes = diffFields(params.before, params.after);
+  if (params.action === 'update' && changes.length === 0) return null;
+
+  const source = (params.after || params.before || {}) as { StationID?: unknown };
+  const stationId = params.stationId ?? (typeof source.StationID === 'string' ? source.StationID : null);
+
+  return {
+    AuditID: generateUUID(),
+    entity: params.entity,
+    entityId: params.entityId,
+    action: params.action,
+    StationID: stationId,
+    uid: user.uid,
+    userEmail: user.email,
+    changes,
+  };
+}
+
+/**
+ * Station children (autorisations, capacités) are deleted and re-created on every save.
+ * This pairs the old and new documents by a business key so the audit only records
+ * what actually changed: an update for a matched pair, a creation or a deletion otherwise.
+ */
+export function diffChildren<T extends object>(
+  entity: AuditEntity,
+  idField: keyof T & string,
+  stationId: string,
+  before: T[],
+  after: T[],
+  key: (item: T) => string
+): AuditParams[] {
+  const strip = (item: T) => {
+    const copy = { ...item } as Record<string, unknown>;
+    delete copy[idField];
+    return copy;
+  };
+  const idOf = (item: T) => String(item[idField]);
+
+  const remaining = new Map(before.map((item) => [key(item), item]));
+  const params: AuditParams[] = [];
+
+  for (const item of after) {
+    const previous = remaining.get(key(item));
+    if (previous) {
+      remaining.delete(key(item));
+      params.push({ entity, entityId: idOf(item), action: 'update', before: strip(previous), after: strip(item), stationId });
+    } else {
+      params.push({ entity, entityId: idOf(item), action: 'create', after: item, stationId });
+    }
+  }
+  for (const item of remaining.values()) {
+    params.push({ entity, entityId: idOf(item), action: 'delete', before: item, stationId });
+  }
+  return params;
+}
@@ -0,0 +1,67 @@
+// src/utils/autorisations.ts
+import { Autorisation, StationWithDetails } from '@/types/station';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function takenAutorisationNumbersMessage(numeros: string[]): string {
+  return numeros.length === 1
+    ? `Le numéro d'autorisation ${numeros[0]} est déjà attribué à une autre station`
+    : `Les numéros d'autorisation ${numeros.join(', ')} sont déjà attribués à d'autres stations`;
+}
+
+/**
+ * For each autorisation of a form, the ID of the stored one it stands for: the one with
+ * the same number, else the only unmatched one of the same type (the number was corrected).
+ * Saving under these IDs keeps the attachments and renewals linked to the autorisation.
+ */
+export function matchAutorisationIds(
+  existing: Autorisation[],
+  autorisations: Pick<Autorisation, 'TypeAutorisation' | 'NumeroAutorisation'>[]
+): (string | undefined)[] {
+  const unmatched = [...existing];
+  const take = (found: Autorisation | undefined) => {
+    if (found) unmatched.splice(unmatched.indexOf(found), 1);
+    return found?.AutorisationID;
+  };
+  const numero = (a: Pick<Autorisation, 'NumeroAutorisation'>) => a.NumeroAutorisation.trim();
+
+  const ids = autorisations.map((a) => numero(a) ? take(unmatched.find((e) => numero(e) === numero(a))) : undefined);
+  return autorisations.map((a, i) => {
+    if (ids[i] || !numero(a)) return ids[i];
+    const sameType = unmatched.filter((e) => e.TypeAutorisation === a.TypeAutorisation);
+    return sameType.length === 1 ? take(sameType[0]) : undefined;
+  });
+}
+
+/**
+ * Whole days from `now` to `date`, negative once the date is past.
+ */
+export function daysUntil(date: Date, now = new Date()): number {
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  return Math.round((startOfDay(date) - startOfDay(now)) / DAY_MS);
+}
+
+export type ExpiringAutorisation = {
+  station: StationWithDetails;
+  autorisation: Autorisation;
+  daysLeft: number; // Negative when already expired
+};
+
+/**
+ * Autorisations that expire within `withinDays` days (or already have), soonest first.
+ */
+export function getExpiringAutorisations(
+  stations: StationWithDetails[],
+  withinDays: number,
+  now = new Date()
+): ExpiringAutorisation[] {
+  const result: ExpiringAutorisation[] = [];
+  stations.forEach((station) => {
+    station.autorisations.forEach((autorisation) => {
+      if (!autorisation.DateExpiration) return;
+      const daysLeft = daysUntil(autorisation.DateExpiration, now);
+      if (daysLeft <= withinDays) result.push({ station, autorisation, daysLeft });
+    });
+  });
+  return result.sort((a, b) => a.daysLeft - b.daysLeft);
+}
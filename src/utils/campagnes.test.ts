@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { Analyse, CampagneAnalyse, Station, StationWithDetails } from '@/types/station';
+import {
+  getCampagneAvancement,
+  getCampagnesForStation,
+  getProduitsAttendus,
+  getStationPriorite,
+  proposeCampagneStations,
+  scheduleCampagne,
+} from './campagnes';
+
+type StationFixture = {
+  id: string;
+  code: number;
+  province?: string;
+  commune?: string;
+  marque?: string;
+  statut?: Station['Statut'];
+  produits?: string[]; // Tanks, none when undefined
+  analyses?: Partial<Analyse>[];
+};
+
+function station({ id, code, province = 'P1', commune = 'C1', marque = 'M1', statut = 'en activité', produits, analyses = [] }: StationFixture) {
+  return {
+    station: { StationID: id, Code: code, NomStation: `Station ${code}`, Statut: statut },
+    province: { ProvinceID: province, NomProvince: province },
+    commune: { CommuneID: commune, NomCommune: commune, ProvinceID: province },
+    marque: { MarqueID: marque, Marque: marque },
+    capacites: (produits ?? []).map((p) => ({ TypeCarburant: p, CapaciteLitres: 10000 })),
+    analyses: analyses.map((a) => ({ ResultatAnalyse: 'Positif', DateAnalyse: null, ...a })),
+  } as unknown as StationWithDetails;
+}
+
+const criteres = { ProvinceIDs: [], MarqueIDs: [], Quotas: {}, Produits: ['Gasoil', 'SSP'] };
+
+describe('getStationPriorite', () => {
+  it('ranks never analysed, then past negative, then routine', () => {
+    expect(getStationPriorite(station({ id: 'a', code: 1 }))).toBe('jamais analysée');
+    expect(getStationPriorite(station({ id: 'b', code: 2, analyses: [{ ResultatAnalyse: 'Négatif' }] }))).toBe('antécédent négatif');
+    expect(getStationPriorite(station({ id: 'c', code: 3, analyses: [{ ResultatAnalyse: 'Positif' }] }))).toBe('routine');
+  });
+});
+
+describe('getProduitsAttendus', () => {
+  it('keeps the campaign produits the station stores', () => {
+    expect(getProduitsAttendus(station({ id: 'a', code: 1, produits: ['Gasoil', 'Kérosène'] }), ['Gasoil', 'SSP'])).toEqual(['Gasoil']);
+  });
+
+  it('expects every produit at a station without recorded tanks', () => {
+    expect(getProduitsAttendus(station({ id: 'a', code: 1 }), ['Gasoil', 'SSP'])).toEqual(['Gasoil', 'SSP']);
+  });
+});
+
+describe('proposeCampagneStations', () => {
+  const stations = [
+    station({ id: 'routine-old', code: 1, analyses: [{ DateAnalyse: new Date('2020-01-01') }] }),
+    station({ id: 'routine-recent', code: 2, analyses: [{ DateAnalyse: new Date('2024-01-01') }] }),
+    station({ id: 'negative', code: 3, analyses: [{ ResultatAnalyse: 'Négatif', DateAnalyse: new Date('2024-01-01') }] }),
+    station({ id: 'never', code: 4 }),
+    station({ id: 'stopped', code: 5, statut: 'en arrêt' }),
+    station({ id: 'kerosene', code: 6, produits: ['Kérosène'] }),
+    station({ id: 'other-province', code: 7, province: 'P2' }),
+    station({ id: 'other-marque', code: 8, marque: 'M2' }),
+  ];
+
+  it('orders each province by priority, then by the oldest analyse', () => {
+    const proposed = proposeCampagneStations(stations, { ...criteres, ProvinceIDs: ['P1'], MarqueIDs: ['M1'] });
+    expect(proposed.map((s) => s.StationID)).toEqual(['never', 'negative', 'routine-old', 'routine-recent']);
+    expect(proposed.map((s) => s.Priorite)).toEqual(['jamais analysée', 'antécédent négatif', 'routine', 'routine']);
+  });
+
+  it('applies the quota of each province', () => {
+    const proposed = proposeCampagneStations(stations, { ...criteres, Quotas: { P1: 2, P2: 0 } });
+    expect(proposed.map((s) => s.StationID)).toEqual(['never', 'other-marque']);
+  });
+});
+
+describe('scheduleCampagne', () => {
+  it('spreads the visits over working days, province by province', () => {
+    const stations = [
+      station({ id: 'b', code: 1, province: 'B' }),
+      station({ id: 'a1', code: 2, province: 'A', commune: 'X' }),
+      station({ id: 'a2', code: 3, province: 'A', commune: 'Y' }),
+    ];
+    const planned = stations.map((s) => ({ StationID: s.station.StationID, Priorite: 'routine' as const, DatePrevue: null }));
+    // Friday to Tuesday, the halfway point is Sunday
+    const debut = new Date(2024, 2, 1);
+    const fin = new Date(2024, 2, 5);
+
+    const scheduled = scheduleCampagne(planned, stations, debut, fin);
+    expect(scheduled.map((s) => s.StationID)).toEqual(['a1', 'a2', 'b']);
+    scheduled.forEach((s) => {
+      expect([0, 6]).not.toContain(s.DatePrevue!.getDay());
+      expect(s.DatePrevue!.getTime()).toBeLessThanOrEqual(fin.getTime());
+    });
+    expect(scheduled[0].DatePrevue).toEqual(debut);
+    expect(scheduled[1].DatePrevue).toEqual(new Date(2024, 2, 4));
+    expect(scheduled[2].DatePrevue).toEqual(fin);
+  });
+});
+
+describe('getCampagneAvancement', () => {
+  const campagne = {
+    CampagneID: 'camp',
+    Produits: ['Gasoil', 'SSP'],
+    Stations: [
+      { StationID: 'done', Priorite: 'routine', DatePrevue: null },
+      { StationID: 'half', Priorite: 'routine', DatePrevue: null },
+      { StationID: 'deleted', Priorite: 'routine', DatePrevue: null },
+    ],
+  } as unknown as CampagneAnalyse;
+
+  it('counts the samples recorded against the campaign', () => {
+    const stations = [
+      station({
+        id: 'done',
+        code: 1,
+        produits: ['Gasoil'],
+        analyses: [{ ProduitAnalyse: 'Gasoil', CampagneID: 'camp', ResultatAnalyse: 'Négatif' }],
+      }),
+      station({
+        id: 'half',
+        code: 2,
+        analyses: [
+          { ProduitAnalyse: 'Gasoil', CampagneID: 'camp' },
+          { ProduitAnalyse: 'SSP', CampagneID: 'other' },
+        ],
+      }),
+    ];
+
+    const avancement = getCampagneAvancement(campagne, stations);
+    expect(avancement.stations.map((s) => s.termine)).toEqual([true, false, false]);
+    expect(avancement.prelevementsPrevus).toBe(5);
+    expect(avancement.prelevementsRealises).toBe(2);
+    expect(avancement.stationsTerminees).toBe(1);
+    expect(avancement.negatifs).toBe(1);
+    expect(avancement.pourcentage).toBe(40);
+  });
+
+  it('lists the campaigns planning a station', () => {
+    expect(getCampagnesForStation([campagne], 'half')).toEqual([campagne]);
+    expect(getCampagnesForStation([campagne], 'unknown')).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+// src/utils/campagnes.ts
+import { Analyse, CampagneAnalyse, PrioriteCampagne, StationCampagne, StationWithDetails } from '@/types/station';
+import { formatDate } from '@/utils/format';
+import { loadExcel, saveWorkbook } from '@/utils/stationExcel';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+export const PRIORITES_CAMPAGNE: PrioriteCampagne[] = ['jamais analysée', 'antécédent négatif', 'routine'];
+
+export type CampagneCriteres = Pick<CampagneAnalyse, 'ProvinceIDs' | 'MarqueIDs' | 'Quotas' | 'Produits'>;
+
+export function getStationPriorite(station: StationWithDetails): PrioriteCampagne {
+  if (station.analyses.length === 0) return 'jamais analysée';
+  if (station.analyses.some((a) => a.ResultatAnalyse === 'Négatif')) return 'antécédent négatif';
+  return 'routine';
+}
+
+function lastAnalyseTime(station: StationWithDetails): number {
+  return Math.max(0, ...station.analyses.map((a) => a.DateAnalyse?.getTime() ?? 0));
+}
+
+/**
+ * Produits to sample at a station: the campaign produits it stores.
+ * A station without recorded tanks is expected to sell all of them.
+ */
+export function getProduitsAttendus(station: StationWithDetails, produits: string[]): string[] {
+  if (station.capacites.length === 0) return produits;
+  return produits.filter((p) => station.capacites.some((c) => c.TypeCarburant === p));
+}
+
+export function getQuota(criteres: Pick<CampagneAnalyse, 'Quotas'>, provinceId: string): number {
+  return criteres.Quotas[provinceId] ?? APP_CONSTANTS.CAMPAGNES.QUOTA_DEFAUT;
+}
+
+/**
+ * Stations proposed for a campaign. Only active stations of the targeted provinces and marques
+ * that sell one of the produits are considered. In each province, stations never analysed come
+ * first, then the ones with a past negative result, then the ones analysed longest ago, up to the quota.
+ */
+export function proposeCampagneStations(stations: StationWithDetails[], criteres: CampagneCriteres): StationCampagne[] {
+  const eligible = stations.filter((s) =>
+    s.station.Statut === 'en activité' &&
+    (criteres.ProvinceIDs.length === 0 || criteres.ProvinceIDs.includes(s.province.ProvinceID)) &&
+    (criteres.MarqueIDs.length === 0 || criteres.MarqueIDs.includes(s.marque.MarqueID)) &&
+    getProduitsAttendus(s, criteres.Produits).length > 0
+  );
+
+  const byProvince = new Map<string, StationWithDetails[]>();
+  eligible.forEach((s) => {
+    const list = byProvince.get(s.province.ProvinceID) ?? [];
+    list.push(s);
+    byProvince.set(s.province.ProvinceID, list);
+  });
+
+  const selected: StationCampagne[] = [];
+  byProvince.forEach((list, provinceId) => {
+    list
+      .map((station) => ({ station, priorite: getStationPriorite(station), last: lastAnalyseTime(station) }))
+      .sort((a, b) =>
+        PRIORITES_CAMPAGNE.indexOf(a.priorite) - PRIORITES_CAMPAGNE.indexOf(b.priorite) ||
+        a.last - b.last ||
+        a.station.station.Code - b.station.station.Code
+      )
+      .slice(0, getQuota(criteres, provinceId))
+      .forEach(({ station, priorite }) => {
+        selected.push({ StationID: station.station.StationID, Priorite: priorite, DatePrevue: null });
+      });
+  });
+  return selected;
+}
+
+function nextWorkingDay(date: Date): Date {
+  const d = new Date(date);
+  while (d.getDay() === 0 || d.getDay() === 6) d.setDate(d.getDate() + 1);
+  return d;
+}
+
+/**
+ * Spreads the planned visits evenly over the campaign period, on working days.
+ * Stations are visited province by province and commune by commune to group the trips.
+ */
+export function scheduleCampagne(
+  planned: StationCampagne[],
+  stations: StationWithDetails[],
+  debut: Date,
+  fin: Date
+): StationCampagne[] {
+  const byId = new Map(stations.map((s) => [s.station.StationID, s]));
+  const place = (id: string) => {
+    const s = byId.get(id);
+    return s ? `${s.province.NomProvince}\u0000${s.commune.NomCommune}\u0000${s.station.NomStation}` : '';
+  };
+  const ordered = [...planned].sort((a, b) => place(a.StationID).localeCompare(place(b.StationID)));
+  const span = Math.max(0, fin.getTime() - debut.getTime());
+
+  return ordered.map((p, i) => {
+    const offset = ordered.length > 1 ? (span * i) / (ordered.length - 1) : 0;
+    const date = nextWorkingDay(new Date(debut.getTime() + offset));
+    return { ...p, DatePrevue: date > fin ? new Date(fin) : date };
+  });
+}
+
+export type AvancementStation = {
+  planned: StationCampagne;
+  station: StationWithDetails | undefined; // Undefined once the station has been deleted
+  produitsAttendus: string[];
+  analyses: Analyse[]; // Analyses recorded against the campaign
+  produitsRealises: string[];
+  termine: boolean;
+  negatif: boolean;
+};
+
+export type AvancementCampagne = {
+  stations: AvancementStation[];
+  stationsTerminees: number;
+  prelevementsPrevus: number;
+  prelevementsRealises: number;
+  negatifs: number;
+  pourcentage: number;
+};
+
+// Progress is measured on the analyses entered with the campaign's CampagneID
+export function getCampagneAvancement(campagne: CampagneAnalyse, stations: StationWithDetails[]): AvancementCampagne {
+  const byId = new Map(stations.map((s) => [s.station.StationID, s]));
+
+  const rows = campagne.Stations.map((planned): AvancementStation => {
+    const station = byId.get(planned.StationID);
+    const analyses = (station?.analyses ?? []).filter((a) => a.CampagneID === campagne.CampagneID);
+    const produitsAttendus = station ? getProduitsAttendus(station, campagne.Produits) : campagne.Produits;
+    const produitsRealises = produitsAttendus.filter((p) => analyses.some((a) => a.ProduitAnalyse === p));
+    return {
+      planned,
+      station,
+      produitsAttendus,
+      analyses,
+      produitsRealises,
+      termine: produitsRealises.length === produitsAttendus.length,
+      negatif: analyses.some((a) => a.ResultatAnalyse === 'Négatif'),
+    };
+  });
+
+  const prelevementsPrevus = rows.reduce((sum, r) => sum + r.produitsAttendus.length, 0);
+  const prelevementsRealises = rows.reduce((sum, r) => sum + r.produitsRealises.length, 0);
+  return {
+    stations: rows,
+    stationsTerminees: rows.filter((r) => r.termine).length,
+    prelevementsPrevus,
+    prelevementsRealises,
+    negatifs: rows.filter((r) => r.negatif).length,
+    pourcentage: prelevementsPrevus > 0 ? Math.round((prelevementsRealises / prelevementsPrevus) * 100) : 0,
+  };
+}
+
+// Campaigns a station is planned in, for the analyse form
+export function getCampagnesForStation(campagnes: CampagneAnalyse[], stationId: string): CampagneAnalyse[] {
+  return campagnes.filter((c) => c.Stations.some((s) => s.StationID === stationId));
+}
+
+export async function exportCampagneSchedule(campagne: CampagneAnalyse, avancement: AvancementCampagne) {
+  const Excel = await loadExcel();
+  const workbook = new Excel.Workbook();
+  const worksheet = workbook.addWorksheet('Planning');
+
+  worksheet.columns = [
+    { header: 'Date prévue', key: 'DatePrevue', width: 15 },
+    { header: 'Province', key: 'Province', width: 20 },
+    { header: 'Commune', key: 'Commune', width: 20 },
+    { header: 'Code', key: 'Code', width: 10 },
+    { header: 'Nom Station', key: 'NomStation', width: 25 },
+    { header: 'Marque', key: 'Marque', width: 20 },
+    { header: 'Adresse', key: 'Adresse', width: 30 },
+    { header: 'Priorité', key: 'Priorite', width: 20 },
+    { header: 'Produits à prélever', key: 'Produits', width: 25 },
+    { header: 'Produits prélevés', key: 'Realises', width: 25 },
+    { header: 'Statut', key: 'Statut', width: 12 },
+  ];
+
+  [...avancement.stations]
+    .sort((a, b) => (a.planned.DatePrevue?.getTime() ?? Infinity) - (b.planned.DatePrevue?.getTime() ?? Infinity))
+    .forEach((row) => {
+      worksheet.addRow({
+        DatePrevue: row.planned.DatePrevue ? formatDate(row.planned.DatePrevue) : '',
+        Province: row.station?.province.NomProvince ?? '',
+        Commune: row.station?.commune.NomCommune ?? '',
+        Code: row.station?.station.Code ?? '',
+        NomStation: row.station?.station.NomStation ?? 'Station supprimée',
+        Marque: row.station?.marque.Marque ?? '',
+        Adresse: row.station?.station.Adresse ?? '',
+        Priorite: row.planned.Priorite,
+        Produits: row.produitsAttendus.join(', '),
+        Realises: row.produitsRealises.join(', '),
+        Statut: row.termine ? 'réalisé' : 'à faire',
+      });
+    });
+  worksheet.getRow(1).font = { bold: true };
+
+  await saveWorkbook(workbook, `planning_${campagne.Nom.replace(/[^\w-]+/g, '_')}_${campagne.Annee}`);
+}
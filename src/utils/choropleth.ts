@@ -0,0 +1,92 @@
+// src/utils/choropleth.ts
+// Indicators drawn on the province and commune outlines of the dashboard map.
+import { Analyse, Limite, StationWithDetails } from '@/types/station';
+
+export type IndicateurCarte = 'stations' | 'capacite' | 'negatives' | 'densite';
+
+export const INDICATEURS_CARTE: Record<IndicateurCarte, string> = {
+  stations: 'Nombre de stations',
+  capacite: 'Capacité totale (L)',
+  negatives: "Part d'analyses négatives",
+  densite: 'Stations pour 10 000 habitants',
+};
+
+// From the lowest to the highest values; regions without a value are drawn in grey
+export const CHOROPLETH_COLORS = ['#fef3c7', '#fcd34d', '#f59e0b', '#ea580c', '#9a3412'];
+export const NO_VALUE_COLOR = '#d1d5db';
+
+function regionOf(station: StationWithDetails, niveau: Limite['Niveau']): string {
+  return niveau === 'province' ? station.province.ProvinceID : station.commune.CommuneID;
+}
+
+/**
+ * Value of the indicator for each region with stations. Population is needed for
+ * the density, and regions whose population is unknown get no value.
+ */
+export function computeRegionValues(
+  niveau: Limite['Niveau'],
+  indicateur: IndicateurCarte,
+  stations: StationWithDetails[],
+  analyses: Analyse[],
+  populations: Map<string, number | null | undefined>
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  const regionByStation = new Map<string, string>();
+  stations.forEach((s) => {
+    const region = regionOf(s, niveau);
+    regionByStation.set(s.station.StationID, region);
+    const amount = indicateur === 'capacite' ? s.capacites.reduce((sum, c) => sum + (c.CapaciteLitres || 0), 0) : 1;
+    counts.set(region, (counts.get(region) ?? 0) + amount);
+  });
+
+  if (indicateur === 'stations' || indicateur === 'capacite') return counts;
+
+  const values = new Map<string, number>();
+  if (indicateur === 'densite') {
+    counts.forEach((count, region) => {
+      const population = populations.get(region);
+      if (population) values.set(region, (count / population) * 10000);
+    });
+    return values;
+  }
+
+  const totals = new Map<string, { negatives: number; total: number }>();
+  analyses.forEach((a) => {
+    const region = regionByStation.get(a.StationID);
+    if (!region) return;
+    const entry = totals.get(region) ?? { negatives: 0, total: 0 };
+    entry.total += 1;
+    if (a.ResultatAnalyse === 'Négatif') entry.negatives += 1;
+    totals.set(region, entry);
+  });
+  totals.forEach(({ negatives, total }, region) => values.set(region, negatives / total));
+  return values;
+}
+
+/**
+ * Upper bound of each color class, the range up to the highest value being split evenly.
+ */
+export function choroplethBreaks(values: Map<string, number>): number[] {
+  const max = Math.max(0, ...values.values());
+  return CHOROPLETH_COLORS.map((_, i) => (max * (i + 1)) / CHOROPLETH_COLORS.length);
+}
+
+export function choroplethColor(value: number | undefined, breaks: number[]): string {
+  if (value === undefined) return NO_VALUE_COLOR;
+  const index = breaks.findIndex((upper) => value <= upper);
+  return CHOROPLETH_COLORS[index === -1 ? CHOROPLETH_COLORS.length - 1 : index];
+}
+
+export function formatIndicateur(value: number | undefined, indicateur: IndicateurCarte): string {
+  if (value === undefined) return 'Aucune donnée';
+  switch (indicateur) {
+    case 'stations':
+      return value.toLocaleString('fr-FR');
+    case 'capacite':
+      return `${Math.round(value).toLocaleString('fr-FR')} L`;
+    case 'negatives':
+      return `${(value * 100).toLocaleString('fr-FR', { maximumFractionDigits: 1 })} %`;
+    case 'densite':
+      return value.toLocaleString('fr-FR', { maximumFractionDigits: 2 });
+  }
+}
@@ -0,0 +1,28 @@
+// src/utils/dossiers.ts
+import { DossierNonConformite, EtatDossier, Inspection } from '@/types/station';
+import { APP_CONSTANTS } from '@/lib/constants';
+
+// States a case can move to from each state; a closed case can be reopened
+export const DOSSIER_TRANSITIONS: Record<EtatDossier, EtatDossier[]> = {
+  'ouvert': ['en cours', 'clôturé'],
+  'en cours': ['clôturé'],
+  'clôturé': ['en cours'],
+};
+
+export function isOpenDossier(dossier: Pick<DossierNonConformite, 'Etat'>): boolean {
+  return dossier.Etat !== 'clôturé';
+}
+
+export function isFailedInspection(inspection: Pick<Inspection, 'Gravite'>): boolean {
+  return (APP_CONSTANTS.DOSSIERS.GRAVITES_OUVERTURE as string[]).includes(inspection.Gravite);
+}
+
+export function defaultDossierEcheance(from: Date): Date {
+  const date = new Date(from);
+  date.setDate(date.getDate() + APP_CONSTANTS.DOSSIERS.DELAI_JOURS);
+  return date;
+}
+
+export function isDossierOverdue(dossier: Pick<DossierNonConformite, 'Etat' | 'DateEcheance'>, today = new Date()): boolean {
+  return isOpenDossier(dossier) && !!dossier.DateEcheance && dossier.DateEcheance < today;
+}
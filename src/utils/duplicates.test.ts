@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DuplicateCandidate, findDuplicateGroups, nameSimilarity, normalizeName } from './duplicates';
+
+const matcher = {
+  getId: (item: DuplicateCandidate) => item.id,
+  getName: (item: DuplicateCandidate) => item.name,
+  getExactKey: (item: DuplicateCandidate) => item.exactKey,
+};
+
+const ids = (groups: DuplicateCandidate[][]) => groups.map((group) => group.map((item) => item.id));
+
+describe('normalizeName', () => {
+  it('drops case, accents, punctuation and extra spaces', () => {
+    expect(normalizeName('  AFRIQUIA  Gaz, S.A. ')).toBe('afriquia gaz s a');
+    expect(normalizeName('Société Énergie')).toBe('societe energie');
+  });
+
+  it('reads missing values as empty', () => {
+    expect(normalizeName(null)).toBe('');
+    expect(normalizeName(undefined)).toBe('');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores word order', () => {
+    expect(nameSimilarity('Alami Karim', 'Karim ALAMI')).toBe(1);
+  });
+
+  it('scores close spellings above the threshold and different names below', () => {
+    expect(nameSimilarity('Bennani Mohamed', 'Benani Mohamed')).toBeGreaterThanOrEqual(0.85);
+    expect(nameSimilarity('Afriquia', 'Shell')).toBeLessThan(0.5);
+  });
+
+  it('gives 0 when a name is empty', () => {
+    expect(nameSimilarity('', 'Shell')).toBe(0);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups items with the same exact key whatever their names', () => {
+    const items = [
+      { id: 'a', name: 'Alami Karim', exactKey: 'AB 12345' },
+      { id: 'b', name: 'K. Alami', exactKey: 'ab12345' },
+      { id: 'c', name: 'Tazi Omar', exactKey: 'CD 999' },
+    ];
+    expect(ids(findDuplicateGroups(items, matcher))).toEqual([['a', 'b']]);
+  });
+
+  it('groups similar names and leaves the others out', () => {
+    const items = [
+      { id: 'a', name: 'AFRIQUIA' },
+      { id: 'b', name: 'Afriquia ' },
+      { id: 'c', name: 'Afriqia' },
+      { id: 'd', name: 'Shell' },
+      { id: 'e', name: 'Total' },
+    ];
+    expect(ids(findDuplicateGroups(items, matcher))).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('does not chain matches into one group', () => {
+    // Each name is one letter away from the next, two or more from the others
+    const items = [
+      { id: 'a', name: 'abcdefghij' },
+      { id: 'b', name: 'abcdefghik' },
+      { id: 'c', name: 'abcdefghkk' },
+      { id: 'd', name: 'abcdefgkkk' },
+    ];
+    const groups = ids(findDuplicateGroups(items, matcher));
+    expect(groups).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('uses the threshold given', () => {
+    const items = [
+      { id: 'a', name: 'Bennani' },
+      { id: 'b', name: 'Benani' },
+    ];
+    expect(findDuplicateGroups(items, { ...matcher, threshold: 0.99 })).toEqual([]);
+  });
+});
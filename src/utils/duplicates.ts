@@ -0,0 +1,125 @@
+// src/utils/duplicates.ts
+// Likely-duplicate detection for reference data typed in by hand
+// ("AFRIQUIA" vs "Afriquia ", "Benani" vs "Bennani", accents...).
+
+// Names at least this similar (0..1) are reported as likely duplicates
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Lower-case, accent-free, punctuation-free, single-spaced version of a name.
+ */
+export function normalizeName(value: string | null | undefined): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Edit distance, or `max + 1` as soon as it is known to be above `max`
+function levenshtein(a: string, b: string, max = Infinity): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Word order is ignored, so "Alami Karim" matches "Karim Alami"
+function sortedWords(value: string): string {
+  return normalizeName(value).split(' ').sort().join(' ');
+}
+
+function similarity(x: string, y: string, threshold = 0): number {
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const longest = Math.max(x.length, y.length);
+  const distance = levenshtein(x, y, Math.floor((1 - threshold) * longest));
+  return Math.max(0, 1 - distance / longest);
+}
+
+/**
+ * Similarity between two names, from 0 (nothing in common) to 1 (same once normalized).
+ * Word order is ignored, so "Alami Karim" matches "Karim Alami".
+ */
+export function nameSimilarity(a: string, b: string): number {
+  return similarity(sortedWords(a), sortedWords(b));
+}
+
+export type DuplicateMatcher<T> = {
+  getId: (item: T) => string;
+  getName: (item: T) => string; // compared with nameSimilarity
+  getExactKey?: (item: T) => string | null | undefined; // e.g. a CIN, compared once normalized
+  threshold?: number;
+};
+
+// What is sent to the duplicates worker
+export type DuplicateCandidate = { id: string; name: string; exactKey?: string | null };
+
+/**
+ * Indexes of the items each item matches: same exact key, or names similar enough.
+ * Names are compared by increasing length, and only with names short enough to reach
+ * the threshold, which skips most pairs of a real list.
+ */
+function findMatches<T>(items: T[], matcher: DuplicateMatcher<T>, threshold: number): Set<number>[] {
+  const matches = items.map(() => new Set<number>());
+  const link = (i: number, j: number) => {
+    matches[i].add(j);
+    matches[j].add(i);
+  };
+
+  const byKey = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    const key = normalizeName(matcher.getExactKey?.(item)).replace(/ /g, '');
+    if (key) byKey.set(key, [...(byKey.get(key) || []), i]);
+  });
+  byKey.forEach((indexes) => indexes.forEach((i) => indexes.forEach((j) => i < j && link(i, j))));
+
+  const names = items.map((item) => sortedWords(matcher.getName(item)));
+  const order = names.map((_, i) => i).filter((i) => names[i]).sort((i, j) => names[i].length - names[j].length);
+  for (let a = 0; a < order.length; a++) {
+    const i = order[a];
+    for (let b = a + 1; b < order.length; b++) {
+      const j = order[b];
+      // A longer name can at best be shorter / longer similar
+      if (names[i].length / names[j].length < threshold) break;
+      if (!matches[i].has(j) && similarity(names[i], names[j], threshold) >= threshold) link(i, j);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Groups items that are likely the same entity. Each group is one item with the items
+ * that match it directly: A~B and B~C does not put A and C together unless they match.
+ * The items with the most matches are taken first. Only groups of two or more are returned.
+ */
+export function findDuplicateGroups<T>(items: T[], matcher: DuplicateMatcher<T>): T[][] {
+  const matches = findMatches(items, matcher, matcher.threshold ?? DUPLICATE_SIMILARITY_THRESHOLD);
+  const grouped = new Set<number>();
+  const groups: T[][] = [];
+
+  const order = items.map((_, i) => i).sort((i, j) => matches[j].size - matches[i].size);
+  for (const i of order) {
+    if (grouped.has(i)) continue;
+    const members = [i, ...[...matches[i]].filter((j) => !grouped.has(j))];
+    if (members.length < 2) continue;
+    members.forEach((j) => grouped.add(j));
+    groups.push(members.map((j) => items[j]).sort((a, b) => matcher.getId(a).localeCompare(matcher.getId(b))));
+  }
+  return groups;
+}
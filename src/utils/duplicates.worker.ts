@@ -0,0 +1,12 @@
+// src/utils/duplicates.worker.ts
+// Runs findDuplicateGroups away from the page, so long lists don't freeze it
+import { DuplicateCandidate, findDuplicateGroups } from './duplicates';
+
+addEventListener('message', (e: MessageEvent<DuplicateCandidate[]>) => {
+  const groups = findDuplicateGroups(e.data, {
+    getId: (c) => c.id,
+    getName: (c) => c.name,
+    getExactKey: (c) => c.exactKey,
+  });
+  postMessage(groups.map((group) => group.map((c) => c.id)));
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { containsPoint, LimiteGeometry } from './limites';
+import {
+  detectLambertZone,
+  isInLambertZone,
+  LAMBERT_ZONES,
+  lambertToWgs84,
+  LambertZone,
+  parseLambertZone,
+  wgs84ToLambert,
+} from './lambert';
+
+// A town in the band of each zone
+const TOWNS: { zone: LambertZone; name: string; lat: number; lng: number }[] = [
+  { zone: 'EPSG:26191', name: 'Rabat', lat: 34.0209, lng: -6.8416 },
+  { zone: 'EPSG:26192', name: 'Ouarzazate', lat: 30.9189, lng: -6.8934 },
+  { zone: 'EPSG:26194', name: 'Laâyoune', lat: 27.1536, lng: -13.2033 },
+  { zone: 'EPSG:26195', name: 'Dakhla', lat: 23.6848, lng: -15.958 },
+];
+
+// Square of about 20 km around a point, standing for a province outline
+function squareAround(lat: number, lng: number): LimiteGeometry {
+  const d = 0.1;
+  return {
+    type: 'Polygon',
+    coordinates: [[[lng - d, lat - d], [lng + d, lat - d], [lng + d, lat + d], [lng - d, lat + d], [lng - d, lat - d]]],
+  };
+}
+
+describe('wgs84ToLambert / lambertToWgs84', () => {
+  it.each(TOWNS)('round-trips $name in its zone', ({ zone, lat, lng }) => {
+    const lambert = wgs84ToLambert(lat, lng, zone);
+    expect(lambert).not.toBeNull();
+    expect(lambert!.zone).toBe(zone);
+
+    const back = lambertToWgs84(lambert!.x, lambert!.y, zone);
+    expect(back!.lat).toBeCloseTo(lat, 7);
+    expect(back!.lng).toBeCloseTo(lng, 7);
+  });
+
+  it.each(TOWNS)('uses the zone of the latitude by default for $name', ({ zone, lat, lng }) => {
+    expect(wgs84ToLambert(lat, lng)!.zone).toBe(zone);
+  });
+});
+
+describe('detectLambertZone', () => {
+  it.each(TOWNS)('finds the zone of $name inside its province outline', ({ zone, lat, lng }) => {
+    const { x, y } = wgs84ToLambert(lat, lng, zone)!;
+    const detected = detectLambertZone(x, y, (p) => containsPoint(squareAround(lat, lng), p.lat, p.lng));
+    expect(detected).toBe(zone);
+  });
+
+  it('takes the northernmost zone when the coordinates fit several and nothing else is known', () => {
+    const town = TOWNS[1];
+    const { x, y } = wgs84ToLambert(town.lat, town.lng, town.zone)!;
+    expect(isInLambertZone(x, y, 'EPSG:26191')).toBe(true);
+    expect(detectLambertZone(x, y)).toBe('EPSG:26191');
+  });
+
+  it('keeps the northernmost zone when the outline contains none of the candidates', () => {
+    const town = TOWNS[1];
+    const { x, y } = wgs84ToLambert(town.lat, town.lng, town.zone)!;
+    const elsewhere = squareAround(TOWNS[3].lat, TOWNS[3].lng);
+    expect(detectLambertZone(x, y, (p) => containsPoint(elsewhere, p.lat, p.lng))).toBe('EPSG:26191');
+  });
+
+  it('returns null for coordinates outside of every zone', () => {
+    expect(detectLambertZone(-5000000, -5000000)).toBeNull();
+  });
+});
+
+describe('parseLambertZone', () => {
+  it.each([
+    ['EPSG:26191', 'EPSG:26191'],
+    ['26192', 'EPSG:26192'],
+    ['epsg:26194', 'EPSG:26194'],
+    ['Zone IV', 'EPSG:26195'],
+    ['zone iii - Sahara Nord', 'EPSG:26194'],
+    ['II', 'EPSG:26192'],
+    ['1', 'EPSG:26191'],
+    [' 4 ', 'EPSG:26195'],
+  ])('reads "%s"', (value, zone) => {
+    expect(parseLambertZone(value)).toBe(zone);
+  });
+
+  it.each(['', 'Zone V', '5', '26193', 'nord'])('rejects "%s"', (value) => {
+    expect(parseLambertZone(value)).toBeNull();
+  });
+
+  it('reads the label of every zone', () => {
+    LAMBERT_ZONES.forEach((z) => expect(parseLambertZone(z.label)).toBe(z.code));
+  });
+});
@@ -0,0 +1,143 @@
+// src/utils/lambert.ts
+// Conversions between GPS coordinates and the Lambert grids of Morocco (Merchich datum),
+// in which site plans and older records give station positions. Each zone covers a band
+// of latitude; the north of the country is in Zone I, the Sahara in Zones III and IV.
+import proj4 from 'proj4';
+
+export type LambertZone = 'EPSG:26191' | 'EPSG:26192' | 'EPSG:26194' | 'EPSG:26195';
+
+// How coordinates are written in the exported files
+export type CoordinateFormat = 'wgs84' | 'lambert';
+
+const MERCHICH = '+ellps=clrk80ign +towgs84=31,146,47,0,0,0,0 +units=m +no_defs';
+
+// From north to south. minLat/maxLat is the band of latitude the zone is meant for.
+export const LAMBERT_ZONES: { code: LambertZone; label: string; minLat: number; maxLat: number; definition: string }[] = [
+  {
+    code: 'EPSG:26191',
+    label: 'Zone I - Nord Maroc',
+    minLat: 31.5,
+    maxLat: 36,
+    definition: `+proj=lcc +lat_1=33.3 +lat_0=33.3 +lon_0=-5.4 +k_0=0.999625769 +x_0=500000 +y_0=300000 ${MERCHICH}`,
+  },
+  {
+    code: 'EPSG:26192',
+    label: 'Zone II - Sud Maroc',
+    minLat: 27.9,
+    maxLat: 31.5,
+    definition: `+proj=lcc +lat_1=29.7 +lat_0=29.7 +lon_0=-5.4 +k_0=0.999615596 +x_0=500000 +y_0=300000 ${MERCHICH}`,
+  },
+  {
+    code: 'EPSG:26194',
+    label: 'Zone III - Sahara Nord',
+    minLat: 24.3,
+    maxLat: 27.9,
+    definition: `+proj=lcc +lat_1=26.1 +lat_0=26.1 +lon_0=-5.4 +k_0=0.999616304 +x_0=1200000 +y_0=400000 ${MERCHICH}`,
+  },
+  {
+    code: 'EPSG:26195',
+    label: 'Zone IV - Sahara Sud',
+    minLat: 20.7,
+    maxLat: 24.3,
+    definition: `+proj=lcc +lat_1=22.5 +lat_0=22.5 +lon_0=-5.4 +k_0=0.999616437 +x_0=1500000 +y_0=400000 ${MERCHICH}`,
+  },
+];
+
+LAMBERT_ZONES.forEach((zone) => proj4.defs(zone.code, zone.definition));
+proj4.defs('EPSG:4326', '+proj=longlat +datum=WGS84 +no_defs');
+
+export const DEFAULT_LAMBERT_ZONE: LambertZone = 'EPSG:26191';
+
+// Longitudes of the country, and how far a point may be outside of its zone's band
+// and still be read in that zone (surveys near a limit often use the neighbouring zone)
+const MIN_LNG = -17.5;
+const MAX_LNG = -0.9;
+const BAND_TOLERANCE = 0.5;
+
+export function lambertZoneLabel(zone: LambertZone): string {
+  return LAMBERT_ZONES.find((z) => z.code === zone)?.label ?? zone;
+}
+
+export function zoneForLatitude(lat: number): LambertZone {
+  return (LAMBERT_ZONES.find((z) => lat >= z.minLat) ?? LAMBERT_ZONES[LAMBERT_ZONES.length - 1]).code;
+}
+
+// Null when the conversion fails
+export function lambertToWgs84(x: number, y: number, zone: LambertZone = DEFAULT_LAMBERT_ZONE): { lat: number; lng: number } | null {
+  try {
+    const [lng, lat] = proj4(zone, 'EPSG:4326', [x, y]);
+    return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+  } catch (error) {
+    console.error('Lambert conversion error:', error);
+    return null;
+  }
+}
+
+/**
+ * Lambert coordinates of a GPS point, in the zone given or else in the zone of its latitude.
+ */
+export function wgs84ToLambert(
+  lat: number,
+  lng: number,
+  zone: LambertZone = zoneForLatitude(lat)
+): { x: number; y: number; zone: LambertZone } | null {
+  try {
+    const [x, y] = proj4('EPSG:4326', zone, [lng, lat]);
+    return Number.isFinite(x) && Number.isFinite(y) ? { x, y, zone } : null;
+  } catch (error) {
+    console.error('Lambert conversion error:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether the coordinates, read in this zone, fall in Morocco within the zone's band.
+ */
+export function isInLambertZone(x: number, y: number, zone: LambertZone): boolean {
+  const band = LAMBERT_ZONES.find((z) => z.code === zone);
+  const point = lambertToWgs84(x, y, zone);
+  return (
+    !!band &&
+    !!point &&
+    point.lat >= band.minLat - BAND_TOLERANCE &&
+    point.lat <= band.maxLat + BAND_TOLERANCE &&
+    point.lng >= MIN_LNG &&
+    point.lng <= MAX_LNG
+  );
+}
+
+/**
+ * The zone the coordinates were most likely surveyed in, null when they fit none.
+ * The grids overlap, so the same numbers are often valid in several zones: the first
+ * zone whose point `isExpected` accepts (inside the station's province, for example)
+ * is chosen then, and the northernmost one without it.
+ */
+export function detectLambertZone(
+  x: number,
+  y: number,
+  isExpected?: (point: { lat: number; lng: number }) => boolean
+): LambertZone | null {
+  const candidates = LAMBERT_ZONES.filter((z) => isInLambertZone(x, y, z.code)).map((z) => z.code);
+  if (candidates.length <= 1 || !isExpected) return candidates[0] ?? null;
+  return (
+    candidates.find((zone) => {
+      const point = lambertToWgs84(x, y, zone);
+      return !!point && isExpected(point);
+    }) ?? candidates[0]
+  );
+}
+
+/**
+ * Reads a zone as written in a file: "EPSG:26192", "26192", "Zone II", "II" or "2".
+ */
+export function parseLambertZone(value: string): LambertZone | null {
+  const text = value.trim().toUpperCase();
+  if (!text) return null;
+  const code = text.match(/2619[1245]/)?.[0];
+  if (code) return `EPSG:${code}` as LambertZone;
+
+  const numeral = text.replace(/^ZONE\s*/, '').split(/[\s-]/)[0];
+  const index = ['I', 'II', 'III', 'IV'].indexOf(numeral);
+  const number = index >= 0 ? index + 1 : Number(numeral);
+  return Number.isInteger(number) && number >= 1 && number <= 4 ? LAMBERT_ZONES[number - 1].code : null;
+}
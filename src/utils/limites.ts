@@ -0,0 +1,170 @@
+// src/utils/limites.ts
+// Province and commune outlines: reading the GeoJSON files they are imported from
+// and matching their features with the reference data.
+import { Limite } from '@/types/station';
+import { normalizeName } from '@/utils/duplicates';
+
+type Position = number[];
+
+export type LimiteGeometry =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export type LimiteFeature = {
+  properties: Record<string, string>;
+  geometry: LimiteGeometry;
+};
+
+export type LimiteMatch = {
+  RefID: string;
+  name: string;
+  geometry: LimiteGeometry;
+};
+
+// Firestore documents are limited to 1 MiB, outlines above this size have to be simplified first
+export const MAX_GEOMETRY_LENGTH = 900_000;
+
+// About one meter, more than enough for a region outline and much smaller to store
+const COORDINATE_DECIMALS = 5;
+
+export function limiteId(niveau: Limite['Niveau'], refId: string): string {
+  return `${niveau}_${refId}`;
+}
+
+function isPolygonGeometry(geometry: unknown): geometry is LimiteGeometry {
+  const g = geometry as { type?: unknown; coordinates?: unknown } | null;
+  return !!g && (g.type === 'Polygon' || g.type === 'MultiPolygon') && Array.isArray(g.coordinates);
+}
+
+/**
+ * Polygon features of a GeoJSON FeatureCollection (or single Feature), with their
+ * properties as strings. Features of other geometry types are left out.
+ */
+export function parseGeoJson(text: string): LimiteFeature[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const root = json as { type?: string; features?: unknown[] };
+  const features = root?.type === 'FeatureCollection' ? root.features ?? [] : root?.type === 'Feature' ? [root] : null;
+  if (!features) throw new Error('Expected a GeoJSON FeatureCollection or Feature.');
+
+  return features.flatMap((feature) => {
+    const f = feature as { geometry?: unknown; properties?: Record<string, unknown> | null };
+    if (!isPolygonGeometry(f.geometry)) return [];
+    const properties = Object.fromEntries(
+      Object.entries(f.properties ?? {})
+        .filter(([, value]) => value !== null && value !== undefined && typeof value !== 'object')
+        .map(([key, value]) => [key, String(value)])
+    );
+    return [{ properties, geometry: f.geometry }];
+  });
+}
+
+export function propertyKeys(features: LimiteFeature[]): string[] {
+  return Array.from(new Set(features.flatMap((f) => Object.keys(f.properties)))).sort();
+}
+
+function roundCoordinates<T>(value: T): T {
+  if (typeof value === 'number') return (Math.round(value * 10 ** COORDINATE_DECIMALS) / 10 ** COORDINATE_DECIMALS) as T;
+  if (Array.isArray(value)) return value.map(roundCoordinates) as T;
+  return value;
+}
+
+// A region drawn as several features (islands, enclaves) is kept as one MultiPolygon
+function mergeGeometries(a: LimiteGeometry, b: LimiteGeometry): LimiteGeometry {
+  const polygons = (g: LimiteGeometry) => (g.type === 'Polygon' ? [g.coordinates] : g.coordinates);
+  return { type: 'MultiPolygon', coordinates: [...polygons(a), ...polygons(b)] };
+}
+
+/**
+ * Pairs each region with the features whose `key` property holds its name or its ID,
+ * names being compared without case or accents ("Aït Melloul" matches "AIT-MELLOUL").
+ * Returns the matched regions and the property values that matched none.
+ */
+export function matchFeatures(
+  features: LimiteFeature[],
+  key: string,
+  regions: { id: string; name: string }[]
+): { matched: LimiteMatch[]; unmatched: string[] } {
+  const byName = new Map(regions.map((r) => [normalizeName(r.name), r]));
+  const byId = new Map(regions.map((r) => [r.id, r]));
+  const matched = new Map<string, LimiteMatch>();
+  const unmatched: string[] = [];
+
+  features.forEach((feature) => {
+    const value = feature.properties[key] ?? '';
+    const region = byId.get(value) ?? byName.get(normalizeName(value));
+    if (!region) {
+      unmatched.push(value || '(empty)');
+      return;
+    }
+    const geometry = roundCoordinates(feature.geometry);
+    const previous = matched.get(region.id);
+    matched.set(region.id, {
+      RefID: region.id,
+      name: region.name,
+      geometry: previous ? mergeGeometries(previous.geometry, geometry) : geometry,
+    });
+  });
+
+  return { matched: Array.from(matched.values()), unmatched };
+}
+
+// The property matching the most regions, to preselect in the import form
+export function guessNameProperty(features: LimiteFeature[], regions: { id: string; name: string }[]): string {
+  const names = new Set(regions.flatMap((r) => [r.id, normalizeName(r.name)]));
+  const keys = propertyKeys(features);
+  let best = keys[0] ?? '';
+  let bestCount = 0;
+  keys.forEach((key) => {
+    const count = features.filter((f) => {
+      const value = f.properties[key] ?? '';
+      return names.has(value) || names.has(normalizeName(value));
+    }).length;
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+export function parseLimiteGeometry(limite: Limite): LimiteGeometry | null {
+  try {
+    const geometry = JSON.parse(limite.Geometrie);
+    return isPolygonGeometry(geometry) ? geometry : null;
+  } catch {
+    return null;
+  }
+}
+
+// Number of points of an outline, shown in the audit log instead of the coordinates
+export function countVertices(geometry: LimiteGeometry): number {
+  const rings = geometry.type === 'Polygon' ? geometry.coordinates : geometry.coordinates.flat();
+  return rings.reduce((sum, ring) => sum + ring.length, 0);
+}
+
+// Ray casting on one ring, GeoJSON positions being [longitude, latitude]
+function ringContains(ring: Position[], lat: number, lng: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Whether a point lies inside the outline: in one of its polygons and not in one of their holes.
+ */
+export function containsPoint(geometry: LimiteGeometry, lat: number, lng: number): boolean {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(
+    ([outer, ...holes]) => !!outer && ringContains(outer, lat, lng) && !holes.some((hole) => ringContains(hole, lat, lng))
+  );
+}
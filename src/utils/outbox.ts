@@ -0,0 +1,95 @@
+// src/utils/outbox.ts
+import { Analyse, StationFormData } from '@/types/station';
+import { OutboxConflictField } from '@/types/outbox';
+import { formatDate } from '@/utils/format';
+
+// Delay before the first retry of a mutation, doubled on each failure up to the maximum
+const BASE_RETRY_MS = 1000 * 5;
+const MAX_RETRY_MS = 1000 * 60 * 5;
+
+// How long a write may go unacknowledged before it is treated as sent without network
+export const WRITE_TIMEOUT_MS = 1000 * 15;
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+/**
+ * Whether a failed write should be kept and retried later rather than reported.
+ * Firestore reports a lost connection as 'unavailable' (or a timeout), fetch as a TypeError.
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (isOffline()) return true;
+  const code = (err as { code?: string } | null)?.code;
+  return code === 'unavailable' || code === 'deadline-exceeded' || err instanceof TypeError;
+}
+
+/**
+ * Fails like a lost connection when `write` is not done within WRITE_TIMEOUT_MS.
+ * Firestore keeps a write made without network pending instead of failing it, even when
+ * navigator.onLine is true, and sends it by itself once the network is back: the outbox
+ * copy of such a write is recognized when it is replayed (see isAlreadyApplied).
+ */
+export function withWriteTimeout<T>(write: Promise<T>, ms = WRITE_TIMEOUT_MS): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(Object.assign(new Error('Write not acknowledged'), { code: 'deadline-exceeded' })), ms);
+  });
+  return Promise.race([write, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function nextRetryDate(attempts: number, now = Date.now()): Date {
+  return new Date(now + Math.min(BASE_RETRY_MS * 2 ** attempts, MAX_RETRY_MS));
+}
+
+// Fields compared to detect a conflict, as displayed in the pending sync dialog
+type Snapshot = Record<string, string>;
+
+export function analyseSnapshot(analyse: Omit<Analyse, 'AnalyseID'>): Snapshot {
+  return {
+    Code: analyse.CodeAnalyse || '',
+    Date: analyse.DateAnalyse ? formatDate(analyse.DateAnalyse) : '',
+    Produit: analyse.ProduitAnalyse || '',
+    Résultat: analyse.ResultatAnalyse || '',
+    Mesures: [...(analyse.Mesures ?? [])]
+      .sort((a, b) => a.Parametre.localeCompare(b.Parametre))
+      .map((m) => `${m.Parametre}: ${m.Valeur}`)
+      .join(', '),
+    Forçage: analyse.ResultatForce ? analyse.MotifForcage || 'oui' : '',
+    Campagne: analyse.CampagneID || '',
+  };
+}
+
+export function stationFormSnapshot(form: StationFormData): Snapshot {
+  const { autorisations, cuves, ...fields } = form;
+  return {
+    ...Object.fromEntries(
+      Object.entries(fields)
+        .filter(([key]) => key !== 'id')
+        .map(([key, value]) => [key, String(value ?? '').trim()])
+    ),
+    Autorisations: autorisations
+      .map((a) => [a.TypeAutorisation, a.NumeroAutorisation, a.DateAutorisation, a.DateExpiration].join(' '))
+      .sort()
+      .join(' | '),
+    Cuves: cuves
+      .map((c) => [c.IdentifiantCuve, c.TypeCarburant, c.CapaciteLitres, c.DateInstallation, c.Materiau].join(' '))
+      .sort()
+      .join(' | '),
+  };
+}
+
+export function sameSnapshots(a: Snapshot, b: Snapshot): boolean {
+  return Object.keys({ ...a, ...b }).every((field) => (a[field] ?? '') === (b[field] ?? ''));
+}
+
+/**
+ * Fields someone else changed since `base`, the version the offline edit started from.
+ * Empty when the document is as it was, and the queued edit can be sent as is.
+ * A field already holding the queued value is no conflict, whoever wrote it.
+ */
+export function diffSnapshots(base: Snapshot, mine: Snapshot, theirs: Snapshot): OutboxConflictField[] {
+  return Object.keys(base)
+    .filter((field) => (theirs[field] ?? '') !== base[field] && (theirs[field] ?? '') !== (mine[field] ?? ''))
+    .map((field) => ({ field, base: base[field], mine: mine[field] ?? '', theirs: theirs[field] ?? '' }));
+}
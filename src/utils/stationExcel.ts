@@ -0,0 +1,534 @@
+// src/utils/stationExcel.ts
+import { saveAs } from 'file-saver';
+import type { CellValue, Worksheet } from 'exceljs';
+import { StationWithDetails, StationFormData, ProprietairePhysique, ProprietaireMorale, Proprietaire } from '@/types/station';
+import { getProprietaireName, formatDateForInput } from '@/utils/format';
+import { validateStationData, NormalizedFormErrors } from '@/lib/validations/stationValidation';
+import { APP_CONSTANTS } from '@/lib/constants';
+import { CoordinateFormat, detectLambertZone, isInLambertZone, lambertToWgs84, parseLambertZone, wgs84ToLambert } from '@/utils/lambert';
+import { containsPoint, LimiteGeometry } from '@/utils/limites';
+import { normalizeName } from '@/utils/duplicates';
+import { stationWithDetailsToFormData } from '@/utils/stationFormUtils';
+
+// Dynamic import for ExcelJS to prevent bundling during compilation
+let ExcelJS: typeof import("exceljs");
+
+export async function loadExcel() {
+  if (!ExcelJS) {
+    ExcelJS = await import("exceljs");
+  }
+  return ExcelJS;
+}
+
+function safeFullName(first?: string, last?: string) {
+  return `${first || ''} ${last || ''}`.trim() || '-';
+}
+
+/**
+ * Column layout of the stations workbook.
+ * Shared by the export and the import so that an exported file can be re-imported as is.
+ */
+export const STATION_EXCEL_COLUMNS = [
+  { header: 'Code', key: 'Code', width: 15 },
+  { header: 'Marque', key: 'Marque', width: 20 },
+  { header: 'Raison Sociale', key: 'RaisonSociale', width: 25 },
+  { header: 'Nom Station', key: 'NomStation', width: 25 },
+  { header: 'Propriétaire', key: 'Proprietaire', width: 25 },
+  { header: 'Gérant', key: 'Gerant', width: 20 },
+  { header: 'CIN Gérant', key: 'CINGerant', width: 15 },
+  { header: 'Téléphone', key: 'Telephone', width: 15 },
+  { header: 'Adresse', key: 'Adresse', width: 30 },
+  { header: 'Province', key: 'NomProvince', width: 15 },
+  { header: 'Commune', key: 'NomCommune', width: 15 },
+  { header: 'Latitude', key: 'Latitude', width: 10 },
+  { header: 'Longitude', key: 'Longitude', width: 10 },
+  { header: 'X Lambert', key: 'LambertX', width: 12 },
+  { header: 'Y Lambert', key: 'LambertY', width: 12 },
+  { header: 'Zone Lambert', key: 'LambertZone', width: 12 },
+  { header: 'Type', key: 'Type', width: 15 },
+  { header: 'Statut', key: 'Statut', width: 15 },
+  { header: 'Type de Gérance', key: 'TypeGerance', width: 15 },
+  { header: 'N° Création', key: 'NumeroCreation', width: 15 },
+  { header: 'Date Création', key: 'DateCreation', width: 15 },
+  { header: 'N° Mise en service', key: 'NumeroMiseEnService', width: 15 },
+  { header: 'Date Mise en service', key: 'DateMiseEnService', width: 15 },
+  { header: 'Commentaires', key: 'Commentaires', width: 30 },
+  { header: 'Nombre Volucompteur', key: 'NombreVolucompteur', width: 15 },
+] as const;
+
+export type StationExcelKey = typeof STATION_EXCEL_COLUMNS[number]['key'];
+
+// Capacity columns, one per produit, come after the Type column
+const CAPACITE_HEADER_PREFIX = 'Capacité ';
+const CAPACITE_COLUMNS_AFTER: StationExcelKey = 'Type';
+
+function capaciteColumnKey(produit: string) {
+  return `Capacite:${produit}`;
+}
+
+// The export writes either the GPS or the Lambert columns, the import reads both
+const COORDINATE_KEYS: Record<CoordinateFormat, StationExcelKey[]> = {
+  wgs84: ['Latitude', 'Longitude'],
+  lambert: ['LambertX', 'LambertY', 'LambertZone'],
+};
+
+function buildExcelColumns(produits: string[], coordinates: CoordinateFormat) {
+  const columns: { header: string; key: string; width: number }[] = [];
+  const skipped = coordinates === 'wgs84' ? COORDINATE_KEYS.lambert : COORDINATE_KEYS.wgs84;
+  STATION_EXCEL_COLUMNS.filter(c => !skipped.includes(c.key)).forEach(c => {
+    columns.push({ ...c });
+    if (c.key === CAPACITE_COLUMNS_AFTER) {
+      produits.forEach(p => columns.push({ header: `${CAPACITE_HEADER_PREFIX}${p}`, key: capaciteColumnKey(p), width: 15 }));
+    }
+  });
+  return columns;
+}
+
+export async function saveWorkbook(workbook: import('exceljs').Workbook, filename: string) {
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  saveAs(blob, `${filename}.xlsx`);
+}
+
+// Lambert columns of a station, in the zone of its latitude; empty without a position
+function lambertCells(station: StationWithDetails) {
+  const lat = Number(station.station.Latitude);
+  const lng = Number(station.station.Longitude);
+  const point = lat || lng ? wgs84ToLambert(lat, lng) : null;
+  if (!point) return { LambertX: '', LambertY: '', LambertZone: '' };
+  return { LambertX: Number(point.x.toFixed(2)), LambertY: Number(point.y.toFixed(2)), LambertZone: point.zone };
+}
+
+// Always day first, whatever the locale of the browser, so that the import reads it back
+function formatExportDate(value: string | Date): string {
+  return new Date(value).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+export const exportToExcel = async (
+  stations: StationWithDetails[],
+  filename: string,
+  produits: string[] = APP_CONSTANTS.PRODUITS.DEFAULTS,
+  coordinates: CoordinateFormat = 'wgs84'
+) => {
+  const Excel = await loadExcel();
+
+  const workbook = new Excel.Workbook();
+  const worksheet = workbook.addWorksheet('Stations');
+
+  worksheet.columns = buildExcelColumns(produits, coordinates);
+
+  stations.forEach(station => {
+    const capacites = Object.fromEntries(produits.map(p => [
+      capaciteColumnKey(p),
+      station.capacites
+        .filter(c => c.TypeCarburant === p)
+        .reduce((sum, c) => sum + (c.CapaciteLitres || 0), 0),
+    ]));
+    worksheet.addRow({
+      ...capacites,
+      Code: station.station.Code || '',
+      Marque: station.marque?.Marque || '',
+      RaisonSociale: station.marque?.RaisonSociale || '',
+      NomStation: station.station.NomStation || '',
+      Proprietaire: getProprietaireName(station) || '',
+      Gerant: safeFullName(station.gerant?.PrenomGerant, station.gerant?.NomGerant),
+      CINGerant: station.gerant?.CINGerant || '',
+      Telephone: station.gerant?.Telephone || '',
+      Adresse: station.station.Adresse || '',
+      NomProvince: station.province?.NomProvince || '',
+      NomCommune: station.commune?.NomCommune || '',
+      ...(coordinates === 'lambert'
+        ? lambertCells(station)
+        : { Latitude: station.station.Latitude || '', Longitude: station.station.Longitude || '' }),
+      Type: station.station.Type || '',
+      Statut: station.station.Statut || '',
+      TypeGerance: station.station.TypeGerance || '',
+      NumeroCreation: station.creationAutorisation?.NumeroAutorisation || '',
+      DateCreation: station.creationAutorisation?.DateAutorisation
+        ? formatExportDate(station.creationAutorisation.DateAutorisation)
+        : '',
+      NumeroMiseEnService: station.miseEnServiceAutorisation?.NumeroAutorisation || '',
+      DateMiseEnService: station.miseEnServiceAutorisation?.DateAutorisation
+        ? formatExportDate(station.miseEnServiceAutorisation.DateAutorisation)
+        : '',
+      Commentaires: station.station.Commentaires || '',
+      NombreVolucompteur: station.station.NombreVolucompteur || '',
+    });
+  });
+
+  await saveWorkbook(workbook, filename);
+};
+
+/* ----------------------------------------------------------------
+ * Import
+ * -------------------------------------------------------------- */
+
+export type ImportRowAction = 'create' | 'update' | 'error';
+
+export interface StationImportRow {
+  rowNumber: number;          // 1-based row number in the worksheet
+  code: number | null;        // Code read from the file, if any
+  formData: StationFormData;
+  action: ImportRowAction;
+  existingStationId?: string; // set when action === 'update'
+  errors: string[];
+}
+
+type ProprietaireWithDetails = Proprietaire & { details: ProprietairePhysique | ProprietaireMorale | null };
+
+// Values written by the export when a field is empty
+const EMPTY_MARKERS = new Set(['', '-', 'N/A', 'Unknown']);
+
+// Company suffixes used to guess a "Morale" owner when the name is not already known
+const COMPANY_PATTERN = /\b(s\.?a\.?r\.?l\.?|s\.?a\.?|ste|sté|société|societe|group|groupe|holding|company|cie)\b/i;
+
+const FIELD_LABELS: Partial<Record<keyof StationFormData, string>> = {
+  Latitude: 'Latitude',
+  Longitude: 'Longitude',
+  Type: 'Type',
+  Marque: 'Marque',
+  RaisonSociale: 'Raison Sociale',
+  Province: 'Province',
+  Commune: 'Commune',
+  TypeGerance: 'Type de Gérance',
+  Statut: 'Statut',
+  NombreVolucompteur: 'Nombre Volucompteur',
+};
+
+function cellToString(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDateForInput(value);
+  if (typeof value === 'object') {
+    if ('result' in value && value.result !== undefined) return cellToString(value.result as CellValue);
+    if ('richText' in value) return value.richText.map(r => r.text).join('');
+    if ('text' in value) return String(value.text);
+    return '';
+  }
+  return String(value).trim();
+}
+
+function cleanValue(value: string): string {
+  return EMPTY_MARKERS.has(value.trim()) ? '' : value.trim();
+}
+
+// Dates are exported as DD/MM/YYYY (formatExportDate); also accept D/M/YYYY, DD-MM-YYYY and ISO strings
+function normalizeDate(value: string): string {
+  if (!value) return '';
+  const dmy = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dmy) {
+    return `${dmy[1].padStart(2, '0')}/${dmy[2].padStart(2, '0')}/${dmy[3]}`;
+  }
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[3]}/${iso[2]}/${iso[1]}`;
+  }
+  return value;
+}
+
+function splitFullName(fullName: string): { prenom: string; nom: string } {
+  const parts = fullName.split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) return { prenom: '', nom: parts[0] || '' };
+  return { prenom: parts[0], nom: parts.slice(1).join(' ') };
+}
+
+function resolveProprietaire(
+  name: string,
+  proprietaires: ProprietaireWithDetails[]
+): Pick<StationFormData, 'TypeProprietaire' | 'PrenomProprietaire' | 'NomProprietaire' | 'NomEntreprise'> {
+  const empty = { TypeProprietaire: 'Physique' as const, PrenomProprietaire: '', NomProprietaire: '', NomEntreprise: '' };
+  if (!name) return empty;
+
+  const lower = name.toLowerCase();
+  const known = proprietaires.find(p => {
+    if (!p.details) return false;
+    if (p.TypeProprietaire === 'Morale') {
+      return (p.details as ProprietaireMorale).NomEntreprise?.trim().toLowerCase() === lower;
+    }
+    const d = p.details as ProprietairePhysique;
+    return `${d.PrenomProprietaire || ''} ${d.NomProprietaire || ''}`.trim().toLowerCase() === lower;
+  });
+
+  if (known?.details) {
+    if (known.TypeProprietaire === 'Morale') {
+      return { ...empty, TypeProprietaire: 'Morale', NomEntreprise: (known.details as ProprietaireMorale).NomEntreprise };
+    }
+    const d = known.details as ProprietairePhysique;
+    return { ...empty, PrenomProprietaire: d.PrenomProprietaire, NomProprietaire: d.NomProprietaire };
+  }
+
+  if (COMPANY_PATTERN.test(name)) {
+    return { ...empty, TypeProprietaire: 'Morale', NomEntreprise: name };
+  }
+
+  const { prenom, nom } = splitFullName(name);
+  return { ...empty, PrenomProprietaire: prenom, NomProprietaire: nom };
+}
+
+function flattenErrors(errors: NormalizedFormErrors): string[] {
+  const messages: string[] = [];
+  for (const [key, value] of Object.entries(errors)) {
+    if (key === 'submit' || !value) continue;
+    if (Array.isArray(value)) {
+      const itemLabel = key === 'cuves' ? 'Cuve' : 'Autorisation';
+      value.forEach((itemErrors, idx) => {
+        Object.values(itemErrors || {}).forEach(msg => msg && messages.push(`${itemLabel} ${idx + 1}: ${msg}`));
+      });
+    } else {
+      const label = FIELD_LABELS[key as keyof StationFormData] || key;
+      messages.push(`${label}: ${value}`);
+    }
+  }
+  return messages;
+}
+
+/**
+ * Latitude and longitude of a row, read from the GPS columns or else converted from the
+ * Lambert ones. Without a zone column, the zone is detected, the outline of the row's
+ * province telling apart zones that give valid coordinates for the same numbers.
+ */
+function readCoordinates(
+  get: ReturnType<typeof readRow>,
+  provinceOutline: LimiteGeometry | undefined,
+  errors: string[]
+): { Latitude: string; Longitude: string } {
+  const latitude = get('Latitude');
+  const longitude = get('Longitude');
+  const xRaw = get('LambertX');
+  const yRaw = get('LambertY');
+  if (latitude || longitude || (!xRaw && !yRaw)) {
+    return { Latitude: (latitude || '0').replace(',', '.'), Longitude: (longitude || '0').replace(',', '.') };
+  }
+
+  const x = Number(xRaw.replace(/\s/g, '').replace(',', '.'));
+  const y = Number(yRaw.replace(/\s/g, '').replace(',', '.'));
+  const zoneRaw = get('LambertZone');
+  const zone = zoneRaw
+    ? parseLambertZone(zoneRaw)
+    : detectLambertZone(x, y, provinceOutline ? p => containsPoint(provinceOutline, p.lat, p.lng) : undefined);
+  const point = zone && Number.isFinite(x) && Number.isFinite(y) && isInLambertZone(x, y, zone) ? lambertToWgs84(x, y, zone) : null;
+  if (!point) {
+    errors.push(
+      zoneRaw && !zone
+        ? `Zone Lambert: valeur invalide "${zoneRaw}"`
+        : `Coordonnées Lambert: valeurs invalides "${xRaw}", "${yRaw}"${zoneRaw ? ` en ${zoneRaw}` : ''}`
+    );
+    return { Latitude: '0', Longitude: '0' };
+  }
+  return { Latitude: point.lat.toFixed(6), Longitude: point.lng.toFixed(6) };
+}
+
+// Liters per produit, to tell whether a file changes the capacities of a station
+function capaciteTotals(cuves: StationFormData['cuves']): string {
+  const totals = new Map<string, number>();
+  cuves.forEach(c => totals.set(c.TypeCarburant, (totals.get(c.TypeCarburant) || 0) + Number(c.CapaciteLitres.replace(',', '.'))));
+  return [...totals].filter(([, litres]) => litres > 0).sort(([a], [b]) => a.localeCompare(b)).join(';');
+}
+
+function readRow(worksheet: Worksheet, rowNumber: number, columnIndex: Map<StationExcelKey, number>) {
+  const row = worksheet.getRow(rowNumber);
+  const get = (key: StationExcelKey) => {
+    const idx = columnIndex.get(key);
+    return idx ? cleanValue(cellToString(row.getCell(idx).value)) : '';
+  };
+  return get;
+}
+
+/**
+ * Reads a stations workbook written with STATION_EXCEL_COLUMNS and validates every row
+ * against stationSchema. Rows whose Code matches an existing station are flagged as updates;
+ * the other rows keep their Code when the station is created, so importing a file twice
+ * updates the stations of the first import. `existingStations` includes the recycle bin.
+ * Nothing is written to Firestore here: this is the dry-run step of the import.
+ * `provinceOutlines` (by normalized province name) helps detecting the Lambert zone.
+ */
+export async function parseStationsWorkbook(
+  file: File | ArrayBuffer,
+  existingStations: StationWithDetails[],
+  proprietaires: ProprietaireWithDetails[] = [],
+  produits: string[] = APP_CONSTANTS.PRODUITS.DEFAULTS,
+  provinceOutlines: Map<string, LimiteGeometry> = new Map()
+): Promise<StationImportRow[]> {
+  const Excel = await loadExcel();
+  const workbook = new Excel.Workbook();
+  const buffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer();
+  await workbook.xlsx.load(buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error('Le fichier ne contient aucune feuille.');
+  }
+
+  // Map headers to column indexes so the column order in the file does not matter
+  const columnIndex = new Map<StationExcelKey, number>();
+  const capaciteColumns: { produit: string; colNumber: number }[] = [];
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    const header = cellToString(cell.value).toLowerCase();
+    const column = STATION_EXCEL_COLUMNS.find(c => c.header.toLowerCase() === header);
+    if (column) {
+      columnIndex.set(column.key, colNumber);
+    } else if (header.startsWith(CAPACITE_HEADER_PREFIX.toLowerCase())) {
+      const name = cellToString(cell.value).slice(CAPACITE_HEADER_PREFIX.length).trim();
+      // Match the produit list case-insensitively, keep unknown produits so the row reports them
+      const produit = produits.find(p => p.toLowerCase() === name.toLowerCase()) || name;
+      capaciteColumns.push({ produit, colNumber });
+    }
+  });
+
+  const missing = (['Marque', 'NomProvince', 'NomCommune'] as StationExcelKey[])
+    .filter(key => !columnIndex.has(key))
+    .map(key => STATION_EXCEL_COLUMNS.find(c => c.key === key)!.header);
+  if (missing.length > 0) {
+    throw new Error(`Colonnes manquantes : ${missing.join(', ')}`);
+  }
+
+  const stationsByCode = new Map(existingStations.map(s => [s.station.Code, s]));
+  const seenCodes = new Map<number, number>();
+  const rows: StationImportRow[] = [];
+
+  for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+    if (!worksheet.getRow(rowNumber).hasValues) continue;
+    const get = readRow(worksheet, rowNumber, columnIndex);
+
+    const codeRaw = get('Code');
+    const code = codeRaw ? Number(codeRaw) : null;
+    const errors: string[] = [];
+    if (codeRaw && !Number.isInteger(code)) {
+      errors.push(`Code: valeur invalide "${codeRaw}"`);
+    }
+
+    const gerant = splitFullName(get('Gerant'));
+    const autorisations: StationFormData['autorisations'] = [];
+    if (get('NumeroCreation') || get('DateCreation')) {
+      autorisations.push({
+        TypeAutorisation: 'création',
+        NumeroAutorisation: get('NumeroCreation'),
+        DateAutorisation: normalizeDate(get('DateCreation')),
+        DateExpiration: '',
+      });
+    }
+    if (get('NumeroMiseEnService') || get('DateMiseEnService')) {
+      autorisations.push({
+        TypeAutorisation: 'mise en service',
+        NumeroAutorisation: get('NumeroMiseEnService'),
+        DateAutorisation: normalizeDate(get('DateMiseEnService')),
+        DateExpiration: '',
+      });
+    }
+
+    // The sheet only carries a total per produit, imported as a single tank each (see below for updates)
+    const cuves: StationFormData['cuves'] = [];
+    capaciteColumns.forEach(({ produit, colNumber }) => {
+      const capacite = cleanValue(cellToString(worksheet.getRow(rowNumber).getCell(colNumber).value));
+      if (!capacite || Number(capacite.replace(',', '.')) === 0) return;
+      if (!produits.includes(produit)) {
+        errors.push(`Capacité ${produit}: produit inconnu`);
+        return;
+      }
+      cuves.push({
+        IdentifiantCuve: `C${cuves.length + 1}`,
+        TypeCarburant: produit,
+        CapaciteLitres: capacite,
+        DateInstallation: '',
+        Materiau: '',
+      });
+    });
+
+    const formData: StationFormData = {
+      NomStation: get('NomStation'),
+      Adresse: get('Adresse'),
+      ...readCoordinates(get, provinceOutlines.get(normalizeName(get('NomProvince'))), errors),
+      Type: (get('Type').toLowerCase() || 'service') as StationFormData['Type'],
+      Marque: get('Marque'),
+      RaisonSociale: get('RaisonSociale'),
+      Province: get('NomProvince'),
+      Commune: get('NomCommune'),
+      PrenomGerant: gerant.prenom,
+      NomGerant: gerant.nom,
+      CINGerant: get('CINGerant'),
+      Telephone: get('Telephone'),
+      ...resolveProprietaire(get('Proprietaire'), proprietaires),
+      autorisations,
+      cuves,
+      TypeGerance: (get('TypeGerance').toLowerCase() || 'libre') as StationFormData['TypeGerance'],
+      Statut: (get('Statut').toLowerCase() || 'en activité') as StationFormData['Statut'],
+      Commentaires: get('Commentaires'),
+      NombreVolucompteur: get('NombreVolucompteur') || '0',
+    };
+
+    const { isValid, errors: fieldErrors } = validateStationData(formData);
+    if (!isValid) {
+      errors.push(...flattenErrors(fieldErrors));
+    }
+
+    for (const auto of autorisations) {
+      if (auto.DateAutorisation && !/^\d{2}\/\d{2}\/\d{4}$/.test(auto.DateAutorisation)) {
+        errors.push(`Date ${auto.TypeAutorisation}: format attendu JJ/MM/AAAA`);
+      }
+    }
+
+    if (code !== null && Number.isInteger(code)) {
+      const firstRow = seenCodes.get(code);
+      if (firstRow) {
+        errors.push(`Code ${code} déjà présent à la ligne ${firstRow}`);
+      } else {
+        seenCodes.set(code, rowNumber);
+      }
+    }
+
+    const existing = code !== null ? stationsByCode.get(code) : undefined;
+    if (existing?.station.DeletedAt) {
+      errors.push(`Code ${code}: la station est dans la corbeille, restaurez-la avant l'import`);
+    } else if (existing) {
+      formData.id = existing.station.StationID;
+      // The file only has totals: keep the station's tanks unless a total changed
+      const existingCuves = stationWithDetailsToFormData(existing).cuves;
+      if (capaciteTotals(existingCuves) === capaciteTotals(cuves)) {
+        formData.cuves = existingCuves;
+      }
+    }
+
+    rows.push({
+      rowNumber,
+      code: code !== null && Number.isInteger(code) ? code : null,
+      formData,
+      action: errors.length > 0 ? 'error' : existing ? 'update' : 'create',
+      existingStationId: existing?.station.StationID,
+      errors,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Downloads a workbook listing every rejected row with its validation messages.
+ */
+export async function exportImportErrorReport(rows: StationImportRow[], filename: string) {
+  const Excel = await loadExcel();
+
+  const workbook = new Excel.Workbook();
+  const worksheet = workbook.addWorksheet('Erreurs');
+
+  worksheet.columns = [
+    { header: 'Ligne', key: 'rowNumber', width: 10 },
+    { header: 'Code', key: 'code', width: 12 },
+    { header: 'Nom Station', key: 'NomStation', width: 25 },
+    { header: 'Marque', key: 'Marque', width: 20 },
+    { header: 'Erreurs', key: 'errors', width: 80 },
+  ];
+
+  rows
+    .filter(r => r.errors.length > 0)
+    .forEach(r => {
+      const added = worksheet.addRow({
+        rowNumber: r.rowNumber,
+        code: r.code ?? '',
+        NomStation: r.formData.NomStation,
+        Marque: r.formData.Marque,
+        errors: r.errors.join('\n'),
+      });
+      added.getCell('errors').alignment = { wrapText: true, vertical: 'top' };
+    });
+
+  await saveWorkbook(workbook, filename);
+}
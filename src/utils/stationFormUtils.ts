@@ -1,5 +1,8 @@
 // src/utils/stationFormUtils.ts
-import { StationWithDetails, StationFormData } from '@/types/station';
+import { StationWithDetails, StationFormData, CapaciteStockage } from '@/types/station';
+import { parseDateString } from '@/utils/format';
+
+type CuveFormData = StationFormData['cuves'][number];
 
 /**
  * Format a Date object to DD/MM/YYYY string for form input
@@ -17,10 +20,6 @@ function formatDateForInput(date: Date | null): string {
 export function stationWithDetailsToFormData(stationData: StationWithDetails): StationFormData {
   const { station, marque, commune, province, gerant, proprietaire, autorisations, capacites } = stationData;
 
-  // Get capacities by type
-  const gasoilCapacity = capacites?.find(c => c.TypeCarburant === 'Gasoil');
-  const sspCapacity = capacites?.find(c => c.TypeCarburant === 'SSP');
-
   return {
     id: station.StationID,
     NomStation: station.NomStation || '',
@@ -56,14 +55,37 @@ export function stationWithDetailsToFormData(stationData: StationWithDetails): S
           .map(a => ({
             TypeAutorisation: a.TypeAutorisation,
             NumeroAutorisation: a.NumeroAutorisation || '',
-            DateAutorisation: formatDateForInput(a.DateAutorisation)
+            DateAutorisation: formatDateForInput(a.DateAutorisation),
+            DateExpiration: formatDateForInput(a.DateExpiration ?? null)
           }))
-      : [{ TypeAutorisation: 'création', NumeroAutorisation: '', DateAutorisation: '' }],
-    CapaciteGasoil: gasoilCapacity?.CapaciteLitres?.toString() || '0',
-    CapaciteSSP: sspCapacity?.CapaciteLitres?.toString() || '0',
+      : [{ TypeAutorisation: 'création', NumeroAutorisation: '', DateAutorisation: '', DateExpiration: '' }],
+    // Legacy rows of 0 L stood for produits the station does not sell, they are not tanks
+    cuves: (capacites || []).filter(c => c.CapaciteLitres > 0).map((c, index) => ({
+      // Rows saved before tanks were tracked individually have no identifier
+      IdentifiantCuve: c.IdentifiantCuve || `${c.TypeCarburant}-${index + 1}`,
+      TypeCarburant: c.TypeCarburant,
+      CapaciteLitres: c.CapaciteLitres?.toString() || '',
+      DateInstallation: formatDateForInput(c.DateInstallation ?? null),
+      Materiau: c.Materiau || '',
+    })),
     TypeGerance: station.TypeGerance || 'libre',
     Statut: station.Statut || 'en activité',
     Commentaires: station.Commentaires || '',
     NombreVolucompteur: station.NombreVolucompteur ? station.NombreVolucompteur.toString() : '0'
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Builds the stored tank row for a tank entered in the station form.
+ */
+export function cuveToCapacite(cuve: CuveFormData, capaciteId: string, stationId: string): CapaciteStockage {
+  return {
+    CapaciteID: capaciteId,
+    StationID: stationId,
+    TypeCarburant: cuve.TypeCarburant,
+    CapaciteLitres: parseFloat(cuve.CapaciteLitres.replace(',', '.')),
+    IdentifiantCuve: cuve.IdentifiantCuve.trim(),
+    DateInstallation: cuve.DateInstallation ? parseDateString(cuve.DateInstallation) : null,
+    Materiau: cuve.Materiau.trim(),
+  };
+}
@@ -0,0 +1,147 @@
+// src/utils/stationSearch.ts
+import { StationView, StationWithDetails } from '@/types/station';
+import { getProprietaireName } from '@/utils/format';
+import { normalizeName } from '@/utils/duplicates';
+
+// Columns the table can sort on; each one has a normalized copy under Tri.* in the projection
+export const SORTABLE_STATION_COLUMNS = [
+  'Code',
+  'Marque',
+  'NomStation',
+  'Proprietaire',
+  'Gerant',
+  'Adresse',
+  'NomProvince',
+  'NomCommune',
+] as const;
+
+// Columns filtered with an exact match on the projection field of the same name
+export const FILTERABLE_STATION_COLUMNS = ['Marque', 'NomProvince', 'NomCommune', 'Type', 'Statut', 'TypeGerance'] as const;
+
+// Word prefixes longer than this are cut, and so are the searched words
+const SEARCH_PREFIX_MAX = 15;
+
+export function isSortableStationColumn(key: string): boolean {
+  return (SORTABLE_STATION_COLUMNS as readonly string[]).includes(key);
+}
+
+/**
+ * Normalized words of a search query, each cut to the longest indexed prefix.
+ */
+export function getSearchWords(searchQuery: string): string[] {
+  return normalizeName(searchQuery)
+    .split(' ')
+    .filter(Boolean)
+    .map((w) => w.slice(0, SEARCH_PREFIX_MAX));
+}
+
+// Every prefix of every word, so that "afr" finds "Afriquia"
+function buildSearchPrefixes(text: string): string[] {
+  const prefixes = new Set<string>();
+  text.split(' ').filter(Boolean).forEach((word) => {
+    for (let i = 1; i <= Math.min(word.length, SEARCH_PREFIX_MAX); i++) {
+      prefixes.add(word.slice(0, i));
+    }
+  });
+  return [...prefixes];
+}
+
+/**
+ * Whether an entry matches every word of a search query. The first word is usually
+ * already matched by the query itself; the others are checked on the client.
+ */
+export function matchesSearch(entry: StationView, words: string[]): boolean {
+  const text = ` ${entry.TexteRecherche}`;
+  return words.every((w) => text.includes(` ${w}`));
+}
+
+export function getCapacite(entry: StationView, carburant: string): number {
+  return entry.Capacites?.[carburant] ?? 0;
+}
+
+function isValidDate(date: Date | null | undefined): date is Date {
+  return date instanceof Date && !isNaN(date.getTime());
+}
+
+/**
+ * Flattens a joined station into its stations_view document.
+ */
+export function buildStationView(s: StationWithDetails): StationView {
+  const gerant = `${s.gerant?.PrenomGerant || ''} ${s.gerant?.NomGerant || ''}`.trim();
+  const proprietaire = s.proprietaire ? getProprietaireName(s) : '';
+
+  const capacites: Record<string, number> = {};
+  s.capacites.forEach((c) => {
+    capacites[c.TypeCarburant] = (capacites[c.TypeCarburant] || 0) + (c.CapaciteLitres || 0);
+  });
+
+  const annees = new Set<number>();
+  s.analyses.forEach((a) => {
+    if (isValidDate(a.DateAnalyse)) annees.add(a.DateAnalyse.getFullYear());
+  });
+  const derniereAnalyse = s.analyses
+    .filter((a) => isValidDate(a.DateAnalyse))
+    .sort((a, b) => b.DateAnalyse!.getTime() - a.DateAnalyse!.getTime())[0];
+
+  const datesAutorisation = s.autorisations.map((a) => a.DateAutorisation).filter(isValidDate).map((d) => d.getTime());
+  const datesExpiration = s.autorisations.map((a) => a.DateExpiration).filter(isValidDate).map((d) => d.getTime());
+
+  const columns: Record<(typeof SORTABLE_STATION_COLUMNS)[number], string> = {
+    Code: String(s.station.Code ?? ''),
+    Marque: s.marque?.Marque || '',
+    NomStation: s.station.NomStation || '',
+    Proprietaire: proprietaire,
+    Gerant: gerant,
+    Adresse: s.station.Adresse || '',
+    NomProvince: s.province?.NomProvince || '',
+    NomCommune: s.commune?.NomCommune || '',
+  };
+  const texte = normalizeName(
+    [columns.NomStation, columns.Adresse, columns.Marque, columns.NomCommune, columns.NomProvince, columns.Proprietaire, columns.Gerant, columns.Code].join(' ')
+  );
+
+  return {
+    StationID: s.station.StationID,
+    Code: s.station.Code || 0,
+    NomStation: columns.NomStation,
+    Adresse: columns.Adresse,
+    Latitude: s.station.Latitude,
+    Longitude: s.station.Longitude,
+    Type: s.station.Type,
+    Statut: s.station.Statut,
+    TypeGerance: s.station.TypeGerance,
+    NombreVolucompteur: s.station.NombreVolucompteur ?? 0,
+    Commentaires: s.station.Commentaires || '',
+    MarqueID: s.station.MarqueID || '',
+    CommuneID: s.station.CommuneID || '',
+    ProvinceID: s.commune?.ProvinceID || '',
+    GerantID: s.station.GerantID || '',
+    ProprietaireID: s.station.ProprietaireID || '',
+    Marque: columns.Marque,
+    RaisonSociale: s.marque?.RaisonSociale || '',
+    NomCommune: columns.NomCommune,
+    NomProvince: columns.NomProvince,
+    Gerant: gerant,
+    CINGerant: s.gerant?.CINGerant || '',
+    Telephone: s.gerant?.Telephone || '',
+    Proprietaire: proprietaire,
+    Capacites: capacites,
+    CapaciteTotale: Object.values(capacites).reduce((sum, litres) => sum + litres, 0),
+    NumeroCreation: s.creationAutorisation?.NumeroAutorisation || '',
+    DateCreation: s.creationAutorisation?.DateAutorisation ?? null,
+    NumeroMiseEnService: s.miseEnServiceAutorisation?.NumeroAutorisation || '',
+    DateMiseEnService: s.miseEnServiceAutorisation?.DateAutorisation ?? null,
+    DerniereAutorisation: datesAutorisation.length > 0 ? new Date(Math.max(...datesAutorisation)) : null,
+    ProchaineExpiration: datesExpiration.length > 0 ? new Date(Math.min(...datesExpiration)) : null,
+    AnalyseAnnees: [...annees].sort((a, b) => a - b),
+    Analysee: s.analyses.length > 0,
+    DerniereAnalyse: derniereAnalyse?.DateAnalyse ?? null,
+    ResultatDerniereAnalyse: derniereAnalyse?.ResultatAnalyse ?? null,
+    Tri: {
+      ...Object.fromEntries(Object.entries(columns).map(([key, value]) => [key, normalizeName(value)])),
+      Code: s.station.Code || 0,
+    },
+    Recherche: buildSearchPrefixes(texte),
+    TexteRecherche: texte,
+  };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { StationStatut, StatusChange } from '@/types/station';
+import { countStatusesByMonth, getStatusAt, getStatusTransitionError, STATION_STATUTS, STATUS_TRANSITIONS } from './stationStatus';
+
+function change(from: StationStatut | null, to: StationStatut, date: string, stationId = 's1'): StatusChange {
+  return {
+    StatusChangeID: `${stationId}-${date}`,
+    StationID: stationId,
+    StatutPrecedent: from,
+    Statut: to,
+    DateEffet: new Date(date),
+    Motif: '',
+    uid: null,
+    userEmail: null,
+    DateSaisie: null,
+  };
+}
+
+describe('getStatusTransitionError', () => {
+  const withMiseEnService = { hasMiseEnService: true };
+
+  it('allows every listed transition', () => {
+    STATION_STATUTS.forEach((from) => {
+      STATUS_TRANSITIONS[from].forEach((to) => {
+        expect(getStatusTransitionError(from, to, withMiseEnService)).toBeNull();
+      });
+    });
+  });
+
+  it('refuses the transitions that are not listed', () => {
+    expect(getStatusTransitionError('en projet', 'en arrêt', withMiseEnService)).toMatch(/non autorisé/);
+  });
+
+  it('allows keeping the same status', () => {
+    STATION_STATUTS.forEach((statut) => {
+      expect(getStatusTransitionError(statut, statut, { hasMiseEnService: false })).toBeNull();
+    });
+  });
+
+  it('requires a mise en service autorisation to become active', () => {
+    expect(getStatusTransitionError('en projet', 'en activité', { hasMiseEnService: false })).toMatch(/mise en service/);
+    expect(getStatusTransitionError('en arrêt', 'en activité', { hasMiseEnService: false })).toMatch(/mise en service/);
+  });
+
+  it('checks a new station only for the mise en service', () => {
+    expect(getStatusTransitionError(null, 'en arrêt', { hasMiseEnService: false })).toBeNull();
+    expect(getStatusTransitionError(undefined, 'en activité', { hasMiseEnService: false })).toMatch(/mise en service/);
+  });
+});
+
+describe('getStatusAt', () => {
+  const history = [
+    change('en activité', 'en arrêt', '2024-06-01'),
+    change(null, 'en projet', '2023-01-01'),
+    change('en projet', 'en activité', '2023-09-01'),
+  ];
+
+  it('replays the history up to the date', () => {
+    expect(getStatusAt('en arrêt', history, new Date('2023-05-01'))).toBe('en projet');
+    expect(getStatusAt('en arrêt', history, new Date('2024-01-01'))).toBe('en activité');
+    expect(getStatusAt('en arrêt', history, new Date('2025-01-01'))).toBe('en arrêt');
+  });
+
+  it('returns null before the station was created', () => {
+    expect(getStatusAt('en arrêt', history, new Date('2022-01-01'))).toBeNull();
+  });
+
+  it('uses the current status without history', () => {
+    expect(getStatusAt('en activité', [], new Date('2000-01-01'))).toBe('en activité');
+  });
+});
+
+describe('countStatusesByMonth', () => {
+  it('counts the stations in their status at the end of each month', () => {
+    const rows = countStatusesByMonth(
+      [
+        { StationID: 's1', Statut: 'en arrêt' },
+        { StationID: 's2', Statut: 'en activité' },
+      ],
+      [change('en activité', 'en arrêt', '2024-02-15T12:00:00')],
+      3,
+      new Date('2024-03-10T12:00:00')
+    );
+
+    expect(rows.map((r) => r.month)).toEqual(['01/2024', '02/2024', '03/2024']);
+    expect(rows.map((r) => [r['en activité'], r['en arrêt']])).toEqual([[2, 0], [1, 1], [1, 1]]);
+  });
+});
@@ -0,0 +1,111 @@
+// src/utils/stationStatus.ts
+import { StationStatut, StatusChange } from '@/types/station';
+import { AuditUser } from '@/utils/audit';
+import { generateUUID } from '@/utils/uuid';
+
+export const STATION_STATUTS: StationStatut[] = ['en projet', 'en activité', 'en arrêt', 'archivé'];
+
+// Statuses a station can move to from each status
+export const STATUS_TRANSITIONS: Record<StationStatut, StationStatut[]> = {
+  'en projet': ['en activité', 'archivé'],
+  'en activité': ['en arrêt', 'archivé'],
+  'en arrêt': ['en activité', 'archivé'],
+  'archivé': ['en projet', 'en activité', 'en arrêt'],
+};
+
+export type StatusTransitionContext = {
+  hasMiseEnService: boolean; // The station has a "mise en service" autorisation
+};
+
+/**
+ * Returns why a status change is not allowed, or null when it is.
+ */
+export function getStatusTransitionError(
+  from: StationStatut | null | undefined,
+  to: StationStatut,
+  context: StatusTransitionContext
+): string | null {
+  if (from && from !== to && !STATUS_TRANSITIONS[from].includes(to)) {
+    return `Passage de « ${from} » à « ${to} » non autorisé`;
+  }
+  if (to === 'en activité' && from !== 'en activité' && !context.hasMiseEnService) {
+    return 'Une autorisation de mise en service est requise pour passer la station « en activité »';
+  }
+  return null;
+}
+
+export type StatusChangeParams = {
+  stationId: string;
+  from: StationStatut | null;
+  to: StationStatut;
+  effectiveDate?: Date | null;
+  reason: string;
+};
+
+/**
+ * Build a status history document (without DateSaisie, which is set by the server).
+ */
+export function buildStatusChange(params: StatusChangeParams, user: AuditUser): Omit<StatusChange, 'DateSaisie'> {
+  return {
+    StatusChangeID: generateUUID(),
+    StationID: params.stationId,
+    StatutPrecedent: params.from,
+    Statut: params.to,
+    DateEffet: params.effectiveDate ?? new Date(),
+    Motif: params.reason.trim(),
+    uid: user.uid,
+    userEmail: user.email,
+  };
+}
+
+/**
+ * Status of a station at a given date, replayed from its history.
+ * Returns null when the station did not exist yet.
+ */
+export function getStatusAt(currentStatut: StationStatut, changes: StatusChange[], date: Date): StationStatut | null {
+  const sorted = changes
+    .filter((c) => c.DateEffet)
+    .sort((a, b) => a.DateEffet!.getTime() - b.DateEffet!.getTime());
+  if (sorted.length === 0) return currentStatut;
+
+  let status: StationStatut | null = sorted[0].StatutPrecedent;
+  for (const change of sorted) {
+    if (change.DateEffet!.getTime() > date.getTime()) break;
+    status = change.Statut;
+  }
+  return status;
+}
+
+export type StatusCountsRow = { month: string } & Record<StationStatut, number>;
+
+/**
+ * Number of stations in each status at the end of each of the last `months` months.
+ * Stations without any history are counted in their current status throughout.
+ */
+export function countStatusesByMonth(
+  stations: { StationID: string; Statut: StationStatut }[],
+  changes: StatusChange[],
+  months = 12,
+  now = new Date()
+): StatusCountsRow[] {
+  const byStation = new Map<string, StatusChange[]>();
+  changes.forEach((c) => byStation.set(c.StationID, [...(byStation.get(c.StationID) || []), c]));
+
+  const rows: StatusCountsRow[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    // Last millisecond of the month, capped to now for the current month
+    const end = new Date(now.getFullYear(), now.getMonth() - i + 1, 1, 0, 0, 0, -1);
+    const at = end.getTime() > now.getTime() ? now : end;
+    const row = {
+      month: `${String(at.getMonth() + 1).padStart(2, '0')}/${at.getFullYear()}`,
+      ...Object.fromEntries(STATION_STATUTS.map((s) => [s, 0])),
+    } as StatusCountsRow;
+
+    stations.forEach((station) => {
+      const status = getStatusAt(station.Statut, byStation.get(station.StationID) || [], at);
+      if (status) row[status] += 1;
+    });
+    rows.push(row);
+  }
+  return rows;
+}
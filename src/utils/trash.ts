@@ -0,0 +1,30 @@
+// src/utils/trash.ts
+// Deleted stations stay in the corbeille for this long before they can be purged.
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read a DeletedAt value from either SDK (Timestamp), a Date or an ISO string.
+ */
+export function toDeletedAt(value: unknown): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  if (typeof value === 'string') {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export function isPurgeable(deletedAt: Date | null | undefined, now = new Date()): boolean {
+  if (!deletedAt) return false;
+  return getPurgeDate(deletedAt).getTime() <= now.getTime();
+}